@@ -8,6 +8,8 @@ import CalendarPage from "./pages/calendar/CalendarPage"
 import SubmissionSettingsPage from "./pages/admin/SubmissionSettingsPage"
 import UsersPage from "./pages/admin/UsersPage"
 import UploadLogsPage from "./pages/admin/UploadLogsPage"
+import UploadAnalyticsPage from "./pages/admin/UploadAnalyticsPage"
+import ReviewQueuePage from "./pages/admin/ReviewQueuePage"
 import { Toaster } from "./components/ui/toaster"
 import { TooltipProvider } from "./components/ui/tooltip"
 import { ReloadPrompt } from "./components/ReloadPrompt"
@@ -22,9 +24,12 @@ function App() {
                         <Route element={<RequireAuth><AppLayout /></RequireAuth>}>
                             <Route path="/" element={<CalendarPage />} />
                             <Route element={<RequireAdmin />}>
+                                <Route path="/admin/review" element={<ReviewQueuePage />} />
                                 <Route path="/admin/submission-settings" element={<SubmissionSettingsPage />} />
                                 <Route path="/admin/users" element={<UsersPage />} />
                                 <Route path="/admin/upload-logs" element={<UploadLogsPage />} />
+                                <Route path="/admin/upload-logs/:sessionId" element={<UploadLogsPage />} />
+                                <Route path="/admin/upload-analytics" element={<UploadAnalyticsPage />} />
                             </Route>
                         </Route>
                     </Routes>
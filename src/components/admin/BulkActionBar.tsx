@@ -0,0 +1,100 @@
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { CheckCircle2, XCircle, MinusCircle, RotateCcw, X, Loader2 } from 'lucide-react'
+import type { WorkoutStatus } from '@/utils/workoutStatus'
+
+interface BulkActionBarProps {
+    selectedCount: number
+    onApply: (status: WorkoutStatus, reps: number | null) => Promise<void>
+    onClear: () => void
+}
+
+/** 選択中の投稿をまとめて承認/却下/免除/未確認に戻す（カレンダー・レビューキュー） */
+export function BulkActionBar({ selectedCount, onApply, onClear }: BulkActionBarProps) {
+    const [repsInput, setRepsInput] = useState('')
+    const [isApplying, setIsApplying] = useState(false)
+
+    if (selectedCount === 0) return null
+
+    const reps = repsInput === '' ? null : parseInt(repsInput, 10)
+    const isRepsInvalid = reps !== null && (isNaN(reps) || reps < 0)
+
+    const handleApply = async (status: WorkoutStatus) => {
+        if (status === null && !window.confirm(`${selectedCount}件の投稿を未確認に戻してもよろしいですか？`)) {
+            return
+        }
+        setIsApplying(true)
+        try {
+            await onApply(status, status === 'success' ? reps : null)
+        } finally {
+            setIsApplying(false)
+        }
+    }
+
+    return (
+        <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-[60] w-[calc(100%-1rem)] max-w-2xl">
+            <div className="flex flex-wrap items-center gap-2 rounded-lg border bg-background/95 backdrop-blur shadow-xl px-3 py-2">
+                <span className="text-sm font-bold shrink-0">{selectedCount}件選択中</span>
+                <div className="flex items-center gap-1">
+                    <Input
+                        type="number"
+                        min="0"
+                        placeholder="回数"
+                        title="空欄の場合は各投稿の回数を変更しません"
+                        value={repsInput}
+                        onChange={(e) => setRepsInput(e.target.value)}
+                        className="h-8 w-20 text-sm"
+                    />
+                    <span className="text-xs text-muted-foreground">回</span>
+                </div>
+                <Button
+                    size="sm"
+                    className="h-8 gap-1 bg-green-600 hover:bg-green-700"
+                    onClick={() => handleApply('success')}
+                    disabled={isApplying || isRepsInvalid}
+                >
+                    {isApplying ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <CheckCircle2 className="w-3.5 h-3.5" />}
+                    承認
+                </Button>
+                <Button
+                    size="sm"
+                    variant="outline"
+                    className="h-8 gap-1 text-red-600 hover:bg-red-50 hover:border-red-200"
+                    onClick={() => handleApply('fail')}
+                    disabled={isApplying}
+                >
+                    <XCircle className="w-3.5 h-3.5" /> 却下
+                </Button>
+                <Button
+                    size="sm"
+                    variant="outline"
+                    className="h-8 gap-1"
+                    onClick={() => handleApply('excused')}
+                    disabled={isApplying}
+                >
+                    <MinusCircle className="w-3.5 h-3.5" /> 免除
+                </Button>
+                <Button
+                    size="sm"
+                    variant="outline"
+                    className="h-8 gap-1"
+                    onClick={() => handleApply(null)}
+                    disabled={isApplying}
+                >
+                    <RotateCcw className="w-3.5 h-3.5" /> 未確認に戻す
+                </Button>
+                <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-8 w-8 ml-auto"
+                    onClick={onClear}
+                    disabled={isApplying}
+                    title="選択を解除"
+                >
+                    <X className="w-4 h-4" />
+                </Button>
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,150 @@
+import { useEffect, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { format, parseISO } from 'date-fns'
+import { supabase } from '@/lib/supabase'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { MessageSquareWarning, Check, ExternalLink } from 'lucide-react'
+import { UPLOAD_PHASE_LABELS } from '@/lib/upload-logger'
+import type { UploadDiagnosticReport } from '@/lib/upload-diagnostics'
+
+// 一覧に表示する報告の件数
+const MAX_REPORTS = 20
+
+interface DiagnosticReportRow {
+    id: number
+    user_id: string
+    session_id: string | null
+    note: string | null
+    report: UploadDiagnosticReport
+    created_at: string
+    read_at: string | null
+}
+
+interface UploadDiagnosticReportsCardProps {
+    /** 指定すると、そのセッションの報告のみ表示して既読にする（/admin/upload-logs/:sessionId） */
+    sessionId?: string
+    getUserName: (userId: string) => string
+}
+
+/** クライアントから送られた診断レポート（PendingUploadCard の「診断情報を送信」） */
+export function UploadDiagnosticReportsCard({ sessionId, getUserName }: UploadDiagnosticReportsCardProps) {
+    const [reports, setReports] = useState<DiagnosticReportRow[]>([])
+
+    useEffect(() => {
+        let cancelled = false
+
+        const fetchReports = async () => {
+            let query = supabase
+                .from('upload_diagnostic_reports' as any)
+                .select('*')
+                .order('created_at', { ascending: false }) as any
+            query = sessionId ? query.eq('session_id', sessionId) : query.limit(MAX_REPORTS)
+
+            const { data, error } = await query
+            if (cancelled) return
+            if (error) {
+                console.error('Failed to fetch diagnostic reports:', error)
+                return
+            }
+            const rows = (data as DiagnosticReportRow[]) || []
+            setReports(rows)
+
+            // セッションを開いた = 報告を確認した
+            const unreadIds = sessionId ? rows.filter(r => !r.read_at).map(r => r.id) : []
+            if (unreadIds.length > 0) markAsRead(unreadIds)
+        }
+        fetchReports()
+
+        return () => {
+            cancelled = true
+        }
+    }, [sessionId])
+
+    const markAsRead = async (ids: number[]) => {
+        const readAt = new Date().toISOString()
+        const { error } = await (supabase
+            .from('upload_diagnostic_reports' as any)
+            .update({ read_at: readAt })
+            .in('id', ids) as any)
+        if (error) {
+            console.error('Failed to mark diagnostic reports as read:', error)
+            return
+        }
+        setReports(prev => prev.map(r => ids.includes(r.id) ? { ...r, read_at: readAt } : r))
+    }
+
+    if (reports.length === 0) return null
+
+    const unreadCount = reports.filter(r => !r.read_at).length
+
+    return (
+        <Card className="overflow-hidden border-orange-200">
+            <CardContent className="p-4 space-y-3">
+                <div className="flex items-center gap-2">
+                    <MessageSquareWarning className="w-4 h-4 text-orange-500 shrink-0" />
+                    <span className="text-sm font-bold">クライアントからの報告</span>
+                    {unreadCount > 0 && (
+                        <span className="text-[10px] px-1.5 py-0.5 bg-orange-100 text-orange-700 rounded-full font-bold">
+                            未読 {unreadCount}件
+                        </span>
+                    )}
+                </div>
+
+                <div className="space-y-2">
+                    {reports.map(r => {
+                        const { job, device, networkState, lastError } = r.report
+                        const network = networkState.online
+                            ? `オンライン${networkState.effectiveType ? `（${networkState.effectiveType}）` : ''}`
+                            : 'オフライン'
+                        return (
+                            <div key={r.id} className={`rounded-md border p-2.5 text-xs space-y-1 ${r.read_at ? 'bg-background' : 'bg-orange-50/60'}`}>
+                                <div className="flex items-center gap-2 flex-wrap">
+                                    {!r.read_at && <span className="h-1.5 w-1.5 rounded-full bg-orange-500 shrink-0" />}
+                                    <span className="font-bold">{getUserName(r.user_id)}</span>
+                                    <span className="text-muted-foreground">
+                                        {job.label}（{format(parseISO(job.targetDate), 'M/d')}）
+                                    </span>
+                                    <span className="text-muted-foreground/70 ml-auto">
+                                        {new Date(r.created_at).toLocaleString('ja-JP')}
+                                    </span>
+                                </div>
+                                {r.note && (
+                                    <p className="whitespace-pre-wrap break-words border-l-2 border-orange-300 pl-2">{r.note}</p>
+                                )}
+                                <div className="text-destructive break-all">
+                                    {lastError
+                                        ? `${UPLOAD_PHASE_LABELS[lastError.phase]?.name ?? lastError.phase}: ${lastError.message}`
+                                        : job.error ?? '—'}
+                                </div>
+                                <div className="text-[10px] text-muted-foreground">
+                                    {[device.os, device.browser, device.isPWA ? 'PWA' : null, network, `v${r.report.appVersion}`]
+                                        .filter(Boolean)
+                                        .join(' / ')}
+                                    {' ・ '}
+                                    {job.fileName}（{(job.fileSize / 1024 / 1024).toFixed(1)} MB、{job.progress}%）
+                                </div>
+                                {(!sessionId || !r.read_at) && (
+                                    <div className="flex items-center gap-1.5 pt-0.5">
+                                        {!sessionId && r.session_id && (
+                                            <Button variant="outline" size="sm" className="h-6 text-[10px] px-2" asChild>
+                                                <Link to={`/admin/upload-logs/${r.session_id}`}>
+                                                    <ExternalLink className="w-2.5 h-2.5 mr-1" /> ログを開く
+                                                </Link>
+                                            </Button>
+                                        )}
+                                        {!r.read_at && (
+                                            <Button variant="ghost" size="sm" className="h-6 text-[10px] px-2" onClick={() => markAsRead([r.id])}>
+                                                <Check className="w-2.5 h-2.5 mr-1" /> 既読にする
+                                            </Button>
+                                        )}
+                                    </div>
+                                )}
+                            </div>
+                        )
+                    })}
+                </div>
+            </CardContent>
+        </Card>
+    )
+}
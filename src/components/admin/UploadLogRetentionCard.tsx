@@ -0,0 +1,202 @@
+import { useEffect, useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent } from '@/components/ui/card'
+import { ChevronDown, ChevronRight, Loader2, Archive } from 'lucide-react'
+import {
+    getNextPruneAt,
+    getRetentionPolicyError,
+    RETENTION_LIMITS,
+    type UploadLogRetention,
+    type UploadLogRetentionPolicy,
+    type UploadLogStats,
+} from '@/lib/upload-log-retention'
+
+const POLICY_FIELDS: { key: keyof UploadLogRetentionPolicy; label: string; unit: string }[] = [
+    { key: 'retention_days', label: '保持期間', unit: '日' },
+    { key: 'failed_retention_days', label: '失敗したセッションの保持期間', unit: '日' },
+    { key: 'max_sessions_per_user', label: 'ユーザーごとの上限', unit: '件' },
+    { key: 'prune_interval_hours', label: '整理の間隔', unit: '時間' },
+]
+
+interface UploadLogRetentionCardProps {
+    /** ログの件数が変わったとき（クリアなど）に容量を取り直すためのキー */
+    refreshKey: number
+    /** 即時整理でログが削除されたとき */
+    onPruned: () => void
+}
+
+function formatBytes(bytes: number): string {
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`
+    return `${(bytes / 1024 / 1024).toFixed(1)} MB`
+}
+
+/** upload_logs の保持ポリシー・現在の容量・次回の整理（UploadLogsPage） */
+export function UploadLogRetentionCard({ refreshKey, onPruned }: UploadLogRetentionCardProps) {
+    const [expanded, setExpanded] = useState(false)
+    const [settings, setSettings] = useState<UploadLogRetention | null>(null)
+    const [stats, setStats] = useState<UploadLogStats | null>(null)
+    const [draft, setDraft] = useState<Record<keyof UploadLogRetentionPolicy, string> | null>(null)
+    const [saving, setSaving] = useState(false)
+    const [pruning, setPruning] = useState(false)
+
+    const fetchRetention = async () => {
+        const [settingsResult, statsResult] = await Promise.all([
+            supabase
+                .from('upload_log_retention' as any)
+                .select('retention_days, failed_retention_days, max_sessions_per_user, prune_interval_hours, last_pruned_at, last_pruned_count')
+                .eq('id', 1)
+                .single() as any,
+            supabase.rpc('get_upload_log_stats' as any).single() as any,
+        ])
+
+        if (settingsResult.error) console.error('Failed to fetch upload log retention:', settingsResult.error)
+        if (statsResult.error) console.error('Failed to fetch upload log stats:', statsResult.error)
+
+        const data = settingsResult.data as UploadLogRetention | null
+        setSettings(data)
+        setStats(statsResult.data as UploadLogStats | null)
+        if (data) {
+            setDraft({
+                retention_days: String(data.retention_days),
+                failed_retention_days: String(data.failed_retention_days),
+                max_sessions_per_user: String(data.max_sessions_per_user),
+                prune_interval_hours: String(data.prune_interval_hours),
+            })
+        }
+    }
+
+    useEffect(() => {
+        fetchRetention()
+    }, [refreshKey])
+
+    const handleSave = async () => {
+        if (!draft) return
+        const policy: UploadLogRetentionPolicy = {
+            retention_days: Number(draft.retention_days),
+            failed_retention_days: Number(draft.failed_retention_days),
+            max_sessions_per_user: Number(draft.max_sessions_per_user),
+            prune_interval_hours: Number(draft.prune_interval_hours),
+        }
+        const validationError = getRetentionPolicyError(policy)
+        if (validationError) {
+            alert(validationError)
+            return
+        }
+
+        setSaving(true)
+        const { error } = await (supabase
+            .from('upload_log_retention' as any)
+            .update({ ...policy, updated_at: new Date().toISOString() })
+            .eq('id', 1) as any)
+        setSaving(false)
+
+        if (error) {
+            console.error('Failed to save upload log retention:', error)
+            alert('保持ポリシーの保存に失敗しました')
+            return
+        }
+        await fetchRetention()
+    }
+
+    const handlePruneNow = async () => {
+        setPruning(true)
+        const { data, error } = await supabase.functions.invoke('prune-upload-logs', { body: { force: true } })
+        setPruning(false)
+
+        if (error) {
+            console.error('Upload log pruning failed:', error)
+            alert('ログの整理に失敗しました')
+            return
+        }
+        console.log('Upload log pruning result:', data)
+        await fetchRetention()
+        onPruned()
+    }
+
+    const isDirty = !!settings && !!draft && POLICY_FIELDS.some(f => draft[f.key] !== String(settings[f.key]))
+
+    return (
+        <Card className="overflow-hidden">
+            <button
+                onClick={() => setExpanded(prev => !prev)}
+                className="w-full text-left p-4 hover:bg-muted/30 transition-colors"
+            >
+                <div className="flex items-center gap-3">
+                    {expanded
+                        ? <ChevronDown className="w-4 h-4 text-muted-foreground shrink-0" />
+                        : <ChevronRight className="w-4 h-4 text-muted-foreground shrink-0" />
+                    }
+                    <Archive className="w-4 h-4 text-muted-foreground shrink-0" />
+                    <div className="flex-1 min-w-0">
+                        <div className="text-sm font-bold">保持ポリシー</div>
+                        <div className="flex flex-wrap items-center gap-x-3 text-xs text-muted-foreground">
+                            {stats && (
+                                <span>
+                                    {stats.session_count}セッション（失敗 {stats.failed_count}）/ {formatBytes(stats.total_bytes)}
+                                </span>
+                            )}
+                            {settings && (
+                                <span>次回の整理: {getNextPruneAt(settings).toLocaleString('ja-JP')}以降</span>
+                            )}
+                        </div>
+                    </div>
+                </div>
+            </button>
+
+            {expanded && settings && draft && (
+                <CardContent className="pt-0 pb-4 px-4 space-y-4">
+                    <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs">
+                        <span className="text-muted-foreground">最も古いログ</span>
+                        <span>{stats?.oldest_at ? new Date(stats.oldest_at).toLocaleString('ja-JP') : '—'}</span>
+                        <span className="text-muted-foreground">前回の整理</span>
+                        <span>
+                            {settings.last_pruned_at
+                                ? `${new Date(settings.last_pruned_at).toLocaleString('ja-JP')}（${settings.last_pruned_count ?? 0}件削除）`
+                                : '未実行'}
+                        </span>
+                        <span className="text-muted-foreground">次回の整理</span>
+                        <span>{getNextPruneAt(settings).toLocaleString('ja-JP')}以降、管理者がアプリを開いたとき</span>
+                    </div>
+
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                        {POLICY_FIELDS.map(field => (
+                            <div key={field.key} className="space-y-1">
+                                <Label htmlFor={`retention-${field.key}`} className="text-xs">{field.label}</Label>
+                                <div className="flex items-center gap-2">
+                                    <Input
+                                        id={`retention-${field.key}`}
+                                        type="number"
+                                        min={RETENTION_LIMITS[field.key].min}
+                                        max={RETENTION_LIMITS[field.key].max}
+                                        value={draft[field.key]}
+                                        onChange={(e) => setDraft({ ...draft, [field.key]: e.target.value })}
+                                        className="h-8 w-28"
+                                    />
+                                    <span className="text-xs text-muted-foreground">{field.unit}</span>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                    <p className="text-[10px] text-muted-foreground">
+                        失敗したセッション（圧縮以外のフェーズで失敗し、完了していないもの）は調査のため長く保持します。
+                        ユーザーごとの上限を超えた分は古いものから削除します。
+                    </p>
+
+                    <div className="flex items-center justify-end gap-2">
+                        <Button variant="outline" size="sm" onClick={handlePruneNow} disabled={pruning || saving || isDirty}>
+                            {pruning && <Loader2 className="w-4 h-4 mr-1 animate-spin" />}
+                            今すぐ整理
+                        </Button>
+                        <Button size="sm" onClick={handleSave} disabled={saving || !isDirty}>
+                            {saving && <Loader2 className="w-4 h-4 mr-1 animate-spin" />}
+                            保存
+                        </Button>
+                    </div>
+                </CardContent>
+            )}
+        </Card>
+    )
+}
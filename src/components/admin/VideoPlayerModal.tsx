@@ -7,16 +7,41 @@ import {
     DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu'
 import { cn } from '@/lib/utils'
+import type { RecordingDateInfo } from '@/utils/recordingDate'
+import {
+    sortAnnotations,
+    getAnnotationMarkerPercent,
+    getActiveAnnotations,
+    type VideoAnnotation,
+} from '@/utils/videoAnnotations'
+import {
+    PLAYBACK_RATES,
+    FRAME_DURATION,
+    parseStoredPlaybackRate,
+    getAdjacentPlaybackRate,
+    getFrameStepTime,
+    updateFrameDurationEstimate,
+    buildLoopRange,
+    getLoopSeekTarget,
+    getSnapshotFileName,
+    setDirectVideoSource,
+} from '@/utils/videoReview'
 import {
     X, Play, Pause,
     Volume1, Volume2, VolumeX,
-    Maximize2, Minimize2,
+    Maximize2, Minimize2, Camera,
+    MessageSquarePlus, ListVideo, Trash2, Loader2,
+    StepBack, StepForward, Repeat, ImageDown,
 } from 'lucide-react'
 
 const LS_SPEED = 'fit-proof-video-speed'
 const LS_VOLUME = 'fit-proof-video-volume'
 const LS_MUTED = 'fit-proof-video-muted'
 
+// タッチ操作: 横にドラッグした距離（px）あたり1コマ送る
+const DRAG_PX_PER_FRAME = 16
+const DRAG_THRESHOLD_PX = 12
+
 function formatTime(seconds: number): string {
     if (!isFinite(seconds) || seconds < 0) return '0:00'
     const h = Math.floor(seconds / 3600)
@@ -29,15 +54,31 @@ function formatTime(seconds: number): string {
 interface VideoPlayerModalProps {
     videoUrl: string | null
     onClose: () => void
+    // 撮影日（トレーナー向け。提出日と異なる場合は強調する）
+    recordingInfo?: RecordingDateInfo | null
+    // 再生位置に紐づくメモ（シークバーのマーカー。クリックでその位置へ移動）
+    annotations?: VideoAnnotation[]
+    // 指定するとメモを追加・削除できる（トレーナー向け）
+    onAddAnnotation?: (timeSeconds: number, content: string) => Promise<{ success: boolean; error?: string }>
+    onDeleteAnnotation?: (annotationId: string) => Promise<{ success: boolean; error?: string }>
 }
 
-export function VideoPlayerModal({ videoUrl, onClose }: VideoPlayerModalProps) {
+export function VideoPlayerModal({
+    videoUrl,
+    onClose,
+    recordingInfo,
+    annotations = [],
+    onAddAnnotation,
+    onDeleteAnnotation,
+}: VideoPlayerModalProps) {
     const videoRef = useRef<HTMLVideoElement>(null)
     const containerRef = useRef<HTMLDivElement>(null)
     const hideTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
     const tapTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
     const lastTapTimeRef = useRef<{ time: number; side: 'left' | 'right' } | null>(null)
     const volumeSliderTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+    // タッチのドラッグによるコマ送り（applied: 適用済みのコマ数）
+    const frameDragRef = useRef<{ startX: number; applied: number; dragging: boolean } | null>(null)
 
     const [isPlaying, setIsPlaying] = useState(false)
     const [currentTime, setCurrentTime] = useState(0)
@@ -49,11 +90,7 @@ export function VideoPlayerModal({ videoUrl, onClose }: VideoPlayerModalProps) {
     const [hasError, setHasError] = useState(false)
     const hlsRef = useRef<any>(null)
 
-    const [playbackRate, setPlaybackRate] = useState(() => {
-        const stored = localStorage.getItem(LS_SPEED)
-        const val = stored ? parseInt(stored, 10) : 1
-        return val >= 1 && val <= 10 ? val : 1
-    })
+    const [playbackRate, setPlaybackRate] = useState(() => parseStoredPlaybackRate(localStorage.getItem(LS_SPEED)))
     const [volume, setVolume] = useState(() => {
         const stored = localStorage.getItem(LS_VOLUME)
         const val = stored ? parseFloat(stored) : 1.0
@@ -65,6 +102,25 @@ export function VideoPlayerModal({ videoUrl, onClose }: VideoPlayerModalProps) {
     const [isTouchDevice, setIsTouchDevice] = useState(false)
     const [volumeSliderVisible, setVolumeSliderVisible] = useState(false)
 
+    // メモの入力（追加する再生位置を開いた時点で固定する）
+    const [annotationDraft, setAnnotationDraft] = useState<{ time: number; text: string } | null>(null)
+    const [isSavingAnnotation, setIsSavingAnnotation] = useState(false)
+    const [deletingAnnotationId, setDeletingAnnotationId] = useState<string | null>(null)
+    const [annotationListVisible, setAnnotationListVisible] = useState(false)
+
+    // A-B ループ（A・B の両方を指定するとループする）
+    const [loopPoints, setLoopPoints] = useState<{ a: number | null; b: number | null }>({ a: null, b: null })
+    const [frameFeedback, setFrameFeedback] = useState<{ text: string; key: number } | null>(null)
+
+    const loop = loopPoints.a !== null && loopPoints.b !== null ? buildLoopRange(loopPoints.a, loopPoints.b) : null
+    const loopRef = useRef(loop)
+    loopRef.current = loop
+    // 再生中のフレーム間隔から推定した1コマの秒数（推定できるまでは FRAME_DURATION）
+    const frameDurationRef = useRef<number | null>(null)
+
+    const sortedAnnotations = sortAnnotations(annotations)
+    const activeAnnotations = getActiveAnnotations(annotations, currentTime)
+
     // Refs for keyboard handler (avoid stale closures)
     const volumeRef = useRef(volume)
     volumeRef.current = volume
@@ -98,6 +154,10 @@ export function VideoPlayerModal({ videoUrl, onClose }: VideoPlayerModalProps) {
         setIsLoading(true)
         setHasError(false)
         setControlsVisible(true)
+        setAnnotationDraft(null)
+        setAnnotationListVisible(false)
+        setLoopPoints({ a: null, b: null })
+        frameDurationRef.current = null
 
         const video = videoRef.current
         if (video) {
@@ -143,14 +203,14 @@ export function VideoPlayerModal({ videoUrl, onClose }: VideoPlayerModalProps) {
                     })
                 } else if (video.canPlayType('application/vnd.apple.mpegurl')) {
                     // Safari: ネイティブHLS対応
-                    video.src = videoUrl
+                    setDirectVideoSource(video, videoUrl)
                 } else {
                     console.error('[VideoPlayer] HLS not supported')
                     setHasError(true)
                 }
             } else {
                 // 直接MP4 URL（後方互換性）
-                video.src = videoUrl
+                setDirectVideoSource(video, videoUrl)
             }
         }
 
@@ -269,6 +329,136 @@ export function VideoPlayerModal({ videoUrl, onClose }: VideoPlayerModalProps) {
         showControls()
     }, [showControls])
 
+    const seekTo = useCallback((time: number) => {
+        const video = videoRef.current
+        if (!video || !Number.isFinite(video.duration)) return
+        video.currentTime = Math.max(0, Math.min(video.duration, time))
+        setCurrentTime(video.currentTime)
+        showControls()
+    }, [showControls])
+
+    // コマ送り（一時停止してから移動する）
+    const stepFrame = useCallback((direction: 1 | -1, frames: number = 1) => {
+        const video = videoRef.current
+        if (!video || hasError || !Number.isFinite(video.duration)) return
+        video.pause()
+        video.currentTime = getFrameStepTime(video.currentTime, direction, video.duration, frames, frameDurationRef.current ?? FRAME_DURATION)
+        setCurrentTime(video.currentTime)
+        setFrameFeedback({ text: `${direction > 0 ? '+' : '-'}${frames}コマ`, key: Date.now() })
+        showControls()
+    }, [hasError, showControls])
+
+    const setLoopPoint = useCallback((point: 'a' | 'b') => {
+        const video = videoRef.current
+        if (!video || !Number.isFinite(video.duration)) return
+        const time = video.currentTime
+        setLoopPoints(prev => ({ ...prev, [point]: time }))
+        showControls()
+    }, [showControls])
+
+    const clearLoop = useCallback(() => {
+        setLoopPoints({ a: null, b: null })
+        showControls()
+    }, [showControls])
+
+    // ループボタン: A を指定 → B を指定 → 解除
+    const handleLoopButtonClick = useCallback(() => {
+        if (loop) clearLoop()
+        else if (loopPoints.a === null) setLoopPoint('a')
+        else setLoopPoint('b')
+    }, [loop, loopPoints.a, setLoopPoint, clearLoop])
+
+    // 表示中のフレームを PNG で保存する（一時停止してから保存する）
+    const takeSnapshot = useCallback(() => {
+        const video = videoRef.current
+        if (!video || hasError || video.videoWidth === 0) return
+        video.pause()
+
+        const canvas = document.createElement('canvas')
+        canvas.width = video.videoWidth
+        canvas.height = video.videoHeight
+        const ctx = canvas.getContext('2d')
+        if (!ctx) return
+
+        const fileName = getSnapshotFileName(video.currentTime)
+        try {
+            ctx.drawImage(video, 0, 0, canvas.width, canvas.height)
+            canvas.toBlob((blob) => {
+                if (!blob) return
+                const url = URL.createObjectURL(blob)
+                const link = document.createElement('a')
+                link.href = url
+                link.download = fileName
+                link.click()
+                setTimeout(() => URL.revokeObjectURL(url), 1000)
+            }, 'image/png')
+        } catch (err) {
+            // 配信元が CORS に対応していない場合は canvas から書き出せない
+            console.error('[VideoPlayer] Snapshot failed:', err)
+            alert('静止画を保存できませんでした')
+        }
+    }, [hasError])
+
+    // 現在の再生位置でメモの入力を開く（入力中は一時停止）
+    const openAnnotationDraft = useCallback(() => {
+        const video = videoRef.current
+        if (!video || !onAddAnnotation || hasError) return
+        video.pause()
+        setAnnotationDraft({ time: video.currentTime, text: '' })
+    }, [onAddAnnotation, hasError])
+
+    const handleSaveAnnotation = async () => {
+        if (!onAddAnnotation || !annotationDraft || !annotationDraft.text.trim()) return
+        setIsSavingAnnotation(true)
+        try {
+            const result = await onAddAnnotation(annotationDraft.time, annotationDraft.text.trim())
+            if (result.success) {
+                setAnnotationDraft(null)
+                containerRef.current?.focus()
+            } else {
+                alert('メモの追加に失敗しました: ' + result.error)
+            }
+        } finally {
+            setIsSavingAnnotation(false)
+        }
+    }
+
+    const handleDeleteAnnotation = async (annotationId: string) => {
+        if (!onDeleteAnnotation) return
+        if (!window.confirm('このメモを削除してもよろしいですか？')) return
+        setDeletingAnnotationId(annotationId)
+        try {
+            const result = await onDeleteAnnotation(annotationId)
+            if (!result.success) {
+                alert('メモの削除に失敗しました: ' + result.error)
+            }
+        } finally {
+            setDeletingAnnotationId(null)
+        }
+    }
+
+    // タッチ: 横にドラッグするとコマ送り（ドラッグ後はタップとして扱わない）
+    const handleOverlayPointerDown = useCallback((e: React.PointerEvent<HTMLDivElement>) => {
+        if (!isTouchDevice) return
+        frameDragRef.current = { startX: e.clientX, applied: 0, dragging: false }
+    }, [isTouchDevice])
+
+    const handleOverlayPointerMove = useCallback((e: React.PointerEvent<HTMLDivElement>) => {
+        const drag = frameDragRef.current
+        if (!drag) return
+        const dx = e.clientX - drag.startX
+        if (!drag.dragging) {
+            if (Math.abs(dx) < DRAG_THRESHOLD_PX) return
+            drag.dragging = true
+        }
+        const frames = Math.trunc(dx / DRAG_PX_PER_FRAME)
+        const delta = frames - drag.applied
+        if (delta !== 0) {
+            stepFrame(delta > 0 ? 1 : -1, Math.abs(delta))
+            drag.applied = frames
+        }
+    }, [stepFrame])
+
     const handleOverlayTap = useCallback((e: React.PointerEvent<HTMLDivElement>) => {
         const rect = e.currentTarget.getBoundingClientRect()
         const side: 'left' | 'right' = e.clientX < rect.left + rect.width / 2 ? 'left' : 'right'
@@ -312,6 +502,13 @@ export function VideoPlayerModal({ videoUrl, onClose }: VideoPlayerModalProps) {
         }, 300)
     }, [handleSkip, togglePlay, isTouchDevice, controlsVisible, showControls])
 
+    const handleOverlayPointerUp = useCallback((e: React.PointerEvent<HTMLDivElement>) => {
+        const drag = frameDragRef.current
+        frameDragRef.current = null
+        if (drag?.dragging) return
+        handleOverlayTap(e)
+    }, [handleOverlayTap])
+
     // --- Keyboard shortcuts ---
     useEffect(() => {
         const handleKeyDown = (e: KeyboardEvent) => {
@@ -363,6 +560,39 @@ export function VideoPlayerModal({ videoUrl, onClose }: VideoPlayerModalProps) {
                 case 'f': case 'F':
                     toggleFullscreen()
                     break
+                case ',':
+                    e.preventDefault()
+                    stepFrame(-1)
+                    break
+                case '.':
+                    e.preventDefault()
+                    stepFrame(1)
+                    break
+                case '<':
+                    changePlaybackRate(getAdjacentPlaybackRate(video.playbackRate, -1))
+                    showControls()
+                    break
+                case '>':
+                    changePlaybackRate(getAdjacentPlaybackRate(video.playbackRate, 1))
+                    showControls()
+                    break
+                case '[':
+                    setLoopPoint('a')
+                    break
+                case ']':
+                    setLoopPoint('b')
+                    break
+                case 'l': case 'L':
+                    clearLoop()
+                    break
+                case 's': case 'S':
+                    takeSnapshot()
+                    break
+                case 'n': case 'N':
+                    if (!onAddAnnotation) break
+                    e.preventDefault()
+                    openAnnotationDraft()
+                    break
                 case 'Escape':
                     if (!document.fullscreenElement) handleClose()
                     break
@@ -371,7 +601,47 @@ export function VideoPlayerModal({ videoUrl, onClose }: VideoPlayerModalProps) {
 
         document.addEventListener('keydown', handleKeyDown)
         return () => document.removeEventListener('keydown', handleKeyDown)
-    }, [togglePlay, showControls, changeVolume, toggleMute, toggleFullscreen, handleClose])
+    }, [
+        togglePlay, showControls, changeVolume, toggleMute, toggleFullscreen, handleClose,
+        onAddAnnotation, openAnnotationDraft,
+        stepFrame, changePlaybackRate, setLoopPoint, clearLoop, takeSnapshot,
+    ])
+
+    // --- Per-frame playback checks ---
+    // 再生中はフレームごとに A-B ループを判定する（timeupdate は 250ms 程度の間隔で、高速再生では B を大きく越えるため）
+    // requestVideoFrameCallback が使える場合はフレーム間隔から1コマの秒数も推定する
+    useEffect(() => {
+        const video = videoRef.current
+        if (!video || !isPlaying) return
+
+        const checkLoop = () => {
+            const loopTarget = getLoopSeekTarget(video.currentTime, loopRef.current)
+            if (loopTarget !== null) video.currentTime = loopTarget
+        }
+
+        if ('requestVideoFrameCallback' in video) {
+            let last: VideoFrameCallbackMetadata | null = null
+            let handle = 0
+            const onFrame = (_now: number, metadata: VideoFrameCallbackMetadata) => {
+                if (last && metadata.presentedFrames - last.presentedFrames === 1) {
+                    frameDurationRef.current = updateFrameDurationEstimate(frameDurationRef.current, metadata.mediaTime - last.mediaTime)
+                }
+                last = metadata
+                checkLoop()
+                handle = video.requestVideoFrameCallback(onFrame)
+            }
+            handle = video.requestVideoFrameCallback(onFrame)
+            return () => video.cancelVideoFrameCallback(handle)
+        }
+
+        let handle = 0
+        const onAnimationFrame = () => {
+            checkLoop()
+            handle = requestAnimationFrame(onAnimationFrame)
+        }
+        handle = requestAnimationFrame(onAnimationFrame)
+        return () => cancelAnimationFrame(handle)
+    }, [isPlaying])
 
     // --- Fullscreen state monitoring ---
     useEffect(() => {
@@ -424,13 +694,32 @@ export function VideoPlayerModal({ videoUrl, onClose }: VideoPlayerModalProps) {
                 <X className="h-6 w-6" />
             </button>
 
+            {/* Recording date */}
+            {recordingInfo && (
+                <div
+                    className={cn(
+                        'absolute top-4 left-4 z-20 flex items-center gap-1.5 rounded-full px-3 py-1.5 text-xs font-bold',
+                        recordingInfo.mismatch ? 'bg-yellow-500/90 text-black' : 'bg-black/50 text-white'
+                    )}
+                >
+                    <Camera className="h-3.5 w-3.5" />
+                    {recordingInfo.label}
+                    {recordingInfo.mismatch && <span className="font-medium">（提出日と異なる）</span>}
+                </div>
+            )}
+
             {/* Video element */}
             <video
                 ref={videoRef}
                 className="absolute inset-0 w-full h-full object-contain"
+                crossOrigin="anonymous"
                 onTimeUpdate={() => {
                     const v = videoRef.current
-                    if (v) setCurrentTime(v.currentTime)
+                    if (!v) return
+                    // A-B ループ: 再生中に区間の外に出たら A に戻す
+                    const loopTarget = v.paused ? null : getLoopSeekTarget(v.currentTime, loopRef.current)
+                    if (loopTarget !== null) v.currentTime = loopTarget
+                    setCurrentTime(v.currentTime)
                 }}
                 onLoadedMetadata={() => {
                     const v = videoRef.current
@@ -448,6 +737,13 @@ export function VideoPlayerModal({ videoUrl, onClose }: VideoPlayerModalProps) {
                     }
                 }}
                 onEnded={() => {
+                    // B が末尾付近の場合は timeupdate より先に終了するため、ここでも A に戻す
+                    const v = videoRef.current
+                    if (v && loopRef.current) {
+                        v.currentTime = loopRef.current.start
+                        v.play().catch(() => setIsPlaying(false))
+                        return
+                    }
                     setIsPlaying(false)
                     setControlsVisible(true)
                     if (hideTimerRef.current) {
@@ -490,8 +786,11 @@ export function VideoPlayerModal({ videoUrl, onClose }: VideoPlayerModalProps) {
             {/* Tap overlay */}
             <div
                 className="absolute inset-0 z-10"
-                style={{ touchAction: 'manipulation' }}
-                onPointerUp={handleOverlayTap}
+                style={{ touchAction: isTouchDevice ? 'none' : 'manipulation' }}
+                onPointerDown={handleOverlayPointerDown}
+                onPointerMove={handleOverlayPointerMove}
+                onPointerUp={handleOverlayPointerUp}
+                onPointerCancel={() => { frameDragRef.current = null }}
             />
 
             {/* Skip feedback */}
@@ -513,6 +812,74 @@ export function VideoPlayerModal({ videoUrl, onClose }: VideoPlayerModalProps) {
                 </div>
             )}
 
+            {/* Frame step feedback */}
+            {frameFeedback && (
+                <div className="absolute top-1/4 left-1/2 -translate-x-1/2 z-10 pointer-events-none">
+                    <div
+                        key={frameFeedback.key}
+                        className="rounded-full bg-black/60 px-3 py-1 text-white text-lg font-bold tabular-nums animate-fade-out"
+                        onAnimationEnd={() => setFrameFeedback(null)}
+                    >
+                        {frameFeedback.text}
+                    </div>
+                </div>
+            )}
+
+            {/* Annotations at the current time */}
+            {activeAnnotations.length > 0 && !annotationDraft && (
+                <div className="absolute top-16 left-1/2 -translate-x-1/2 z-20 w-[calc(100%-2rem)] max-w-md
+                                space-y-1 pointer-events-none">
+                    {activeAnnotations.map((a) => (
+                        <div
+                            key={a.id}
+                            className="rounded-lg bg-yellow-400/95 px-3 py-2 text-sm text-black shadow-lg"
+                        >
+                            <span className="mr-2 font-bold tabular-nums">{formatTime(a.time_seconds)}</span>
+                            {a.content}
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {/* Annotation list */}
+            {annotationListVisible && (
+                <div
+                    className="absolute top-16 right-4 z-20 w-72 max-h-[50vh] overflow-y-auto
+                               rounded-lg bg-black/80 p-2 text-white shadow-xl"
+                    onClick={(e) => e.stopPropagation()}
+                >
+                    {sortedAnnotations.length === 0 ? (
+                        <p className="px-2 py-1 text-xs text-white/70">メモはありません</p>
+                    ) : (
+                        sortedAnnotations.map((a) => (
+                            <div key={a.id} className="flex items-start gap-2 rounded px-2 py-1.5 hover:bg-white/10">
+                                <button
+                                    className="flex-1 text-left text-sm"
+                                    onClick={() => seekTo(a.time_seconds)}
+                                >
+                                    <span className="mr-2 font-bold tabular-nums text-yellow-400">
+                                        {formatTime(a.time_seconds)}
+                                    </span>
+                                    {a.content}
+                                </button>
+                                {onDeleteAnnotation && (
+                                    <button
+                                        className="mt-0.5 text-white/60 hover:text-red-400 disabled:opacity-50"
+                                        onClick={() => handleDeleteAnnotation(a.id)}
+                                        disabled={deletingAnnotationId === a.id}
+                                        title="削除"
+                                    >
+                                        {deletingAnnotationId === a.id
+                                            ? <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                                            : <Trash2 className="h-3.5 w-3.5" />}
+                                    </button>
+                                )}
+                            </div>
+                        ))
+                    )}
+                </div>
+            )}
+
             {/* Center play/pause button */}
             {controlsVisible && !isLoading && !hasError && (
                 <div className="absolute inset-0 z-[15] flex items-center justify-center pointer-events-none">
@@ -542,22 +909,99 @@ export function VideoPlayerModal({ videoUrl, onClose }: VideoPlayerModalProps) {
                 )}
                 onClick={(e) => e.stopPropagation()}
             >
+                {/* Annotation input */}
+                {annotationDraft && (
+                    <div className="mb-3 flex items-center gap-2">
+                        <span className="shrink-0 text-sm font-bold tabular-nums text-yellow-400">
+                            {formatTime(annotationDraft.time)}
+                        </span>
+                        <input
+                            autoFocus
+                            className="flex-1 min-w-0 rounded bg-white/90 px-2 py-1.5 text-sm text-black
+                                       focus:outline-none focus:ring-2 focus:ring-yellow-400"
+                            placeholder="この位置へのメモ（例: 膝が内側に入っています）"
+                            maxLength={500}
+                            value={annotationDraft.text}
+                            onChange={(e) => setAnnotationDraft({ ...annotationDraft, text: e.target.value })}
+                            onKeyDown={(e) => {
+                                if (e.key === 'Enter' && !e.nativeEvent.isComposing) {
+                                    e.preventDefault()
+                                    handleSaveAnnotation()
+                                } else if (e.key === 'Escape') {
+                                    e.preventDefault()
+                                    setAnnotationDraft(null)
+                                    containerRef.current?.focus()
+                                }
+                            }}
+                        />
+                        <button
+                            className="shrink-0 rounded bg-yellow-400 px-3 py-1.5 text-sm font-bold text-black
+                                       hover:bg-yellow-300 disabled:opacity-50"
+                            onClick={handleSaveAnnotation}
+                            disabled={isSavingAnnotation || !annotationDraft.text.trim()}
+                        >
+                            {isSavingAnnotation ? <Loader2 className="h-4 w-4 animate-spin" /> : '追加'}
+                        </button>
+                        <button
+                            className="shrink-0 text-white/70 hover:text-white"
+                            onClick={() => setAnnotationDraft(null)}
+                            title="キャンセル"
+                        >
+                            <X className="h-4 w-4" />
+                        </button>
+                    </div>
+                )}
+
                 {/* Progress bar */}
-                <Slider
-                    value={[duration > 0 ? (currentTime / duration) * 100 : 0]}
-                    onValueChange={(val) => {
-                        const video = videoRef.current
-                        if (video && duration > 0) {
-                            video.currentTime = (val[0] / 100) * duration
-                        }
-                    }}
-                    max={100}
-                    step={0.1}
-                    className="w-full mb-3"
-                />
+                <div className="relative mb-3">
+                    <Slider
+                        value={[duration > 0 ? (currentTime / duration) * 100 : 0]}
+                        onValueChange={(val) => {
+                            const video = videoRef.current
+                            if (video && duration > 0) {
+                                video.currentTime = (val[0] / 100) * duration
+                            }
+                        }}
+                        max={100}
+                        step={0.1}
+                        className="w-full"
+                    />
+
+                    {/* A-B loop region */}
+                    {duration > 0 && (loop || loopPoints.a !== null) && (
+                        <div
+                            className={cn(
+                                "absolute top-1/2 -translate-y-1/2 h-2 rounded-sm pointer-events-none",
+                                loop ? "bg-sky-400/60" : "w-0.5 bg-sky-400"
+                            )}
+                            style={loop
+                                ? {
+                                    left: `${(loop.start / duration) * 100}%`,
+                                    width: `${((loop.end - loop.start) / duration) * 100}%`,
+                                }
+                                : { left: `${((loopPoints.a ?? 0) / duration) * 100}%` }}
+                        />
+                    )}
+
+                    {/* Annotation markers */}
+                    {sortedAnnotations.map((a) => {
+                        const percent = getAnnotationMarkerPercent(a.time_seconds, duration)
+                        if (percent === null) return null
+                        return (
+                            <button
+                                key={a.id}
+                                className="absolute -top-3 -translate-x-1/2 h-3 w-1.5 rounded-sm bg-yellow-400
+                                           hover:scale-150 transition-transform"
+                                style={{ left: `${percent}%` }}
+                                onClick={() => seekTo(a.time_seconds)}
+                                title={`${formatTime(a.time_seconds)} ${a.content}`}
+                            />
+                        )
+                    })}
+                </div>
 
                 {/* Control row */}
-                <div className="flex items-center gap-3 text-white">
+                <div className="flex items-center gap-2 sm:gap-3 text-white">
                     {/* Play/Pause */}
                     <button
                         className="hover:scale-110 transition-transform"
@@ -568,6 +1012,22 @@ export function VideoPlayerModal({ videoUrl, onClose }: VideoPlayerModalProps) {
                             : <Play className="h-6 w-6 fill-white" />}
                     </button>
 
+                    {/* Frame step */}
+                    <button
+                        className="hover:scale-110 transition-transform"
+                        onClick={() => stepFrame(-1)}
+                        title="1コマ戻す (,)"
+                    >
+                        <StepBack className="h-5 w-5" />
+                    </button>
+                    <button
+                        className="hover:scale-110 transition-transform"
+                        onClick={() => stepFrame(1)}
+                        title="1コマ進める (.)"
+                    >
+                        <StepForward className="h-5 w-5" />
+                    </button>
+
                     {/* Volume */}
                     <div className="flex items-center gap-1 group">
                         <button onClick={handleVolumeButtonClick}>
@@ -599,6 +1059,56 @@ export function VideoPlayerModal({ videoUrl, onClose }: VideoPlayerModalProps) {
                     {/* Spacer */}
                     <div className="flex-1" />
 
+                    {/* A-B loop */}
+                    <button
+                        className={cn(
+                            "flex items-center gap-1 text-sm rounded px-1.5 py-1 transition-colors",
+                            loop || loopPoints.a !== null ? "bg-sky-500/40" : "hover:bg-white/20"
+                        )}
+                        onClick={handleLoopButtonClick}
+                        title={loop ? 'A-B ループを解除 (L)' : loopPoints.a === null ? 'A 地点を指定 ([)' : 'B 地点を指定 (])'}
+                    >
+                        <Repeat className="h-5 w-5" />
+                        <span className="font-medium tabular-nums">
+                            {loop ? 'A-B' : loopPoints.a !== null ? 'A' : ''}
+                        </span>
+                    </button>
+
+                    {/* Snapshot */}
+                    <button
+                        className="hover:scale-110 transition-transform disabled:opacity-50"
+                        onClick={takeSnapshot}
+                        disabled={hasError}
+                        title="表示中のフレームを保存 (S)"
+                    >
+                        <ImageDown className="h-5 w-5" />
+                    </button>
+
+                    {/* Annotations */}
+                    {onAddAnnotation && (
+                        <button
+                            className="hover:scale-110 transition-transform disabled:opacity-50"
+                            onClick={openAnnotationDraft}
+                            disabled={hasError}
+                            title="この位置にメモを追加 (N)"
+                        >
+                            <MessageSquarePlus className="h-5 w-5" />
+                        </button>
+                    )}
+                    {(sortedAnnotations.length > 0 || onAddAnnotation) && (
+                        <button
+                            className={cn(
+                                "flex items-center gap-1 text-sm rounded px-1.5 py-1 transition-colors",
+                                annotationListVisible ? "bg-white/20" : "hover:bg-white/20"
+                            )}
+                            onClick={() => setAnnotationListVisible((v) => !v)}
+                            title="メモ一覧"
+                        >
+                            <ListVideo className="h-5 w-5" />
+                            <span className="tabular-nums">{sortedAnnotations.length}</span>
+                        </button>
+                    )}
+
                     {/* Playback rate dropdown */}
                     <DropdownMenu>
                         <DropdownMenuTrigger asChild>
@@ -608,7 +1118,7 @@ export function VideoPlayerModal({ videoUrl, onClose }: VideoPlayerModalProps) {
                             </button>
                         </DropdownMenuTrigger>
                         <DropdownMenuContent side="top" align="center" className="min-w-[4rem]">
-                            {[1, 2, 3, 4, 5, 6, 7, 8, 9, 10].map((rate) => (
+                            {PLAYBACK_RATES.map((rate) => (
                                 <DropdownMenuItem
                                     key={rate}
                                     onClick={() => changePlaybackRate(rate)}
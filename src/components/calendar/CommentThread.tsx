@@ -0,0 +1,128 @@
+import { useEffect, useRef, useState } from 'react'
+import { format, parseISO } from 'date-fns'
+import { Button } from '@/components/ui/button'
+import { Loader2, Send, Trash2 } from 'lucide-react'
+import { useAuth } from '@/context/AuthContext'
+import { isTrainerMessage, sortThread, type ThreadMessage } from '@/utils/commentThread'
+
+interface CommentThreadProps {
+    messages: ThreadMessage[]
+    // 投稿者（クライアント）の ID。メッセージの送信者の判定に使う
+    submissionOwnerId: string
+    isAdmin?: boolean
+    ownerName?: string
+    onSend?: (content: string) => Promise<any>
+    onDelete?: (messageId: string) => Promise<any>
+    inputRef?: React.Ref<HTMLTextAreaElement>
+}
+
+/** 投稿ごとのトレーナーとクライアントのやり取り（WorkoutCard・レビューキュー） */
+export function CommentThread({ messages, submissionOwnerId, isAdmin = false, ownerName, onSend, onDelete, inputRef }: CommentThreadProps) {
+    const { user } = useAuth()
+    const [text, setText] = useState('')
+    const [isSending, setIsSending] = useState(false)
+    const [deletingId, setDeletingId] = useState<string | null>(null)
+    const listRef = useRef<HTMLDivElement>(null)
+
+    const sorted = sortThread(messages)
+
+    // 新しいメッセージが届いたら最下部へ
+    useEffect(() => {
+        listRef.current?.scrollTo({ top: listRef.current.scrollHeight })
+    }, [messages.length])
+
+    const handleSend = async () => {
+        if (!onSend || !text.trim()) return
+        setIsSending(true)
+        try {
+            const result = await onSend(text.trim())
+            if (result?.success !== false) setText('')
+        } finally {
+            setIsSending(false)
+        }
+    }
+
+    const handleDelete = async (messageId: string) => {
+        if (!onDelete) return
+        if (!window.confirm('このメッセージを削除してもよろしいですか？')) {
+            return
+        }
+        setDeletingId(messageId)
+        try {
+            await onDelete(messageId)
+        } finally {
+            setDeletingId(null)
+        }
+    }
+
+    return (
+        <div className="space-y-2">
+            {sorted.length > 0 ? (
+                <div ref={listRef} className="max-h-64 overflow-y-auto space-y-2 pr-1">
+                    {sorted.map(m => {
+                        const isOwn = m.user_id === user?.id
+                        const fromTrainer = isTrainerMessage(m, submissionOwnerId)
+                        const canDelete = onDelete && (isOwn || isAdmin)
+                        return (
+                            <div key={m.id} className={`flex flex-col ${isOwn ? 'items-end' : 'items-start'}`}>
+                                <span className="text-[9px] text-muted-foreground px-1">
+                                    {fromTrainer ? 'トレーナー' : ownerName || 'クライアント'}
+                                </span>
+                                <div className={`max-w-[85%] rounded-lg px-2.5 py-1.5 text-sm leading-relaxed whitespace-pre-wrap break-words ${isOwn ? 'bg-primary text-primary-foreground' : 'bg-slate-100 text-slate-700 border border-slate-200'}`}>
+                                    {m.content}
+                                </div>
+                                <div className="flex items-center gap-1.5 text-[9px] text-muted-foreground px-1">
+                                    <span>{format(parseISO(m.created_at), 'MM/dd HH:mm')}</span>
+                                    {isOwn && <span>{m.read_at ? '既読' : '未読'}</span>}
+                                    {canDelete && (
+                                        <button
+                                            type="button"
+                                            className="hover:text-destructive disabled:opacity-50"
+                                            onClick={() => handleDelete(m.id)}
+                                            disabled={deletingId === m.id}
+                                            title="削除"
+                                        >
+                                            {deletingId === m.id ? <Loader2 className="w-2.5 h-2.5 animate-spin" /> : <Trash2 className="w-2.5 h-2.5" />}
+                                        </button>
+                                    )}
+                                </div>
+                            </div>
+                        )
+                    })}
+                </div>
+            ) : (
+                <p className="text-xs text-muted-foreground">まだメッセージはありません</p>
+            )}
+
+            {onSend && (
+                <div className="space-y-2">
+                    <textarea
+                        ref={inputRef}
+                        className="w-full text-sm p-2 border rounded-md focus:outline-none focus:ring-1 focus:ring-primary min-h-[64px] bg-slate-50"
+                        placeholder={isAdmin ? 'フィードバックを入力...' : '返信を入力...'}
+                        value={text}
+                        onChange={(e) => setText(e.target.value)}
+                        onKeyDown={(e) => {
+                            // Ctrl/Cmd + Enter で送信
+                            if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+                                e.preventDefault()
+                                handleSend()
+                            }
+                        }}
+                    />
+                    <div className="flex justify-end">
+                        <Button
+                            size="sm"
+                            className="h-8 gap-1.5"
+                            onClick={handleSend}
+                            disabled={isSending || !text.trim()}
+                        >
+                            {isSending ? <Loader2 className="w-3 h-3 animate-spin" /> : <Send className="w-3 h-3" />}
+                            送信
+                        </Button>
+                    </div>
+                </div>
+            )}
+        </div>
+    )
+}
@@ -3,12 +3,24 @@ import { Database } from '@/types/database.types'
 import { useAuth } from '@/context/AuthContext'
 import { generateThumbnail } from '@/utils/thumbnail'
 import { calculateFileHash } from '@/utils/hash'
-import { executeUpload, UploadError, recheckVideoStatus, continueAfterRecheck, type UploadStage, type ThumbnailStrategy } from '@/lib/upload-core'
+import { discardResumableUpload, canResumeUpload, checkDuplicateVideo, type ThumbnailStrategy } from '@/lib/upload-core'
+import { getDuplicateVideoMessage, type DuplicateVideoCheck } from '@/utils/duplicateDetection'
+import { readVideoCreationTime } from '@/utils/videoMetadata'
+import { getRecordedAt, isRecordingDateMismatch, getRecordingDateMessage } from '@/utils/recordingDate'
 import { isIOS } from '@/lib/upload-logger'
+import { getCompressionSettings } from '@/lib/upload-compress'
+import {
+  ResumableUploadRecord,
+  getResumableUploadKey,
+  getResumableUpload,
+  getResumableUploadProgress,
+  isResumableUploadExpired,
+  matchesResumableFile,
+} from '@/lib/upload-resume-store'
 import { Card, CardContent } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Progress } from '@/components/ui/progress'
-import { Upload, Film, AlertCircle, AlertTriangle, X, RefreshCw, RotateCcw } from 'lucide-react'
+import { Upload, Film, AlertCircle, AlertTriangle, X, RefreshCw, RotateCcw, Send, CheckCircle2, Loader2 } from 'lucide-react'
 import { format } from 'date-fns'
 import {
   MAX_FILE_SIZE,
@@ -18,7 +30,9 @@ import {
   LARGE_FILE_THUMBNAIL_SKIP_THRESHOLD_BYTES,
   isAllowedVideoFile,
 } from '@/lib/upload-constants'
-import { useUploadGuard } from '@/hooks/useUploadGuard'
+import { useUploadQueue } from '@/context/UploadQueueContext'
+import { UploadJob, getUploadJobId, isUploadJobActive } from '@/lib/upload-queue'
+import { MAX_DIAGNOSTIC_NOTE_LENGTH } from '@/lib/upload-diagnostics'
 
 type SubmissionItem = Database['public']['Tables']['submission_items']['Row']
 
@@ -27,6 +41,8 @@ interface PendingUploadCardProps {
     targetDate: Date
     onSuccess?: () => void
     isLate?: boolean
+    // 指定時刻で期限超過を判定する（オフライン撮影の動画用）
+    isLateAt?: (at: Date) => boolean
     readOnly?: boolean
 }
 
@@ -35,34 +51,54 @@ interface UploadState {
     thumbnail: string | null
     thumbnailStrategy: ThumbnailStrategy
     duration: number | null
-    progress: number
     error: string | null
     success: boolean
-    isUploading: boolean
     hash: string | null
     fileLastModified: string | null
-    phase: 'uploading' | 'verifying' | 'saving' | null
-    stage: UploadStage | null
     isPreparing: boolean
-    isRetryable: boolean
-    isUncertain: boolean
-    pendingVideoId: string | null
-    isRechecking: boolean
+    // 中断されたアップロード（IndexedDB に保存された再開情報）
+    resumable: ResumableUploadRecord | null
+    isDiscarding: boolean
+    // 選択中の動画と同じ動画の過去の提出（ハッシュ計算後にチェック）
+    duplicateCheck: DuplicateVideoCheck | null
+    // 動画の作成日時（mvhd）。撮影日と提出日の照合に使う
+    videoCreatedAt: string | null
 }
 
 const initialState: UploadState = {
-    file: null, thumbnail: null, thumbnailStrategy: 'downscaled', duration: null, progress: 0, error: null,
-    success: false, isUploading: false, hash: null, fileLastModified: null, phase: null,
-    stage: null, isPreparing: false, isRetryable: false, isUncertain: false, pendingVideoId: null, isRechecking: false,
+    file: null, thumbnail: null, thumbnailStrategy: 'downscaled', duration: null, error: null,
+    success: false, hash: null, fileLastModified: null, isPreparing: false,
+    resumable: null, isDiscarding: false, duplicateCheck: null, videoCreatedAt: null,
 }
 
-export function PendingUploadCard({ item, targetDate, onSuccess, isLate = false, readOnly = false }: PendingUploadCardProps) {
-    const { user } = useAuth()
+export function PendingUploadCard({ item, targetDate, onSuccess, isLate = false, isLateAt, readOnly = false }: PendingUploadCardProps) {
+    const { user, profile } = useAuth()
     const fileInputRef = useRef<HTMLInputElement>(null)
     const fileSelectCounterRef = useRef<number>(0)
     const hashAbortRef = useRef<AbortController | null>(null)
     const [state, setState] = useState<UploadState>(initialState)
-    useUploadGuard(state.isUploading)
+    const { jobs, enqueue, retry, recheck, sendDiagnostics, remove } = useUploadQueue()
+    // 診断レポートの送信フォーム（失敗したジョブのみ）
+    const [isDiagnosticsOpen, setIsDiagnosticsOpen] = useState(false)
+    const [diagnosticsNote, setDiagnosticsNote] = useState('')
+    const [isSendingDiagnostics, setIsSendingDiagnostics] = useState(false)
+    const [diagnosticsError, setDiagnosticsError] = useState<string | null>(null)
+
+    const userId = user?.id
+    const targetDateStr = format(targetDate, 'yyyy-MM-dd')
+
+    // アップロードはアプリ全体のキューで実行する（この日付・項目のジョブ。完了済みは対象外）
+    const jobId = userId ? getUploadJobId({ userId, targetDate: targetDateStr, submissionItemId: item.id }) : null
+    const job = jobs.find(j => j.id === jobId && j.status !== 'succeeded')
+    const isUploading = !!job && isUploadJobActive(job)
+    const isRechecking = !!job?.isRechecking
+
+    // 撮影日と提出日の照合（警告・ブロックはクライアントごとの設定）
+    const recordingDatePolicy = profile?.recording_date_policy ?? 'warn'
+    const recordedAt = state.file ? getRecordedAt(state.videoCreatedAt, state.fileLastModified) : null
+    const recordingDateMismatch = isRecordingDateMismatch(recordedAt, targetDateStr, profile?.timezone)
+    const recordingDateMessage = getRecordingDateMessage(recordingDatePolicy, recordedAt, targetDateStr, profile?.timezone)
+    const isRecordingDateBlocked = recordingDatePolicy === 'block' && recordingDateMismatch
 
     useEffect(() => {
         if (readOnly) {
@@ -76,6 +112,43 @@ export function PendingUploadCard({ item, targetDate, onSuccess, isLate = false,
         setState(prev => ({ ...prev, ...newState }))
     }
 
+    // 中断されたアップロードの読み込み（期限切れは破棄）
+    const loadResumable = async () => {
+        if (!userId) return
+        const record = await getResumableUpload(getResumableUploadKey(userId, targetDateStr, item.id))
+        if (record && isResumableUploadExpired(record)) {
+            await discardResumableUpload(record)
+            updateState({ resumable: null })
+            return
+        }
+        updateState({ resumable: record })
+    }
+
+    useEffect(() => {
+        if (readOnly) return
+        loadResumable()
+    }, [readOnly, userId, targetDateStr, item.id])
+
+    // 転送途中で失敗した場合は再開情報が残る
+    useEffect(() => {
+        if (!readOnly && job?.status === 'failed') loadResumable()
+    }, [readOnly, job?.status])
+
+    // 同じ動画を別の日に提出していないか確認する（警告・ブロックはクライアントごとの設定）
+    useEffect(() => {
+        if (readOnly || !userId || !state.hash) {
+            updateState({ duplicateCheck: null })
+            return
+        }
+        let cancelled = false
+        checkDuplicateVideo(userId, state.hash, targetDateStr, item.id).then((duplicateCheck) => {
+            if (!cancelled) updateState({ duplicateCheck })
+        })
+        return () => {
+            cancelled = true
+        }
+    }, [readOnly, userId, state.hash, targetDateStr, item.id])
+
     const getVideoDuration = (file: File): Promise<number> => {
         return new Promise((resolve, reject) => {
             let video: HTMLVideoElement | null = document.createElement('video')
@@ -123,7 +196,7 @@ export function PendingUploadCard({ item, targetDate, onSuccess, isLate = false,
         if (readOnly) return
         const selectedFile = e.target.files?.[0]
         const counter = ++fileSelectCounterRef.current
-        updateState({ error: null, success: false, thumbnail: null, duration: null, isRetryable: false, isUncertain: false, pendingVideoId: null })
+        updateState({ error: null, success: false, thumbnail: null, duration: null })
 
         if (!selectedFile) return
 
@@ -141,12 +214,41 @@ export function PendingUploadCard({ item, targetDate, onSuccess, isLate = false,
             ? new Date(selectedFile.lastModified).toISOString()
             : null
 
-        updateState({ file: selectedFile, thumbnail: null, thumbnailStrategy: 'downscaled', duration: null, error: null, success: false, isPreparing: true, fileLastModified })
+        // 動画の作成日時（ファイルの先頭・末尾の数十バイトのみ読む）
+        // 撮影日の照合に使うため、読み終わるまでは準備中としてアップロードさせない
+        const readCreatedAt = async () => {
+            const createdAt = await readVideoCreationTime(selectedFile).catch(() => null)
+            return createdAt?.toISOString() ?? null
+        }
+
+        // 中断時と同じファイルなら保存済みのメタデータを使い、サムネイル生成・ハッシュ計算を省略
+        if (state.resumable && matchesResumableFile(state.resumable, selectedFile)) {
+            hashAbortRef.current?.abort()
+            updateState({
+                file: selectedFile,
+                thumbnail: state.resumable.thumbnail,
+                thumbnailStrategy: state.resumable.thumbnail ? 'downscaled' : 'skipped',
+                duration: state.resumable.duration,
+                hash: state.resumable.hash,
+                error: null, success: false, isPreparing: true, fileLastModified, videoCreatedAt: null,
+            })
+            const videoCreatedAt = await readCreatedAt()
+            if (fileSelectCounterRef.current !== counter) return
+            updateState({ videoCreatedAt, isPreparing: false })
+            return
+        }
+
+        updateState({ file: selectedFile, thumbnail: null, thumbnailStrategy: 'downscaled', duration: null, error: null, success: false, isPreparing: true, fileLastModified, videoCreatedAt: null })
 
         // 前回のハッシュ計算を中断
         hashAbortRef.current?.abort()
 
         try {
+            // Step 0: 動画の作成日時
+            const videoCreatedAt = await readCreatedAt()
+            if (fileSelectCounterRef.current !== counter) return
+            updateState({ videoCreatedAt })
+
             // Step 1: サムネイル生成と動画長抽出
             // iOS + 大容量では <video> decode + canvas drawImage + toDataURL の native メモリ
             // ピークが jetsam の主因と推定されるためサムネ生成自体をスキップする。
@@ -192,113 +294,87 @@ export function PendingUploadCard({ item, targetDate, onSuccess, isLate = false,
     const handleClearFile = () => {
         if (readOnly) return
         fileSelectCounterRef.current++
-        updateState({ file: null, thumbnail: null, thumbnailStrategy: 'downscaled', duration: null, hash: null, fileLastModified: null, error: null, isPreparing: false, isRetryable: false, isUncertain: false, pendingVideoId: null })
+        // 失敗したジョブを表示中なら取り下げる
+        if (!state.file && job && !isUploadJobActive(job)) remove(job.id)
+        updateState({ file: null, thumbnail: null, thumbnailStrategy: 'downscaled', duration: null, hash: null, fileLastModified: null, videoCreatedAt: null, error: null, isPreparing: false })
         if (fileInputRef.current) fileInputRef.current.value = ''
     }
 
-    const handleUpload = async () => {
+    const handleUpload = () => {
         if (readOnly) return
         if (!state.file || !user) return
-
-        updateState({
-            isUploading: true, progress: 0, error: null, phase: 'uploading', stage: 'preparing-video',
-            isRetryable: false, isUncertain: false, pendingVideoId: null,
+        // 撮影日時の読み込み中は照合できないため送らない（ボタンも表示しない）
+        if (state.isPreparing) return
+        if (state.duplicateCheck?.duplicate && state.duplicateCheck.policy === 'block') return
+        if (isRecordingDateBlocked) return
+
+        // オフラインなら接続後に送るため、期限超過は送信時ではなく撮影（ファイル更新）日時で判定する
+        const late = !navigator.onLine && isLateAt && state.file.lastModified
+            ? isLateAt(new Date(state.file.lastModified))
+            : isLate
+
+        const queued = enqueue({
+            file: state.file,
+            userId: user.id,
+            targetDate: targetDateStr,
+            submissionItemId: item.id,
+            thumbnail: state.thumbnail,
+            thumbnailStrategy: state.thumbnailStrategy,
+            duration: state.duration,
+            hash: state.hash,
+            isLate: late,
+            fileLastModified: state.fileLastModified,
+            videoCreatedAt: state.videoCreatedAt,
+            recordingDateMismatch,
+            compression: getCompressionSettings(profile),
+        }, {
+            label: item.name,
+            onSuccess: () => {
+                updateState({ success: true, resumable: null })
+                onSuccess?.()
+            },
         })
-
-        try {
-            const targetDateStr = format(targetDate, 'yyyy-MM-dd')
-
-            await executeUpload({
-                file: state.file,
-                userId: user.id,
-                targetDate: targetDateStr,
-                submissionItemId: item.id,
-                thumbnail: state.thumbnail,
-                thumbnailStrategy: state.thumbnailStrategy,
-                duration: state.duration,
-                hash: state.hash,
-                isLate,
-                fileLastModified: state.fileLastModified,
-                onProgress: (progress) => updateState({ progress }),
-                onPhaseChange: (phase) => updateState({ phase }),
-                onStageChange: (stage) => updateState({ stage }),
-            })
-
-            updateState({ success: true, file: null, thumbnail: null, isUploading: false, phase: null, stage: null })
-            if (fileInputRef.current) fileInputRef.current.value = ''
-            onSuccess?.()
-        } catch (err) {
-            if (err instanceof UploadError) {
-                updateState({
-                    error: err.userMessage,
-                    isUploading: false,
-                    phase: null,
-                    stage: null,
-                    isRetryable: err.isRetryable,
-                    isUncertain: err.isUncertain,
-                    pendingVideoId: err.pendingVideoId ?? null,
-                })
-            } else {
-                console.error('Upload failed:', err)
-                updateState({ error: 'アップロードに失敗しました。', isUploading: false, phase: null, stage: null })
-            }
+        if (!queued) {
+            updateState({ error: 'この項目のアップロードは実行中です。完了までお待ちください。' })
+            return
         }
-    }
 
-    const handleRecheck = async () => {
-        if (!state.pendingVideoId || !user || !state.file) return
+        // 以降の表示はキューのジョブから行う
+        fileSelectCounterRef.current++
+        updateState({ file: null, thumbnail: null, thumbnailStrategy: 'downscaled', duration: null, hash: null, fileLastModified: null, error: null })
+        if (fileInputRef.current) fileInputRef.current.value = ''
+    }
 
-        updateState({ isRechecking: true, error: null })
+    const handleResume = () => {
+        if (readOnly || !state.resumable) return
+        fileInputRef.current?.click()
+    }
 
-        try {
-            const result = await recheckVideoStatus(state.pendingVideoId)
-
-            if (result.outcome === 'ready') {
-                const targetDateStr = format(targetDate, 'yyyy-MM-dd')
-
-                await continueAfterRecheck({
-                    videoId: state.pendingVideoId,
-                    userId: user.id,
-                    targetDate: targetDateStr,
-                    submissionItemId: item.id,
-                    file: state.file,
-                    thumbnail: state.thumbnail,
-                    duration: state.duration,
-                    hash: state.hash,
-                    isLate,
-                    fileLastModified: state.fileLastModified,
-                })
-
-                updateState({
-                    success: true, file: null, thumbnail: null,
-                    isRechecking: false, isUncertain: false, pendingVideoId: null,
-                })
-                if (fileInputRef.current) fileInputRef.current.value = ''
-                onSuccess?.()
-            } else if (result.outcome === 'failed') {
-                updateState({
-                    error: 'CDN側でエラーが確認されました。再度アップロードしてください。',
-                    isRechecking: false, isUncertain: false, pendingVideoId: null,
-                    isRetryable: false,
-                })
-            } else {
-                updateState({
-                    error: 'まだ処理中です。しばらくお待ちください。',
-                    isRechecking: false, isUncertain: true,
-                })
-            }
-        } catch (err) {
-            console.error('Recheck failed:', err)
-            updateState({
-                error: '状態の確認に失敗しました。再度お試しください。',
-                isRechecking: false, isUncertain: true,
-            })
+    const handleSendDiagnostics = async () => {
+        if (readOnly || !job) return
+        setIsSendingDiagnostics(true)
+        setDiagnosticsError(null)
+        const sent = await sendDiagnostics(job.id, diagnosticsNote)
+        setIsSendingDiagnostics(false)
+        if (!sent) {
+            setDiagnosticsError('送信できませんでした。通信状態を確認して再度お試しください。')
+            return
         }
+        setIsDiagnosticsOpen(false)
+        setDiagnosticsNote('')
     }
 
-    const getPhaseLabel = (phase: UploadState['phase'], stage: UploadState['stage'], progress: number) => {
+    const handleDiscardResumable = async () => {
+        if (readOnly || !state.resumable) return
+        updateState({ isDiscarding: true })
+        await discardResumableUpload(state.resumable)
+        updateState({ resumable: null, isDiscarding: false })
+    }
+
+    const getPhaseLabel = (phase: UploadJob['phase'], stage: UploadJob['stage'], progress: number) => {
         if (phase === 'uploading') {
             switch (stage) {
+                case 'compressing': return `動画を圧縮中... ${progress}%`
                 case 'preparing-video': return '動画を作成中...'
                 case 'preparing-wakelock':
                 case 'preparing-tus': return 'アップロード準備中...'
@@ -319,6 +395,25 @@ export function PendingUploadCard({ item, targetDate, onSuccess, isLate = false,
     // Hide on success (replaced by WorkoutCard)
     if (state.success) return null
 
+    // 圧縮して送っていた場合、再読み込み後は圧縮済みのファイルがないため最初からやり直す
+    const isResumingFile = !!state.file && !!state.resumable && canResumeUpload(state.resumable, state.file)
+
+    // 選択中のファイルがなければキューのジョブ（実行中・失敗）を表示する
+    const showJob = !state.file && !!job
+    const view = showJob
+        ? {
+            file: job.params.file,
+            thumbnail: job.params.thumbnail,
+            thumbnailStrategy: job.params.thumbnailStrategy,
+            duration: job.params.duration,
+        }
+        : state
+    const jobFailed = showJob && job.status === 'failed'
+    const jobOffline = showJob && job.status === 'offline'
+    const error = state.error ?? (jobFailed ? job.error : null)
+    const duplicateMessage = state.file ? getDuplicateVideoMessage(state.duplicateCheck) : null
+    const isDuplicateBlocked = !!duplicateMessage && state.duplicateCheck?.policy === 'block'
+
     return (
         <Card className="overflow-hidden border-2 border-dashed shadow-sm transition-all duration-200 border-muted-foreground/20 bg-card/50 hover:border-primary/30">
             <CardContent className="p-3">
@@ -327,7 +422,7 @@ export function PendingUploadCard({ item, targetDate, onSuccess, isLate = false,
                         {item.name}
                     </h4>
                     <div className="flex items-center gap-1">
-                        {!readOnly && state.file && !state.isUploading && !state.isRechecking && !state.isPreparing && (
+                        {!readOnly && view.file && !isUploading && !isRechecking && !state.isPreparing && (
                             <>
                                 <Button
                                     variant="ghost"
@@ -337,9 +432,11 @@ export function PendingUploadCard({ item, targetDate, onSuccess, isLate = false,
                                 >
                                     <X className="w-4 h-4" />
                                 </Button>
-                                <Button size="sm" onClick={handleUpload} className="h-7 text-xs">
-                                    <Upload className="w-3 h-3 mr-1" /> アップロード
-                                </Button>
+                                {state.file && (
+                                    <Button size="sm" onClick={handleUpload} className="h-7 text-xs" disabled={isDuplicateBlocked || isRecordingDateBlocked}>
+                                        <Upload className="w-3 h-3 mr-1" /> {isResumingFile ? '再開' : 'アップロード'}
+                                    </Button>
+                                )}
                             </>
                         )}
                     </div>
@@ -353,14 +450,14 @@ export function PendingUploadCard({ item, targetDate, onSuccess, isLate = false,
                         onChange={handleFileSelect}
                         className="hidden"
                         id={`file-input-${item.id}`}
-                        disabled={readOnly || state.isUploading || state.isRechecking}
+                        disabled={readOnly || isUploading || isRechecking}
                     />
                     <label
                         htmlFor={`file-input-${item.id}`}
-                        className={`${readOnly ? 'cursor-default' : 'cursor-pointer'} flex items-center gap-3 p-3 rounded-lg border border-dashed transition-colors ${state.file ? 'bg-muted/30 border-primary/30' : readOnly ? 'border-muted-foreground/20' : 'hover:bg-muted/50 border-muted-foreground/20'
+                        className={`${readOnly ? 'cursor-default' : 'cursor-pointer'} flex items-center gap-3 p-3 rounded-lg border border-dashed transition-colors ${view.file ? 'bg-muted/30 border-primary/30' : readOnly ? 'border-muted-foreground/20' : 'hover:bg-muted/50 border-muted-foreground/20'
                             }`}
                     >
-                        {!state.file && (
+                        {!view.file && (
                             <>
                                 <Film className="h-6 w-6 text-muted-foreground shrink-0" />
                                 <div className="flex flex-col gap-0.5">
@@ -370,27 +467,35 @@ export function PendingUploadCard({ item, targetDate, onSuccess, isLate = false,
                             </>
                         )}
 
-                        {state.file && (
+                        {view.file && (
                             <div className="flex items-center gap-3 w-full">
                                 <div className="w-12 h-12 shrink-0 bg-muted rounded overflow-hidden border flex items-center justify-center">
-                                    {state.thumbnail ? (
-                                        <img src={state.thumbnail} alt="Preview" className="w-full h-full object-cover" />
+                                    {view.thumbnail ? (
+                                        <img src={view.thumbnail} alt="Preview" className="w-full h-full object-cover" />
                                     ) : (
                                         <Film className="w-5 h-5 text-muted-foreground/40" />
                                     )}
                                 </div>
                                 <div className="flex-1 min-w-0 space-y-0.5">
                                     <p className="text-xs font-bold text-foreground truncate">
-                                        {state.file.name}
+                                        {view.file.name}
                                     </p>
                                     <div className="flex items-center gap-2 text-[9px] text-muted-foreground">
-                                        <span>{(state.file.size / 1024 / 1024).toFixed(1)} MB</span>
-                                        {state.duration && <span>{formatDuration(state.duration)}</span>}
+                                        <span>{(view.file.size / 1024 / 1024).toFixed(1)} MB</span>
+                                        {view.duration && <span>{formatDuration(view.duration)}</span>}
                                     </div>
                                     <p className="text-[8px] text-primary font-bold">
-                                        {state.isPreparing ? '読み込み中...' : 'アップロード準備完了'}
+                                        {state.isPreparing
+                                            ? '読み込み中...'
+                                            : jobFailed
+                                                ? '送信できませんでした'
+                                                : jobOffline
+                                                ? '接続待ち（オンラインになると自動でアップロードします）'
+                                                : isResumingFile
+                                                ? `続きから再開できます（${getResumableUploadProgress(state.resumable!)}%完了）`
+                                                : 'アップロード準備完了'}
                                     </p>
-                                    {state.thumbnailStrategy === 'skipped' && !state.isPreparing && (
+                                    {view.thumbnailStrategy === 'skipped' && !state.isPreparing && (
                                         <p className="text-[8px] text-muted-foreground">
                                             端末メモリ制約のためサムネを省略しています
                                         </p>
@@ -400,37 +505,35 @@ export function PendingUploadCard({ item, targetDate, onSuccess, isLate = false,
                         )}
                     </label>
 
-                    {(state.isUploading || state.isRechecking) && (
+                    {(isUploading || isRechecking) && job && (
                         <div className="absolute inset-0 bg-background/80 flex flex-col items-center justify-center p-3 rounded-lg z-10 backdrop-blur-sm">
-                            {state.isRechecking ? (
-                                <>
-                                    <div className="h-6 w-6 rounded-full border-2 border-primary/30
-                                                    border-t-primary animate-spin mb-1.5" />
-                                    <span className="text-[10px] font-medium animate-pulse">状態を確認中...</span>
-                                </>
-                            ) : state.phase === 'verifying' || state.phase === 'saving' ? (
+                            {isRechecking || job.status === 'queued' || job.phase === 'verifying' || job.phase === 'saving' ? (
                                 <>
                                     <div className="h-6 w-6 rounded-full border-2 border-primary/30
                                                     border-t-primary animate-spin mb-1.5" />
                                     <span className="text-[10px] font-medium animate-pulse">
-                                        {getPhaseLabel(state.phase, state.stage, state.progress)}
+                                        {isRechecking
+                                            ? '状態を確認中...'
+                                            : job.status === 'queued'
+                                                ? '順番待ち（他のアップロードの完了後に開始します）'
+                                                : getPhaseLabel(job.phase, job.stage, job.progress)}
                                     </span>
                                 </>
                             ) : (
                                 <>
-                                    <Progress value={state.progress} className="w-full h-1.5 mb-1.5" />
+                                    <Progress value={job.progress} className="w-full h-1.5 mb-1.5" />
                                     <span className="text-[10px] font-medium animate-pulse">
-                                        {getPhaseLabel(state.phase, state.stage, state.progress)}
+                                        {getPhaseLabel(job.phase, job.stage, job.progress)}
                                     </span>
-                                    {state.stage === 'stalled' && (
+                                    {job.stage === 'stalled' && (
                                         <span className="text-[10px] text-yellow-600 font-semibold mt-1 flex items-center gap-1">
                                             <AlertTriangle className="w-3 h-3" />
                                             通信が遅延しています。お待ちください
                                         </span>
                                     )}
-                                    {state.phase === 'uploading' && state.stage !== 'stalled' && (
+                                    {job.phase === 'uploading' && job.stage !== 'stalled' && (
                                         <span className="text-[10px] text-muted-foreground mt-1">
-                                            アップロード中は画面を閉じないでください
+                                            アップロード中はアプリを閉じないでください（他の日付への移動はできます）
                                         </span>
                                     )}
                                 </>
@@ -439,34 +542,145 @@ export function PendingUploadCard({ item, targetDate, onSuccess, isLate = false,
                     )}
                 </div>
 
-                {state.error && (
+                {!readOnly && !view.file && state.resumable && !isUploading && (
                     <div className="space-y-1.5 mt-2">
-                        <div className="flex items-center gap-1 text-destructive text-[10px] font-medium">
-                            <AlertCircle className="h-3 w-3 shrink-0" /> {state.error}
+                        <div className="flex items-center gap-1 text-yellow-600 text-[10px] font-medium">
+                            <AlertTriangle className="h-3 w-3 shrink-0" />
+                            <span className="truncate">
+                                中断されたアップロードがあります（{state.resumable.fileName}、{getResumableUploadProgress(state.resumable)}%）
+                            </span>
                         </div>
+                        <p className="text-[9px] text-muted-foreground">
+                            同じ動画を選び直すと続きからアップロードします
+                        </p>
                         <div className="flex items-center gap-1.5">
-                            {state.isUncertain && state.pendingVideoId && (
-                                <Button
-                                    size="sm"
-                                    variant="outline"
-                                    className="h-6 text-[10px] px-2"
-                                    onClick={handleRecheck}
-                                    disabled={state.isRechecking}
-                                >
-                                    <RefreshCw className="w-2.5 h-2.5 mr-1" /> 状態を再確認
-                                </Button>
-                            )}
-                            {state.isRetryable && state.file && (
-                                <Button
-                                    size="sm"
-                                    variant="outline"
-                                    className="h-6 text-[10px] px-2"
-                                    onClick={handleUpload}
-                                >
-                                    <RotateCcw className="w-2.5 h-2.5 mr-1" /> 再試行
-                                </Button>
-                            )}
+                            <Button
+                                size="sm"
+                                variant="outline"
+                                className="h-6 text-[10px] px-2"
+                                onClick={handleResume}
+                                disabled={state.isDiscarding}
+                            >
+                                <RotateCcw className="w-2.5 h-2.5 mr-1" /> 再開
+                            </Button>
+                            <Button
+                                size="sm"
+                                variant="ghost"
+                                className="h-6 text-[10px] px-2 text-muted-foreground hover:text-destructive"
+                                onClick={handleDiscardResumable}
+                                disabled={state.isDiscarding}
+                            >
+                                <X className="w-2.5 h-2.5 mr-1" /> 破棄
+                            </Button>
+                        </div>
+                    </div>
+                )}
+
+                {duplicateMessage && (
+                    <div className={`flex items-center gap-1 text-[10px] font-medium mt-2 ${isDuplicateBlocked ? 'text-destructive' : 'text-yellow-600'}`}>
+                        <AlertTriangle className="h-3 w-3 shrink-0" /> {duplicateMessage}
+                    </div>
+                )}
+
+                {recordingDateMessage && (
+                    <div className={`flex items-center gap-1 text-[10px] font-medium mt-2 ${isRecordingDateBlocked ? 'text-destructive' : 'text-yellow-600'}`}>
+                        <AlertTriangle className="h-3 w-3 shrink-0" /> {recordingDateMessage}
+                    </div>
+                )}
+
+                {error && (
+                    <div className="space-y-1.5 mt-2">
+                        <div className="flex items-center gap-1 text-destructive text-[10px] font-medium">
+                            <AlertCircle className="h-3 w-3 shrink-0" /> {error}
                         </div>
+                        {jobFailed && (
+                            <div className="flex items-center gap-1.5">
+                                {job.isUncertain && job.pendingVideoId && (
+                                    <Button
+                                        size="sm"
+                                        variant="outline"
+                                        className="h-6 text-[10px] px-2"
+                                        onClick={() => recheck(job.id)}
+                                        disabled={isRechecking}
+                                    >
+                                        <RefreshCw className="w-2.5 h-2.5 mr-1" /> 状態を再確認
+                                    </Button>
+                                )}
+                                {job.isRetryable && (
+                                    <Button
+                                        size="sm"
+                                        variant="outline"
+                                        className="h-6 text-[10px] px-2"
+                                        onClick={() => retry(job.id)}
+                                        disabled={isRechecking}
+                                    >
+                                        <RotateCcw className="w-2.5 h-2.5 mr-1" /> 再試行
+                                    </Button>
+                                )}
+                                {!readOnly && !job.diagnosticsSentAt && !isDiagnosticsOpen && (
+                                    <Button
+                                        size="sm"
+                                        variant="ghost"
+                                        className="h-6 text-[10px] px-2 text-muted-foreground"
+                                        onClick={() => setIsDiagnosticsOpen(true)}
+                                        disabled={isRechecking}
+                                    >
+                                        <Send className="w-2.5 h-2.5 mr-1" /> 診断情報を送信
+                                    </Button>
+                                )}
+                            </div>
+                        )}
+                        {jobFailed && job.diagnosticsSentAt && (
+                            <div className="flex items-center gap-1 text-[10px] text-muted-foreground">
+                                <CheckCircle2 className="h-3 w-3 shrink-0 text-green-600" />
+                                診断情報をトレーナーに送信しました
+                            </div>
+                        )}
+                        {jobFailed && !readOnly && !job.diagnosticsSentAt && isDiagnosticsOpen && (
+                            <div className="space-y-1.5 rounded-md border p-2 bg-muted/30">
+                                <p className="text-[9px] text-muted-foreground">
+                                    アップロードの記録・端末とネットワークの状態をトレーナーに送ります（動画は送信されません）
+                                </p>
+                                <textarea
+                                    className="w-full text-xs p-2 border rounded-md focus:outline-none focus:ring-1 focus:ring-primary min-h-[56px] bg-background"
+                                    placeholder="状況のメモ（任意）例: Wi-Fi で撮影直後に送信した"
+                                    maxLength={MAX_DIAGNOSTIC_NOTE_LENGTH}
+                                    value={diagnosticsNote}
+                                    onChange={(e) => setDiagnosticsNote(e.target.value)}
+                                    disabled={isSendingDiagnostics}
+                                />
+                                {diagnosticsError && (
+                                    <div className="flex items-center gap-1 text-destructive text-[10px] font-medium">
+                                        <AlertCircle className="h-3 w-3 shrink-0" /> {diagnosticsError}
+                                    </div>
+                                )}
+                                <div className="flex items-center justify-end gap-1.5">
+                                    <Button
+                                        size="sm"
+                                        variant="ghost"
+                                        className="h-6 text-[10px] px-2"
+                                        onClick={() => {
+                                            setIsDiagnosticsOpen(false)
+                                            setDiagnosticsError(null)
+                                        }}
+                                        disabled={isSendingDiagnostics}
+                                    >
+                                        キャンセル
+                                    </Button>
+                                    <Button
+                                        size="sm"
+                                        className="h-6 text-[10px] px-2"
+                                        onClick={handleSendDiagnostics}
+                                        disabled={isSendingDiagnostics}
+                                    >
+                                        {isSendingDiagnostics
+                                            ? <Loader2 className="w-2.5 h-2.5 mr-1 animate-spin" />
+                                            : <Send className="w-2.5 h-2.5 mr-1" />}
+                                        送信
+                                    </Button>
+                                </div>
+                            </div>
+                        )}
                     </div>
                 )}
             </CardContent>
@@ -8,6 +8,7 @@ import { PendingUploadCard } from './PendingUploadCard'
 import { Database } from '@/types/database.types'
 import { useSwipeable } from 'react-swipeable'
 import { toast } from '@/hooks/use-toast'
+import { findDuplicateSubmission } from '@/utils/duplicateDetection'
 
 type Submission = Database['public']['Tables']['submissions']['Row']
 type SubmissionItem = Database['public']['Tables']['submission_items']['Row']
@@ -22,7 +23,7 @@ interface SwipeableWorkoutViewProps {
   onUpdateStatus?: (id: number, status: 'success' | 'fail' | 'excused' | null) => Promise<any>
   onAddComment?: (submissionId: number, content: string) => Promise<any>
   onDeleteComment?: (commentId: string) => Promise<any>
-  onMarkAsRead?: (commentId: string) => Promise<any>
+  onMarkAsRead?: (submissionId: number) => Promise<any>
   submissionItems?: SubmissionItem[]
   onUploadSuccess?: () => void
   isViewingOtherUser?: boolean
@@ -35,8 +36,17 @@ interface SwipeableWorkoutViewProps {
   isRestDay?: (date: Date) => boolean
   isGroupFulfilledForDate?: (date: Date) => boolean
   isLate?: boolean
+  // 指定時刻で期限超過を判定する（オフライン撮影の動画用）
+  isLateAt?: (at: Date) => boolean
   deadlineMode?: 'none' | 'mark'
   showDuplicateToUser?: boolean
+  // 表示中のクライアントのタイムゾーン（撮影日の表示用）
+  timeZone?: string | null
+  // まとめて承認/却下するための選択（管理者の選択モード時のみ指定）
+  selectedIds?: Set<number>
+  onToggleSelect?: (id: number) => void
+  // 日付の投稿をすべて選択（すべて選択済みなら解除）
+  onToggleSelectAll?: (ids: number[]) => void
 }
 
 export function SwipeableWorkoutView({
@@ -62,8 +72,13 @@ export function SwipeableWorkoutView({
   isRestDay = () => false,
   isGroupFulfilledForDate = () => false,
   isLate = false,
+  isLateAt,
   deadlineMode = 'none',
-  showDuplicateToUser = false
+  showDuplicateToUser = false,
+  timeZone,
+  selectedIds,
+  onToggleSelect,
+  onToggleSelectAll
 }: SwipeableWorkoutViewProps) {
   const CARD_WIDTH_PERCENT = 85
   const PEEK_WIDTH_PERCENT = (100 - CARD_WIDTH_PERCENT) / 2
@@ -169,6 +184,8 @@ export function SwipeableWorkoutView({
   const renderDateCard = (date: Date, submissions: Submission[], position: 'prev' | 'current' | 'next') => {
     const formattedDate = format(date, 'yyyy/MM/dd(eee)', { locale: ja })
     const effectiveItems = getEffectiveItems(date)
+    // まとめて選択できる投稿（shield 行を除く）
+    const selectableIds = submissions.filter(w => w.type !== 'shield').map(w => w.id)
 
     let isMain = false
     if (!isAnimating) {
@@ -185,6 +202,16 @@ export function SwipeableWorkoutView({
           <h3 className="text-[13px] font-bold tracking-wider text-[#1e293b] dark:text-slate-200">
             WORKOUTS: {formattedDate}
           </h3>
+          {isMain && onToggleSelectAll && selectableIds.length > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2 text-xs"
+              onClick={() => onToggleSelectAll(selectableIds)}
+            >
+              {selectableIds.every(id => selectedIds?.has(id)) ? '選択を解除' : 'すべて選択'}
+            </Button>
+          )}
         </div>
 
         {(() => {
@@ -318,46 +345,13 @@ export function SwipeableWorkoutView({
                       if (!isAdmin && !showDuplicateToUser) {
                         return { duplicateType: null, duplicateInfo: null }
                       }
-
-                      // 重複動画を探す
-                      const allWorkouts = workouts || []
-
-                      // Hash一致チェック（完全に同じ動画）
-                      if (s.video_hash) {
-                        const hashMatch = allWorkouts.find(w => w.id !== s.id && w.video_hash === s.video_hash)
-                        if (hashMatch) {
-                          return {
-                            duplicateType: 'hash' as const,
-                            duplicateInfo: {
-                              targetDate: hashMatch.target_date || '日付不明',
-                              fileName: (hashMatch as any).file_name || '不明'
-                            }
-                          }
-                        }
-                      }
-
-                      // ファイル更新時刻の完全一致チェック（同一ファイルが別日に投稿された可能性）
-                      if (s.file_last_modified) {
-                        const sTime = new Date(s.file_last_modified).getTime()
-                        const fileTimeMatch = allWorkouts.find(w => {
-                          if (w.id === s.id) return false
-                          if (!w.file_last_modified) return false
-                          const wTime = new Date(w.file_last_modified).getTime()
-                          return sTime === wTime
-                        })
-                        if (fileTimeMatch) {
-                          return {
-                            duplicateType: 'file_time' as const,
-                            duplicateInfo: {
-                              targetDate: fileTimeMatch.target_date || '日付不明',
-                              fileName: (fileTimeMatch as any).file_name || '不明'
-                            }
-                          }
-                        }
-                      }
-
-                      return { duplicateType: null, duplicateInfo: null }
+                      const duplicate = findDuplicateSubmission(s, workouts || [])
+                      return { duplicateType: duplicate?.type ?? null, duplicateInfo: duplicate?.info ?? null }
                     })()}
+                    onOpenDuplicate={isMain ? (targetDate) => onDateChange(parseISO(targetDate)) : undefined}
+                    timeZone={timeZone}
+                    isSelected={selectedIds?.has(s.id) ?? false}
+                    onToggleSelect={isMain ? onToggleSelect : undefined}
                   />
                 )
               })}
@@ -369,6 +363,7 @@ export function SwipeableWorkoutView({
                   targetDate={date}
                   onSuccess={onUploadSuccess}
                   isLate={isLate}
+                  isLateAt={isLateAt}
                   readOnly={isViewingOtherUser}
                 />
               ))}
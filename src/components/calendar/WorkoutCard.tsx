@@ -1,4 +1,5 @@
 import { useState } from 'react'
+import { Link } from 'react-router-dom'
 import { format, parseISO } from 'date-fns'
 import {
     CheckCircle2,
@@ -12,7 +13,9 @@ import {
     AlertCircle,
     RotateCcw,
     MessageSquare,
-    Send
+    ExternalLink,
+    Camera,
+    FileText
 } from 'lucide-react'
 import { Card, CardContent } from '@/components/ui/card'
 import { Database } from '@/types/database.types'
@@ -23,6 +26,10 @@ import {
     PopoverTrigger,
 } from "@/components/ui/popover"
 import { Input } from '@/components/ui/input'
+import { DuplicateType, DuplicateInfo } from '@/utils/duplicateDetection'
+import { getRecordingDateInfo, formatRecordedAt } from '@/utils/recordingDate'
+import { getUnreadMessages, type ThreadMessage } from '@/utils/commentThread'
+import { CommentThread } from './CommentThread'
 
 type Submission = Database['public']['Tables']['submissions']['Row']
 
@@ -35,21 +42,36 @@ interface WorkoutCardProps {
     onUpdateStatus?: (id: number, status: 'success' | 'fail' | 'excused' | null, reps?: number | null) => Promise<any>
     onAddComment?: (submissionId: number, content: string) => Promise<any>
     onDeleteComment?: (commentId: string) => Promise<any>
-    onMarkAsRead?: (commentId: string) => Promise<any>
+    // 相手からの未読メッセージを既読にする
+    onMarkAsRead?: (submissionId: number) => Promise<any>
     deadlineMode?: 'none' | 'mark'
-    duplicateType?: 'hash' | 'file_time' | null
-    duplicateInfo?: { targetDate: string; fileName: string } | null
+    duplicateType?: DuplicateType | null
+    duplicateInfo?: DuplicateInfo | null
+    // 重複元の日付を表示する（カレンダーの日付移動）
+    onOpenDuplicate?: (targetDate: string) => void
+    // 撮影日の表示に使うクライアントのタイムゾーン
+    timeZone?: string | null
+    // まとめて承認/却下するための選択（管理者の選択モード時のみ指定）
+    isSelected?: boolean
+    onToggleSelect?: (id: number) => void
 }
 
-export function WorkoutCard({ submission, onDelete, isAdmin, onPlay, itemName, onUpdateStatus, onAddComment, onDeleteComment, onMarkAsRead, deadlineMode = 'none', duplicateType, duplicateInfo }: WorkoutCardProps) {
+export function WorkoutCard({ submission, onDelete, isAdmin, onPlay, itemName, onUpdateStatus, onAddComment, onDeleteComment, onMarkAsRead, deadlineMode = 'none', duplicateType, duplicateInfo, onOpenDuplicate, timeZone, isSelected = false, onToggleSelect }: WorkoutCardProps) {
     const [isDeleting, setIsDeleting] = useState(false)
-    const [commentText, setCommentText] = useState((submission as any).admin_comments?.[0]?.content || '')
-    const [isCommenting, setIsCommenting] = useState(false)
-    const [isDeletingComment, setIsDeletingComment] = useState(false)
     const [repsInput, setRepsInput] = useState<string>(submission.reps?.toString() || '')
     const [isApproveOpen, setIsApproveOpen] = useState(false)
     const [isUpdatingStatus, setIsUpdatingStatus] = useState(false)
 
+    const duplicateDateStr = duplicateInfo && duplicateInfo.targetDate !== '日付不明'
+        ? format(parseISO(duplicateInfo.targetDate), 'M/d')
+        : null
+
+    // 撮影日（トレーナー向け。提出日と異なる場合は強調する）
+    const recordingInfo = isAdmin ? getRecordingDateInfo(submission, timeZone) : null
+
+    const comments: ThreadMessage[] = (submission as any).admin_comments ?? []
+    const unreadMessages = getUnreadMessages(comments, submission.user_id, !!isAdmin)
+
     const reviewedAtStr = submission.reviewed_at
         ? format(parseISO(submission.reviewed_at), 'MM/dd HH:mm')
         : null
@@ -75,37 +97,10 @@ export function WorkoutCard({ submission, onDelete, isAdmin, onPlay, itemName, o
         await handleStatusUpdate('success', reps)
     }
 
-    const handleAddComment = async () => {
-        if (!onAddComment || !commentText.trim()) return
-        setIsCommenting(true)
-        try {
-            await onAddComment(submission.id, commentText)
-        } finally {
-            setIsCommenting(false)
-        }
-    }
-
-    const handleDeleteComment = async () => {
-        const comment = (submission as any).admin_comments?.[0]
-        if (!onDeleteComment || !comment) return
-
-        if (!window.confirm('管理者コメントを削除してもよろしいですか？')) {
-            return
-        }
-
-        setIsDeletingComment(true)
-        try {
-            await onDeleteComment(comment.id)
-            setCommentText('')
-        } finally {
-            setIsDeletingComment(false)
-        }
-    }
-
-    const handleReadComment = async () => {
-        const comment = (submission as any).admin_comments?.[0]
-        if (comment && !comment.read_at && onMarkAsRead) {
-            await onMarkAsRead(comment.id)
+    // トレーナーとクライアントのメッセージ（開いたら相手からの未読を既読にする）
+    const handleOpenThread = async (open: boolean) => {
+        if (open && unreadMessages.length > 0 && onMarkAsRead) {
+            await onMarkAsRead(submission.id)
         }
     }
 
@@ -126,7 +121,6 @@ export function WorkoutCard({ submission, onDelete, isAdmin, onPlay, itemName, o
 
     const fileName = (submission as any).file_name
     const duration = submission.duration
-    const adminComment = (submission as any).admin_comments?.[0]
 
     const handleDelete = async (e: React.MouseEvent) => {
         e.preventDefault()
@@ -147,7 +141,7 @@ export function WorkoutCard({ submission, onDelete, isAdmin, onPlay, itemName, o
     }
 
     return (
-        <Card className="overflow-hidden border shadow-sm bg-card hover:bg-accent/30 transition-all duration-200 group/card relative">
+        <Card className={`overflow-hidden border shadow-sm bg-card hover:bg-accent/30 transition-all duration-200 group/card relative ${isSelected ? 'ring-2 ring-primary' : ''}`}>
             {/* Delete Button (Unified to Top-Right) */}
             {onDelete && (
                 <Button
@@ -221,6 +215,21 @@ export function WorkoutCard({ submission, onDelete, isAdmin, onPlay, itemName, o
                             </div>
                         )}
 
+                        {/* 選択チェックボックス（選択モード時） */}
+                        {onToggleSelect && (
+                            <label
+                                className="absolute top-1 left-1 z-10 w-6 h-6 flex items-center justify-center rounded bg-white/90 shadow cursor-pointer"
+                                onClick={(e) => e.stopPropagation()}
+                            >
+                                <input
+                                    type="checkbox"
+                                    checked={isSelected}
+                                    onChange={() => onToggleSelect(submission.id)}
+                                    className="w-4 h-4 rounded"
+                                />
+                            </label>
+                        )}
+
                         {/* Play Overlay */}
                         <div className="absolute inset-0 flex items-center justify-center bg-black/10 group-hover/thumb:bg-black/30 transition-colors">
                             <div className="w-7 h-7 rounded-full bg-white/30 backdrop-blur-sm flex items-center justify-center opacity-80 group-hover/thumb:opacity-100 transition-all scale-90 group-hover/thumb:scale-100 border border-white/20">
@@ -285,6 +294,39 @@ export function WorkoutCard({ submission, onDelete, isAdmin, onPlay, itemName, o
                                     </Popover>
                                 )}
 
+                                {recordingInfo && (
+                                    <Popover>
+                                        <PopoverTrigger asChild>
+                                            <div className={`flex items-center gap-1 text-[10px] font-medium min-w-0 cursor-pointer active:opacity-60 transition-opacity w-fit ${recordingInfo.mismatch ? 'text-yellow-600 font-bold' : 'text-muted-foreground/80'}`}>
+                                                <Camera className="w-2.5 h-2.5 shrink-0" />
+                                                <span className="truncate">{recordingInfo.label}</span>
+                                            </div>
+                                        </PopoverTrigger>
+                                        <PopoverContent side="top" className="w-auto p-2 bg-popover/95 backdrop-blur-sm border shadow-xl z-[200] space-y-1">
+                                            <p className="text-[11px] font-mono leading-none">
+                                                撮影日時: {formatRecordedAt(recordingInfo.recordedAt, timeZone, 'yyyy/MM/dd HH:mm')}
+                                            </p>
+                                            <p className="text-[10px] text-muted-foreground leading-none">
+                                                {recordingInfo.recordedAt.source === 'metadata' ? '動画の作成日時より' : 'ファイルの更新日時より（動画に作成日時なし）'}
+                                            </p>
+                                            {recordingInfo.mismatch && (
+                                                <p className="text-[10px] text-yellow-600 font-bold leading-none">提出日と撮影日が異なります</p>
+                                            )}
+                                        </PopoverContent>
+                                    </Popover>
+                                )}
+
+                                {/* アップロードログ（この動画をアップロードしたセッション） */}
+                                {isAdmin && submission.bunny_video_id && (
+                                    <Link
+                                        to={`/admin/upload-logs?video=${encodeURIComponent(submission.bunny_video_id)}`}
+                                        className="flex items-center gap-1 text-[10px] text-muted-foreground/80 font-medium min-w-0 hover:text-foreground active:opacity-60 transition-opacity w-fit"
+                                    >
+                                        <FileText className="w-2.5 h-2.5 shrink-0" />
+                                        <span className="truncate">アップロードログ</span>
+                                    </Link>
+                                )}
+
                                 {/* Admin Actions - Compact icon buttons below timestamp */}
                                 {isAdmin && (
                                     <div className="flex items-center gap-1 pt-0.5">
@@ -349,61 +391,33 @@ export function WorkoutCard({ submission, onDelete, isAdmin, onPlay, itemName, o
                                             <RotateCcw className="w-3.5 h-3.5 text-muted-foreground" />
                                         </Button>
 
-                                        {/* コメントボタン (管理者) */}
-                                        <Popover>
+                                        {/* メッセージボタン (管理者) */}
+                                        <Popover onOpenChange={handleOpenThread}>
                                             <PopoverTrigger asChild>
                                                 <Button
                                                     size="icon"
                                                     variant="outline"
-                                                    className={`h-6 w-6 border-muted-foreground/20 hover:bg-blue-50 relative ${adminComment ? 'bg-blue-50 border-blue-200' : ''}`}
-                                                    title="コメント"
+                                                    className={`h-6 w-6 border-muted-foreground/20 hover:bg-blue-50 relative ${comments.length > 0 ? 'bg-blue-50 border-blue-200' : ''}`}
+                                                    title="メッセージ"
                                                 >
-                                                    <MessageSquare className={`w-3.5 h-3.5 ${adminComment ? 'text-blue-600' : 'text-muted-foreground'}`} />
-                                                    {adminComment && !adminComment.read_at && (
-                                                        <span className="absolute -top-1 -right-1 w-2 h-2 bg-orange-500 rounded-full border border-white" />
-                                                    )}
-                                                    {adminComment && adminComment.read_at && (
-                                                        <CheckCircle2 className="absolute -top-1 -right-1 w-2.5 h-2.5 text-blue-600 bg-white rounded-full" />
+                                                    <MessageSquare className={`w-3.5 h-3.5 ${comments.length > 0 ? 'text-blue-600' : 'text-muted-foreground'}`} />
+                                                    {unreadMessages.length > 0 && (
+                                                        <span className="absolute -top-1.5 -right-1.5 min-w-3.5 h-3.5 px-0.5 bg-orange-500 text-white text-[8px] font-bold rounded-full border border-white flex items-center justify-center">
+                                                            {unreadMessages.length}
+                                                        </span>
                                                     )}
                                                 </Button>
                                             </PopoverTrigger>
                                             <PopoverContent side="top" className="w-80 p-3 bg-white shadow-xl z-[200]">
                                                 <div className="space-y-3">
-                                                    <h5 className="text-xs font-bold text-slate-500 uppercase tracking-wider">管理者コメント</h5>
-                                                    <textarea
-                                                        className="w-full text-sm p-2 border rounded-md focus:outline-none focus:ring-1 focus:ring-primary min-h-[80px] bg-slate-50"
-                                                        placeholder="フィードバックを入力..."
-                                                        value={commentText}
-                                                        onChange={(e) => setCommentText(e.target.value)}
+                                                    <h5 className="text-xs font-bold text-slate-500 uppercase tracking-wider">メッセージ</h5>
+                                                    <CommentThread
+                                                        messages={comments}
+                                                        submissionOwnerId={submission.user_id}
+                                                        isAdmin
+                                                        onSend={onAddComment ? (content) => onAddComment(submission.id, content) : undefined}
+                                                        onDelete={onDeleteComment}
                                                     />
-                                                    <div className="flex justify-between items-center">
-                                                        <span className="text-[10px] text-muted-foreground">
-                                                            {adminComment?.read_at ? `既読: ${format(parseISO(adminComment.read_at), 'MM/dd HH:mm')}` : '未読'}
-                                                        </span>
-                                                        <div className="flex gap-2">
-                                                            {adminComment && (
-                                                                <Button
-                                                                    size="sm"
-                                                                    variant="outline"
-                                                                    className="h-8 text-destructive hover:bg-destructive/10"
-                                                                    onClick={handleDeleteComment}
-                                                                    disabled={isDeletingComment}
-                                                                >
-                                                                    {isDeletingComment ? <Loader2 className="w-3 h-3 animate-spin" /> : <Trash2 className="w-3 h-3 mr-1" />}
-                                                                    削除
-                                                                </Button>
-                                                            )}
-                                                            <Button
-                                                                size="sm"
-                                                                className="h-8 gap-1.5"
-                                                                onClick={handleAddComment}
-                                                                disabled={isCommenting || !commentText.trim()}
-                                                            >
-                                                                {isCommenting ? <Loader2 className="w-3 h-3 animate-spin" /> : <Send className="w-3 h-3" />}
-                                                                保存
-                                                            </Button>
-                                                        </div>
-                                                    </div>
                                                 </div>
                                             </PopoverContent>
                                         </Popover>
@@ -415,7 +429,7 @@ export function WorkoutCard({ submission, onDelete, isAdmin, onPlay, itemName, o
                                         <PopoverTrigger asChild>
                                             <div className="flex items-center gap-1 text-[10px] font-bold text-destructive bg-destructive/10 p-1 rounded-md w-fit cursor-pointer active:opacity-60 transition-opacity">
                                                 <AlertCircle className="h-2.5 w-2.5" />
-                                                <span>重複の可能性</span>
+                                                <span>{duplicateDateStr ? `${duplicateDateStr}の動画と重複` : '重複の可能性'}</span>
                                             </div>
                                         </PopoverTrigger>
                                         <PopoverContent side="top" className="w-auto p-2 bg-popover/95 backdrop-blur-sm border shadow-xl z-[200]">
@@ -428,14 +442,25 @@ export function WorkoutCard({ submission, onDelete, isAdmin, onPlay, itemName, o
                                                         重複元: {duplicateInfo.targetDate} / {duplicateInfo.fileName || '不明'}
                                                     </p>
                                                 )}
+                                                {duplicateDateStr && onOpenDuplicate && (
+                                                    <Button
+                                                        variant="link"
+                                                        size="sm"
+                                                        className="h-auto p-0 text-[10px] gap-1"
+                                                        onClick={() => onOpenDuplicate(duplicateInfo!.targetDate)}
+                                                    >
+                                                        <ExternalLink className="h-2.5 w-2.5" />
+                                                        {duplicateDateStr}の投稿を表示
+                                                    </Button>
+                                                )}
                                             </div>
                                         </PopoverContent>
                                     </Popover>
                                 )}
 
-                                {/* Admin Comment Indicator (Client side) */}
-                                {!isAdmin && adminComment && (
-                                    <Popover onOpenChange={(open) => open && handleReadComment()}>
+                                {/* トレーナーからのメッセージ (Client side) */}
+                                {!isAdmin && comments.length > 0 && (
+                                    <Popover onOpenChange={handleOpenThread}>
                                         <PopoverTrigger asChild>
                                             <Button
                                                 variant="outline"
@@ -444,23 +469,24 @@ export function WorkoutCard({ submission, onDelete, isAdmin, onPlay, itemName, o
                                             >
                                                 <MessageSquare className="w-3 h-3" />
                                                 コメントあり
-                                                {!adminComment.read_at && (
+                                                {unreadMessages.length > 0 && (
                                                     <span className="w-1.5 h-1.5 bg-orange-500 rounded-full animate-pulse" />
                                                 )}
                                             </Button>
                                         </PopoverTrigger>
-                                        <PopoverContent side="top" className="w-72 p-3 bg-white shadow-xl z-[200]">
+                                        <PopoverContent side="top" className="w-80 p-3 bg-white shadow-xl z-[200]">
                                             <div className="space-y-2">
                                                 <div className="flex items-center gap-2 mb-1">
                                                     <MessageSquare className="w-3.5 h-3.5 text-orange-600" />
-                                                    <h5 className="text-[11px] font-bold text-slate-500 uppercase tracking-wider">管理者からのメッセージ</h5>
-                                                </div>
-                                                <p className="text-sm text-slate-700 leading-relaxed whitespace-pre-wrap bg-slate-50 p-2.5 rounded-lg border border-slate-100">
-                                                    {adminComment.content}
-                                                </p>
-                                                <div className="text-[9px] text-muted-foreground text-right pt-1">
-                                                    {format(parseISO(adminComment.created_at), 'yyyy/MM/dd HH:mm')}
+                                                    <h5 className="text-[11px] font-bold text-slate-500 uppercase tracking-wider">トレーナーとのメッセージ</h5>
                                                 </div>
+                                                <CommentThread
+                                                    messages={comments}
+                                                    submissionOwnerId={submission.user_id}
+                                                    ownerName="あなた"
+                                                    onSend={onAddComment ? (content) => onAddComment(submission.id, content) : undefined}
+                                                    onDelete={onDeleteComment}
+                                                />
                                             </div>
                                         </PopoverContent>
                                     </Popover>
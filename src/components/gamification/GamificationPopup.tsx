@@ -6,10 +6,13 @@
 import { useEffect, useState } from 'react'
 import { X } from 'lucide-react'
 
+type GamificationNotificationType = 'shield_consumed' | 'revival_success' | 'perfect_week' | 'streak_title' | 'goal_completed'
+
 interface GamificationPopupProps {
-    type: 'shield_consumed' | 'revival_success' | 'perfect_week'
+    type: GamificationNotificationType
     message: string
     count?: number
+    title?: string
     onClose: () => void
     autoCloseMs?: number
 }
@@ -18,6 +21,7 @@ export function GamificationPopup({
     type,
     message,
     count,
+    title,
     onClose,
     autoCloseMs = 4000
 }: GamificationPopupProps) {
@@ -62,6 +66,16 @@ export function GamificationPopup({
             icon: '/assets/perfect_crown.png',
             bgColor: 'bg-yellow-500/90',
             borderColor: 'border-yellow-300'
+        },
+        streak_title: {
+            icon: '/assets/perfect_crown.png',
+            bgColor: 'bg-purple-600/90',
+            borderColor: 'border-purple-300'
+        },
+        goal_completed: {
+            icon: '/assets/perfect_crown.png',
+            bgColor: 'bg-emerald-600/90',
+            borderColor: 'border-emerald-300'
         }
     }[type]
 
@@ -112,18 +126,32 @@ export function GamificationPopup({
                         className={`
                             w-20 h-20 object-contain drop-shadow-lg
                             ${type === 'revival_success' ? 'animate-bounce-slow' : ''}
-                            ${type === 'perfect_week' ? 'animate-pulse' : ''}
+                            ${type === 'perfect_week' || type === 'streak_title' || type === 'goal_completed' ? 'animate-pulse' : ''}
                         `}
                     />
                 </div>
 
+                {/* 称号・目標名 */}
+                {title && (
+                    <>
+                        <p className="text-center text-white/80 text-xs font-semibold tracking-wider">
+                            {type === 'goal_completed'
+                                ? '目標達成'
+                                : `称号獲得${count !== undefined ? `（${count}日連続）` : ''}`}
+                        </p>
+                        <p className="text-center text-white font-extrabold text-2xl mb-2">
+                            {title}
+                        </p>
+                    </>
+                )}
+
                 {/* メッセージ */}
                 <p className="text-center text-white font-bold text-lg leading-relaxed">
                     {message}
                 </p>
 
                 {/* カウント表示 */}
-                {count !== undefined && (
+                {count !== undefined && !title && (
                     <p className="text-center text-white/80 text-sm mt-2">
                         ×{count}
                     </p>
@@ -138,9 +166,10 @@ export function GamificationPopup({
  */
 interface GamificationNotificationsProps {
     notifications: Array<{
-        type: 'shield_consumed' | 'revival_success' | 'perfect_week'
+        type: GamificationNotificationType
         message: string
         count?: number
+        title?: string
     }>
     onClear: (index: number) => void
 }
@@ -156,10 +185,13 @@ export function GamificationNotifications({
 
     return (
         <GamificationPopup
+            key={`${notification.type}-${notification.title ?? ''}-${notification.message}`}
             type={notification.type}
             message={notification.message}
             count={notification.count}
+            title={notification.title}
             onClose={() => onClear(0)}
+            autoCloseMs={notification.type === 'streak_title' || notification.type === 'goal_completed' ? 6000 : undefined}
         />
     )
 }
@@ -6,47 +6,61 @@ import { cn } from "@/lib/utils"
 import { useAuth } from "@/context/AuthContext"
 import { supabase } from "@/lib/supabase"
 import { useUnreviewedCount } from "@/hooks/useUnreviewedCount"
+import { useDiagnosticReportCount } from "@/hooks/useDiagnosticReportCount"
+import { useUnreadCommentCounts } from "@/hooks/useUnreadCommentCounts"
+import { UploadQueueProvider } from "@/context/UploadQueueContext"
+import { UploadQueueTray } from "@/components/upload/UploadQueueTray"
 
 export default function AppLayout() {
     const [isCollapsed, setIsCollapsed] = useState(false)
-    const { profile } = useAuth()
+    const { profile, user } = useAuth()
     const { count: unreviewedCount } = useUnreviewedCount(profile?.role === 'admin')
+    const { count: diagnosticReportCount } = useDiagnosticReportCount(profile?.role === 'admin')
+    const { summaries: unreadComments } = useUnreadCommentCounts(user?.id)
 
-    // 管理者がアプリを開いたタイミングで cleanup-videos を自動実行する。
+    // 管理者がアプリを開いたタイミングで cleanup-videos / prune-upload-logs を自動実行する。
     // UI をブロックせずバックグラウンドで実行し、結果は console のみに記録する。
+    // prune-upload-logs は前回の整理から保持ポリシーの間隔が空いていなければ何もしない。
     useEffect(() => {
         if (profile?.role === 'admin') {
             supabase.functions.invoke('cleanup-videos').then(({ data, error }) => {
                 if (error) console.error('Cleanup failed:', error)
                 else console.log('Cleanup result:', data)
             })
+            supabase.functions.invoke('prune-upload-logs').then(({ data, error }) => {
+                if (error) console.error('Upload log pruning failed:', error)
+                else console.log('Upload log pruning result:', data)
+            })
         }
     }, [profile?.role])
 
     return (
         <ThemeProvider defaultTheme="system" storageKey="fit-proof-theme">
-            <div className="flex min-h-screen flex-col">
-                <header className="sticky top-0 z-50 w-full border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60 md:hidden">
-                    <div className="container flex h-14 items-center">
-                        <MobileNav unreviewedCount={unreviewedCount} />
-                    </div>
-                </header>
+            <UploadQueueProvider>
+                <div className="flex min-h-screen flex-col">
+                    <header className="sticky top-0 z-50 w-full border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60 md:hidden">
+                        <div className="container flex h-14 items-center">
+                            <MobileNav unreviewedCount={unreviewedCount} diagnosticReportCount={diagnosticReportCount} unreadComments={unreadComments} />
+                        </div>
+                    </header>
 
-                <div className={cn(
-                    "flex-1 md:grid transition-all duration-300",
-                    isCollapsed ? "md:grid-cols-[64px_1fr]" : "md:grid-cols-[256px_1fr]"
-                )}>
-                    <aside className="hidden border-r bg-muted/40 md:block min-h-screen relative">
-                        <Sidebar isCollapsed={isCollapsed} setIsCollapsed={setIsCollapsed} unreviewedCount={unreviewedCount} />
-                    </aside>
+                    <div className={cn(
+                        "flex-1 md:grid transition-all duration-300",
+                        isCollapsed ? "md:grid-cols-[64px_1fr]" : "md:grid-cols-[256px_1fr]"
+                    )}>
+                        <aside className="hidden border-r bg-muted/40 md:block min-h-screen relative">
+                            <Sidebar isCollapsed={isCollapsed} setIsCollapsed={setIsCollapsed} unreviewedCount={unreviewedCount} diagnosticReportCount={diagnosticReportCount} unreadComments={unreadComments} />
+                        </aside>
 
-                    <main className="flex w-full flex-col overflow-hidden">
-                        <div className="flex-1 space-y-4 p-8 pt-6">
-                            <Outlet />
-                        </div>
-                    </main>
+                        <main className="flex w-full flex-col overflow-hidden">
+                            <div className="flex-1 space-y-4 p-8 pt-6">
+                                <Outlet />
+                            </div>
+                        </main>
+                    </div>
                 </div>
-            </div>
+                <UploadQueueTray />
+            </UploadQueueProvider>
         </ThemeProvider>
     )
 }
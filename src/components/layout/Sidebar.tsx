@@ -1,5 +1,5 @@
 import { Link, useLocation } from "react-router-dom"
-import { Calendar, LogOut, Settings, Users, Menu, ChevronLeft, ChevronRight, FileText } from "lucide-react"
+import { Calendar, LogOut, Settings, Users, Menu, ChevronLeft, ChevronRight, FileText, BarChart3, ClipboardCheck, MessageSquare } from "lucide-react"
 
 import { cn } from "@/lib/utils"
 import { Button } from "@/components/ui/button"
@@ -8,14 +8,82 @@ import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet"
 import { useState } from "react"
 import { ModeToggle } from "../mode-toggle"
 import { useAuth } from "@/context/AuthContext"
+import type { UnreadCommentSummary } from "@/hooks/useUnreadCommentCounts"
 
 interface SidebarProps extends React.HTMLAttributes<HTMLDivElement> {
     isCollapsed: boolean
     setIsCollapsed: (value: boolean) => void
     unreviewedCount?: number
+    diagnosticReportCount?: number
+    unreadComments?: UnreadCommentSummary[]
 }
 
-export function Sidebar({ className, isCollapsed, setIsCollapsed, unreviewedCount = 0 }: SidebarProps) {
+// メニューのバッジ（カレンダー・レビュー: 未確認の提出、アップロードログ: 未読の診断レポート）
+// 未読メッセージは UnreadMessagesNav に分けて表示する
+function getBadgeCount(href: string, unreviewedCount: number, diagnosticReportCount: number) {
+    if (href === "/" || href === "/admin/review") return unreviewedCount
+    if (href === "/admin/upload-logs") return diagnosticReportCount
+    return 0
+}
+
+function formatBadgeCount(count: number) {
+    return count > 99 ? '99+' : count
+}
+
+// 自分宛ての未読メッセージ（管理者はクライアントごとの内訳。選ぶとカレンダーでそのクライアントを開く）
+function UnreadMessagesNav({ unreadComments, isAdmin, isCollapsed = false, onNavigate }: {
+    unreadComments: UnreadCommentSummary[]
+    isAdmin: boolean
+    isCollapsed?: boolean
+    onNavigate?: () => void
+}) {
+    const total = unreadComments.reduce((sum, c) => sum + c.count, 0)
+    if (total === 0) return null
+
+    if (isCollapsed) {
+        return (
+            <Button variant="ghost" className="w-full justify-center p-0" asChild>
+                <Link to="/" title={`未読メッセージ ${total}件`}>
+                    <span className="relative">
+                        <MessageSquare className="h-4 w-4" />
+                        <span className="absolute -top-1.5 -right-1.5 h-2 w-2 rounded-full bg-orange-500" />
+                    </span>
+                </Link>
+            </Button>
+        )
+    }
+
+    return (
+        <div className="space-y-1">
+            <Link
+                to="/"
+                onClick={onNavigate}
+                className="flex items-center px-4 py-2 text-sm font-medium rounded-md hover:bg-accent"
+            >
+                <MessageSquare className="mr-2 h-4 w-4" />
+                <span>Messages</span>
+                <span className="ml-auto bg-orange-500 text-white text-xs rounded-full h-5 min-w-5 flex items-center justify-center px-1 font-medium">
+                    {formatBadgeCount(total)}
+                </span>
+            </Link>
+            {isAdmin && unreadComments.map((c) => (
+                <Link
+                    key={c.userId}
+                    to={`/?client=${c.userId}`}
+                    onClick={onNavigate}
+                    className="flex items-center pl-10 pr-4 py-1 text-xs text-muted-foreground rounded-md hover:bg-accent hover:text-foreground"
+                >
+                    <span className="truncate">{c.displayName || 'Unknown'}</span>
+                    <span className="ml-auto shrink-0 text-orange-600 font-bold tabular-nums">
+                        {formatBadgeCount(c.count)}
+                    </span>
+                </Link>
+            ))}
+        </div>
+    )
+}
+
+export function Sidebar({ className, isCollapsed, setIsCollapsed, unreviewedCount = 0, diagnosticReportCount = 0, unreadComments = [] }: SidebarProps) {
     const location = useLocation()
     const { signOut, profile, user } = useAuth()
 
@@ -28,6 +96,11 @@ export function Sidebar({ className, isCollapsed, setIsCollapsed, unreviewedCoun
     ]
 
     if (profile?.role === 'admin') {
+        items.push({
+            title: "Review",
+            icon: ClipboardCheck,
+            href: "/admin/review",
+        })
         items.push({
             title: "Submission Settings",
             icon: Settings,
@@ -43,6 +116,11 @@ export function Sidebar({ className, isCollapsed, setIsCollapsed, unreviewedCoun
             icon: FileText,
             href: "/admin/upload-logs",
         })
+        items.push({
+            title: "Upload Analytics",
+            icon: BarChart3,
+            href: "/admin/upload-analytics",
+        })
     }
 
     return (
@@ -58,35 +136,41 @@ export function Sidebar({ className, isCollapsed, setIsCollapsed, unreviewedCoun
                         )}
                     </div>
                     <div className="space-y-1">
-                        {items.map((item) => (
-                            <Button
-                                key={item.href}
-                                variant={location.pathname === item.href ? "secondary" : "ghost"}
-                                className={cn("w-full transition-all", isCollapsed ? "justify-center p-0" : "justify-start px-4")}
-                                asChild
-                            >
-                                <Link to={item.href}>
-                                    {isCollapsed ? (
-                                        <span className="relative">
-                                            <item.icon className="h-4 w-4" />
-                                            {item.href === "/" && unreviewedCount > 0 && (
-                                                <span className="absolute -top-1.5 -right-1.5 h-2 w-2 rounded-full bg-destructive" />
-                                            )}
-                                        </span>
-                                    ) : (
-                                        <>
-                                            <item.icon className="mr-2 h-4 w-4" />
-                                            <span>{item.title}</span>
-                                            {item.href === "/" && unreviewedCount > 0 && (
-                                                <span className="ml-auto bg-destructive text-destructive-foreground text-xs rounded-full h-5 min-w-5 flex items-center justify-center px-1 font-medium">
-                                                    {unreviewedCount > 99 ? '99+' : unreviewedCount}
-                                                </span>
-                                            )}
-                                        </>
-                                    )}
-                                </Link>
-                            </Button>
-                        ))}
+                        {items.map((item) => {
+                            const badgeCount = getBadgeCount(item.href, unreviewedCount, diagnosticReportCount)
+                            return (
+                                <Button
+                                    key={item.href}
+                                    variant={location.pathname === item.href ? "secondary" : "ghost"}
+                                    className={cn("w-full transition-all", isCollapsed ? "justify-center p-0" : "justify-start px-4")}
+                                    asChild
+                                >
+                                    <Link to={item.href}>
+                                        {isCollapsed ? (
+                                            <span className="relative">
+                                                <item.icon className="h-4 w-4" />
+                                                {badgeCount > 0 && (
+                                                    <span className="absolute -top-1.5 -right-1.5 h-2 w-2 rounded-full bg-destructive" />
+                                                )}
+                                            </span>
+                                        ) : (
+                                            <>
+                                                <item.icon className="mr-2 h-4 w-4" />
+                                                <span>{item.title}</span>
+                                                {badgeCount > 0 && (
+                                                    <span className="ml-auto bg-destructive text-destructive-foreground text-xs rounded-full h-5 min-w-5 flex items-center justify-center px-1 font-medium">
+                                                        {formatBadgeCount(badgeCount)}
+                                                    </span>
+                                                )}
+                                            </>
+                                        )}
+                                    </Link>
+                                </Button>
+                            )
+                        })}
+                    </div>
+                    <div className="mt-4 border-t pt-4 empty:hidden">
+                        <UnreadMessagesNav unreadComments={unreadComments} isAdmin={profile?.role === 'admin'} isCollapsed={isCollapsed} />
                     </div>
                 </div>
             </div>
@@ -140,7 +224,7 @@ export function Sidebar({ className, isCollapsed, setIsCollapsed, unreviewedCoun
     )
 }
 
-export function MobileNav({ unreviewedCount = 0 }: { unreviewedCount?: number }) {
+export function MobileNav({ unreviewedCount = 0, diagnosticReportCount = 0, unreadComments = [] }: { unreviewedCount?: number; diagnosticReportCount?: number; unreadComments?: UnreadCommentSummary[] }) {
     const [open, setOpen] = useState(false)
     const location = useLocation()
     const { signOut, profile, user } = useAuth()
@@ -154,6 +238,11 @@ export function MobileNav({ unreviewedCount = 0 }: { unreviewedCount?: number })
     ]
 
     if (profile?.role === 'admin') {
+        items.push({
+            title: "Review",
+            icon: ClipboardCheck,
+            href: "/admin/review",
+        })
         items.push({
             title: "Submission Settings",
             icon: Settings,
@@ -169,6 +258,11 @@ export function MobileNav({ unreviewedCount = 0 }: { unreviewedCount?: number })
             icon: FileText,
             href: "/admin/upload-logs",
         })
+        items.push({
+            title: "Upload Analytics",
+            icon: BarChart3,
+            href: "/admin/upload-analytics",
+        })
     }
 
     return (
@@ -193,25 +287,31 @@ export function MobileNav({ unreviewedCount = 0 }: { unreviewedCount?: number })
                 </Link>
                 <ScrollArea className="my-4 h-[calc(100vh-8rem)] pb-10 pl-6">
                     <div className="flex flex-col space-y-3">
-                        {items.map((item) => (
-                            <Link
-                                key={item.href}
-                                to={item.href}
-                                onClick={() => setOpen(false)}
-                                className={cn(
-                                    "flex items-center text-foreground/70 transition-colors hover:text-foreground",
-                                    location.pathname === item.href && "text-foreground font-bold"
-                                )}
-                            >
-                                <item.icon className="mr-2 h-4 w-4" />
-                                {item.title}
-                                {item.href === "/" && unreviewedCount > 0 && (
-                                    <span className="ml-auto bg-destructive text-destructive-foreground text-xs rounded-full h-5 min-w-5 flex items-center justify-center px-1 font-medium">
-                                        {unreviewedCount > 99 ? '99+' : unreviewedCount}
-                                    </span>
-                                )}
-                            </Link>
-                        ))}
+                        {items.map((item) => {
+                            const badgeCount = getBadgeCount(item.href, unreviewedCount, diagnosticReportCount)
+                            return (
+                                <Link
+                                    key={item.href}
+                                    to={item.href}
+                                    onClick={() => setOpen(false)}
+                                    className={cn(
+                                        "flex items-center text-foreground/70 transition-colors hover:text-foreground",
+                                        location.pathname === item.href && "text-foreground font-bold"
+                                    )}
+                                >
+                                    <item.icon className="mr-2 h-4 w-4" />
+                                    {item.title}
+                                    {badgeCount > 0 && (
+                                        <span className="ml-auto bg-destructive text-destructive-foreground text-xs rounded-full h-5 min-w-5 flex items-center justify-center px-1 font-medium">
+                                            {formatBadgeCount(badgeCount)}
+                                        </span>
+                                    )}
+                                </Link>
+                            )
+                        })}
+                    </div>
+                    <div className="mt-4 -ml-4 pr-4 empty:hidden">
+                        <UnreadMessagesNav unreadComments={unreadComments} isAdmin={profile?.role === 'admin'} onNavigate={() => setOpen(false)} />
                     </div>
                 </ScrollArea>
                 <div className="absolute bottom-4 left-4 right-4 space-y-2">
@@ -1,10 +1,13 @@
-import { useState, useRef, useEffect, useMemo } from 'react'
+import { useState, useRef, useEffect } from 'react'
 import { Database } from "@/types/database.types"
 import { useAuth } from '@/context/AuthContext'
 import { generateThumbnail } from '@/utils/thumbnail'
 import { calculateFileHash } from '@/utils/hash'
-import { executeUpload, UploadError, recheckVideoStatus, continueAfterRecheck, type UploadStage, type ThumbnailStrategy } from '@/lib/upload-core'
+import { type ThumbnailStrategy } from '@/lib/upload-core'
 import { isIOS } from '@/lib/upload-logger'
+import { getCompressionSettings } from '@/lib/upload-compress'
+import { readVideoCreationTime } from '@/utils/videoMetadata'
+import { getRecordedAt, isRecordingDateMismatch, getRecordingDateMessage } from '@/utils/recordingDate'
 import { Button } from '@/components/ui/button'
 import { Progress } from '@/components/ui/progress'
 import { Upload, CheckCircle, AlertCircle, AlertTriangle, Film, X, RefreshCw, RotateCcw } from 'lucide-react'
@@ -18,7 +21,8 @@ import {
   LARGE_FILE_THUMBNAIL_SKIP_THRESHOLD_BYTES,
   isAllowedVideoFile,
 } from '@/lib/upload-constants'
-import { useUploadGuard } from '@/hooks/useUploadGuard'
+import { useUploadQueue } from '@/context/UploadQueueContext'
+import { UploadJob, getUploadJobId, isUploadJobActive } from '@/lib/upload-queue'
 
 interface UploadModalProps {
     targetDate: Date | null
@@ -27,6 +31,8 @@ interface UploadModalProps {
     items: Database['public']['Tables']['submission_items']['Row'][]
     completedSubmissions: { id: number | null, item_id: number | null, file_name: string | null }[]
     isLate?: boolean
+    // 指定時刻で期限超過を判定する（オフライン撮影の動画用）
+    isLateAt?: (at: Date) => boolean
 }
 
 interface ItemUploadState {
@@ -34,36 +40,24 @@ interface ItemUploadState {
     thumbnail: string | null
     thumbnailStrategy: ThumbnailStrategy
     duration: number | null
-    progress: number
     error: string | null
-    success: boolean
-    isUploading: boolean
     hash: string | null
     fileLastModified: string | null
-    phase: 'uploading' | 'verifying' | 'saving' | null
-    stage: UploadStage | null
+    // 動画の作成日時（mvhd）。撮影日と提出日の照合に使う
+    videoCreatedAt: string | null
     isPreparing: boolean
-    // For uncertain state (status -1)
-    isRetryable: boolean
-    isUncertain: boolean
-    pendingVideoId: string | null
-    isRechecking: boolean
 }
 
+// アップロード自体はアプリ全体のキュー（UploadQueueContext）で実行し、モーダルを閉じても続行する
 const defaultState: ItemUploadState = {
-    file: null, thumbnail: null, thumbnailStrategy: 'downscaled', duration: null, progress: 0, error: null,
-    success: false, isUploading: false, hash: null, fileLastModified: null, phase: null,
-    stage: null, isPreparing: false, isRetryable: false, isUncertain: false, pendingVideoId: null, isRechecking: false,
+    file: null, thumbnail: null, thumbnailStrategy: 'downscaled', duration: null, error: null,
+    hash: null, fileLastModified: null, videoCreatedAt: null, isPreparing: false,
 }
 
-export function UploadModal({ targetDate, onClose, onSuccess, items, completedSubmissions, isLate = false }: UploadModalProps) {
-    const { user } = useAuth()
+export function UploadModal({ targetDate, onClose, onSuccess, items, completedSubmissions, isLate = false, isLateAt }: UploadModalProps) {
+    const { user, profile } = useAuth()
     const [uploadingState, setUploadingState] = useState<Record<number | string, ItemUploadState>>({})
-    const hasActiveUpload = useMemo(
-        () => Object.values(uploadingState).some(s => s.isUploading),
-        [uploadingState],
-    )
-    useUploadGuard(hasActiveUpload)
+    const { jobs, enqueue, retry, recheck } = useUploadQueue()
     const fileInputRefs = useRef<Record<number | string, HTMLInputElement | null>>({})
     const fileSelectCounterRef = useRef<Record<number | string, number>>({})
     const hashAbortRef = useRef<Record<number | string, AbortController>>({})
@@ -133,7 +127,7 @@ export function UploadModal({ targetDate, onClose, onSuccess, items, completedSu
         const selectedFile = e.target.files?.[0]
         const counter = (fileSelectCounterRef.current[itemId] || 0) + 1
         fileSelectCounterRef.current[itemId] = counter
-        updateState(itemId, { error: null, success: false, thumbnail: null, duration: null, isRetryable: false, isUncertain: false, pendingVideoId: null })
+        updateState(itemId, { error: null, thumbnail: null, duration: null })
 
         if (!selectedFile) return
 
@@ -151,12 +145,18 @@ export function UploadModal({ targetDate, onClose, onSuccess, items, completedSu
             ? new Date(selectedFile.lastModified).toISOString()
             : null
 
-        updateState(itemId, { file: selectedFile, thumbnail: null, thumbnailStrategy: 'downscaled', duration: null, error: null, success: false, isPreparing: true, fileLastModified })
+        updateState(itemId, { file: selectedFile, thumbnail: null, thumbnailStrategy: 'downscaled', duration: null, error: null, isPreparing: true, fileLastModified, videoCreatedAt: null })
 
         // 前回のハッシュ計算を中断
         hashAbortRef.current[itemId]?.abort()
 
         try {
+            // Step 0: 動画の作成日時（ファイルの先頭・末尾の数十バイトのみ読む）
+            // 撮影日の照合に使うため、読み終わるまでは準備中としてアップロードさせない
+            const createdAt = await readVideoCreationTime(selectedFile).catch(() => null)
+            if (fileSelectCounterRef.current[itemId] !== counter) return
+            updateState(itemId, { videoCreatedAt: createdAt?.toISOString() ?? null })
+
             // Step 1: サムネイル生成と動画長抽出
             // iOS + 大容量では <video> decode + canvas drawImage + toDataURL の native メモリ
             // ピークが jetsam の主因と推定されるためサムネ生成自体をスキップする。
@@ -201,116 +201,74 @@ export function UploadModal({ targetDate, onClose, onSuccess, items, completedSu
         }
     }
 
-    const handleUpload = async (itemId: number | string) => {
-        const state = uploadingState[itemId]
-        if (!state?.file || !user) return
-
-        updateState(itemId, {
-            isUploading: true, progress: 0, error: null, phase: 'uploading', stage: 'preparing-video',
-            isRetryable: false, isUncertain: false, pendingVideoId: null,
+    const getJob = (itemId: number | string): UploadJob | undefined => {
+        if (!user) return undefined
+        const id = getUploadJobId({
+            userId: user.id,
+            targetDate: format(targetDate, 'yyyy-MM-dd'),
+            submissionItemId: typeof itemId === 'number' ? itemId : null,
         })
+        return jobs.find(j => j.id === id)
+    }
 
-        try {
-            const targetDateStr = format(targetDate, 'yyyy-MM-dd')
-            const normalizedItemId = typeof itemId === 'number' ? itemId : null
-
-            await executeUpload({
-                file: state.file,
-                userId: user.id,
-                targetDate: targetDateStr,
-                submissionItemId: normalizedItemId,
-                thumbnail: state.thumbnail,
-                thumbnailStrategy: state.thumbnailStrategy,
-                duration: state.duration,
-                hash: state.hash,
-                isLate,
-                fileLastModified: state.fileLastModified,
-                onProgress: (progress) => updateState(itemId, { progress }),
-                onPhaseChange: (phase) => updateState(itemId, { phase }),
-                onStageChange: (stage) => updateState(itemId, { stage }),
-            })
-
-            updateState(itemId, { success: true, file: null, thumbnail: null, isUploading: false, phase: null, stage: null })
-            if (fileInputRefs.current[itemId]) {
-                fileInputRefs.current[itemId]!.value = ''
-            }
-            onSuccess?.()
-        } catch (err) {
-            if (err instanceof UploadError) {
-                updateState(itemId, {
-                    error: err.userMessage,
-                    isUploading: false,
-                    phase: null,
-                    stage: null,
-                    isRetryable: err.isRetryable,
-                    isUncertain: err.isUncertain,
-                    pendingVideoId: err.pendingVideoId ?? null,
-                })
-            } else {
-                console.error('Upload failed:', err)
-                updateState(itemId, { error: 'アップロードに失敗しました。', isUploading: false, phase: null, stage: null })
-            }
+    // 撮影日と提出日の照合（警告・ブロックはクライアントごとの設定）
+    const getRecordingDateCheck = (state: ItemUploadState) => {
+        const policy = profile?.recording_date_policy ?? 'warn'
+        const targetDateStr = format(targetDate, 'yyyy-MM-dd')
+        const recordedAt = state.file ? getRecordedAt(state.videoCreatedAt, state.fileLastModified) : null
+        const mismatch = isRecordingDateMismatch(recordedAt, targetDateStr, profile?.timezone)
+        return {
+            mismatch,
+            message: getRecordingDateMessage(policy, recordedAt, targetDateStr, profile?.timezone),
+            isBlocked: policy === 'block' && mismatch,
         }
     }
 
-    const handleRecheck = async (itemId: number | string) => {
+    const handleUpload = (itemId: number | string, label: string) => {
         const state = uploadingState[itemId]
-        if (!state?.pendingVideoId || !user || !state.file) return
-
-        updateState(itemId, { isRechecking: true, error: null })
+        if (!state?.file || !user) return
+        // 撮影日時の読み込み中は照合できないため送らない（ボタンも表示しない）
+        if (state.isPreparing) return
+        const recordingDateCheck = getRecordingDateCheck(state)
+        if (recordingDateCheck.isBlocked) return
+
+        // オフラインなら接続後に送るため、期限超過は送信時ではなく撮影（ファイル更新）日時で判定する
+        const late = !navigator.onLine && isLateAt && state.file.lastModified
+            ? isLateAt(new Date(state.file.lastModified))
+            : isLate
+
+        const queued = enqueue({
+            file: state.file,
+            userId: user.id,
+            targetDate: format(targetDate, 'yyyy-MM-dd'),
+            submissionItemId: typeof itemId === 'number' ? itemId : null,
+            thumbnail: state.thumbnail,
+            thumbnailStrategy: state.thumbnailStrategy,
+            duration: state.duration,
+            hash: state.hash,
+            isLate: late,
+            fileLastModified: state.fileLastModified,
+            videoCreatedAt: state.videoCreatedAt,
+            recordingDateMismatch: recordingDateCheck.mismatch,
+            compression: getCompressionSettings(profile),
+        }, { label, onSuccess })
+        if (!queued) {
+            updateState(itemId, { error: 'この項目のアップロードは実行中です。完了までお待ちください。' })
+            return
+        }
 
-        try {
-            const result = await recheckVideoStatus(state.pendingVideoId)
-
-            if (result.outcome === 'ready') {
-                const targetDateStr = format(targetDate, 'yyyy-MM-dd')
-                const normalizedItemId = typeof itemId === 'number' ? itemId : null
-
-                await continueAfterRecheck({
-                    videoId: state.pendingVideoId,
-                    userId: user.id,
-                    targetDate: targetDateStr,
-                    submissionItemId: normalizedItemId,
-                    file: state.file,
-                    thumbnail: state.thumbnail,
-                    duration: state.duration,
-                    hash: state.hash,
-                    isLate,
-                    fileLastModified: state.fileLastModified,
-                })
-
-                updateState(itemId, {
-                    success: true, file: null, thumbnail: null,
-                    isRechecking: false, isUncertain: false, pendingVideoId: null,
-                })
-                if (fileInputRefs.current[itemId]) {
-                    fileInputRefs.current[itemId]!.value = ''
-                }
-                onSuccess?.()
-            } else if (result.outcome === 'failed') {
-                updateState(itemId, {
-                    error: 'CDN側でエラーが確認されました。再度アップロードしてください。',
-                    isRechecking: false, isUncertain: false, pendingVideoId: null,
-                    isRetryable: false,
-                })
-            } else {
-                updateState(itemId, {
-                    error: 'まだ処理中です。しばらくお待ちください。',
-                    isRechecking: false, isUncertain: true,
-                })
-            }
-        } catch (err) {
-            console.error('Recheck failed:', err)
-            updateState(itemId, {
-                error: '状態の確認に失敗しました。再度お試しください。',
-                isRechecking: false, isUncertain: true,
-            })
+        // 以降の表示はキューのジョブから行う
+        fileSelectCounterRef.current[itemId] = (fileSelectCounterRef.current[itemId] || 0) + 1
+        updateState(itemId, defaultState)
+        if (fileInputRefs.current[itemId]) {
+            fileInputRefs.current[itemId]!.value = ''
         }
     }
 
-    const getPhaseLabel = (phase: ItemUploadState['phase'], stage: ItemUploadState['stage'], progress: number) => {
+    const getPhaseLabel = (phase: UploadJob['phase'], stage: UploadJob['stage'], progress: number) => {
         if (phase === 'uploading') {
             switch (stage) {
+                case 'compressing': return `動画を圧縮中... ${progress}%`
                 case 'preparing-video': return '動画を作成中...'
                 case 'preparing-wakelock':
                 case 'preparing-tus': return 'アップロード準備中...'
@@ -330,7 +288,26 @@ export function UploadModal({ targetDate, onClose, onSuccess, items, completedSu
 
     const renderUploadCard = (item?: Database['public']['Tables']['submission_items']['Row']) => {
         const itemId = item?.id || 'general'
+        const label = item ? item.name : '動画'
         const state = uploadingState[itemId] || defaultState
+        const job = getJob(itemId)
+        const isUploading = !!job && isUploadJobActive(job)
+        const isRechecking = !!job?.isRechecking
+        // 選択中のファイルがなければキューのジョブを表示する
+        const showJob = !state.file && !!job
+        const view = showJob
+            ? {
+                file: job.params.file,
+                thumbnail: job.params.thumbnail,
+                thumbnailStrategy: job.params.thumbnailStrategy,
+                duration: job.params.duration,
+            }
+            : state
+        const isSuccess = showJob && job.status === 'succeeded'
+        const jobFailed = showJob && job.status === 'failed'
+        const jobOffline = showJob && job.status === 'offline'
+        const error = state.error ?? (jobFailed ? job.error : null)
+        const recordingDateCheck = getRecordingDateCheck(state)
         const submission = item
             ? completedSubmissions.find(s => s.item_id === item.id)
             : completedSubmissions.find(s => s.item_id === null)
@@ -355,8 +332,8 @@ export function UploadModal({ targetDate, onClose, onSuccess, items, completedSu
                             </p>
                         )}
                     </div>
-                    {state.file && !state.isUploading && !state.success && !state.isRechecking && !state.isPreparing && (
-                        <Button size="sm" onClick={() => handleUpload(itemId)} className="h-8">
+                    {state.file && !isUploading && !isRechecking && !state.isPreparing && (
+                        <Button size="sm" onClick={() => handleUpload(itemId, label)} className="h-8" disabled={recordingDateCheck.isBlocked}>
                             <Upload className="w-3 h-3 mr-1" /> アップロード
                         </Button>
                     )}
@@ -370,14 +347,14 @@ export function UploadModal({ targetDate, onClose, onSuccess, items, completedSu
                         onChange={(e) => handleFileSelect(e, itemId)}
                         className="hidden"
                         id={`file-input-${itemId}`}
-                        disabled={state.isUploading || state.isRechecking}
+                        disabled={isUploading || isRechecking}
                     />
                     <label
                         htmlFor={`file-input-${itemId}`}
-                        className={`cursor-pointer flex flex-col items-center gap-2 p-6 rounded-lg border-2 border-dashed transition-colors ${state.file ? 'bg-muted/30 border-primary/30' : 'hover:bg-muted/50 border-muted-foreground/20'
+                        className={`cursor-pointer flex flex-col items-center gap-2 p-6 rounded-lg border-2 border-dashed transition-colors ${view.file ? 'bg-muted/30 border-primary/30' : 'hover:bg-muted/50 border-muted-foreground/20'
                             }`}
                     >
-                        {!state.file && (
+                        {!view.file && (
                             <>
                                 <Film className="h-8 w-8 text-muted-foreground" />
                                 <span className="text-sm font-medium">クリックして動画を選択</span>
@@ -385,33 +362,33 @@ export function UploadModal({ targetDate, onClose, onSuccess, items, completedSu
                             </>
                         )}
 
-                        {state.file && (
+                        {view.file && (
                             <div className="flex items-center gap-4 w-full">
                                 <div className="w-16 h-16 sm:w-20 sm:h-20 shrink-0 bg-muted rounded overflow-hidden border shadow-sm flex items-center justify-center">
-                                    {state.thumbnail ? (
-                                        <img src={state.thumbnail} alt="Preview" className="w-full h-full object-cover" />
+                                    {view.thumbnail ? (
+                                        <img src={view.thumbnail} alt="Preview" className="w-full h-full object-cover" />
                                     ) : (
                                         <Film className="w-6 h-6 text-muted-foreground/40" />
                                     )}
                                 </div>
                                 <div className="flex-1 min-w-0 space-y-1">
                                     <p className="text-xs font-bold text-foreground truncate break-all">
-                                        {state.file.name}
+                                        {view.file.name}
                                     </p>
                                     <div className="flex items-center gap-2 text-[10px] text-muted-foreground font-medium">
                                         <span className="bg-background px-1.5 py-0.5 rounded border">
-                                            {(state.file.size / 1024 / 1024).toFixed(1)} MB
+                                            {(view.file.size / 1024 / 1024).toFixed(1)} MB
                                         </span>
-                                        {state.duration && (
+                                        {view.duration && (
                                             <span className="bg-background px-1.5 py-0.5 rounded border">
-                                                {formatDuration(state.duration)}
+                                                {formatDuration(view.duration)}
                                             </span>
                                         )}
                                     </div>
                                     <p className="text-[9px] text-primary font-bold animate-pulse mt-1">
-                                        {state.isPreparing ? '読み込み中...' : 'アップロード準備完了'}
+                                        {state.isPreparing ? '読み込み中...' : jobFailed ? '送信できませんでした' : jobOffline ? '接続待ち（オンラインになると自動でアップロードします）' : 'アップロード準備完了'}
                                     </p>
-                                    {state.thumbnailStrategy === 'skipped' && !state.isPreparing && (
+                                    {view.thumbnailStrategy === 'skipped' && !state.isPreparing && (
                                         <p className="text-[9px] text-muted-foreground mt-0.5">
                                             端末メモリ制約のためサムネを省略しています
                                         </p>
@@ -421,37 +398,35 @@ export function UploadModal({ targetDate, onClose, onSuccess, items, completedSu
                         )}
                     </label>
 
-                    {(state.isUploading || state.isRechecking) && (
+                    {(isUploading || isRechecking) && job && (
                         <div className="absolute inset-0 bg-background/80 flex flex-col items-center justify-center p-4 rounded-lg z-10 backdrop-blur-sm">
-                            {state.isRechecking ? (
-                                <>
-                                    <div className="h-8 w-8 rounded-full border-3 border-primary/30
-                                                    border-t-primary animate-spin mb-2" />
-                                    <span className="text-xs font-medium animate-pulse">状態を確認中...</span>
-                                </>
-                            ) : state.phase === 'verifying' || state.phase === 'saving' ? (
+                            {isRechecking || job.status === 'queued' || job.phase === 'verifying' || job.phase === 'saving' ? (
                                 <>
                                     <div className="h-8 w-8 rounded-full border-3 border-primary/30
                                                     border-t-primary animate-spin mb-2" />
                                     <span className="text-xs font-medium animate-pulse">
-                                        {getPhaseLabel(state.phase, state.stage, state.progress)}
+                                        {isRechecking
+                                            ? '状態を確認中...'
+                                            : job.status === 'queued'
+                                                ? '順番待ち（他のアップロードの完了後に開始します）'
+                                                : getPhaseLabel(job.phase, job.stage, job.progress)}
                                     </span>
                                 </>
                             ) : (
                                 <>
-                                    <Progress value={state.progress} className="w-full h-2 mb-2" />
+                                    <Progress value={job.progress} className="w-full h-2 mb-2" />
                                     <span className="text-xs font-medium animate-pulse">
-                                        {getPhaseLabel(state.phase, state.stage, state.progress)}
+                                        {getPhaseLabel(job.phase, job.stage, job.progress)}
                                     </span>
-                                    {state.stage === 'stalled' && (
+                                    {job.stage === 'stalled' && (
                                         <span className="text-[11px] text-yellow-600 font-semibold mt-1 flex items-center gap-1">
                                             <AlertTriangle className="w-3 h-3" />
                                             通信が遅延しています。そのままお待ちください
                                         </span>
                                     )}
-                                    {state.phase === 'uploading' && state.stage !== 'stalled' && (
+                                    {job.phase === 'uploading' && job.stage !== 'stalled' && (
                                         <span className="text-[10px] text-muted-foreground mt-1">
-                                            アップロード中は画面を閉じないでください
+                                            閉じてもアップロードは続きます（アプリは閉じないでください）
                                         </span>
                                     )}
                                 </>
@@ -459,7 +434,7 @@ export function UploadModal({ targetDate, onClose, onSuccess, items, completedSu
                         </div>
                     )}
 
-                    {state.success && (
+                    {isSuccess && (
                         <div className="absolute inset-0 bg-green-50/90 flex flex-col items-center justify-center p-4 rounded-lg z-10 border-2 border-green-200">
                             <CheckCircle className="h-10 w-10 text-green-500 mb-2" />
                             <span className="text-sm font-bold text-green-700">完了！</span>
@@ -467,34 +442,43 @@ export function UploadModal({ targetDate, onClose, onSuccess, items, completedSu
                     )}
                 </div>
 
-                {state.error && (
+                {recordingDateCheck.message && (
+                    <div className={`flex items-center gap-1.5 text-[11px] font-medium px-2 ${recordingDateCheck.isBlocked ? 'text-destructive' : 'text-yellow-600'}`}>
+                        <AlertTriangle className="h-3.5 w-3.5 shrink-0" /> {recordingDateCheck.message}
+                    </div>
+                )}
+
+                {error && (
                     <div className="space-y-2">
                         <div className="flex items-center gap-1.5 text-destructive text-[11px] font-medium px-2">
-                            <AlertCircle className="h-3.5 w-3.5 shrink-0" /> {state.error}
-                        </div>
-                        <div className="flex items-center gap-2 px-2">
-                            {state.isUncertain && state.pendingVideoId && (
-                                <Button
-                                    size="sm"
-                                    variant="outline"
-                                    className="h-7 text-xs"
-                                    onClick={() => handleRecheck(itemId)}
-                                    disabled={state.isRechecking}
-                                >
-                                    <RefreshCw className="w-3 h-3 mr-1" /> 状態を再確認
-                                </Button>
-                            )}
-                            {state.isRetryable && state.file && (
-                                <Button
-                                    size="sm"
-                                    variant="outline"
-                                    className="h-7 text-xs"
-                                    onClick={() => handleUpload(itemId)}
-                                >
-                                    <RotateCcw className="w-3 h-3 mr-1" /> 再試行
-                                </Button>
-                            )}
+                            <AlertCircle className="h-3.5 w-3.5 shrink-0" /> {error}
                         </div>
+                        {jobFailed && (
+                            <div className="flex items-center gap-2 px-2">
+                                {job.isUncertain && job.pendingVideoId && (
+                                    <Button
+                                        size="sm"
+                                        variant="outline"
+                                        className="h-7 text-xs"
+                                        onClick={() => recheck(job.id)}
+                                        disabled={isRechecking}
+                                    >
+                                        <RefreshCw className="w-3 h-3 mr-1" /> 状態を再確認
+                                    </Button>
+                                )}
+                                {job.isRetryable && (
+                                    <Button
+                                        size="sm"
+                                        variant="outline"
+                                        className="h-7 text-xs"
+                                        onClick={() => retry(job.id)}
+                                        disabled={isRechecking}
+                                    >
+                                        <RotateCcw className="w-3 h-3 mr-1" /> 再試行
+                                    </Button>
+                                )}
+                            </div>
+                        )}
                     </div>
                 )}
             </div>
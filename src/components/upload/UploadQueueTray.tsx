@@ -0,0 +1,116 @@
+import { useState } from 'react'
+import { format, parseISO } from 'date-fns'
+import { ja } from 'date-fns/locale'
+import { useUploadQueue } from '@/context/UploadQueueContext'
+import { getUploadQueueSummary, getUploadJobStatusLabel, isUploadJobActive, UploadJob } from '@/lib/upload-queue'
+import { Button } from '@/components/ui/button'
+import { Progress } from '@/components/ui/progress'
+import { cn } from '@/lib/utils'
+import { Upload, CheckCircle, AlertCircle, ChevronDown, ChevronUp, X, RefreshCw, RotateCcw, CloudOff } from 'lucide-react'
+
+/**
+ * アップロードキューの進捗トレイ（AppLayout に常駐し、ページを移動しても表示し続ける）
+ */
+export function UploadQueueTray() {
+    const { jobs, retry, recheck, remove, clearFinished } = useUploadQueue()
+    const [isCollapsed, setIsCollapsed] = useState(false)
+
+    if (jobs.length === 0) return null
+
+    const summary = getUploadQueueSummary(jobs)
+    const title = summary.active > 0
+        ? `アップロード中（${summary.succeeded}/${summary.total}件完了）`
+        : summary.failed > 0
+            ? `${summary.failed}件のアップロードに失敗しました`
+            : summary.offline > 0
+                ? `${summary.offline}件が接続待ちです`
+                : `${summary.succeeded}件のアップロードが完了しました`
+
+    const renderJob = (job: UploadJob) => {
+        const isActive = isUploadJobActive(job)
+        return (
+            <li key={job.id} className="space-y-1 py-2 first:pt-0 last:pb-0">
+                <div className="flex items-center gap-2">
+                    {job.status === 'succeeded' ? (
+                        <CheckCircle className="w-3.5 h-3.5 shrink-0 text-green-500" />
+                    ) : job.status === 'failed' ? (
+                        <AlertCircle className="w-3.5 h-3.5 shrink-0 text-destructive" />
+                    ) : job.status === 'offline' ? (
+                        <CloudOff className="w-3.5 h-3.5 shrink-0 text-muted-foreground" />
+                    ) : (
+                        <Upload className={cn('w-3.5 h-3.5 shrink-0 text-primary', job.status === 'uploading' && 'animate-pulse')} />
+                    )}
+                    <div className="flex-1 min-w-0">
+                        <p className="text-xs font-bold truncate">
+                            {format(parseISO(job.params.targetDate), 'M/d(E)', { locale: ja })} {job.label}
+                        </p>
+                        <p className="text-[10px] text-muted-foreground truncate">{job.params.file.name}</p>
+                    </div>
+                    {!isActive && !job.isRechecking && (
+                        <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-6 w-6 text-muted-foreground hover:text-destructive"
+                            onClick={() => remove(job.id)}
+                        >
+                            <X className="w-3.5 h-3.5" />
+                        </Button>
+                    )}
+                </div>
+                {job.status === 'uploading' && job.phase === 'uploading' && (
+                    <Progress value={job.progress} className="h-1" />
+                )}
+                <p className={cn(
+                    'text-[10px] font-medium',
+                    job.status === 'failed' ? 'text-destructive' : 'text-muted-foreground',
+                    job.stage === 'stalled' && 'text-yellow-600',
+                )}>
+                    {getUploadJobStatusLabel(job)}
+                </p>
+                {job.status === 'failed' && !job.isRechecking && (job.isRetryable || (job.isUncertain && job.pendingVideoId)) && (
+                    <div className="flex items-center gap-1.5">
+                        {job.isUncertain && job.pendingVideoId && (
+                            <Button size="sm" variant="outline" className="h-6 text-[10px] px-2" onClick={() => recheck(job.id)}>
+                                <RefreshCw className="w-2.5 h-2.5 mr-1" /> 状態を再確認
+                            </Button>
+                        )}
+                        {job.isRetryable && (
+                            <Button size="sm" variant="outline" className="h-6 text-[10px] px-2" onClick={() => retry(job.id)}>
+                                <RotateCcw className="w-2.5 h-2.5 mr-1" /> 再試行
+                            </Button>
+                        )}
+                    </div>
+                )}
+            </li>
+        )
+    }
+
+    return (
+        <div className="fixed bottom-4 right-4 z-40 w-80 max-w-[calc(100vw-2rem)] rounded-lg border bg-background shadow-lg">
+            <div className="flex items-center gap-2 px-3 py-2 border-b">
+                <div className="flex-1 min-w-0 space-y-1">
+                    <p className="text-xs font-bold truncate">{title}</p>
+                    {summary.active > 0 && <Progress value={summary.overallProgress} className="h-1" />}
+                </div>
+                {summary.succeeded > 0 && (
+                    <Button variant="ghost" size="sm" className="h-6 text-[10px] px-2" onClick={clearFinished}>
+                        完了を消去
+                    </Button>
+                )}
+                <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => setIsCollapsed(!isCollapsed)}>
+                    {isCollapsed ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                </Button>
+            </div>
+            {!isCollapsed && (
+                <ul className="max-h-64 overflow-y-auto px-3 py-2 divide-y">
+                    {jobs.map(renderJob)}
+                </ul>
+            )}
+            {!isCollapsed && summary.active > 0 && (
+                <p className="px-3 pb-2 text-[10px] text-muted-foreground">
+                    アップロード中はアプリを閉じないでください（ページの移動はできます）
+                </p>
+            )}
+        </div>
+    )
+}
@@ -4,6 +4,8 @@ import { supabase } from "@/lib/supabase"
 import { Database } from "@/types/database.types"
 import { toast } from "@/hooks/use-toast"
 import { UploadLogger } from "@/lib/upload-logger"
+import { DEFAULT_TIMEZONE } from "@/lib/timezone"
+import { DEFAULT_COMPRESSION_MAX_HEIGHT, DEFAULT_COMPRESSION_BITRATE_KBPS } from "@/lib/upload-constants"
 
 type Profile = Database['public']['Tables']['profiles']['Row']
 
@@ -118,7 +120,13 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
                     perfect_week_count: 0,
                     revival_success_count: 0,
                     gamification_settings: null,
-                    video_retention_days: null
+                    video_retention_days: null,
+                    timezone: DEFAULT_TIMEZONE,
+                    video_compression_enabled: false,
+                    video_compression_max_height: DEFAULT_COMPRESSION_MAX_HEIGHT,
+                    video_compression_bitrate_kbps: DEFAULT_COMPRESSION_BITRATE_KBPS,
+                    duplicate_video_policy: 'warn',
+                    recording_date_policy: 'warn'
                 }
 
                 const { error: insertError } = await supabase
@@ -152,7 +160,13 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
                     perfect_week_count: 0,
                     revival_success_count: 0,
                     gamification_settings: null,
-                    video_retention_days: null
+                    video_retention_days: null,
+                    timezone: DEFAULT_TIMEZONE,
+                    video_compression_enabled: false,
+                    video_compression_max_height: DEFAULT_COMPRESSION_MAX_HEIGHT,
+                    video_compression_bitrate_kbps: DEFAULT_COMPRESSION_BITRATE_KBPS,
+                    duplicate_video_policy: 'warn',
+                    recording_date_policy: 'warn'
                 })
             } else if (data) {
                 const profileData = data as Profile
@@ -0,0 +1,299 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from "react"
+import { executeUpload, UploadError, recheckVideoStatus, continueAfterRecheck, sendUploadDiagnosticReport } from "@/lib/upload-core"
+import { acquireWakeLock } from "@/lib/upload-wakelock"
+import { isIOS } from "@/lib/upload-logger"
+import {
+    createOfflineUploadRecord,
+    deleteOfflineUpload,
+    listOfflineUploads,
+    saveOfflineUpload,
+    toUploadJobParams,
+} from "@/lib/upload-offline-store"
+import { UPLOAD_QUEUE_MAX_CONCURRENCY } from "@/lib/upload-constants"
+import {
+    UploadJob,
+    UploadJobParams,
+    createUploadJob,
+    getUploadJobId,
+    isUploadJobActive,
+    selectJobsToStart,
+} from "@/lib/upload-queue"
+import { useUploadGuard } from "@/hooks/useUploadGuard"
+import { useAuth } from "@/context/AuthContext"
+
+type EnqueueOptions = {
+    label: string
+    // 完了時の通知（登録元の画面が閉じていても呼ばれる）
+    onSuccess?: () => void
+}
+
+type UploadQueueContextType = {
+    jobs: UploadJob[]
+    // 同じ日付・項目のジョブが実行待ち・実行中なら登録せず false を返す
+    // オフライン時は端末に保存して接続待ちにする
+    enqueue: (params: UploadJobParams, options: EnqueueOptions) => boolean
+    retry: (id: string) => void
+    recheck: (id: string) => Promise<void>
+    // 失敗したジョブの診断レポート（ログ・端末の状態とメモ）をトレーナーに送る。送信できなければ false
+    sendDiagnostics: (id: string, note: string) => Promise<boolean>
+    // 実行中のジョブは取り消せない（executeUpload は中断に対応していない）。接続待ちのジョブは保存した動画も削除する
+    remove: (id: string) => void
+    clearFinished: () => void
+}
+
+const UploadQueueContext = createContext<UploadQueueContextType | undefined>(undefined)
+
+// iOS は jetsam 回避のため常に 1 件ずつ
+const concurrency = isIOS() ? 1 : UPLOAD_QUEUE_MAX_CONCURRENCY
+
+export function UploadQueueProvider({ children }: { children: React.ReactNode }) {
+    const { user } = useAuth()
+    const userId = user?.id
+    const [jobs, setJobs] = useState<UploadJob[]>([])
+    const jobsRef = useRef<UploadJob[]>([])
+    jobsRef.current = jobs
+    const onSuccessRef = useRef<Map<string, () => void>>(new Map())
+    // 二重実行防止用（state 反映前に effect が再実行されても同じジョブを開始しない）
+    const runningRef = useRef<Set<string>>(new Set())
+
+    const hasActiveUpload = useMemo(() => jobs.some(isUploadJobActive), [jobs])
+    useUploadGuard(hasActiveUpload)
+
+    // キュー全体の実行中は画面ロックを防ぐ（ジョブ間・処理確認中も含む）
+    useEffect(() => {
+        if (!hasActiveUpload) return
+        let cancelled = false
+        let release: (() => void) | null = null
+        acquireWakeLock().then((wl) => {
+            if (cancelled) wl.release()
+            else release = wl.release
+        })
+        return () => {
+            cancelled = true
+            release?.()
+        }
+    }, [hasActiveUpload])
+
+    const updateJob = useCallback((id: string, updates: Partial<UploadJob>) => {
+        setJobs(prev => prev.map(j => j.id === id ? { ...j, ...updates } : j))
+    }, [])
+
+    // 端末に保存して接続待ちにする（保存済みなら状態を戻すだけ）
+    const holdOffline = useCallback(async (job: UploadJob) => {
+        const capturedAt = job.offlineCapturedAt ?? Date.now()
+        updateJob(job.id, {
+            status: 'offline', progress: 0, phase: null, stage: null, error: null,
+            isRetryable: false, isUncertain: false, pendingVideoId: null, offlineCapturedAt: capturedAt,
+        })
+        if (job.offlineCapturedAt !== null) return
+
+        const saved = await saveOfflineUpload(createOfflineUploadRecord(job.params, job.label, capturedAt))
+        if (!saved) {
+            updateJob(job.id, {
+                status: 'failed',
+                error: '端末に動画を保存できませんでした（空き容量を確認してください）。接続後に再度アップロードしてください。',
+                isRetryable: true,
+                offlineCapturedAt: null,
+            })
+        }
+    }, [updateJob])
+
+    // 前回保存した接続待ちの動画を読み込む（アプリの再起動後も接続が戻れば送る）
+    useEffect(() => {
+        if (!userId) return
+        let cancelled = false
+        listOfflineUploads(userId).then((records) => {
+            if (cancelled || records.length === 0) return
+            setJobs(prev => {
+                const restored = records
+                    .filter(r => !prev.some(j => j.id === r.key))
+                    .map(r => ({
+                        ...createUploadJob(toUploadJobParams(r), r.label, r.capturedAt),
+                        status: navigator.onLine ? 'queued' as const : 'offline' as const,
+                        offlineCapturedAt: r.capturedAt,
+                    }))
+                return [...prev, ...restored]
+            })
+        })
+        return () => {
+            cancelled = true
+        }
+    }, [userId])
+
+    // 接続が戻ったら接続待ちのジョブを実行待ちに戻す（撮影順に送る）
+    useEffect(() => {
+        const handleOnline = () => {
+            setJobs(prev => prev.map(j => j.status === 'offline' ? { ...j, status: 'queued' } : j))
+        }
+        window.addEventListener('online', handleOnline)
+        return () => window.removeEventListener('online', handleOnline)
+    }, [])
+
+    const completeJob = useCallback((id: string) => {
+        if (jobsRef.current.find(j => j.id === id)?.offlineCapturedAt != null) deleteOfflineUpload(id)
+        updateJob(id, {
+            status: 'succeeded', progress: 100, phase: null, stage: null,
+            isRechecking: false, isUncertain: false, pendingVideoId: null,
+        })
+        onSuccessRef.current.get(id)?.()
+    }, [updateJob])
+
+    const runJob = useCallback(async (job: UploadJob) => {
+        if (runningRef.current.has(job.id)) return
+        runningRef.current.add(job.id)
+
+        updateJob(job.id, {
+            status: 'uploading', progress: 0, phase: 'uploading', stage: 'preparing-video', error: null,
+            isRetryable: false, isUncertain: false, pendingVideoId: null, diagnosticsSentAt: null,
+        })
+
+        try {
+            await executeUpload({
+                ...job.params,
+                onProgress: (progress) => updateJob(job.id, { progress }),
+                onPhaseChange: (phase) => updateJob(job.id, { phase }),
+                onStageChange: (stage) => updateJob(job.id, { stage }),
+                onLogSession: (logSessionId) => updateJob(job.id, { logSessionId }),
+            })
+            completeJob(job.id)
+        } catch (err) {
+            if (err instanceof UploadError && err.phase === 'online-check') {
+                // 実行待ちの間に接続が切れた
+                await holdOffline(job)
+            } else if (err instanceof UploadError) {
+                updateJob(job.id, {
+                    status: 'failed',
+                    error: err.userMessage,
+                    phase: null,
+                    stage: null,
+                    isRetryable: err.isRetryable,
+                    isUncertain: err.isUncertain,
+                    pendingVideoId: err.pendingVideoId ?? null,
+                })
+            } else {
+                console.error('Upload failed:', err)
+                updateJob(job.id, { status: 'failed', error: 'アップロードに失敗しました。', phase: null, stage: null })
+            }
+        } finally {
+            runningRef.current.delete(job.id)
+        }
+    }, [updateJob, completeJob, holdOffline])
+
+    // 空き枠があれば登録順に開始（runJob が同期的に status を 'uploading' にするため枠を超えない）
+    useEffect(() => {
+        selectJobsToStart(jobs, concurrency).forEach(job => { runJob(job) })
+    }, [jobs, runJob])
+
+    const enqueue = useCallback((params: UploadJobParams, { label, onSuccess }: EnqueueOptions) => {
+        const id = getUploadJobId(params)
+        const existing = jobsRef.current.find(j => j.id === id)
+        if (existing && isUploadJobActive(existing)) return false
+
+        const job = createUploadJob(params, label)
+        if (onSuccess) onSuccessRef.current.set(id, onSuccess)
+        else onSuccessRef.current.delete(id)
+        setJobs(prev => [...prev.filter(j => j.id !== id), job])
+        // 接続待ちだった動画は選び直した動画で置き換える（オフラインなら保存し直す）
+        if (!navigator.onLine) holdOffline(job)
+        else if (existing?.offlineCapturedAt != null) deleteOfflineUpload(id)
+        return true
+    }, [holdOffline])
+
+    const retry = useCallback((id: string) => {
+        const job = jobsRef.current.find(j => j.id === id)
+        if (!job || job.status !== 'failed' || !job.isRetryable) return
+        updateJob(id, { status: 'queued', error: null, progress: 0, enqueuedAt: Date.now() })
+    }, [updateJob])
+
+    const recheck = useCallback(async (id: string) => {
+        const job = jobsRef.current.find(j => j.id === id)
+        if (!job || !job.pendingVideoId) return
+        const videoId = job.pendingVideoId
+
+        updateJob(id, { isRechecking: true, error: null })
+
+        try {
+            const result = await recheckVideoStatus(videoId)
+
+            if (result.outcome === 'ready') {
+                const {
+                    userId, targetDate, submissionItemId, file, thumbnail, duration, hash, isLate, fileLastModified,
+                    videoCreatedAt, recordingDateMismatch,
+                } = job.params
+                await continueAfterRecheck({
+                    videoId, userId, targetDate, submissionItemId, file, thumbnail, duration, hash, isLate, fileLastModified,
+                    videoCreatedAt, recordingDateMismatch,
+                })
+                completeJob(id)
+            } else if (result.outcome === 'failed') {
+                updateJob(id, {
+                    error: 'CDN側でエラーが確認されました。再度アップロードしてください。',
+                    isRechecking: false, isUncertain: false, pendingVideoId: null,
+                    isRetryable: false,
+                })
+            } else {
+                updateJob(id, {
+                    error: 'まだ処理中です。しばらくお待ちください。',
+                    isRechecking: false, isUncertain: true,
+                })
+            }
+        } catch (err) {
+            console.error('Recheck failed:', err)
+            updateJob(id, {
+                error: '状態の確認に失敗しました。再度お試しください。',
+                isRechecking: false, isUncertain: true,
+            })
+        }
+    }, [updateJob, completeJob])
+
+    const sendDiagnostics = useCallback(async (id: string, note: string) => {
+        const job = jobsRef.current.find(j => j.id === id)
+        if (!job || job.status !== 'failed') return false
+        try {
+            await sendUploadDiagnosticReport(job, note)
+            updateJob(id, { diagnosticsSentAt: Date.now() })
+            return true
+        } catch (err) {
+            console.error('Failed to send upload diagnostics:', err)
+            return false
+        }
+    }, [updateJob])
+
+    const remove = useCallback((id: string) => {
+        const job = jobsRef.current.find(j => j.id === id)
+        if (!job || job.status === 'uploading' || runningRef.current.has(id)) return
+        if (job.offlineCapturedAt !== null) deleteOfflineUpload(id)
+        onSuccessRef.current.delete(id)
+        setJobs(prev => prev.filter(j => j.id !== id))
+    }, [])
+
+    const clearFinished = useCallback(() => {
+        const finished = jobsRef.current.filter(j => j.status === 'succeeded')
+        finished.forEach(j => onSuccessRef.current.delete(j.id))
+        setJobs(prev => prev.filter(j => j.status !== 'succeeded'))
+    }, [])
+
+    const value = {
+        jobs,
+        enqueue,
+        retry,
+        recheck,
+        sendDiagnostics,
+        remove,
+        clearFinished,
+    }
+
+    return (
+        <UploadQueueContext.Provider value={value}>
+            {children}
+        </UploadQueueContext.Provider>
+    )
+}
+
+export const useUploadQueue = () => {
+    const context = useContext(UploadQueueContext)
+    if (context === undefined) {
+        throw new Error("useUploadQueue must be used within an UploadQueueProvider")
+    }
+    return context
+}
@@ -0,0 +1,48 @@
+import { useState, useEffect, useCallback } from 'react'
+import { supabase } from '@/lib/supabase'
+
+/** 未読の診断レポート（クライアントから送られたアップロードの失敗）の件数 */
+export function useDiagnosticReportCount(isAdmin: boolean) {
+    const [count, setCount] = useState(0)
+
+    const fetchCount = useCallback(async () => {
+        if (!isAdmin) {
+            setCount(0)
+            return
+        }
+
+        const { count: c, error } = await (supabase
+            .from('upload_diagnostic_reports' as any)
+            .select('*', { count: 'exact', head: true })
+            .is('read_at', null) as any)
+
+        if (error) {
+            console.error('Failed to fetch diagnostic report count:', error)
+            return
+        }
+        if (c !== null) setCount(c)
+    }, [isAdmin])
+
+    useEffect(() => {
+        fetchCount()
+
+        if (!isAdmin) return
+
+        const channel = supabase
+            .channel('unread-diagnostic-reports')
+            .on(
+                'postgres_changes',
+                {
+                    event: '*',
+                    schema: 'public',
+                    table: 'upload_diagnostic_reports'
+                },
+                () => { fetchCount() }
+            )
+            .subscribe()
+
+        return () => { supabase.removeChannel(channel) }
+    }, [isAdmin, fetchCount])
+
+    return { count }
+}
@@ -6,23 +6,31 @@ import { useState, useEffect, useCallback, useMemo } from 'react'
 import { supabase } from '@/lib/supabase'
 import { useAuth } from '@/context/AuthContext'
 import { Database } from '@/types/database.types'
-import { GamificationSettings, DEFAULT_GAMIFICATION_SETTINGS } from '@/types/gamification.types'
-import { calculateStreak, isRevivalCandidate, calculatePerfectWeeks, SubmissionForStreak, GroupConfig } from '@/utils/streakCalculator'
+import { GamificationSettings, DEFAULT_GAMIFICATION_SETTINGS, DEFAULT_VERSIONED_SETTINGS, GamificationGoal } from '@/types/gamification.types'
+import { calculateStreak, analyzeStreakHistory, isRevivalCandidate, GroupConfig } from '@/utils/streakCalculator'
 import { useGamificationVersions } from '@/hooks/useGamificationVersions'
-import { format, parseISO, startOfDay } from 'date-fns'
+import { useStreakTitles } from '@/hooks/useStreakTitles'
+import { useGamificationGoals } from '@/hooks/useGamificationGoals'
+import { StreakTitle } from '@/utils/streakTitles'
+import { SubmissionForGoal } from '@/utils/goalEvaluator'
+import { Clock, systemClock, asOfClock } from '@/lib/clock'
+import { zonedClock, fromZonedTime } from '@/lib/timezone'
+import { format, parseISO, endOfDay } from 'date-fns'
 
 type Profile = Database['public']['Tables']['profiles']['Row']
 type Submission = Database['public']['Tables']['submissions']['Row']
 
 export interface GamificationState {
-    // プロフィールから取得（または effective_from 時はオンデマンド計算）
+    // サーバー側で集計した値（compute_gamification_stats RPC）
     totalReps: number
     totalDays: number
     shieldStock: number
+    shieldMaxStock: number
     perfectWeekCount: number
     revivalSuccessCount: number
     // 計算結果
     currentStreak: number
+    longestStreak: number
     shieldDays: string[]
     revivalDays: string[]
     // 通知用
@@ -30,9 +38,10 @@ export interface GamificationState {
 }
 
 export interface PendingNotification {
-    type: 'shield_consumed' | 'revival_success' | 'perfect_week'
+    type: 'shield_consumed' | 'revival_success' | 'perfect_week' | 'streak_title' | 'goal_completed'
     message: string
     count?: number
+    title?: string
 }
 
 interface UseGamificationOptions {
@@ -41,22 +50,36 @@ interface UseGamificationOptions {
     isRestDay: (date: Date) => boolean
     groupConfigs?: GroupConfig[]
     getGroupConfigsForDate?: (date: Date) => GroupConfig[]
-    getTargetDaysPerWeek?: (date: Date) => number
     dataLoading?: boolean
     onRefreshSubmissions?: () => Promise<void> | void
+    // 指定日時点で表示（管理者用）。指定日の終わり時点の投稿・承認状態で再計算する
+    asOf?: Date | null
+    // クライアントのタイムゾーン（ストリークの「今日」の境界）
+    timeZone?: string | null
 }
 
-export function useGamification({ targetUserId, submissions, isRestDay, groupConfigs, getGroupConfigsForDate: externalGetGroupConfigsForDate, getTargetDaysPerWeek, dataLoading, onRefreshSubmissions }: UseGamificationOptions) {
+export function useGamification({ targetUserId, submissions, isRestDay, groupConfigs, getGroupConfigsForDate: externalGetGroupConfigsForDate, dataLoading, onRefreshSubmissions, asOf, timeZone }: UseGamificationOptions) {
     const { user } = useAuth()
     const effectiveUserId = targetUserId || user?.id
 
+    // 日付判定はクライアントのタイムゾーンの壁時計時刻で行う
+    const clock: Clock = useMemo(
+        () => asOf ? asOfClock(asOf) : zonedClock(systemClock, timeZone),
+        [asOf, timeZone]
+    )
+    // 指定日時点の境界（クライアントのタイムゾーンでの指定日の終わり）。null = 現在
+    const asOfIso = useMemo(
+        () => asOf ? fromZonedTime(endOfDay(asOf), timeZone).toISOString() : null,
+        [asOf, timeZone]
+    )
+
     const [gamificationProfile, setGamificationProfile] = useState<Partial<Profile>>({})
     const [gamificationSettings, setGamificationSettings] = useState<GamificationSettings>(DEFAULT_GAMIFICATION_SETTINGS)
     const [pendingNotifications, setPendingNotifications] = useState<PendingNotification[]>([])
     const [loading, setLoading] = useState(true)
 
     // バージョン管理フック
-    const { getSettingsForDate, activeVersion, loading: versionsLoading } = useGamificationVersions(effectiveUserId)
+    const { activeVersion, getWeekStartsOnForDate, loading: versionsLoading } = useGamificationVersions(effectiveUserId)
 
     const isReady = !loading && !versionsLoading && !dataLoading
 
@@ -65,17 +88,26 @@ export function useGamification({ targetUserId, submissions, isRestDay, groupCon
         if (!effectiveUserId) return
 
         try {
-            const { data, error } = await supabase
-                .from('profiles')
-                .select('total_reps, shield_stock, perfect_week_count, revival_success_count, gamification_settings')
-                .eq('id', effectiveUserId)
-                .single() as { data: { total_reps: number | null, shield_stock: number | null, perfect_week_count: number | null, revival_success_count: number | null, gamification_settings: GamificationSettings | null } | null, error: any }
+            // 集計値はサーバー側で集計した結果を読む（表示のたびに書き込まない。p_as_of = null は現在時点）
+            // profiles・台帳の更新は提出・承認・削除時の recompute_gamification_stats と定期実行に任せる
+            const statsRpc = (supabase.rpc as any)('compute_gamification_stats', { p_user_id: effectiveUserId, p_as_of: asOfIso })
+            const [profileResult, statsResult] = await Promise.all([
+                supabase
+                    .from('profiles')
+                    .select('gamification_settings')
+                    .eq('id', effectiveUserId)
+                    .single() as unknown as Promise<{ data: { gamification_settings: GamificationSettings | null } | null, error: any }>,
+                statsRpc as Promise<{ data: Pick<Profile, 'total_reps' | 'shield_stock' | 'perfect_week_count' | 'revival_success_count'>[] | null, error: any }>
+            ])
 
+            const { data, error } = profileResult
             if (error) throw error
+            if (statsResult.error) throw statsResult.error
+            if (statsResult.data?.[0]) {
+                setGamificationProfile(statsResult.data[0])
+            }
             if (data) {
-                // gamification_settingsを除外してプロフィールにセット
-                const { gamification_settings, ...profileData } = data
-                setGamificationProfile(profileData as Partial<Profile>)
+                const { gamification_settings } = data
                 if (gamification_settings) {
                     // deep merge で後方互換性を確保
                     setGamificationSettings({
@@ -97,7 +129,7 @@ export function useGamification({ targetUserId, submissions, isRestDay, groupCon
         } finally {
             setLoading(false)
         }
-    }, [effectiveUserId])
+    }, [effectiveUserId, asOfIso])
 
     useEffect(() => {
         fetchGamificationData()
@@ -140,16 +172,27 @@ export function useGamification({ targetUserId, submissions, isRestDay, groupCon
         }
     }, [effectiveUserId, fetchGamificationData])
 
-    // 投稿データをストリーク計算用に変換（is_late を追加）
-    const submissionsForStreak: SubmissionForStreak[] = useMemo(() => {
-        return submissions.map(s => ({
-            target_date: s.target_date,
-            status: s.status,
-            is_revival: s.is_revival ?? false,
-            is_late: s.is_late ?? false,
-            type: s.type
-        }))
-    }, [submissions])
+    // 投稿データをストリーク・目標計算用に変換（is_late を追加）
+    // 指定日時点の表示中は、その時点で存在した投稿のみ・その時点で未判定だったものは status=null として扱う
+    const submissionsForStreak: SubmissionForGoal[] = useMemo(() => {
+        const asOfTime = asOfIso ? new Date(asOfIso).getTime() : null
+        const visible = asOfTime === null
+            ? submissions
+            : submissions.filter(s => new Date(s.created_at).getTime() <= asOfTime)
+
+        return visible.map(s => {
+            const reviewedLater = asOfTime !== null && s.reviewed_at !== null
+                && new Date(s.reviewed_at).getTime() > asOfTime
+            return {
+                target_date: s.target_date,
+                status: reviewedLater ? null : s.status,
+                is_revival: reviewedLater ? false : (s.is_revival ?? false),
+                is_late: s.is_late ?? false,
+                type: s.type,
+                reps: reviewedLater ? null : s.reps
+            }
+        })
+    }, [submissions, asOfIso])
 
     // effective_from を gamificationSettings から取得
     const effectiveFrom = useMemo(() => {
@@ -178,21 +221,6 @@ export function useGamification({ targetUserId, submissions, isRestDay, groupCon
         return uniqueDates.size
     }, [filteredSubmissions])
 
-    // 累積回数: effective_from がある場合はオンデマンド計算
-    const totalReps = useMemo(() => {
-        if (!effectiveFrom) return gamificationProfile.total_reps ?? 0
-        // effective_from 設定時: filteredSubmissions の reps を対象に計算
-        // SubmissionForStreak には reps がないため submissions から直接計算
-        const cutoff = format(effectiveFrom, 'yyyy-MM-dd')
-        return submissions
-            .filter(s => s.status === 'success' && s.reps && s.target_date && s.target_date >= cutoff)
-            .reduce((sum, s) => sum + (s.reps ?? 0), 0)
-    }, [effectiveFrom, submissions, gamificationProfile.total_reps])
-
-    // シールド残数: effective_from 設定時はストレートから獲得数を計算
-    // perfectWeekCount 確定後に計算するため、一旦仮の変数で宣言（後で perfectWeekCount から算出）
-    const shieldStockFromDB = gamificationProfile.shield_stock ?? 0
-
     // グループ設定を日付関数として生成（外部から effective_to 対応済み関数が渡されればそちらを優先）
     const getGroupConfigsForDate = useCallback((date: Date): GroupConfig[] => {
         if (externalGetGroupConfigsForDate) return externalGetGroupConfigsForDate(date)
@@ -210,94 +238,77 @@ export function useGamification({ targetUserId, submissions, isRestDay, groupCon
             submissionsForStreak,
             isRestDay,
             effectiveFrom,
-            getGroupConfigsForDate
+            getGroupConfigsForDate,
+            getWeekStartsOnForDate,
+            clock
         )
-    }, [submissionsForStreak, isRestDay, effectiveFrom, getGroupConfigsForDate])
-
-    // リバイバル回数: effective_from がある場合はオンデマンド計算
-    const revivalSuccessCount = useMemo(() => {
-        if (!effectiveFrom) return gamificationProfile.revival_success_count ?? 0
-        return filteredSubmissions
-            .filter(s => s.status === 'success' && s.is_revival)
-            .length
-    }, [effectiveFrom, filteredSubmissions, gamificationProfile.revival_success_count])
-
-    // 確定基準日の算出（D-4）: 今日より前に終了した週（日曜 < 今日）のみカウント
-    // pastSubmissionDays ではなく「週が完了したか」で判定する
-    const confirmedBeforeDate = useMemo(() => {
-        return startOfDay(new Date())
-    }, [])
+    }, [submissionsForStreak, isRestDay, effectiveFrom, getGroupConfigsForDate, getWeekStartsOnForDate, clock])
 
-    // ストレート達成回数: 常にオンデマンド計算（週単位判定に統一）
-    // getSettingsForDate を渡し、計算器内部で日単位の設定解決を行う
-    const perfectWeekCount = useMemo(() => {
-        const defaultTarget = (_date: Date) => 7
-
-        return calculatePerfectWeeks(
-            filteredSubmissions,
+    // 全履歴のストリーク区間（歴代最長の表示用）
+    const streakHistory = useMemo(() => {
+        return analyzeStreakHistory(
+            submissionsForStreak,
             isRestDay,
-            getTargetDaysPerWeek ?? defaultTarget,
+            effectiveFrom,
             getGroupConfigsForDate,
-            getSettingsForDate,
-            confirmedBeforeDate
+            getWeekStartsOnForDate,
+            clock
         )
-    }, [filteredSubmissions, isRestDay, getGroupConfigsForDate, getTargetDaysPerWeek, getSettingsForDate, confirmedBeforeDate])
-
-    // シールド残数の最終計算（perfectWeekCount 確定後）
-    // activeVersion からシールド獲得条件を参照
-    const shieldStock = useMemo(() => {
-        if (!effectiveFrom) return shieldStockFromDB
-        if (!gamificationSettings.shield.enabled) return 0
-
-        const conditionType = activeVersion?.condition_type ?? 'straight_count'
-        const straightCount = activeVersion?.straight_count ?? 1
-
-        // ストレート達成数からシールド獲得数を計算
-        let earnedShields = 0
-        if (conditionType === 'straight_count') {
-            const requiredStraights = straightCount || 1
-            earnedShields = Math.floor(perfectWeekCount / requiredStraights)
-        }
-        // TODO: monthly_perfect 条件タイプ
-
-        // 使用済みシールド数（shield タイプの承認済み投稿）
-        const usedShields = filteredSubmissions.filter(s => s.type === 'shield' && s.status === 'success').length
-
-        return Math.max(0, earnedShields - usedShields)
-    }, [effectiveFrom, shieldStockFromDB, gamificationSettings.shield, activeVersion, perfectWeekCount, filteredSubmissions])
+    }, [submissionsForStreak, isRestDay, effectiveFrom, getGroupConfigsForDate, getWeekStartsOnForDate, clock])
+
+    // 称号: 新規獲得時に通知を積む
+    const handleTitleAwarded = useCallback((title: StreakTitle) => {
+        setPendingNotifications(prev => [...prev, {
+            type: 'streak_title',
+            title: title.title,
+            message: title.message,
+            count: title.days
+        }])
+    }, [])
 
-    // effective_from 設定時、計算済みの shield_stock / perfect_week_count を DB に同期する
-    // RPC 呼び出し直前にのみ使用する（useEffect での自動同期は行わない）
-    const syncGamificationProfile = useCallback(async (): Promise<boolean> => {
-        if (!effectiveUserId || !effectiveFrom) return true
-        if (!isReady) {
-            console.warn('syncGamificationProfile called before data is ready, skipping')
-            return false
-        }
-        if (shieldStock === shieldStockFromDB && perfectWeekCount === (gamificationProfile.perfect_week_count ?? 0)) return true
+    const streakTitles = useStreakTitles({
+        userId: effectiveUserId,
+        // calculateStreak は直近90日のみ走査するため、100日以上の称号は全履歴の継続中区間で判定する
+        currentStreak: Math.max(streakResult.currentStreak, streakHistory.current?.length ?? 0),
+        // 指定日時点の表示中は獲得判定しない
+        enabled: gamificationSettings.titles.enabled && !asOf,
+        ready: isReady,
+        onAwarded: handleTitleAwarded
+    })
+
+    // カスタム目標: 新規達成時に通知を積む
+    const handleGoalCompleted = useCallback((goal: GamificationGoal) => {
+        setPendingNotifications(prev => [...prev, {
+            type: 'goal_completed',
+            title: goal.title,
+            message: goal.reward ? `ご褒美: ${goal.reward}` : '目標を達成しました！'
+        }])
+    }, [])
 
-        const { error } = await supabase
-            .from('profiles')
-            .update({
-                shield_stock: shieldStock,
-                perfect_week_count: perfectWeekCount,
-            })
-            .eq('id', effectiveUserId)
-        if (error) {
-            console.error('Failed to sync gamification profile:', error)
-            return false
-        }
-        return true
-    }, [effectiveUserId, effectiveFrom, isReady, shieldStock, shieldStockFromDB, perfectWeekCount, gamificationProfile.perfect_week_count])
+    const goals = useGamificationGoals({
+        userId: effectiveUserId,
+        submissions: submissionsForStreak,
+        getWeekStartsOn: getWeekStartsOnForDate,
+        clock,
+        // 指定日時点の表示中は達成判定しない
+        enabled: !asOf,
+        ready: isReady,
+        onCompleted: handleGoalCompleted
+    })
+
+    // サーバー側で再計算済みの集計値
+    const totalReps = gamificationProfile.total_reps ?? 0
+    const revivalSuccessCount = gamificationProfile.revival_success_count ?? 0
+    const perfectWeekCount = gamificationProfile.perfect_week_count ?? 0
+    const shieldStock = gamificationProfile.shield_stock ?? 0
+    // 所持上限は現在有効な設定の値（獲得時の判定はサーバー側で獲得元の週の設定を使うため、上限を下げても残数は減らない）
+    const shieldMaxStock = activeVersion?.shield_max_stock ?? DEFAULT_VERSIONED_SETTINGS.shield_max_stock
 
     // シールドを適用（DB RPC でアトミックに実行）
     const applyShield = useCallback(async (targetDate: string): Promise<boolean> => {
-        if (!effectiveUserId) return false
+        if (!effectiveUserId || asOf) return false
         if (shieldStock <= 0) return false
         try {
-            const synced = await syncGamificationProfile()
-            if (!synced) return false
-
             const { data, error } = await (supabase.rpc as any)('apply_shield', {
                 p_user_id: effectiveUserId,
                 p_target_date: targetDate
@@ -305,8 +316,7 @@ export function useGamification({ targetUserId, submissions, isRestDay, groupCon
             if (error) throw error
             if (data === false) return false
 
-            // profiles と submissions の両方を再取得して
-            // フロントエンド計算値（shieldStock 含む）を即座に更新する
+            // 再計算済みの集計値と submissions の両方を再取得する
             await fetchGamificationData()
             await onRefreshSubmissions?.()
             return true
@@ -314,15 +324,12 @@ export function useGamification({ targetUserId, submissions, isRestDay, groupCon
             console.error('Failed to apply shield:', err)
             return false
         }
-    }, [effectiveUserId, shieldStock, syncGamificationProfile, fetchGamificationData, onRefreshSubmissions])
+    }, [effectiveUserId, asOf, shieldStock, fetchGamificationData, onRefreshSubmissions])
 
     // シールドを取り消す（DB RPC でアトミックに実行）
     const removeShield = useCallback(async (targetDate: string): Promise<boolean> => {
-        if (!effectiveUserId) return false
+        if (!effectiveUserId || asOf) return false
         try {
-            const synced = await syncGamificationProfile()
-            if (!synced) return false
-
             const { data, error } = await (supabase.rpc as any)('remove_shield', {
                 p_user_id: effectiveUserId,
                 p_target_date: targetDate
@@ -337,20 +344,22 @@ export function useGamification({ targetUserId, submissions, isRestDay, groupCon
             console.error('Failed to remove shield:', err)
             return false
         }
-    }, [effectiveUserId, syncGamificationProfile, fetchGamificationData, onRefreshSubmissions])
+    }, [effectiveUserId, asOf, fetchGamificationData, onRefreshSubmissions])
 
     // ゲーミフィケーション状態
     const state: GamificationState = useMemo(() => ({
         totalReps,
         totalDays,
         shieldStock: shieldStock,
+        shieldMaxStock,
         perfectWeekCount,
         revivalSuccessCount,
         currentStreak: streakResult.currentStreak,
+        longestStreak: streakHistory.longest?.length ?? 0,
         shieldDays: streakResult.shieldDays,
         revivalDays: streakResult.revivalDays,
         pendingNotifications
-    }), [totalReps, totalDays, shieldStock, streakResult, perfectWeekCount, revivalSuccessCount, pendingNotifications])
+    }), [totalReps, totalDays, shieldStock, shieldMaxStock, streakResult, streakHistory, perfectWeekCount, revivalSuccessCount, pendingNotifications])
 
     // 日付がシールド消費日かどうか
     const isShieldDay = useCallback((date: Date): boolean => {
@@ -379,7 +388,7 @@ export function useGamification({ targetUserId, submissions, isRestDay, groupCon
             const otherSubmissions = submissionsForStreak.filter(s =>
                 s.target_date !== targetDate
             )
-            const isRevival = isRevivalCandidate(targetDateObj, otherSubmissions, isRestDay)
+            const isRevival = isRevivalCandidate(targetDateObj, otherSubmissions, isRestDay, clock)
 
             // submission を更新
             const { error: submissionError } = await (supabase
@@ -392,27 +401,14 @@ export function useGamification({ targetUserId, submissions, isRestDay, groupCon
 
             if (submissionError) throw submissionError
 
-            // プロフィールを更新
-            const updates: any = {
-                total_reps: (gamificationProfile.total_reps ?? 0) + reps
-            }
-
             if (isRevival) {
-                updates.revival_success_count = (gamificationProfile.revival_success_count ?? 0) + 1
                 setPendingNotifications(prev => [...prev, {
                     type: 'revival_success',
                     message: '不屈の復活！過去の空白を埋めました！'
                 }])
             }
 
-            const { error: profileError } = await (supabase
-                .from('profiles') as any)
-                .update(updates)
-                .eq('id', effectiveUserId)
-
-            if (profileError) throw profileError
-
-            // データを再取得
+            // 集計値はサーバー側で再計算して再取得
             await fetchGamificationData()
 
             return { success: true, isRevival }
@@ -420,12 +416,11 @@ export function useGamification({ targetUserId, submissions, isRestDay, groupCon
             console.error('Failed to handle approval:', err)
             return { success: false, isRevival: false }
         }
-    }, [effectiveUserId, submissionsForStreak, isRestDay, gamificationProfile, fetchGamificationData])
+    }, [effectiveUserId, submissionsForStreak, isRestDay, clock, fetchGamificationData])
 
-    // 承認取り消し時にrepsを減算
+    // 承認取り消し（集計値はサーバー側で再計算）
     const handleApprovalCancel = useCallback(async (
-        submissionId: number,
-        previousReps: number | null
+        submissionId: number
     ): Promise<boolean> => {
         if (!effectiveUserId) return false
 
@@ -441,24 +436,14 @@ export function useGamification({ targetUserId, submissions, isRestDay, groupCon
 
             if (submissionError) throw submissionError
 
-            // プロフィールを更新（repsを減算）
-            if (previousReps && previousReps > 0) {
-                const newTotalReps = Math.max(0, (gamificationProfile.total_reps ?? 0) - previousReps)
-                const { error: profileError } = await (supabase
-                    .from('profiles') as any)
-                    .update({ total_reps: newTotalReps })
-                    .eq('id', effectiveUserId)
-
-                if (profileError) throw profileError
-            }
-
+            // 集計値はサーバー側で再計算して再取得
             await fetchGamificationData()
             return true
         } catch (err) {
             console.error('Failed to cancel approval:', err)
             return false
         }
-    }, [effectiveUserId, gamificationProfile, fetchGamificationData])
+    }, [effectiveUserId, fetchGamificationData])
 
     // 通知をクリア
     const clearNotification = useCallback((index: number) => {
@@ -473,6 +458,16 @@ export function useGamification({ targetUserId, submissions, isRestDay, groupCon
         state,
         settings: gamificationSettings,
         activeVersion,
+        getWeekStartsOnForDate,
+        streakHistory,
+        asOf: asOf ?? null,
+        titles: {
+            current: streakTitles.currentTitle,
+            next: streakTitles.nextTitle,
+            daysToNext: streakTitles.daysToNext,
+            awarded: streakTitles.awardedTitles
+        },
+        goals: goals.progress,
         loading,
         isShieldDay,
         isRevivalDay,
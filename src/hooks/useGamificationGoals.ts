@@ -0,0 +1,224 @@
+/**
+ * カスタム目標（gamification_goals）を管理するカスタムフック
+ * 進捗の計算は utils/goalEvaluator、達成履歴は gamification_goal_completions テーブルに保存する
+ */
+
+import { useEffect, useState, useCallback, useMemo, useRef } from 'react'
+import { format } from 'date-fns'
+import { supabase } from '@/lib/supabase'
+import { useAuth } from '@/context/AuthContext'
+import { GamificationGoal, GamificationGoalCompletion, GoalType } from '@/types/gamification.types'
+import { evaluateGoal, GoalProgress, SubmissionForGoal } from '@/utils/goalEvaluator'
+import { GetWeekStartsOn, mondayWeekStart } from '@/utils/streakCalculator'
+import { Clock, systemClock } from '@/lib/clock'
+
+export interface GoalProgressView {
+    goal: GamificationGoal
+    progress: GoalProgress
+}
+
+export interface NewGoalInput {
+    title: string
+    goal_type: GoalType
+    target: number
+    reward: string | null
+}
+
+interface UseGamificationGoalsOptions {
+    userId?: string
+    // 以下は進捗計算・達成判定用（管理画面の編集のみなら省略可）
+    submissions?: SubmissionForGoal[]
+    getWeekStartsOn?: GetWeekStartsOn
+    clock?: Clock
+    enabled?: boolean
+    // 計算の元データが揃っているか（未確定のデータで判定しないため）
+    ready?: boolean
+    // 新しく達成した目標（同じ目標で複数期間を同時に達成した場合も1回のみ）
+    onCompleted?: (goal: GamificationGoal) => void
+}
+
+const NO_SUBMISSIONS: SubmissionForGoal[] = []
+
+export function useGamificationGoals({
+    userId,
+    submissions = NO_SUBMISSIONS,
+    getWeekStartsOn = mondayWeekStart,
+    clock = systemClock,
+    enabled = false,
+    ready = false,
+    onCompleted,
+}: UseGamificationGoalsOptions) {
+    const { user } = useAuth()
+    const [goals, setGoals] = useState<GamificationGoal[]>([])
+    const [completions, setCompletions] = useState<GamificationGoalCompletion[]>([])
+    const [loading, setLoading] = useState(true)
+    // 二重 INSERT 防止用（"goalId:periodKey"）
+    const pendingKeysRef = useRef<Set<string>>(new Set())
+
+    // 達成判定はクライアント本人の閲覧時のみ行う（管理者閲覧で演出を消費しない）
+    const canComplete = !!userId && user?.id === userId
+
+    const fetchGoals = useCallback(async () => {
+        if (!userId) {
+            setGoals([])
+            setCompletions([])
+            setLoading(false)
+            return
+        }
+
+        try {
+            const [goalsResult, completionsResult] = await Promise.all([
+                (supabase.from('gamification_goals' as any) as any)
+                    .select('*')
+                    .eq('user_id', userId)
+                    .order('created_at', { ascending: true })
+                    .order('id', { ascending: true }),
+                (supabase.from('gamification_goal_completions' as any) as any)
+                    .select('*')
+                    .eq('user_id', userId),
+            ])
+
+            if (goalsResult.error) throw goalsResult.error
+            if (completionsResult.error) throw completionsResult.error
+            setGoals((goalsResult.data as GamificationGoal[]) || [])
+            setCompletions((completionsResult.data as GamificationGoalCompletion[]) || [])
+        } catch (err) {
+            console.error('Failed to fetch gamification goals:', err)
+            setGoals([])
+            setCompletions([])
+        } finally {
+            setLoading(false)
+        }
+    }, [userId])
+
+    useEffect(() => {
+        setLoading(true)
+        pendingKeysRef.current = new Set()
+        fetchGoals()
+
+        if (!userId) return
+
+        const channel = supabase
+            .channel(`gamification-goals-${userId}`)
+            .on(
+                'postgres_changes',
+                {
+                    event: '*',
+                    schema: 'public',
+                    table: 'gamification_goals',
+                    filter: `user_id=eq.${userId}`
+                },
+                () => {
+                    fetchGoals()
+                }
+            )
+            .subscribe()
+
+        return () => {
+            supabase.removeChannel(channel)
+        }
+    }, [userId, fetchGoals])
+
+    // 有効な目標: effective_to が未設定の行
+    const activeGoals = useMemo(() => {
+        return goals.filter(g => g.effective_to === null)
+    }, [goals])
+
+    // 今日時点で有効な目標の進捗（[effective_from, effective_to) セマンティクス）
+    const progress = useMemo((): GoalProgressView[] => {
+        const todayStr = format(clock(), 'yyyy-MM-dd')
+        return goals
+            .filter(g => g.effective_from <= todayStr && (g.effective_to === null || g.effective_to > todayStr))
+            .map(goal => ({
+                goal,
+                progress: evaluateGoal(goal, submissions, getWeekStartsOn, clock),
+            }))
+    }, [goals, submissions, getWeekStartsOn, clock])
+
+    const completedKeys = useMemo(() => {
+        return new Set(completions.map(c => `${c.goal_id}:${c.period_key}`))
+    }, [completions])
+
+    // 未記録の達成期間を記録し、目標ごとに通知する
+    useEffect(() => {
+        if (!enabled || !ready || loading || !canComplete || !userId) return
+
+        const newRows = progress.flatMap(({ goal, progress: p }) =>
+            p.completedPeriodKeys
+                .filter(periodKey => {
+                    const key = `${goal.id}:${periodKey}`
+                    return !completedKeys.has(key) && !pendingKeysRef.current.has(key)
+                })
+                .map(periodKey => ({ goal_id: goal.id, user_id: userId, period_key: periodKey }))
+        )
+        if (newRows.length === 0) return
+
+        newRows.forEach(r => pendingKeysRef.current.add(`${r.goal_id}:${r.period_key}`))
+
+        const complete = async () => {
+            const { error } = await (supabase
+                .from('gamification_goal_completions' as any) as any)
+                .upsert(newRows, { onConflict: 'goal_id,period_key', ignoreDuplicates: true })
+
+            if (error) {
+                console.error('Failed to record goal completions:', error)
+                newRows.forEach(r => pendingKeysRef.current.delete(`${r.goal_id}:${r.period_key}`))
+                return
+            }
+
+            const completedGoalIds = new Set(newRows.map(r => r.goal_id))
+            progress
+                .filter(({ goal }) => completedGoalIds.has(goal.id))
+                .forEach(({ goal }) => onCompleted?.(goal))
+            await fetchGoals()
+        }
+        complete()
+    }, [enabled, ready, loading, canComplete, userId, progress, completedKeys, onCompleted, fetchGoals])
+
+    /**
+     * 目標を追加する（effective_from はサーバー側の current_date）
+     */
+    const addGoal = useCallback(async (input: NewGoalInput): Promise<boolean> => {
+        if (!userId) return false
+
+        const { error } = await (supabase
+            .from('gamification_goals' as any) as any)
+            .insert({ user_id: userId, ...input })
+
+        if (error) {
+            console.error('Failed to add gamification goal:', error)
+            return false
+        }
+
+        await fetchGoals()
+        return true
+    }, [userId, fetchGoals])
+
+    /**
+     * 目標を終了する（effective_to に今日をセット。達成履歴は残す）
+     */
+    const endGoal = useCallback(async (id: number): Promise<boolean> => {
+        const { error } = await (supabase
+            .from('gamification_goals' as any) as any)
+            .update({ effective_to: format(new Date(), 'yyyy-MM-dd') })
+            .eq('id', id)
+
+        if (error) {
+            console.error('Failed to end gamification goal:', error)
+            return false
+        }
+
+        await fetchGoals()
+        return true
+    }, [fetchGoals])
+
+    return {
+        goals,
+        activeGoals,
+        progress,
+        loading,
+        addGoal,
+        endGoal,
+        refetch: fetchGoals,
+    }
+}
@@ -10,6 +10,7 @@ import {
     GamificationSettingVersion,
     VersionedSettings,
     DEFAULT_VERSIONED_SETTINGS,
+    WeekStartsOn,
 } from '@/types/gamification.types'
 
 /**
@@ -24,6 +25,8 @@ function toVersionedSettings(v: GamificationSettingVersion): VersionedSettings {
         allow_late: v.allow_late,
         use_target_days: v.use_target_days,
         custom_required_days: v.custom_required_days,
+        week_starts_on: v.week_starts_on,
+        shield_max_stock: v.shield_max_stock,
     }
 }
 
@@ -112,6 +115,13 @@ export function useGamificationVersions(userId?: string) {
         return DEFAULT_VERSIONED_SETTINGS
     }, [versions])
 
+    /**
+     * 指定日に有効だった週の開始曜日を返す
+     */
+    const getWeekStartsOnForDate = useCallback((date: Date): WeekStartsOn => {
+        return getSettingsForDate(date).week_starts_on
+    }, [getSettingsForDate])
+
     /**
      * RPC save_gamification_version を呼び出し（トランザクション保証あり）
      */
@@ -127,6 +137,8 @@ export function useGamificationVersions(userId?: string) {
             p_allow_late: settings.allow_late,
             p_use_target_days: settings.use_target_days,
             p_custom_required_days: settings.custom_required_days,
+            p_week_starts_on: settings.week_starts_on,
+            p_shield_max_stock: settings.shield_max_stock,
         })
 
         if (error) {
@@ -179,6 +191,7 @@ export function useGamificationVersions(userId?: string) {
         activeVersion,
         deletedVersions,
         getSettingsForDate,
+        getWeekStartsOnForDate,
         saveNewVersion,
         reactivateVersion,
         updateVersionEffectiveTo,
@@ -0,0 +1,66 @@
+/**
+ * シールド台帳（shield_ledger）取得フック
+ * 台帳は recompute_gamification_stats RPC がサーバー側で追記するため、ここでは読み取りのみ
+ */
+
+import { useEffect, useState, useCallback, useMemo } from 'react'
+import { supabase } from '@/lib/supabase'
+import { ShieldLedgerEntry } from '@/types/gamification.types'
+
+export interface ShieldLedgerRow extends ShieldLedgerEntry {
+    balance: number     // この行までの残数（台帳の累計）
+}
+
+export function useShieldLedger(userId?: string) {
+    const [entries, setEntries] = useState<ShieldLedgerEntry[]>([])
+    const [loading, setLoading] = useState(true)
+
+    const fetchEntries = useCallback(async () => {
+        if (!userId) {
+            setEntries([])
+            setLoading(false)
+            return
+        }
+
+        try {
+            setLoading(true)
+            const { data, error } = await (supabase
+                .from('shield_ledger' as any) as any)
+                .select('*')
+                .eq('user_id', userId)
+                .order('created_at', { ascending: true })
+                .order('id', { ascending: true })
+
+            if (error) throw error
+            setEntries((data as ShieldLedgerEntry[]) || [])
+        } catch (err) {
+            console.error('Failed to fetch shield ledger:', err)
+            setEntries([])
+        } finally {
+            setLoading(false)
+        }
+    }, [userId])
+
+    useEffect(() => {
+        fetchEntries()
+    }, [fetchEntries])
+
+    // 新しい順（各行に累計残数を付与）
+    const rows = useMemo((): ShieldLedgerRow[] => {
+        let balance = 0
+        const withBalance = entries.map(e => {
+            balance += e.delta
+            return { ...e, balance }
+        })
+        return withBalance.reverse()
+    }, [entries])
+
+    const balance = rows[0]?.balance ?? 0
+
+    return {
+        rows,
+        balance,
+        loading,
+        refetch: fetchEntries,
+    }
+}
@@ -0,0 +1,140 @@
+/**
+ * 継続日数の称号を管理するカスタムフック
+ * 称号の解決は utils/streakTitles、獲得履歴は streak_title_awards テーブルに保存する
+ */
+
+import { useEffect, useState, useCallback, useMemo, useRef } from 'react'
+import { supabase } from '@/lib/supabase'
+import { useAuth } from '@/context/AuthContext'
+import { StreakTitle, resolveStreakTitle, getReachedStreakTitles, getStreakTitleByDays } from '@/utils/streakTitles'
+
+interface StreakTitleAward {
+    id: number
+    user_id: string
+    days: number
+    awarded_at: string
+}
+
+interface UseStreakTitlesOptions {
+    userId?: string
+    currentStreak: number
+    enabled: boolean
+    // ストリーク計算の元データが揃っているか（未確定の 0 日で判定しないため）
+    ready: boolean
+    // 新しく獲得した称号（複数同時に到達した場合は最上位のみ）
+    onAwarded?: (title: StreakTitle) => void
+}
+
+export function useStreakTitles({ userId, currentStreak, enabled, ready, onAwarded }: UseStreakTitlesOptions) {
+    const { user } = useAuth()
+    const [awards, setAwards] = useState<StreakTitleAward[]>([])
+    const [loading, setLoading] = useState(true)
+    // 二重 INSERT 防止用（realtime 反映前に再レンダーされるため）
+    const pendingDaysRef = useRef<Set<number>>(new Set())
+
+    // 獲得判定はクライアント本人の閲覧時のみ行う（管理者閲覧で演出を消費しない）
+    const canAward = !!userId && user?.id === userId
+
+    const fetchAwards = useCallback(async () => {
+        if (!userId) {
+            setAwards([])
+            setLoading(false)
+            return
+        }
+
+        try {
+            const { data, error } = await (supabase
+                .from('streak_title_awards' as any) as any)
+                .select('*')
+                .eq('user_id', userId)
+                .order('days', { ascending: true })
+
+            if (error) throw error
+            setAwards((data as StreakTitleAward[]) || [])
+        } catch (err) {
+            console.error('Failed to fetch streak title awards:', err)
+            setAwards([])
+        } finally {
+            setLoading(false)
+        }
+    }, [userId])
+
+    useEffect(() => {
+        setLoading(true)
+        pendingDaysRef.current = new Set()
+        fetchAwards()
+
+        if (!userId) return
+
+        const channel = supabase
+            .channel(`streak-title-awards-${userId}`)
+            .on(
+                'postgres_changes',
+                {
+                    event: '*',
+                    schema: 'public',
+                    table: 'streak_title_awards',
+                    filter: `user_id=eq.${userId}`
+                },
+                () => {
+                    fetchAwards()
+                }
+            )
+            .subscribe()
+
+        return () => {
+            supabase.removeChannel(channel)
+        }
+    }, [userId, fetchAwards])
+
+    const awardedDays = useMemo(() => new Set(awards.map(a => a.days)), [awards])
+
+    // 未獲得の到達済み称号を記録し、最上位の称号を通知する
+    useEffect(() => {
+        if (!enabled || !ready || loading || !canAward || !userId) return
+
+        const newTitles = getReachedStreakTitles(currentStreak).filter(t =>
+            !awardedDays.has(t.days) && !pendingDaysRef.current.has(t.days)
+        )
+        if (newTitles.length === 0) return
+
+        newTitles.forEach(t => pendingDaysRef.current.add(t.days))
+
+        const award = async () => {
+            const { error } = await (supabase
+                .from('streak_title_awards' as any) as any)
+                .upsert(
+                    newTitles.map(t => ({ user_id: userId, days: t.days })),
+                    { onConflict: 'user_id,days', ignoreDuplicates: true }
+                )
+
+            if (error) {
+                console.error('Failed to award streak titles:', error)
+                newTitles.forEach(t => pendingDaysRef.current.delete(t.days))
+                return
+            }
+
+            onAwarded?.(newTitles[newTitles.length - 1])
+            await fetchAwards()
+        }
+        award()
+    }, [enabled, ready, loading, canAward, userId, currentStreak, awardedDays, onAwarded, fetchAwards])
+
+    const resolution = useMemo(() => resolveStreakTitle(currentStreak), [currentStreak])
+
+    // 獲得済み称号（昇順）。定義から削除された日数は除外
+    const awardedTitles = useMemo(() => {
+        return awards
+            .map(a => getStreakTitleByDays(a.days))
+            .filter((t): t is StreakTitle => t !== null)
+    }, [awards])
+
+    return {
+        currentTitle: resolution.current,
+        nextTitle: resolution.next,
+        daysToNext: resolution.daysToNext,
+        awardedTitles,
+        loading,
+        refetch: fetchAwards
+    }
+}
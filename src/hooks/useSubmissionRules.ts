@@ -1,8 +1,10 @@
-import { useEffect, useState, useCallback } from 'react'
+import { useEffect, useState, useCallback, useMemo } from 'react'
 import { supabase } from '@/lib/supabase'
 import { Database } from '@/types/database.types'
 import { isSameDay, parseISO, format } from 'date-fns'
 import { GroupConfig } from '@/utils/streakCalculator'
+import { Clock, systemClock } from '@/lib/clock'
+import { zonedClock, toZonedTime } from '@/lib/timezone'
 
 type SubmissionRule = Database['public']['Tables']['submission_rules']['Row']
 
@@ -17,8 +19,10 @@ function isRuleActiveForDate(rule: SubmissionRule, dateStr: string): boolean {
     return true
 }
 
-export function useSubmissionRules(userId?: string) {
+export function useSubmissionRules(userId?: string, timeZone?: string | null, clock: Clock = systemClock) {
     const [rules, setRules] = useState<SubmissionRule[]>([])
+    // 期限・当日の判定はクライアントのタイムゾーンの壁時計時刻で行う
+    const now = useMemo(() => zonedClock(clock, timeZone), [clock, timeZone])
     const [loading, setLoading] = useState(true)
     const [error, setError] = useState<string | null>(null)
 
@@ -106,7 +110,8 @@ export function useSubmissionRules(userId?: string) {
     }, [rules])
 
     // 期限超過判定関数: 指定日の期限時間を過ぎているかどうかを判定
-    const isDeadlinePassed = useCallback((targetDate: Date): boolean => {
+    // at を指定するとその時刻で判定する（オフライン撮影の動画をファイルの更新日時で判定する場合）
+    const isDeadlinePassed = useCallback((targetDate: Date, at?: Date): boolean => {
         const deadlineTime = getRuleForDate(targetDate, 'deadline')
         if (!deadlineTime) {
             // 期限が設定されていない場合は超過とみなさない
@@ -120,10 +125,9 @@ export function useSubmissionRules(userId?: string) {
         const deadlineDateTime = new Date(targetDate)
         deadlineDateTime.setHours(hours, minutes, 0, 0)
 
-        // 現在時刻と比較
-        const now = new Date()
-        return now > deadlineDateTime
-    }, [getRuleForDate])
+        // 現在時刻（クライアントのタイムゾーン）と比較
+        return (at ? toZonedTime(at, timeZone) : now()) > deadlineDateTime
+    }, [getRuleForDate, now, timeZone])
 
     // 休息日判定関数（latest-wins 方式 + effective_to フィルタ）
     const isRestDayForDate = useCallback((date: Date): boolean => {
@@ -218,7 +222,7 @@ export function useSubmissionRules(userId?: string) {
 
     // 週目標日数を計算
     const getTargetDaysPerWeek = useCallback((date?: Date): number => {
-        const targetDate = date || new Date()
+        const targetDate = date || now()
         const dateStr = format(targetDate, 'yyyy-MM-dd')
 
         // effective_from <= date かつ effective_to フィルタの有効ルールをフィルタ
@@ -236,7 +240,7 @@ export function useSubmissionRules(userId?: string) {
             .reduce((sum, g) => sum + (g.daysOfWeek.length - g.requiredCount), 0)
 
         return 7 - restDayCount - groupReduceCount
-    }, [rules, getGroupConfigsForDate])
+    }, [rules, getGroupConfigsForDate, now])
 
     return {
         rules, loading, error, refetch: fetchRules,
@@ -0,0 +1,81 @@
+import { useState, useEffect, useCallback, useId } from 'react'
+import { supabase } from '@/lib/supabase'
+
+/** 未読メッセージのあるクライアント（Sidebar の内訳） */
+export interface UnreadCommentSummary {
+    userId: string
+    displayName: string | null
+    count: number
+}
+
+/**
+ * 自分宛ての未読メッセージの件数（クライアントごと）
+ * 管理者: クライアントからの返信 / クライアント: トレーナーからのメッセージ（自分の1件のみ）
+ */
+export function useUnreadCommentCounts(userId: string | undefined) {
+    const [counts, setCounts] = useState<Record<string, number>>({})
+    const [names, setNames] = useState<Record<string, string | null>>({})
+    // 同じ画面で複数回使われてもチャンネル名が重ならないようにする
+    const channelId = useId()
+
+    const fetchCounts = useCallback(async () => {
+        if (!userId) {
+            setCounts({})
+            return
+        }
+
+        const { data, error } = await (supabase.rpc as any)('get_unread_comment_counts')
+
+        if (error) {
+            console.error('Failed to fetch unread comment counts:', error)
+            return
+        }
+        const rows = (data as { user_id: string; unread_count: number }[]) || []
+        setCounts(Object.fromEntries(rows.map(r => [r.user_id, r.unread_count])))
+
+        // 内訳に表示する名前（管理者のみ複数のクライアントが返る）
+        const ids = rows.map(r => r.user_id).filter(id => id !== userId)
+        if (ids.length === 0) return
+        const { data: profiles, error: profilesError } = await supabase
+            .from('profiles')
+            .select('id, display_name')
+            .in('id', ids)
+        if (profilesError) {
+            console.error('Failed to fetch client names for unread comments:', profilesError)
+            return
+        }
+        setNames(prev => ({
+            ...prev,
+            ...Object.fromEntries((profiles || []).map(p => [p.id, p.display_name])),
+        }))
+    }, [userId])
+
+    useEffect(() => {
+        fetchCounts()
+
+        if (!userId) return
+
+        const channel = supabase
+            .channel(`unread-comments-${userId}-${channelId}`)
+            .on(
+                'postgres_changes',
+                {
+                    event: '*',
+                    schema: 'public',
+                    table: 'admin_comments'
+                },
+                () => { fetchCounts() }
+            )
+            .subscribe()
+
+        return () => { supabase.removeChannel(channel) }
+    }, [userId, channelId, fetchCounts])
+
+    const total = Object.values(counts).reduce((sum, c) => sum + c, 0)
+    const summaries: UnreadCommentSummary[] = Object.entries(counts)
+        .filter(([, count]) => count > 0)
+        .map(([id, count]) => ({ userId: id, displayName: names[id] ?? null, count }))
+        .sort((a, b) => b.count - a.count)
+
+    return { counts, total, summaries }
+}
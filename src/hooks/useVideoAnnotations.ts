@@ -0,0 +1,101 @@
+import { useState, useEffect, useCallback } from 'react'
+import { supabase } from '@/lib/supabase'
+import { useAuth } from '@/context/AuthContext'
+import { Database } from '@/types/database.types'
+
+type VideoAnnotation = Database['public']['Tables']['video_annotations']['Row']
+
+/**
+ * 再生中の投稿の動画メモ（VideoPlayerModal のシークバーのマーカー）
+ * 追加・削除は管理者のみ（RLS）。クライアントは自分の投稿のメモを閲覧する
+ */
+export function useVideoAnnotations(submissionId: number | null | undefined) {
+    const { user } = useAuth()
+    const [annotations, setAnnotations] = useState<VideoAnnotation[]>([])
+
+    const fetchAnnotations = useCallback(async () => {
+        if (!submissionId) {
+            setAnnotations([])
+            return
+        }
+
+        const { data, error } = await supabase
+            .from('video_annotations')
+            .select('*')
+            .eq('submission_id', submissionId)
+            .order('time_seconds', { ascending: true })
+
+        if (error) {
+            console.error('Failed to fetch video annotations:', error)
+            return
+        }
+        setAnnotations(data || [])
+    }, [submissionId])
+
+    useEffect(() => {
+        fetchAnnotations()
+
+        if (!submissionId) return
+
+        // 別の画面で追加・削除されたメモも反映する
+        const channel = supabase
+            .channel(`video-annotations-${submissionId}`)
+            .on(
+                'postgres_changes',
+                {
+                    event: '*',
+                    schema: 'public',
+                    table: 'video_annotations',
+                    filter: `submission_id=eq.${submissionId}`
+                },
+                () => { fetchAnnotations() }
+            )
+            .subscribe()
+
+        return () => { supabase.removeChannel(channel) }
+    }, [submissionId, fetchAnnotations])
+
+    const addAnnotation = async (timeSeconds: number, content: string) => {
+        if (!submissionId || !user?.id) return { success: false }
+        try {
+            const { data, error } = await (supabase
+                .from('video_annotations') as any)
+                .insert({
+                    submission_id: submissionId,
+                    user_id: user.id,
+                    time_seconds: timeSeconds,
+                    content
+                })
+                .select()
+                .single()
+
+            if (error) throw error
+            setAnnotations(prev =>
+                [...prev.filter(a => a.id !== data.id), data as VideoAnnotation]
+                    .sort((a, b) => a.time_seconds - b.time_seconds)
+            )
+            return { success: true }
+        } catch (err: any) {
+            console.error('Add annotation failed:', err)
+            return { success: false, error: err.message }
+        }
+    }
+
+    const deleteAnnotation = async (annotationId: string) => {
+        try {
+            const { error } = await supabase
+                .from('video_annotations')
+                .delete()
+                .eq('id', annotationId)
+
+            if (error) throw error
+            setAnnotations(prev => prev.filter(a => a.id !== annotationId))
+            return { success: true }
+        } catch (err: any) {
+            console.error('Delete annotation failed:', err)
+            return { success: false, error: err.message }
+        }
+    }
+
+    return { annotations, addAnnotation, deleteAnnotation }
+}
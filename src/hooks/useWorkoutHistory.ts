@@ -3,12 +3,15 @@ import { supabase } from '@/lib/supabase'
 import { Database } from '@/types/database.types'
 import { useAuth } from '@/context/AuthContext'
 import { deleteBunnyVideo } from '@/lib/bunny'
+import { Clock, systemClock } from '@/lib/clock'
+import { applyWorkoutStatus, applyBulkWorkoutStatus } from '@/lib/workout-status'
+import type { WorkoutStatus } from '@/utils/workoutStatus'
 
 type Submission = Database['public']['Tables']['submissions']['Row'] & {
     admin_comments?: Database['public']['Tables']['admin_comments']['Row'][]
 }
 
-export function useWorkoutHistory(targetUserId?: string) {
+export function useWorkoutHistory(targetUserId?: string, timeZone?: string | null, clock: Clock = systemClock) {
     const { user } = useAuth()
     const [workouts, setWorkouts] = useState<Submission[]>([])
     const [loading, setLoading] = useState(true)
@@ -41,6 +44,7 @@ export function useWorkoutHistory(targetUserId?: string) {
                     .from('admin_comments') as any)
                     .select('*')
                     .in('submission_id', submissionIds)
+                    .order('created_at', { ascending: true })
 
                 if (commentsError) {
                     console.warn('Comments fetch error:', commentsError)
@@ -65,12 +69,9 @@ export function useWorkoutHistory(targetUserId?: string) {
 
     const deleteWorkout = async (id: number, _r2Key: string | null) => {
         try {
-            // 現在の投稿を取得（削除前に減算用データを取得）
+            // 現在の投稿を取得（削除後の再計算対象ユーザーを特定）
             const targetWorkout = workouts.find(w => w.id === id)
             const userId = targetWorkout?.user_id
-            const reps = targetWorkout?.reps || 0
-            const isApproved = targetWorkout?.status === 'success'
-            const isRevival = (targetWorkout as any)?.is_revival === true
 
             // 1. Delete Bunny video if exists
             const bunnyId = targetWorkout?.bunny_video_id
@@ -86,32 +87,11 @@ export function useWorkoutHistory(targetUserId?: string) {
 
             if (dbError) throw dbError
 
-            // 3. Profiles を更新（承認済みだった場合のみ減算）
-            if (userId && isApproved) {
-                const { data: profileData } = await supabase
-                    .from('profiles')
-                    .select('total_reps, revival_success_count')
-                    .eq('id', userId)
-                    .single()
-
-                if (profileData) {
-                    const updates: any = {}
-                    const currentTotal = (profileData as any).total_reps || 0
-                    const currentRevival = (profileData as any).revival_success_count || 0
-
-                    if (reps > 0) {
-                        updates.total_reps = Math.max(0, currentTotal - reps)
-                    }
-
-                    if (isRevival) {
-                        updates.revival_success_count = Math.max(0, currentRevival - 1)
-                    }
-
-                    if (Object.keys(updates).length > 0) {
-                        await (supabase.from('profiles') as any)
-                            .update(updates)
-                            .eq('id', userId)
-                    }
+            // 3. 集計値をサーバー側で再計算（シールド在庫・パーフェクトウィーク含む）
+            if (userId) {
+                const { error: statsError } = await (supabase.rpc as any)('recompute_gamification_stats', { p_user_id: userId })
+                if (statsError) {
+                    console.error('Failed to recompute gamification stats:', statsError)
                 }
             }
 
@@ -127,154 +107,21 @@ export function useWorkoutHistory(targetUserId?: string) {
     // ステータス更新ロジック（承認/却下/取り消し）
     const updateWorkoutStatus = async (
         id: number,
-        status: 'success' | 'fail' | 'excused' | null,
+        status: WorkoutStatus,
         reps?: number | null
     ) => {
         try {
-            // 現在の投稿を取得（取り消し時に前のrepsを取得するため）
             const currentWorkout = workouts.find(w => w.id === id)
-            const previousReps = currentWorkout?.reps || 0
-            const previousStatus = currentWorkout?.status
-            const userId = currentWorkout?.user_id
-            const targetDate = currentWorkout?.target_date
-
-            // 承認時はrepsも保存、取り消し時はrepsをnullにリセット
-            const updateData: {
-                status: typeof status;
-                reviewed_at: string | null;
-                reps?: number | null;
-                is_revival?: boolean;
-            } = {
-                status,
-                reviewed_at: status ? new Date().toISOString() : null
-            }
-
-            // 承認時はrepsを設定
-            if (status === 'success' && reps !== undefined) {
-                updateData.reps = reps
-            }
-            // 取り消し時はrepsをnullにリセット
-            if (status === null) {
-                updateData.reps = null
-                updateData.is_revival = false
-            }
-
-            // 新規承認時のリバイバル自動判定
-            let isRevival = false
-            if (status === 'success' && previousStatus !== 'success' && targetDate) {
-                // この日付に他の承認済み投稿があるか確認
-                const hasOtherApproved = workouts.some(w =>
-                    w.id !== id &&
-                    w.target_date === targetDate &&
-                    w.status === 'success'
-                )
-
-                // 過去の日付で、他に承認済みがなければリバイバル候補
-                // タイムゾーン安全: targetDate を年月日に分解してローカル深夜0時として生成する
-                const [ty, tm, td] = targetDate.split('-').map(Number)
-                const targetDateObj = new Date(ty, tm - 1, td) // ローカル深夜0時（UTC解釈問題なし）
-                const today = new Date()
-                today.setHours(0, 0, 0, 0)
-
-                if (targetDateObj < today && !hasOtherApproved) {
-                    // #7: created_at が target_date より後の日付の場合のみリバイバル
-                    // リバイバルの本質 = 「過去の空白日を後から埋めた」こと。
-                    // 当日投稿→翌日承認や事前投稿は正規の提出なのでリバイバルではない。
-                    const createdAt = currentWorkout?.created_at
-                    if (createdAt) {
-                        const createdAtDate = new Date(createdAt)
-                        createdAtDate.setHours(0, 0, 0, 0)
-                        if (createdAtDate > targetDateObj) {
-                            // 過去日かつ初回承認かつ target_date より後に投稿 → リバイバル
-                            isRevival = true
-                            updateData.is_revival = true
-
-                            // クライアント向けに通知をlocalStorageに保存
-                            if (userId) {
-                                const notificationKey = `pending_revival_${userId}`
-                                const existing = localStorage.getItem(notificationKey)
-                                const notifications = existing ? JSON.parse(existing) : []
-                                notifications.push({
-                                    type: 'revival_success',
-                                    message: '🔥 不屈の復活！過去の空白を埋めました！',
-                                    targetDate,
-                                    createdAt: new Date().toISOString()
-                                })
-                                localStorage.setItem(notificationKey, JSON.stringify(notifications))
-                            }
-                        }
-                    }
-                }
-            }
-
-            // 1. submissions テーブルを更新
-            const { error: dbError } = await (supabase
-                .from('submissions') as any)
-                .update(updateData)
-                .eq('id', id)
-
-            if (dbError) throw dbError
-
-            // 2. profiles.total_reps を更新
-            if (userId) {
-                // 現在のプロフィールを取得
-                const { data: profileData } = await supabase
-                    .from('profiles')
-                    .select('total_reps, revival_success_count')
-                    .eq('id', userId)
-                    .single()
-
-                const currentTotalReps = (profileData as any)?.total_reps || 0
-                const currentRevivalCount = (profileData as any)?.revival_success_count || 0
-                let newTotalReps = currentTotalReps
-                let newRevivalCount = currentRevivalCount
-
-                // 承認時: repsを加算（以前も承認済みだった場合は差分を計算）
-                if (status === 'success' && reps !== undefined && reps !== null) {
-                    if (previousStatus === 'success') {
-                        // 再承認の場合: 差分を適用
-                        newTotalReps = currentTotalReps - previousReps + reps
-                    } else {
-                        // 新規承認の場合: 加算
-                        newTotalReps = currentTotalReps + reps
-                    }
-
-                    // リバイバルカウント加算
-                    if (isRevival) {
-                        newRevivalCount = currentRevivalCount + 1
-                    }
-                }
-                // 取り消し・却下時: 以前承認済みだったならrepsを減算
-                else if ((status === null || status === 'fail') && previousStatus === 'success') {
-                    if (previousReps > 0) {
-                        newTotalReps = Math.max(0, currentTotalReps - previousReps)
-                    }
-                    // リバイバルカウントも減算
-                    if (currentWorkout && (currentWorkout as any).is_revival === true) {
-                        newRevivalCount = Math.max(0, currentRevivalCount - 1)
-                    }
-                }
-
-                // プロフィールを更新
-                const profileUpdates: any = {}
-                if (newTotalReps !== currentTotalReps) {
-                    profileUpdates.total_reps = newTotalReps
-                }
-                if (newRevivalCount !== currentRevivalCount) {
-                    profileUpdates.revival_success_count = newRevivalCount
-                }
-
-                if (Object.keys(profileUpdates).length > 0) {
-                    const { error: profileError } = await (supabase
-                        .from('profiles') as any)
-                        .update(profileUpdates)
-                        .eq('id', userId)
+            if (!currentWorkout) throw new Error('Submission not found')
 
-                    if (profileError) {
-                        console.error('Profile update failed:', profileError)
-                    }
-                }
-            }
+            const { isRevival } = await applyWorkoutStatus({
+                workout: currentWorkout,
+                otherWorkouts: workouts,
+                status,
+                reps,
+                timeZone,
+                now: clock(),
+            })
 
             await fetchWorkouts(true)
             return { success: true, isRevival }
@@ -284,34 +131,50 @@ export function useWorkoutHistory(targetUserId?: string) {
         }
     }
 
-    const addAdminComment = async (submissionId: number, content: string) => {
+    // 複数の投稿をまとめて更新（RPC で1トランザクション）
+    const bulkUpdateWorkoutStatus = async (
+        ids: number[],
+        status: WorkoutStatus,
+        reps?: number | null
+    ) => {
+        try {
+            const results = await applyBulkWorkoutStatus({ submissionIds: ids, status, reps, now: clock() })
+
+            await fetchWorkouts(true)
+            return { success: true, updatedCount: results.length, revivalCount: results.filter(r => r.is_revival).length }
+        } catch (err: any) {
+            console.error('Bulk status update failed:', err)
+            return { success: false, error: err.message }
+        }
+    }
+
+    // 投稿へのメッセージ（トレーナー・クライアントどちらからも送信できる）
+    const postComment = async (submissionId: number, content: string) => {
         if (!user?.id) return { success: false }
         try {
             const { error: dbError } = await (supabase
                 .from('admin_comments') as any)
-                .upsert({
+                .insert({
                     submission_id: submissionId,
                     user_id: user.id,
-                    content,
-                    read_at: null
-                }, { onConflict: 'submission_id' })
+                    content
+                })
 
             if (dbError) throw dbError
             await fetchWorkouts(true)
             return { success: true }
         } catch (err: any) {
-            console.error('Add comment failed:', err)
+            console.error('Post comment failed:', err)
             return { success: false, error: err.message }
         }
     }
 
-    const markCommentAsRead = async (commentId: string) => {
+    // 相手からの未読メッセージを既読にする
+    const markThreadAsRead = async (submissionId: number) => {
         try {
-            const { error: dbError } = await (supabase
-                .from('admin_comments') as any)
-                .update({ read_at: new Date().toISOString() })
-                .eq('id', commentId)
-                .is('read_at', null)
+            const { error: dbError } = await (supabase.rpc as any)('mark_submission_comments_read', {
+                p_submission_id: submissionId
+            })
 
             if (dbError) throw dbError
             await fetchWorkouts(true)
@@ -322,7 +185,7 @@ export function useWorkoutHistory(targetUserId?: string) {
         }
     }
 
-    const deleteAdminComment = async (commentId: string) => {
+    const deleteComment = async (commentId: string) => {
         try {
             const { error: dbError } = await (supabase
                 .from('admin_comments') as any)
@@ -387,8 +250,9 @@ export function useWorkoutHistory(targetUserId?: string) {
         refetch: fetchWorkouts,
         deleteWorkout,
         updateWorkoutStatus,
-        addAdminComment,
-        deleteAdminComment,
-        markCommentAsRead
+        bulkUpdateWorkoutStatus,
+        postComment,
+        deleteComment,
+        markThreadAsRead
     }
 }
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest'
+import { format } from 'date-fns'
+import { fixedClock } from '@/lib/clock'
+import { toZonedTime, fromZonedTime, zonedClock, isValidTimeZone } from '@/lib/timezone'
+
+// テスト実行時のローカルタイムゾーンは Asia/Tokyo（vitest.config.ts）
+const instant = new Date('2026-04-10T03:30:00Z')
+const wallTime = (date: Date) => format(date, 'yyyy-MM-dd HH:mm')
+
+describe('toZonedTime', () => {
+    it.each([
+        ['Asia/Tokyo', '2026-04-10 12:30'],
+        ['America/New_York', '2026-04-09 23:30'],
+        ['Europe/London', '2026-04-10 04:30'],
+        ['UTC', '2026-04-10 03:30'],
+    ])('%s の壁時計時刻を返す', (timeZone, expected) => {
+        expect(wallTime(toZonedTime(instant, timeZone))).toBe(expected)
+    })
+
+    it.each([
+        ['未指定', null],
+        ['不正な名前', 'Mars/Olympus'],
+    ])('%sならそのまま返す', (_label, timeZone) => {
+        expect(toZonedTime(instant, timeZone)).toBe(instant)
+    })
+})
+
+describe('fromZonedTime', () => {
+    it.each([
+        ['America/New_York', '2026-03-08T12:00:00Z'],
+        ['America/New_York', '2026-11-01T12:00:00Z'],
+        ['Europe/London', '2026-03-29T12:00:00Z'],
+        ['Pacific/Auckland', '2026-04-05T12:00:00Z'],
+    ])('%s: 夏時間の切り替え日（%s）も往復で元の時刻に戻る', (timeZone, iso) => {
+        const date = new Date(iso)
+        expect(fromZonedTime(toZonedTime(date, timeZone), timeZone).getTime()).toBe(date.getTime())
+    })
+
+    it('壁時計の 23:59:59 を実際の時刻に戻す', () => {
+        const endOfDayInNewYork = new Date(2026, 3, 9, 23, 59, 59)
+        expect(fromZonedTime(endOfDayInNewYork, 'America/New_York').toISOString()).toBe('2026-04-10T03:59:59.000Z')
+    })
+})
+
+describe('zonedClock', () => {
+    it('日本ではすでに翌日でも、ニューヨークでは前日のまま', () => {
+        const clock = zonedClock(fixedClock(instant), 'America/New_York')
+        expect(format(clock(), 'yyyy-MM-dd')).toBe('2026-04-09')
+    })
+
+    it('タイムゾーン名の検証', () => {
+        expect(isValidTimeZone('Asia/Tokyo')).toBe(true)
+        expect(isValidTimeZone('Mars/Olympus')).toBe(false)
+    })
+})
@@ -0,0 +1,161 @@
+import { describe, it, expect } from 'vitest'
+import type { UploadLogEntry, UploadPhase, UploadStatus } from '@/lib/upload-logger'
+import {
+    summarizeUploadSession,
+    getOutcomeStatsBy,
+    getPhaseDurationStats,
+    getFailurePhaseStats,
+    getFileSizeBucket,
+    median,
+} from '@/lib/upload-analytics'
+
+const MB = 1024 * 1024
+
+function entry(
+    phase: UploadPhase,
+    status: UploadStatus,
+    overrides: Partial<UploadLogEntry> = {}
+): UploadLogEntry {
+    return {
+        userId: 'user-1',
+        sessionId: 'session-1',
+        timestamp: '2026-04-10T00:00:00Z',
+        phase,
+        status,
+        durationMs: null,
+        fileSize: 100 * MB,
+        fileName: 'IMG_0001.MOV',
+        error: null,
+        networkState: { online: true },
+        extra: null,
+        ...overrides,
+    }
+}
+
+function fileSelect(os: string, browser: string, fileSize: number = 100 * MB): UploadLogEntry {
+    return entry('file-select', 'success', {
+        extra: {
+            appVersion: '2.9.0',
+            device: { os, browser, deviceType: 'mobile', isPWA: true },
+            fileType: 'video/quicktime',
+            fileSize,
+        },
+    })
+}
+
+const succeeded = (os = 'iOS 17.4', browser = 'Safari 17', size?: number) => [
+    fileSelect(os, browser, size),
+    entry('tus-upload', 'success', { durationMs: 30_000 }),
+    entry('db-save', 'success', { durationMs: 200 }),
+    entry('complete', 'success', { durationMs: 0 }),
+]
+
+const failedAtTus = (percent: number, os = 'iOS 17.4', browser = 'Safari 17', size?: number) => [
+    fileSelect(os, browser, size),
+    entry('tus-upload', 'progress', { extra: { event: 'tus-progress', percent } }),
+    entry('tus-upload', 'fail', { durationMs: 60_000, error: { message: 'tus: failed to upload chunk' } }),
+]
+
+describe('summarizeUploadSession', () => {
+    it('完了したセッション', () => {
+        const summary = summarizeUploadSession(succeeded())
+        expect(summary.outcome).toBe('success')
+        expect(summary.device?.os).toBe('iOS 17.4')
+        expect(summary.appVersion).toBe('2.9.0')
+        expect(summary.phaseDurations).toEqual({ 'tus-upload': 30_000, 'db-save': 200 })
+    })
+
+    it('失敗したフェーズ・エラー・最後の進捗', () => {
+        const summary = summarizeUploadSession(failedAtTus(52))
+        expect(summary).toMatchObject({
+            outcome: 'failed',
+            failedPhase: 'tus-upload',
+            errorMessage: 'tus: failed to upload chunk',
+            lastProgressPercent: 52,
+        })
+    })
+
+    it('圧縮の失敗（元のファイルで続行）はセッションの失敗としない', () => {
+        const summary = summarizeUploadSession([
+            fileSelect('Android 14', 'Chrome 124'),
+            entry('compress', 'fail', { error: { message: 'VideoEncoder not supported' } }),
+        ])
+        expect(summary.outcome).toBe('incomplete')
+    })
+
+    it('error フェーズより具体的なフェーズの失敗を優先する', () => {
+        const summary = summarizeUploadSession([
+            fileSelect('iOS 17.4', 'Safari 17'),
+            entry('error', 'fail', { error: { message: 'Upload failed' } }),
+            entry('db-save', 'fail', { error: { message: 'DB save failed' } }),
+        ])
+        expect(summary.failedPhase).toBe('db-save')
+    })
+})
+
+describe('getOutcomeStatsBy', () => {
+    const sessions = [
+        succeeded('iOS 17.4', 'Safari 17', 400 * MB),
+        failedAtTus(50, 'iOS 17.4', 'Safari 17', 400 * MB),
+        [fileSelect('iOS 17.4', 'Safari 17', 20 * MB)],
+        succeeded('Android 14', 'Chrome 124', 20 * MB),
+    ].map(summarizeUploadSession)
+
+    it('OS ごとの成功率（中断も分母に含める）', () => {
+        expect(getOutcomeStatsBy(sessions, 'os')).toEqual([
+            { key: 'iOS 17.4', total: 3, success: 1, failed: 1, incomplete: 1, successRate: 33.3 },
+            { key: 'Android 14', total: 1, success: 1, failed: 0, incomplete: 0, successRate: 100 },
+        ])
+    })
+
+    it('ファイルサイズは小さい区分から並べる', () => {
+        expect(getOutcomeStatsBy(sessions, 'fileSize').map(s => s.key)).toEqual(['50MB未満', '300〜500MB'])
+    })
+})
+
+describe('getFileSizeBucket', () => {
+    it.each([
+        [10 * MB, '50MB未満'],
+        [50 * MB, '50〜100MB'],
+        [1024 * MB, '1GB以上'],
+        [null, '不明'],
+    ])('%s', (size, expected) => {
+        expect(getFileSizeBucket(size)).toBe(expected)
+    })
+})
+
+describe('getPhaseDurationStats', () => {
+    it('成功したフェーズの所要時間の中央値', () => {
+        const sessions = [
+            succeeded(),
+            [...succeeded().slice(0, 1), entry('tus-upload', 'success', { durationMs: 10_000 }), entry('complete', 'success')],
+        ].map(summarizeUploadSession)
+        expect(getPhaseDurationStats(sessions)).toEqual([
+            { phase: 'tus-upload', count: 2, medianMs: 20_000 },
+            { phase: 'db-save', count: 1, medianMs: 200 },
+        ])
+    })
+})
+
+describe('getFailurePhaseStats', () => {
+    it('失敗したフェーズの内訳と失敗時の進捗', () => {
+        const sessions = [
+            failedAtTus(40),
+            failedAtTus(60),
+            failedAtTus(50),
+            [fileSelect('iOS 17.4', 'Safari 17'), entry('db-save', 'fail', { error: { message: 'DB save failed' } })],
+            succeeded(),
+        ].map(summarizeUploadSession)
+        expect(getFailurePhaseStats(sessions)).toEqual([
+            { phase: 'tus-upload', count: 3, share: 75, topError: 'tus: failed to upload chunk', medianProgressPercent: 50 },
+            { phase: 'db-save', count: 1, share: 25, topError: 'DB save failed', medianProgressPercent: null },
+        ])
+    })
+})
+
+describe('median', () => {
+    it('偶数個は中央の 2 つの平均', () => {
+        expect(median([4, 1, 3, 2])).toBe(3)
+        expect(median([])).toBeNull()
+    })
+})
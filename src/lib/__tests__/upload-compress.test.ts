@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest'
+import {
+    getCompressionSettings,
+    getCompressionTarget,
+    isAlreadyCompact,
+    getAvcCodecCandidates,
+} from '@/lib/upload-compress'
+
+const MB = 1024 * 1024
+
+describe('getCompressionSettings', () => {
+    it('無効なら null', () => {
+        expect(getCompressionSettings({
+            video_compression_enabled: false,
+            video_compression_max_height: 720,
+            video_compression_bitrate_kbps: 2500,
+        })).toBeNull()
+        expect(getCompressionSettings(null)).toBeNull()
+    })
+
+    it('有効なら解像度とビットレートを返す', () => {
+        expect(getCompressionSettings({
+            video_compression_enabled: true,
+            video_compression_max_height: 480,
+            video_compression_bitrate_kbps: 1200,
+        })).toEqual({ maxHeight: 480, bitrateKbps: 1200 })
+    })
+})
+
+describe('getCompressionTarget', () => {
+    it('縦動画は短辺（幅）を maxHeight に合わせる', () => {
+        expect(getCompressionTarget(2160, 3840, 720)).toEqual({ width: 720, height: 1280 })
+    })
+
+    it('横動画は短辺（高さ）を maxHeight に合わせる', () => {
+        expect(getCompressionTarget(1920, 1080, 720)).toEqual({ width: 1280, height: 720 })
+    })
+
+    it('偶数に丸める', () => {
+        expect(getCompressionTarget(1080, 1350, 481)).toEqual({ width: 482, height: 602 })
+    })
+
+    it('拡大はしない', () => {
+        expect(getCompressionTarget(640, 480, 720)).toEqual({ width: 640, height: 480 })
+    })
+})
+
+describe('isAlreadyCompact', () => {
+    const settings = { maxHeight: 720, bitrateKbps: 2500 }
+
+    it('解像度が設定より大きければ圧縮する', () => {
+        expect(isAlreadyCompact(10 * MB, 60, 1080, 1920, settings)).toBe(false)
+    })
+
+    it('解像度・ビットレートとも設定以下なら圧縮しない', () => {
+        // 60 秒で約 2.1 Mbps
+        expect(isAlreadyCompact(16 * MB, 60, 720, 1280, settings)).toBe(true)
+    })
+
+    it('解像度が設定以下でもビットレートが高ければ圧縮する', () => {
+        expect(isAlreadyCompact(100 * MB, 60, 720, 1280, settings)).toBe(false)
+    })
+})
+
+describe('getAvcCodecCandidates', () => {
+    it('720p は レベル 3.1', () => {
+        expect(getAvcCodecCandidates(720, 1280)).toEqual(['avc1.64001f', 'avc1.4d001f', 'avc1.42001f'])
+    })
+
+    it('1080p は レベル 4.0', () => {
+        expect(getAvcCodecCandidates(1080, 1920)[0]).toBe('avc1.640028')
+    })
+
+    it('4K は レベル 5.1', () => {
+        expect(getAvcCodecCandidates(2160, 3840)[0]).toBe('avc1.640033')
+    })
+})
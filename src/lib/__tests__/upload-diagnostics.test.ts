@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest'
+import type { UploadLogEntry, UploadPhase, UploadStatus } from '@/lib/upload-logger'
+import { createUploadJob } from '@/lib/upload-queue'
+import {
+    buildUploadDiagnosticReport,
+    normalizeDiagnosticNote,
+    MAX_DIAGNOSTIC_NOTE_LENGTH,
+} from '@/lib/upload-diagnostics'
+
+const MB = 1024 * 1024
+
+function entry(phase: UploadPhase, status: UploadStatus, message?: string): UploadLogEntry {
+    return {
+        userId: 'user-1',
+        sessionId: 'session-1',
+        timestamp: '2026-04-10T00:00:00Z',
+        phase,
+        status,
+        durationMs: null,
+        fileSize: 200 * MB,
+        fileName: 'IMG_0001.MOV',
+        error: message ? { message } : null,
+        networkState: { online: true },
+        extra: null,
+    }
+}
+
+const env = {
+    appVersion: '2.9.0',
+    device: { os: 'iOS 17.4', browser: 'Safari 17', deviceType: 'mobile', isPWA: true },
+    networkState: { online: true, effectiveType: '4g' },
+    userAgent: 'Mozilla/5.0 (iPhone)',
+}
+
+function failedJob() {
+    const job = createUploadJob({
+        file: { name: 'IMG_0001.MOV', size: 200 * MB, type: 'video/quicktime', lastModified: 0 } as File,
+        userId: 'user-1',
+        targetDate: '2026-04-10',
+        submissionItemId: 3,
+        thumbnail: null,
+        thumbnailStrategy: 'downscaled',
+        duration: null,
+        hash: null,
+        isLate: false,
+        fileLastModified: null,
+        videoCreatedAt: null,
+        recordingDateMismatch: false,
+        compression: null,
+    }, '腕立て', 0)
+    return {
+        ...job,
+        status: 'failed' as const,
+        progress: 52,
+        error: '通信が切断されました。再度お試しください。',
+        isRetryable: true,
+        logSessionId: 'session-1',
+    }
+}
+
+describe('buildUploadDiagnosticReport', () => {
+    it('ジョブ・端末の状態・ログをまとめる', () => {
+        const entries = [
+            entry('tus-upload', 'start'),
+            entry('tus-upload', 'retry', 'tus: failed to upload chunk'),
+            entry('tus-upload', 'fail', 'tus: failed to upload chunk at offset 104857600'),
+        ]
+        const report = buildUploadDiagnosticReport(failedJob(), entries, env)
+        expect(report).toMatchObject({
+            appVersion: '2.9.0',
+            device: { os: 'iOS 17.4' },
+            networkState: { online: true, effectiveType: '4g' },
+            job: {
+                label: '腕立て',
+                targetDate: '2026-04-10',
+                submissionItemId: 3,
+                error: '通信が切断されました。再度お試しください。',
+                isRetryable: true,
+                progress: 52,
+                fileName: 'IMG_0001.MOV',
+                fileType: 'video/quicktime',
+                compressed: false,
+                offlineCapturedAt: null,
+            },
+            lastError: { phase: 'tus-upload', message: 'tus: failed to upload chunk at offset 104857600' },
+        })
+        expect(report.entries).toHaveLength(3)
+    })
+
+    it('ログがなければ最後のエラーは null', () => {
+        expect(buildUploadDiagnosticReport(failedJob(), [], env).lastError).toBeNull()
+    })
+})
+
+describe('normalizeDiagnosticNote', () => {
+    it('空白のみなら null、上限で切り詰める', () => {
+        expect(normalizeDiagnosticNote('  \n ')).toBeNull()
+        expect(normalizeDiagnosticNote(' Wi-Fi で送信 ')).toBe('Wi-Fi で送信')
+        expect(normalizeDiagnosticNote('あ'.repeat(600))).toHaveLength(MAX_DIAGNOSTIC_NOTE_LENGTH)
+    })
+})
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest'
+import type { UploadLogEntry, UploadPhase, UploadStatus } from '@/lib/upload-logger'
+import { summarizeUploadSession } from '@/lib/upload-analytics'
+import {
+    DEFAULT_UPLOAD_LOG_FILTER,
+    matchesUploadLogFilter,
+    getUploadLogFilterOptions,
+    isUploadLogFilterActive,
+} from '@/lib/upload-log-filter'
+
+function entry(phase: UploadPhase, status: UploadStatus, extra: Record<string, unknown> | null = null): UploadLogEntry {
+    return {
+        userId: 'user-1',
+        sessionId: 'session-1',
+        timestamp: '2026-04-10T00:00:00Z',
+        phase,
+        status,
+        durationMs: null,
+        fileSize: null,
+        fileName: 'IMG_0001.MOV',
+        error: null,
+        networkState: { online: true },
+        extra,
+    }
+}
+
+const fileSelect = (os: string, appVersion: string) =>
+    entry('file-select', 'success', { appVersion, device: { os, browser: 'Safari 17', deviceType: 'mobile', isPWA: false } })
+
+const failedWithRetries = [
+    fileSelect('iOS 17.4', '2.9.0'),
+    entry('tus-upload', 'retry'),
+    entry('tus-upload', 'retry'),
+    entry('tus-upload', 'fail'),
+]
+const completed = [fileSelect('Android 14', '2.10.0'), entry('complete', 'success')]
+
+describe('matchesUploadLogFilter', () => {
+    it('条件なしならすべて', () => {
+        expect(matchesUploadLogFilter(failedWithRetries, DEFAULT_UPLOAD_LOG_FILTER)).toBe(true)
+        expect(matchesUploadLogFilter(completed, DEFAULT_UPLOAD_LOG_FILTER)).toBe(true)
+    })
+
+    it('状態・失敗したフェーズ', () => {
+        const filter = { ...DEFAULT_UPLOAD_LOG_FILTER, status: 'failed' as const, failedPhase: 'tus-upload' as const }
+        expect(matchesUploadLogFilter(failedWithRetries, filter)).toBe(true)
+        expect(matchesUploadLogFilter(completed, filter)).toBe(false)
+    })
+
+    it('OS・アプリのバージョン', () => {
+        const filter = { ...DEFAULT_UPLOAD_LOG_FILTER, os: 'Android 14', appVersion: '2.10.0' }
+        expect(matchesUploadLogFilter(completed, filter)).toBe(true)
+        expect(matchesUploadLogFilter(failedWithRetries, filter)).toBe(false)
+    })
+
+    it('リトライ回数の下限', () => {
+        expect(matchesUploadLogFilter(failedWithRetries, { ...DEFAULT_UPLOAD_LOG_FILTER, minRetries: 2 })).toBe(true)
+        expect(matchesUploadLogFilter(failedWithRetries, { ...DEFAULT_UPLOAD_LOG_FILTER, minRetries: 3 })).toBe(false)
+    })
+})
+
+describe('getUploadLogFilterOptions', () => {
+    it('読み込んだログの値（バージョンは新しい順）', () => {
+        const options = getUploadLogFilterOptions([failedWithRetries, completed].map(summarizeUploadSession))
+        expect(options).toEqual({
+            failedPhases: ['tus-upload'],
+            os: ['Android 14', 'iOS 17.4'],
+            appVersions: ['2.10.0', '2.9.0'],
+        })
+    })
+})
+
+describe('isUploadLogFilterActive', () => {
+    it('初期値から変わっているか', () => {
+        expect(isUploadLogFilterActive(DEFAULT_UPLOAD_LOG_FILTER)).toBe(false)
+        expect(isUploadLogFilterActive({ ...DEFAULT_UPLOAD_LOG_FILTER, minRetries: 1 })).toBe(true)
+    })
+})
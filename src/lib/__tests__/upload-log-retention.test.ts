@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest'
+import { getNextPruneAt, getRetentionPolicyError } from '@/lib/upload-log-retention'
+
+const NOW = new Date('2026-04-10T12:00:00Z')
+
+describe('getNextPruneAt', () => {
+    it('前回の整理から間隔を空けた日時', () => {
+        expect(getNextPruneAt({ prune_interval_hours: 24, last_pruned_at: '2026-04-10T03:00:00Z' }, NOW))
+            .toEqual(new Date('2026-04-11T03:00:00Z'))
+    })
+
+    it('未実行なら現在', () => {
+        expect(getNextPruneAt({ prune_interval_hours: 24, last_pruned_at: null }, NOW)).toEqual(NOW)
+    })
+})
+
+describe('getRetentionPolicyError', () => {
+    const policy = { retention_days: 30, failed_retention_days: 90, max_sessions_per_user: 200, prune_interval_hours: 24 }
+
+    it('範囲内なら null', () => {
+        expect(getRetentionPolicyError(policy)).toBeNull()
+    })
+
+    it('範囲外・整数以外', () => {
+        expect(getRetentionPolicyError({ ...policy, max_sessions_per_user: 5 })).toBe('10〜10000の整数を入力してください')
+        expect(getRetentionPolicyError({ ...policy, retention_days: 1.5 })).toBe('1〜365の整数を入力してください')
+    })
+
+    it('失敗したセッションは通常より短くできない', () => {
+        expect(getRetentionPolicyError({ ...policy, failed_retention_days: 14 }))
+            .toBe('失敗したセッションの保持日数は、通常の保持日数以上にしてください')
+    })
+})
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest'
+import { createOfflineUploadRecord, toUploadJobParams } from '@/lib/upload-offline-store'
+import { getResumableUploadKey } from '@/lib/upload-resume-store'
+import { UploadJobParams } from '@/lib/upload-queue'
+
+function params(): UploadJobParams {
+    return {
+        file: new File(['video'], 'IMG_0001.MOV', { type: 'video/quicktime', lastModified: 1_775_000_000_000 }),
+        userId: 'user-1',
+        targetDate: '2026-04-10',
+        submissionItemId: 3,
+        thumbnail: 'data:image/jpeg;base64,xx',
+        thumbnailStrategy: 'downscaled',
+        duration: 42,
+        hash: 'abc',
+        isLate: true,
+        fileLastModified: new Date(1_775_000_000_000).toISOString(),
+        videoCreatedAt: null,
+        recordingDateMismatch: false,
+        compression: { maxHeight: 720, bitrateKbps: 2500 },
+    }
+}
+
+describe('createOfflineUploadRecord', () => {
+    it('ジョブと同じキーで、ファイルの名前・種類・更新日時を別に持つ', () => {
+        const record = createOfflineUploadRecord(params(), '腕立て', 100)
+        expect(record.key).toBe(getResumableUploadKey('user-1', '2026-04-10', 3))
+        expect(record.fileName).toBe('IMG_0001.MOV')
+        expect(record.fileType).toBe('video/quicktime')
+        expect(record.fileLastModified).toBe(1_775_000_000_000)
+        expect(record.capturedAt).toBe(100)
+        expect(record.params).not.toHaveProperty('file')
+    })
+})
+
+describe('toUploadJobParams', () => {
+    it('保存時のファイルとメタデータ（期限超過判定を含む）に戻す', async () => {
+        const original = params()
+        const restored = toUploadJobParams(createOfflineUploadRecord(original, '腕立て'))
+        const { file, ...rest } = restored
+        const { file: originalFile, ...originalRest } = original
+        expect(rest).toEqual(originalRest)
+        expect(file.name).toBe(originalFile.name)
+        expect(file.type).toBe(originalFile.type)
+        expect(file.lastModified).toBe(originalFile.lastModified)
+        expect(await file.text()).toBe('video')
+    })
+})
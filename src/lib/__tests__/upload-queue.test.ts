@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest'
+import {
+    UploadJob,
+    UploadJobParams,
+    createUploadJob,
+    getUploadJobId,
+    selectJobsToStart,
+    getUploadQueueSummary,
+    getUploadJobStatusLabel,
+    getPendingSyncDates,
+} from '@/lib/upload-queue'
+
+const MB = 1024 * 1024
+
+function params(targetDate: string, submissionItemId: number | null, size: number = 10 * MB): UploadJobParams {
+    return {
+        file: { name: `${targetDate}.mov`, size, lastModified: 0 } as File,
+        userId: 'user-1',
+        targetDate,
+        submissionItemId,
+        thumbnail: null,
+        thumbnailStrategy: 'downscaled',
+        duration: null,
+        hash: null,
+        isLate: false,
+        fileLastModified: null,
+        videoCreatedAt: null,
+        recordingDateMismatch: false,
+        compression: null,
+    }
+}
+
+function job(targetDate: string, overrides: Partial<UploadJob> = {}, size?: number): UploadJob {
+    return { ...createUploadJob(params(targetDate, 1, size), '腕立て', 0), ...overrides }
+}
+
+describe('createUploadJob', () => {
+    it('日付・提出項目ごとの ID で実行待ちとして作る', () => {
+        const created = createUploadJob(params('2026-04-10', 3), '腕立て', 100)
+        expect(created.id).toBe(getUploadJobId({ userId: 'user-1', targetDate: '2026-04-10', submissionItemId: 3 }))
+        expect(created.status).toBe('queued')
+        expect(created.enqueuedAt).toBe(100)
+    })
+})
+
+describe('selectJobsToStart', () => {
+    it('空き枠の数だけ登録順に返す', () => {
+        const jobs = [
+            job('2026-04-10', { enqueuedAt: 3 }),
+            job('2026-04-08', { enqueuedAt: 1 }),
+            job('2026-04-09', { enqueuedAt: 2 }),
+        ]
+        expect(selectJobsToStart(jobs, 2).map(j => j.params.targetDate)).toEqual(['2026-04-08', '2026-04-09'])
+    })
+
+    it('実行中のジョブが枠を使う', () => {
+        const jobs = [
+            job('2026-04-08', { status: 'uploading' }),
+            job('2026-04-09', { enqueuedAt: 1 }),
+            job('2026-04-10', { enqueuedAt: 2 }),
+        ]
+        expect(selectJobsToStart(jobs, 2).map(j => j.params.targetDate)).toEqual(['2026-04-09'])
+        expect(selectJobsToStart(jobs, 1)).toEqual([])
+    })
+
+    it('完了・失敗・接続待ちのジョブは開始しない', () => {
+        const jobs = [
+            job('2026-04-08', { status: 'succeeded' }),
+            job('2026-04-09', { status: 'failed' }),
+            job('2026-04-10', { status: 'offline' }),
+        ]
+        expect(selectJobsToStart(jobs, 2)).toEqual([])
+    })
+})
+
+describe('getUploadQueueSummary', () => {
+    it('進捗はファイルサイズで加重し、失敗・接続待ちのジョブは除く', () => {
+        const summary = getUploadQueueSummary([
+            job('2026-04-08', { status: 'succeeded', progress: 100 }, 10 * MB),
+            job('2026-04-09', { status: 'uploading', progress: 50 }, 30 * MB),
+            job('2026-04-10', { status: 'failed', progress: 20 }, 100 * MB),
+            job('2026-04-11', { status: 'offline' }, 100 * MB),
+        ])
+        expect(summary).toEqual({ total: 4, active: 1, succeeded: 1, failed: 1, offline: 1, overallProgress: 63 })
+    })
+
+    it('ジョブがなければ 0%', () => {
+        expect(getUploadQueueSummary([]).overallProgress).toBe(0)
+    })
+})
+
+describe('getUploadJobStatusLabel', () => {
+    it.each([
+        ['実行待ち', job('2026-04-10'), '順番待ち'],
+        ['接続待ち', job('2026-04-10', { status: 'offline' }), '接続待ち（オンラインになると自動でアップロードします）'],
+        ['転送中', job('2026-04-10', { status: 'uploading', phase: 'uploading', stage: 'uploading', progress: 40 }), 'アップロード中... 40%'],
+        ['処理確認中', job('2026-04-10', { status: 'uploading', phase: 'verifying' }), '処理を確認中...'],
+        ['失敗', job('2026-04-10', { status: 'failed', error: '動画の準備に失敗しました。' }), '動画の準備に失敗しました。'],
+        ['再確認中', job('2026-04-10', { status: 'failed', isRechecking: true }), '状態を確認中...'],
+    ])('%s', (_label, target, expected) => {
+        expect(getUploadJobStatusLabel(target)).toBe(expected)
+    })
+})
+
+describe('getPendingSyncDates', () => {
+    it('オフラインで受け付けて未完了のジョブの日付を返す', () => {
+        const dates = getPendingSyncDates([
+            job('2026-04-08', { status: 'offline', offlineCapturedAt: 1 }),
+            job('2026-04-09', { status: 'uploading', offlineCapturedAt: 1 }),
+            job('2026-04-10', { status: 'succeeded', offlineCapturedAt: 1 }),
+            job('2026-04-11', { status: 'failed' }),
+        ], 'user-1')
+        expect([...dates]).toEqual(['2026-04-08', '2026-04-09'])
+    })
+
+    it('他のユーザーのジョブは含めない', () => {
+        expect(getPendingSyncDates([job('2026-04-08', { status: 'offline', offlineCapturedAt: 1 })], 'user-2').size).toBe(0)
+    })
+})
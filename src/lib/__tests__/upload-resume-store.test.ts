@@ -0,0 +1,179 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import {
+    ResumableUploadRecord,
+    getResumableUploadKey,
+    matchesResumableFile,
+    isResumableUploadExpired,
+    getResumableUploadProgress,
+    getResumableUploadFile,
+    getResumableUpload,
+    saveResumableUpload,
+    updateResumableUpload,
+    deleteResumableUpload,
+} from '@/lib/upload-resume-store'
+import { RESUMABLE_UPLOAD_MAX_AGE_MS } from '@/lib/upload-constants'
+
+// IndexedDB の代わりにメモリ上のストアを使う（put は putGate で遅らせられる）
+const idb = vi.hoisted(() => ({
+    records: new Map<string, unknown>(),
+    putGate: null as Promise<void> | null,
+}))
+
+type FakeRequest =
+    | { op: 'get'; key: string }
+    | { op: 'put'; value: { key: string } }
+    | { op: 'delete'; key: string }
+
+vi.mock('@/lib/upload-idb', () => ({
+    RESUMABLE_UPLOADS_STORE: 'resumable-uploads',
+    withStore: async (_storeName: string, _mode: IDBTransactionMode, fn: (store: any) => FakeRequest) => {
+        const request = fn({
+            get: (key: string) => ({ op: 'get', key }),
+            put: (value: { key: string }) => ({ op: 'put', value }),
+            delete: (key: string) => ({ op: 'delete', key }),
+        })
+        if (request.op === 'get') return idb.records.get(request.key)
+        if (request.op === 'put') {
+            if (idb.putGate) await idb.putGate
+            idb.records.set(request.value.key, request.value)
+            return request.value.key
+        }
+        idb.records.delete(request.key)
+        return undefined
+    },
+}))
+
+const CREATED_AT = new Date('2026-04-10T03:00:00Z').getTime()
+const LAST_MODIFIED = new Date('2026-04-09T10:00:00Z').getTime()
+
+function record(overrides: Partial<ResumableUploadRecord> = {}): ResumableUploadRecord {
+    return {
+        key: getResumableUploadKey('user-1', '2026-04-10', 3),
+        userId: 'user-1',
+        targetDate: '2026-04-10',
+        submissionItemId: 3,
+        bunnyVideoId: 'video-1',
+        libraryId: 'lib-1',
+        tusEndpoint: 'https://video.bunnycdn.com/tusupload',
+        tusUrl: 'https://video.bunnycdn.com/tusupload/abc',
+        bytesUploaded: 25 * 1024 * 1024,
+        fileName: 'IMG_0001.MOV',
+        fileSize: 100 * 1024 * 1024,
+        fileType: 'video/quicktime',
+        fileLastModified: LAST_MODIFIED,
+        thumbnail: null,
+        duration: 42,
+        hash: 'hash-1',
+        isLate: false,
+        createdAt: CREATED_AT,
+        updatedAt: CREATED_AT,
+        ...overrides,
+    }
+}
+
+// File.size は中身から決まるため、size だけ差し替えた偽の File を使う
+function fakeFile(name: string, size: number, lastModified: number): File {
+    return { name, size, lastModified } as File
+}
+
+describe('getResumableUploadKey', () => {
+    it('ユーザー・日付・提出項目ごとに別のキーになる', () => {
+        expect(getResumableUploadKey('user-1', '2026-04-10', 3)).toBe('user-1:2026-04-10:3')
+        expect(getResumableUploadKey('user-1', '2026-04-10', null)).toBe('user-1:2026-04-10:none')
+    })
+})
+
+describe('matchesResumableFile', () => {
+    it('名前・サイズ・更新日時がすべて一致すれば同じファイル', () => {
+        expect(matchesResumableFile(record(), fakeFile('IMG_0001.MOV', 100 * 1024 * 1024, LAST_MODIFIED))).toBe(true)
+    })
+
+    it.each([
+        ['名前が違う', fakeFile('IMG_0002.MOV', 100 * 1024 * 1024, LAST_MODIFIED)],
+        ['サイズが違う', fakeFile('IMG_0001.MOV', 100 * 1024 * 1024 + 1, LAST_MODIFIED)],
+        ['更新日時が違う', fakeFile('IMG_0001.MOV', 100 * 1024 * 1024, LAST_MODIFIED + 1000)],
+    ])('%sなら別のファイル', (_label, file) => {
+        expect(matchesResumableFile(record(), file)).toBe(false)
+    })
+})
+
+describe('getResumableUploadFile', () => {
+    const source = fakeFile('IMG_0001.MOV', 100 * 1024 * 1024, LAST_MODIFIED)
+    const compressed = fakeFile('IMG_0001.mp4', 20 * 1024 * 1024, LAST_MODIFIED + 5000)
+
+    it('圧縮せずに送った場合は元のファイルで再開する', () => {
+        expect(getResumableUploadFile(record(), source, null)).toBe(source)
+        expect(getResumableUploadFile(record({ uploadSize: 100 * 1024 * 1024 }), source, compressed)).toBe(source)
+    })
+
+    it('圧縮して送った場合は中断時の圧縮済みファイルで再開する', () => {
+        expect(getResumableUploadFile(record({ uploadSize: 20 * 1024 * 1024 }), source, compressed)).toBe(compressed)
+    })
+
+    it('圧縮済みのファイルがない・サイズが違う場合は再開できない', () => {
+        expect(getResumableUploadFile(record({ uploadSize: 20 * 1024 * 1024 }), source, null)).toBeNull()
+        expect(getResumableUploadFile(record({ uploadSize: 21 * 1024 * 1024 }), source, compressed)).toBeNull()
+    })
+
+    it('元のファイルと違えば再開できない', () => {
+        const other = fakeFile('IMG_0002.MOV', 100 * 1024 * 1024, LAST_MODIFIED)
+        expect(getResumableUploadFile(record(), other, null)).toBeNull()
+    })
+})
+
+describe('isResumableUploadExpired', () => {
+    it('作成から期限までは再開できる', () => {
+        expect(isResumableUploadExpired(record(), CREATED_AT + RESUMABLE_UPLOAD_MAX_AGE_MS)).toBe(false)
+    })
+
+    it('期限を過ぎたら再開できない', () => {
+        expect(isResumableUploadExpired(record(), CREATED_AT + RESUMABLE_UPLOAD_MAX_AGE_MS + 1)).toBe(true)
+    })
+})
+
+describe('getResumableUploadProgress', () => {
+    it('受領済みバイト数の割合を返す', () => {
+        expect(getResumableUploadProgress(record())).toBe(25)
+    })
+
+    it('圧縮して送った場合は圧縮後のサイズに対する割合', () => {
+        expect(getResumableUploadProgress(record({ uploadSize: 50 * 1024 * 1024 }))).toBe(50)
+    })
+
+    it('サイズ 0 のファイルは 0%', () => {
+        expect(getResumableUploadProgress(record({ fileSize: 0, bytesUploaded: 0 }))).toBe(0)
+    })
+})
+
+describe('updateResumableUpload', () => {
+    beforeEach(() => {
+        idb.records.clear()
+        idb.putGate = null
+    })
+
+    it('保存済みの記録を更新する', async () => {
+        await saveResumableUpload(record({ bytesUploaded: 0 }))
+        await updateResumableUpload(record().key, { bytesUploaded: 50 * 1024 * 1024 })
+        expect((await getResumableUpload(record().key))?.bytesUploaded).toBe(50 * 1024 * 1024)
+    })
+
+    it('記録がなければ何もしない', async () => {
+        await updateResumableUpload(record().key, { bytesUploaded: 1 })
+        expect(await getResumableUpload(record().key)).toBeNull()
+    })
+
+    it('削除より後に終わる更新で記録を書き戻さない', async () => {
+        await saveResumableUpload(record())
+        let openGate!: () => void
+        idb.putGate = new Promise<void>(resolve => { openGate = resolve })
+
+        // TUS の onChunkComplete → onSuccess と同じく、更新を待たずに削除する（更新の書き込みは削除より後に届く）
+        const update = updateResumableUpload(record().key, { bytesUploaded: 99 * 1024 * 1024 })
+        const deletion = deleteResumableUpload(record().key)
+        await new Promise(resolve => setTimeout(resolve, 0))
+        openGate()
+        await Promise.all([update, deletion])
+
+        expect(idb.records.has(record().key)).toBe(false)
+    })
+})
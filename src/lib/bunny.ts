@@ -1,3 +1,4 @@
+import { FunctionsHttpError } from '@supabase/supabase-js'
 import { supabase } from '@/lib/supabase'
 
 export interface BunnyUploadCredentials {
@@ -23,6 +24,28 @@ export async function createBunnyVideo(title: string): Promise<BunnyUploadCreden
     return data as BunnyUploadCredentials
 }
 
+// 再開を拒否された（動画がない・自分の動画でない・アップロード済み）
+const SIGN_REFUSED_STATUSES = [403, 404, 409]
+
+/**
+ * 既存ビデオの TUS 認証情報を再発行（中断したアップロードの再開用。署名は1時間で失効するため）
+ * サーバーが再開を拒否した場合は null（作り直す）
+ */
+export async function signBunnyUpload(videoId: string): Promise<BunnyUploadCredentials | null> {
+    const { data, error } = await supabase.functions.invoke('bunny-create-video', {
+        body: { action: 'sign', videoId },
+    })
+
+    if (error) {
+        if (error instanceof FunctionsHttpError && SIGN_REFUSED_STATUSES.includes(error.context?.status)) {
+            return null
+        }
+        throw new Error(`Bunny upload signing failed: ${error.message}`)
+    }
+
+    return data as BunnyUploadCredentials
+}
+
 /**
  * Bunny CDN の再生 URL を構築
  */
@@ -0,0 +1,21 @@
+import { endOfDay } from 'date-fns'
+
+/**
+ * 現在時刻の取得元
+ * 日付に依存するゲーミフィケーション判定は new Date() を直接呼ばず、Clock から現在時刻を取得する
+ * （テストや管理者の「指定日時点で表示」で差し替えるため）
+ */
+export type Clock = () => Date
+
+export const systemClock: Clock = () => new Date()
+
+/** 常に同じ時刻を返す */
+export function fixedClock(date: Date): Clock {
+    const time = date.getTime()
+    return () => new Date(time)
+}
+
+/** 指定日の終わり（23:59:59.999）時点として振る舞う */
+export function asOfClock(date: Date): Clock {
+    return fixedClock(endOfDay(date))
+}
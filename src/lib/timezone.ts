@@ -0,0 +1,103 @@
+import { Clock } from '@/lib/clock'
+
+/**
+ * クライアントごとのタイムゾーン（profiles.timezone）
+ * 期限・当日・ストリーク境界の判定では「指定タイムゾーンの壁時計時刻」をローカル時刻の Date として扱う。
+ * （date-fns の startOfDay / format / setHours をブラウザのタイムゾーンに関係なくそのまま使えるようにするため）
+ */
+
+export const DEFAULT_TIMEZONE = 'Asia/Tokyo'
+
+// 設定画面の選択肢（保存値が一覧にない場合もそのまま表示する）
+export const TIMEZONE_OPTIONS: { value: string; label: string }[] = [
+    { value: 'Asia/Tokyo', label: '日本（Asia/Tokyo）' },
+    { value: 'Asia/Seoul', label: '韓国（Asia/Seoul）' },
+    { value: 'Asia/Shanghai', label: '中国（Asia/Shanghai）' },
+    { value: 'Asia/Taipei', label: '台湾（Asia/Taipei）' },
+    { value: 'Asia/Singapore', label: 'シンガポール（Asia/Singapore）' },
+    { value: 'Asia/Bangkok', label: 'タイ（Asia/Bangkok）' },
+    { value: 'Asia/Kolkata', label: 'インド（Asia/Kolkata）' },
+    { value: 'Asia/Dubai', label: 'ドバイ（Asia/Dubai）' },
+    { value: 'Australia/Sydney', label: 'シドニー（Australia/Sydney）' },
+    { value: 'Pacific/Auckland', label: 'オークランド（Pacific/Auckland）' },
+    { value: 'Pacific/Honolulu', label: 'ハワイ（Pacific/Honolulu）' },
+    { value: 'America/Los_Angeles', label: 'ロサンゼルス（America/Los_Angeles）' },
+    { value: 'America/Denver', label: 'デンバー（America/Denver）' },
+    { value: 'America/Chicago', label: 'シカゴ（America/Chicago）' },
+    { value: 'America/New_York', label: 'ニューヨーク（America/New_York）' },
+    { value: 'America/Sao_Paulo', label: 'サンパウロ（America/Sao_Paulo）' },
+    { value: 'Europe/London', label: 'ロンドン（Europe/London）' },
+    { value: 'Europe/Paris', label: 'パリ（Europe/Paris）' },
+    { value: 'Europe/Berlin', label: 'ベルリン（Europe/Berlin）' },
+    { value: 'UTC', label: 'UTC' },
+]
+
+const formatterCache = new Map<string, Intl.DateTimeFormat | null>()
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat | null {
+    if (!formatterCache.has(timeZone)) {
+        try {
+            formatterCache.set(timeZone, new Intl.DateTimeFormat('en-US', {
+                timeZone,
+                hourCycle: 'h23',
+                year: 'numeric',
+                month: 'numeric',
+                day: 'numeric',
+                hour: 'numeric',
+                minute: 'numeric',
+                second: 'numeric',
+            }))
+        } catch {
+            // 不正なタイムゾーン名
+            formatterCache.set(timeZone, null)
+        }
+    }
+    return formatterCache.get(timeZone)!
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+    return getFormatter(timeZone) !== null
+}
+
+/**
+ * 時刻 date を timeZone の壁時計時刻に変換する（戻り値のローカル時刻フィールドが timeZone の年月日時分秒）
+ * timeZone が未指定・不正な場合はそのまま返す
+ */
+export function toZonedTime(date: Date, timeZone?: string | null): Date {
+    const formatter = timeZone ? getFormatter(timeZone) : null
+    if (!formatter) return date
+
+    const parts = formatter.formatToParts(date)
+    const get = (type: Intl.DateTimeFormatPartTypes) =>
+        Number(parts.find(p => p.type === type)?.value ?? 0)
+
+    return new Date(
+        get('year'),
+        get('month') - 1,
+        get('day'),
+        get('hour') % 24,
+        get('minute'),
+        get('second'),
+        date.getMilliseconds()
+    )
+}
+
+/**
+ * toZonedTime の逆変換: timeZone の壁時計時刻（ローカル時刻フィールド）を実際の時刻に戻す
+ */
+export function fromZonedTime(date: Date, timeZone?: string | null): Date {
+    if (!timeZone || !isValidTimeZone(timeZone)) return date
+
+    const guess = new Date(date.getTime() - (toZonedTime(date, timeZone).getTime() - date.getTime()))
+    // 夏時間の切り替えをまたぐ場合は1回補正する
+    const diff = toZonedTime(guess, timeZone).getTime() - date.getTime()
+    return diff === 0 ? guess : new Date(guess.getTime() - diff)
+}
+
+/**
+ * timeZone の壁時計時刻を返す時計
+ */
+export function zonedClock(clock: Clock, timeZone?: string | null): Clock {
+    if (!timeZone) return clock
+    return () => toZonedTime(clock(), timeZone)
+}
@@ -0,0 +1,220 @@
+// --- Upload analytics ---
+//
+// upload_logs（1 セッション = 1 回の executeUpload）を集計し、失敗の傾向を調べるための分析。
+// 「iOS Safari で 300MB 超が 50% 付近で落ちる」のようなパターンを、JSON を書き出して手で集計せずに見つけるため、
+// デバイス・OS・ブラウザ・ファイルサイズ・アプリのバージョンごとの成功率と、フェーズごとの所要時間・失敗の内訳を出す。
+
+import type { DeviceInfo, UploadLogEntry, UploadPhase } from '@/lib/upload-logger'
+
+/** success: 完了 / failed: いずれかのフェーズで失敗 / incomplete: 完了も失敗も記録されていない（アプリの終了・強制終了など） */
+export type UploadSessionOutcome = 'success' | 'failed' | 'incomplete'
+
+export interface UploadSessionSummary {
+  outcome: UploadSessionOutcome
+  device: DeviceInfo | null
+  appVersion: string | null
+  /** 元のファイルのサイズ（圧縮前） */
+  fileSize: number | null
+  /** 失敗したフェーズ（failed のみ） */
+  failedPhase: UploadPhase | null
+  errorMessage: string | null
+  /** 転送の最後の進捗（%。進捗の記録がなければ null） */
+  lastProgressPercent: number | null
+  /** フェーズごとの所要時間（成功したフェーズのみ） */
+  phaseDurations: Partial<Record<UploadPhase, number>>
+}
+
+// 失敗しても元のファイルで続行するフェーズ（セッションの失敗とはみなさない）
+const NON_FATAL_FAIL_PHASES: UploadPhase[] = ['compress']
+
+// 所要時間を集計するフェーズ（表示順）
+export const TIMED_PHASES: UploadPhase[] = [
+  'compress',
+  'metadata',
+  'bunny-create',
+  'tus-upload',
+  'bunny-processing',
+  'db-save',
+]
+
+export function summarizeUploadSession(entries: UploadLogEntry[]): UploadSessionSummary {
+  const selectEntry = entries.find((e) => e.phase === 'file-select' && e.status === 'success' && e.extra)
+  const device = (selectEntry?.extra?.device as DeviceInfo | undefined) ?? null
+  const appVersion = (selectEntry?.extra?.appVersion as string | undefined) ?? null
+  const fileSize = (selectEntry?.extra?.fileSize as number | undefined)
+    ?? entries.find((e) => e.fileSize)?.fileSize
+    ?? null
+
+  const isComplete = entries.some((e) => e.phase === 'complete' && e.status === 'success')
+  // 'error' は UploadError 以外の例外の記録のため、具体的なフェーズの失敗を優先する
+  const fails = entries.filter((e) => e.status === 'fail' && !NON_FATAL_FAIL_PHASES.includes(e.phase))
+  const failEntry = fails.find((e) => e.phase !== 'error') ?? fails[0] ?? null
+
+  let lastProgressPercent: number | null = null
+  for (const e of entries) {
+    const percent = e.status === 'progress' ? e.extra?.percent : undefined
+    if (typeof percent === 'number') lastProgressPercent = percent
+  }
+
+  const phaseDurations: Partial<Record<UploadPhase, number>> = {}
+  for (const e of entries) {
+    if (e.status === 'success' && e.durationMs != null && TIMED_PHASES.includes(e.phase)) {
+      phaseDurations[e.phase] = e.durationMs
+    }
+  }
+
+  return {
+    outcome: isComplete ? 'success' : failEntry ? 'failed' : 'incomplete',
+    device,
+    appVersion,
+    fileSize,
+    failedPhase: !isComplete && failEntry ? failEntry.phase : null,
+    errorMessage: !isComplete && failEntry ? failEntry.error?.message ?? null : null,
+    lastProgressPercent,
+    phaseDurations,
+  }
+}
+
+// --- Grouping ---
+
+export type UploadAnalyticsDimension = 'deviceType' | 'os' | 'browser' | 'fileSize' | 'appVersion'
+
+const MB = 1024 * 1024
+
+// ファイルサイズの区分（上限は含まない）
+export const FILE_SIZE_BUCKETS: { label: string; max: number }[] = [
+  { label: '50MB未満', max: 50 * MB },
+  { label: '50〜100MB', max: 100 * MB },
+  { label: '100〜300MB', max: 300 * MB },
+  { label: '300〜500MB', max: 500 * MB },
+  { label: '500MB〜1GB', max: 1024 * MB },
+  { label: '1GB以上', max: Infinity },
+]
+
+const UNKNOWN = '不明'
+
+export function getFileSizeBucket(size: number | null): string {
+  if (size == null) return UNKNOWN
+  return FILE_SIZE_BUCKETS.find((b) => size < b.max)!.label
+}
+
+function getDimensionKey(session: UploadSessionSummary, dimension: UploadAnalyticsDimension): string {
+  switch (dimension) {
+    case 'deviceType':
+      if (!session.device) return UNKNOWN
+      return session.device.isPWA ? `${session.device.deviceType}（PWA）` : session.device.deviceType
+    case 'os':
+      return session.device?.os ?? UNKNOWN
+    case 'browser':
+      return session.device?.browser ?? UNKNOWN
+    case 'fileSize':
+      return getFileSizeBucket(session.fileSize)
+    case 'appVersion':
+      return session.appVersion ?? UNKNOWN
+  }
+}
+
+export interface UploadOutcomeStats {
+  key: string
+  total: number
+  success: number
+  failed: number
+  incomplete: number
+  /** 成功率（%。中断も分母に含める） */
+  successRate: number
+}
+
+function toStats(key: string, sessions: UploadSessionSummary[]): UploadOutcomeStats {
+  const success = sessions.filter((s) => s.outcome === 'success').length
+  const failed = sessions.filter((s) => s.outcome === 'failed').length
+  return {
+    key,
+    total: sessions.length,
+    success,
+    failed,
+    incomplete: sessions.length - success - failed,
+    successRate: sessions.length > 0 ? Math.round((success / sessions.length) * 1000) / 10 : 0,
+  }
+}
+
+/** 区分ごとの成否（件数の多い順。ファイルサイズは小さい順） */
+export function getOutcomeStatsBy(
+  sessions: UploadSessionSummary[],
+  dimension: UploadAnalyticsDimension,
+): UploadOutcomeStats[] {
+  const groups = new Map<string, UploadSessionSummary[]>()
+  for (const s of sessions) {
+    const key = getDimensionKey(s, dimension)
+    groups.set(key, [...(groups.get(key) ?? []), s])
+  }
+  const stats = [...groups].map(([key, group]) => toStats(key, group))
+
+  if (dimension === 'fileSize') {
+    const order = [...FILE_SIZE_BUCKETS.map((b) => b.label), UNKNOWN]
+    return stats.sort((a, b) => order.indexOf(a.key) - order.indexOf(b.key))
+  }
+  return stats.sort((a, b) => b.total - a.total || a.key.localeCompare(b.key))
+}
+
+// --- Phase durations / failures ---
+
+export function median(values: number[]): number | null {
+  if (values.length === 0) return null
+  const sorted = [...values].sort((a, b) => a - b)
+  const mid = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 0 ? Math.round((sorted[mid - 1] + sorted[mid]) / 2) : sorted[mid]
+}
+
+export interface PhaseDurationStats {
+  phase: UploadPhase
+  count: number
+  medianMs: number | null
+}
+
+export function getPhaseDurationStats(sessions: UploadSessionSummary[]): PhaseDurationStats[] {
+  return TIMED_PHASES.map((phase) => {
+    const values = sessions
+      .map((s) => s.phaseDurations[phase])
+      .filter((v): v is number => v != null)
+    return { phase, count: values.length, medianMs: median(values) }
+  }).filter((s) => s.count > 0)
+}
+
+export interface FailurePhaseStats {
+  phase: UploadPhase
+  count: number
+  /** 失敗したセッション全体に占める割合（%） */
+  share: number
+  /** 最も多いエラーメッセージ */
+  topError: string | null
+  /** 失敗時の転送の進捗（%、中央値。進捗の記録がなければ null） */
+  medianProgressPercent: number | null
+}
+
+export function getFailurePhaseStats(sessions: UploadSessionSummary[]): FailurePhaseStats[] {
+  const failed = sessions.filter((s) => s.outcome === 'failed' && s.failedPhase)
+  const groups = new Map<UploadPhase, UploadSessionSummary[]>()
+  for (const s of failed) {
+    groups.set(s.failedPhase!, [...(groups.get(s.failedPhase!) ?? []), s])
+  }
+
+  return [...groups]
+    .map(([phase, group]) => {
+      const errorCounts = new Map<string, number>()
+      for (const s of group) {
+        if (s.errorMessage) errorCounts.set(s.errorMessage, (errorCounts.get(s.errorMessage) ?? 0) + 1)
+      }
+      const topError = [...errorCounts].sort((a, b) => b[1] - a[1])[0]?.[0] ?? null
+      const progress = group
+        .map((s) => s.lastProgressPercent)
+        .filter((v): v is number => v != null)
+      return {
+        phase,
+        count: group.length,
+        share: Math.round((group.length / failed.length) * 1000) / 10,
+        topError,
+        medianProgressPercent: median(progress),
+      }
+    })
+    .sort((a, b) => b.count - a.count)
+}
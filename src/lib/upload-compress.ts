@@ -0,0 +1,404 @@
+/// <reference types="dom-webcodecs" />
+// --- Video compression ---
+//
+// アップロード前に動画を縮小・再エンコードする（WebCodecs の VideoEncoder + mp4-muxer）。
+// iPhone の大容量 .mov はアップロード失敗の主因のため、管理者がクライアントごとに有効化できる。
+// <video> を再生しながら requestVideoFrameCallback でフレームを取り出すので、
+// 圧縮には動画の長さと同程度の時間がかかる。音声は再生中に Web Audio で取り出して AAC（AudioEncoder）で入れ直す。
+// 音声を取り出せない環境（AudioEncoder 非対応・AudioContext を開始できない）では圧縮しない（音声が消えるため）。
+// 非対応ブラウザ・圧縮失敗時は呼び出し側（executeUpload）が元のファイルを送る。
+
+import { Muxer, ArrayBufferTarget } from 'mp4-muxer'
+import { Database } from '@/types/database.types'
+import {
+  COMPRESSION_MIN_FILE_SIZE_BYTES,
+  COMPRESSION_STALL_TIMEOUT_MS,
+  COMPRESSION_KEYFRAME_INTERVAL_SEC,
+  COMPRESSION_AUDIO_BITRATE_KBPS,
+} from '@/lib/upload-constants'
+
+export interface CompressionSettings {
+  /** 短辺の最大ピクセル数（縦動画でも 720 なら 720x1280 に収める） */
+  maxHeight: number
+  bitrateKbps: number
+}
+
+export type CompressionSkipReason =
+  | 'unsupported'      // WebCodecs / requestVideoFrameCallback / H.264・AAC エンコーダ / AudioContext が使えない
+  | 'small-file'       // COMPRESSION_MIN_FILE_SIZE_BYTES 未満
+  | 'already-compact'  // 元の解像度・ビットレートが設定以下
+  | 'not-smaller'      // 圧縮しても小さくならなかった
+
+export type CompressionResult =
+  | {
+      compressed: true
+      file: File
+      width: number
+      height: number
+      sourceWidth: number
+      sourceHeight: number
+      durationSec: number
+      elapsedMs: number
+    }
+  | { compressed: false; reason: CompressionSkipReason }
+
+// 追いつかないフレームは捨てる（エンコード待ちのフレームを溜めてメモリを圧迫しないため）
+const MAX_ENCODE_QUEUE_SIZE = 30
+
+// 音声はステレオの AAC にする（モノラルの元動画は両チャンネルに同じ音を入れる）
+const AUDIO_CHANNELS = 2
+const AUDIO_BUFFER_SIZE = 4096
+
+// --- Pure helpers ---
+
+type CompressionProfile = Pick<
+  Database['public']['Tables']['profiles']['Row'],
+  'video_compression_enabled' | 'video_compression_max_height' | 'video_compression_bitrate_kbps'
+>
+
+/** プロフィールの圧縮設定（無効なら null） */
+export function getCompressionSettings(profile: CompressionProfile | null | undefined): CompressionSettings | null {
+  if (!profile?.video_compression_enabled) return null
+  return {
+    maxHeight: profile.video_compression_max_height,
+    bitrateKbps: profile.video_compression_bitrate_kbps,
+  }
+}
+
+/** 短辺が maxHeight 以下になるよう縮小した解像度（H.264 のため偶数に丸める。拡大はしない） */
+export function getCompressionTarget(
+  sourceWidth: number,
+  sourceHeight: number,
+  maxHeight: number,
+): { width: number; height: number } {
+  const scale = Math.min(1, maxHeight / Math.min(sourceWidth, sourceHeight))
+  const even = (n: number) => Math.max(2, Math.round((n * scale) / 2) * 2)
+  return { width: even(sourceWidth), height: even(sourceHeight) }
+}
+
+/** 元の動画が既に設定以下（圧縮しても得がない）か */
+export function isAlreadyCompact(
+  fileSize: number,
+  durationSec: number,
+  sourceWidth: number,
+  sourceHeight: number,
+  settings: CompressionSettings,
+): boolean {
+  if (Math.min(sourceWidth, sourceHeight) > settings.maxHeight) return false
+  const sourceKbps = (fileSize * 8) / 1000 / durationSec
+  return sourceKbps <= settings.bitrateKbps * 1.25
+}
+
+/**
+ * 解像度に足りる H.264 のコーデック文字列（High → Main → Baseline の順に試す）
+ * レベルはマクロブロック数で決める: 3.1 = 720p, 4.0 = 1080p, 5.1 = 4K
+ */
+export function getAvcCodecCandidates(width: number, height: number): string[] {
+  const macroblocks = Math.ceil(width / 16) * Math.ceil(height / 16)
+  const level = macroblocks <= 3600 ? '1f' : macroblocks <= 8192 ? '28' : '33'
+  return ['6400', '4d00', '4200'].map((profile) => `avc1.${profile}${level}`)
+}
+
+// --- Compression ---
+
+export function isCompressionSupported(): boolean {
+  return (
+    typeof VideoEncoder !== 'undefined' &&
+    typeof VideoFrame !== 'undefined' &&
+    typeof AudioEncoder !== 'undefined' &&
+    typeof AudioData !== 'undefined' &&
+    typeof AudioContext !== 'undefined' &&
+    typeof HTMLVideoElement !== 'undefined' &&
+    'requestVideoFrameCallback' in HTMLVideoElement.prototype
+  )
+}
+
+async function findEncoderConfig(
+  width: number,
+  height: number,
+  bitrateKbps: number,
+): Promise<VideoEncoderConfig | null> {
+  for (const codec of getAvcCodecCandidates(width, height)) {
+    const config: VideoEncoderConfig = {
+      codec,
+      width,
+      height,
+      bitrate: bitrateKbps * 1000,
+      avc: { format: 'avc' },
+    }
+    try {
+      const { supported } = await VideoEncoder.isConfigSupported(config)
+      if (supported) return config
+    } catch {
+      // 次の候補を試す
+    }
+  }
+  return null
+}
+
+async function findAudioEncoderConfig(sampleRate: number): Promise<AudioEncoderConfig | null> {
+  const config: AudioEncoderConfig = {
+    codec: 'mp4a.40.2',
+    sampleRate,
+    numberOfChannels: AUDIO_CHANNELS,
+    bitrate: COMPRESSION_AUDIO_BITRATE_KBPS * 1000,
+  }
+  try {
+    const { supported } = await AudioEncoder.isConfigSupported(config)
+    return supported ? config : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * 再生中の音声を取り出して encoder に渡す（stop で終了）
+ * スピーカーには出さない（音量 0 の GainNode 経由で destination につなぎ、処理だけ進める）。
+ * 一時停止・読み込み待ちの間は送らない（映像のタイムスタンプとずれないように）
+ */
+function startAudioCapture(
+  video: HTMLVideoElement,
+  audioCtx: AudioContext,
+  encoder: AudioEncoder,
+  onError: (err: unknown) => void,
+): { stop: () => void } {
+  const source = audioCtx.createMediaElementSource(video)
+  const processor = audioCtx.createScriptProcessor(AUDIO_BUFFER_SIZE, AUDIO_CHANNELS, AUDIO_CHANNELS)
+  const silent = audioCtx.createGain()
+  silent.gain.value = 0
+  let sampleCount = 0
+  let stopped = false
+
+  processor.onaudioprocess = (e) => {
+    if (stopped || video.paused || video.readyState < HTMLMediaElement.HAVE_FUTURE_DATA) return
+    const input = e.inputBuffer
+    const data = new Float32Array(input.length * AUDIO_CHANNELS)
+    for (let ch = 0; ch < AUDIO_CHANNELS; ch++) {
+      data.set(input.getChannelData(Math.min(ch, input.numberOfChannels - 1)), ch * input.length)
+    }
+    const audioData = new AudioData({
+      format: 'f32-planar',
+      sampleRate: input.sampleRate,
+      numberOfFrames: input.length,
+      numberOfChannels: AUDIO_CHANNELS,
+      timestamp: Math.round((sampleCount / input.sampleRate) * 1_000_000),
+      data,
+    })
+    sampleCount += input.length
+    try {
+      encoder.encode(audioData)
+    } catch (err) {
+      onError(err)
+    } finally {
+      audioData.close()
+    }
+  }
+
+  source.connect(processor)
+  processor.connect(silent)
+  silent.connect(audioCtx.destination)
+
+  return {
+    stop: () => {
+      if (stopped) return
+      stopped = true
+      processor.onaudioprocess = null
+      source.disconnect()
+      processor.disconnect()
+      silent.disconnect()
+    },
+  }
+}
+
+function loadMetadata(video: HTMLVideoElement, src: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    video.onloadedmetadata = () => resolve()
+    video.onerror = () => reject(new Error('Error loading video for compression'))
+    video.src = src
+  })
+}
+
+/** 再生しながら各フレームを縮小して encoder に渡す（再生終了で resolve） */
+function encodeFrames(
+  video: HTMLVideoElement,
+  canvas: HTMLCanvasElement,
+  ctx: CanvasRenderingContext2D,
+  encoder: VideoEncoder,
+  durationSec: number,
+  onProgress?: (progress: number) => void,
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    let done = false
+    let stallTimer: ReturnType<typeof setTimeout> | null = null
+    let lastTimestamp = -1
+    let lastKeyFrameSec = -Infinity
+
+    const finish = (err?: unknown) => {
+      if (done) return
+      done = true
+      if (stallTimer) clearTimeout(stallTimer)
+      video.pause()
+      if (err) reject(err)
+      else resolve()
+    }
+
+    const resetStallTimer = () => {
+      if (stallTimer) clearTimeout(stallTimer)
+      stallTimer = setTimeout(
+        () => finish(new Error(`Compression stalled: no frame in ${COMPRESSION_STALL_TIMEOUT_MS}ms`)),
+        COMPRESSION_STALL_TIMEOUT_MS,
+      )
+    }
+
+    const onFrame = (_now: number, metadata: VideoFrameCallbackMetadata) => {
+      if (done) return
+      resetStallTimer()
+
+      const timestamp = Math.round(metadata.mediaTime * 1_000_000)
+      if (timestamp > lastTimestamp && encoder.encodeQueueSize <= MAX_ENCODE_QUEUE_SIZE) {
+        lastTimestamp = timestamp
+        ctx.drawImage(video, 0, 0, canvas.width, canvas.height)
+        const frame = new VideoFrame(canvas, { timestamp })
+        const keyFrame = metadata.mediaTime - lastKeyFrameSec >= COMPRESSION_KEYFRAME_INTERVAL_SEC
+        if (keyFrame) lastKeyFrameSec = metadata.mediaTime
+        try {
+          encoder.encode(frame, { keyFrame })
+        } catch (err) {
+          finish(err)
+          return
+        } finally {
+          frame.close()
+        }
+      }
+
+      onProgress?.(Math.min(99, Math.round((metadata.mediaTime / durationSec) * 100)))
+      video.requestVideoFrameCallback(onFrame)
+    }
+
+    video.onended = () => finish()
+    video.onerror = () => finish(new Error('Error playing video for compression'))
+    video.requestVideoFrameCallback(onFrame)
+    resetStallTimer()
+    video.play().catch(finish)
+  })
+}
+
+/**
+ * 動画を設定の解像度・ビットレートの MP4（H.264 + AAC）に圧縮する
+ * 圧縮しない場合は理由を返し、処理中の失敗は例外を投げる
+ */
+export async function compressVideo(
+  file: File,
+  settings: CompressionSettings,
+  onProgress?: (progress: number) => void,
+): Promise<CompressionResult> {
+  if (!isCompressionSupported()) return { compressed: false, reason: 'unsupported' }
+  if (file.size < COMPRESSION_MIN_FILE_SIZE_BYTES) return { compressed: false, reason: 'small-file' }
+
+  const startedAt = performance.now()
+  const video = document.createElement('video')
+  // 音声を取り出すためミュートしない（出力は startAudioCapture で音量 0 にする）
+  video.playsInline = true
+  video.preload = 'auto'
+  const objectUrl = URL.createObjectURL(file)
+  const canvas = document.createElement('canvas')
+  let encoder: VideoEncoder | null = null
+  let audioEncoder: AudioEncoder | null = null
+  let audioCtx: AudioContext | null = null
+  let audioCapture: { stop: () => void } | null = null
+
+  try {
+    await loadMetadata(video, objectUrl)
+    const sourceWidth = video.videoWidth
+    const sourceHeight = video.videoHeight
+    const durationSec = video.duration
+    if (!sourceWidth || !sourceHeight || !Number.isFinite(durationSec) || durationSec <= 0) {
+      throw new Error(`Invalid video metadata: ${sourceWidth}x${sourceHeight}, ${durationSec}s`)
+    }
+
+    if (isAlreadyCompact(file.size, durationSec, sourceWidth, sourceHeight, settings)) {
+      return { compressed: false, reason: 'already-compact' }
+    }
+
+    const { width, height } = getCompressionTarget(sourceWidth, sourceHeight, settings.maxHeight)
+    const config = await findEncoderConfig(width, height, settings.bitrateKbps)
+    if (!config) return { compressed: false, reason: 'unsupported' }
+
+    canvas.width = width
+    canvas.height = height
+    const ctx = canvas.getContext('2d')
+    if (!ctx) throw new Error('Canvas 2D context is not available')
+
+    // ユーザー操作の外では AudioContext を開始できないことがある（iOS）。音声を落とさないよう圧縮しない
+    audioCtx = new AudioContext()
+    await audioCtx.resume().catch(() => {})
+    if (audioCtx.state !== 'running') return { compressed: false, reason: 'unsupported' }
+    const audioConfig = await findAudioEncoderConfig(audioCtx.sampleRate)
+    if (!audioConfig) return { compressed: false, reason: 'unsupported' }
+
+    const muxer = new Muxer({
+      target: new ArrayBufferTarget(),
+      video: { codec: 'avc', width, height },
+      audio: { codec: 'aac', numberOfChannels: AUDIO_CHANNELS, sampleRate: audioConfig.sampleRate },
+      fastStart: 'in-memory',
+      firstTimestampBehavior: 'offset',
+    })
+    let encoderError: unknown = null
+    const onEncoderError = (err: unknown) => {
+      encoderError ??= err
+    }
+    encoder = new VideoEncoder({
+      output: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+      error: onEncoderError,
+    })
+    encoder.configure(config)
+    audioEncoder = new AudioEncoder({
+      output: (chunk, meta) => muxer.addAudioChunk(chunk, meta),
+      error: onEncoderError,
+    })
+    audioEncoder.configure(audioConfig)
+
+    audioCapture = startAudioCapture(video, audioCtx, audioEncoder, onEncoderError)
+    await encodeFrames(video, canvas, ctx, encoder, durationSec, onProgress)
+    audioCapture.stop()
+    await Promise.all([encoder.flush(), audioEncoder.flush()])
+    if (encoderError) throw encoderError
+    muxer.finalize()
+
+    const { buffer } = muxer.target
+    if (buffer.byteLength >= file.size) return { compressed: false, reason: 'not-smaller' }
+
+    const baseName = file.name.replace(/\.[^.]+$/, '')
+    const compressedFile = new File([buffer], `${baseName}.mp4`, {
+      type: 'video/mp4',
+      lastModified: file.lastModified,
+    })
+    onProgress?.(100)
+
+    return {
+      compressed: true,
+      file: compressedFile,
+      width,
+      height,
+      sourceWidth,
+      sourceHeight,
+      durationSec,
+      elapsedMs: Math.round(performance.now() - startedAt),
+    }
+  } finally {
+    audioCapture?.stop()
+    if (encoder && encoder.state !== 'closed') {
+      try { encoder.close() } catch { /* ignore */ }
+    }
+    if (audioEncoder && audioEncoder.state !== 'closed') {
+      try { audioEncoder.close() } catch { /* ignore */ }
+    }
+    audioCtx?.close().catch(() => {})
+    try { video.pause() } catch { /* ignore */ }
+    try { video.removeAttribute('src') } catch { /* ignore */ }
+    try { video.load() } catch { /* ignore */ }
+    URL.revokeObjectURL(objectUrl)
+    canvas.width = 0
+    canvas.height = 0
+  }
+}
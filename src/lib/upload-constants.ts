@@ -44,6 +44,23 @@ export const LARGE_FILE_THUMBNAIL_SKIP_THRESHOLD_BYTES = 300 * 1024 * 1024
 export const TUS_INITIAL_PROGRESS_TIMEOUT_MS = 30_000
 export const TUS_STALLED_WARN_MS = 10_000
 export const WAKELOCK_TIMEOUT_MS = 2_000
+// 中断したアップロードを再開できる期間。cleanup-videos の未完了動画（status 0）の猶予と揃える
+export const RESUMABLE_UPLOAD_MAX_AGE_MS = 24 * 60 * 60 * 1000
+// アップロードキューの同時実行数。iOS は jetsam 回避のため常に 1 件ずつ（upload-queue.ts）
+export const UPLOAD_QUEUE_MAX_CONCURRENCY = 2
+
+// --- Compression ---
+
+// アップロード前の動画圧縮（管理者がクライアントごとに有効化。upload-compress.ts）
+export const DEFAULT_COMPRESSION_MAX_HEIGHT = 720
+export const DEFAULT_COMPRESSION_BITRATE_KBPS = 2500
+export const COMPRESSION_MAX_HEIGHT_OPTIONS: readonly number[] = [480, 720, 1080]
+// これより小さいファイルは圧縮しない（再エンコードの待ち時間に見合わない）
+export const COMPRESSION_MIN_FILE_SIZE_BYTES = 50 * 1024 * 1024
+// フレームが届かない状態がこれだけ続いたら圧縮を諦めて元のファイルを送る（バックグラウンド遷移等）
+export const COMPRESSION_STALL_TIMEOUT_MS = 15_000
+export const COMPRESSION_KEYFRAME_INTERVAL_SEC = 2
+export const COMPRESSION_AUDIO_BITRATE_KBPS = 128
 
 /** Calculate processing timeout based on file size */
 export function getProcessingTimeout(fileSize: number): number {
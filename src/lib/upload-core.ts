@@ -1,8 +1,23 @@
 import * as tus from 'tus-js-client'
-import { createBunnyVideo, deleteBunnyVideo, waitForBunnyProcessing, checkBunnyVideoStatus } from '@/lib/bunny'
+import { createBunnyVideo, signBunnyUpload, deleteBunnyVideo, waitForBunnyProcessing, checkBunnyVideoStatus, type BunnyUploadCredentials } from '@/lib/bunny'
 import { supabase } from '@/lib/supabase'
-import { UploadLogger, getDeviceInfo, isIOS } from '@/lib/upload-logger'
+import { UploadLogger, getDeviceInfo, getNetworkState, isIOS } from '@/lib/upload-logger'
 import { acquireWakeLock } from '@/lib/upload-wakelock'
+import { compressVideo, type CompressionSettings } from '@/lib/upload-compress'
+import { buildUploadDiagnosticReport, normalizeDiagnosticNote } from '@/lib/upload-diagnostics'
+import type { UploadJob } from '@/lib/upload-queue'
+import { getDuplicateVideoMessage, type DuplicateVideoCheck } from '@/utils/duplicateDetection'
+import {
+  ResumableUploadRecord,
+  getResumableUploadKey,
+  getResumableUpload,
+  saveResumableUpload,
+  updateResumableUpload,
+  deleteResumableUpload,
+  matchesResumableFile,
+  getResumableUploadFile,
+  isResumableUploadExpired,
+} from '@/lib/upload-resume-store'
 import {
   BUNNY_CREATE_MAX_ATTEMPTS,
   BUNNY_CREATE_RETRY_DELAYS,
@@ -67,9 +82,32 @@ async function retryAsync<T>(
   throw lastError
 }
 
+// --- Compressed file cache ---
+
+// 圧縮済みのファイル（再開キーごと）。圧縮はフレームの間引きがタイミングで変わり同じバイト列にならないため、
+// 中断したアップロードを続きから送るには中断時のファイルそのものが必要。メモリにのみ置く（再読み込みで失われる）
+const compressedFiles = new Map<string, File>()
+
+/** 選び直したファイルで中断したアップロードを続きから送れるか */
+export function canResumeUpload(record: ResumableUploadRecord, sourceFile: File): boolean {
+  return getResumableUploadFile(record, sourceFile, compressedFiles.get(record.key)) !== null
+}
+
+// --- discardResumableUpload ---
+
+/** 中断したアップロードを破棄（Bunny の未完了動画と IndexedDB の記録を削除） */
+export async function discardResumableUpload(record: ResumableUploadRecord): Promise<void> {
+  await deleteBunnyVideo(record.bunnyVideoId).catch((e) =>
+    console.error('Bunny cleanup for discarded upload failed:', e),
+  )
+  compressedFiles.delete(record.key)
+  await deleteResumableUpload(record.key)
+}
+
 // --- executeUpload ---
 
 export type UploadStage =
+  | 'compressing'
   | 'preparing-video'
   | 'preparing-wakelock'
   | 'preparing-tus'
@@ -89,9 +127,17 @@ export interface ExecuteUploadParams {
   hash: string | null
   isLate: boolean
   fileLastModified: string | null
+  /** 動画の作成日時（mvhd）。読み取れなかった場合は null */
+  videoCreatedAt: string | null
+  /** 撮影日が提出日と異なるか（クライアントのタイムゾーンで判定済み） */
+  recordingDateMismatch: boolean
+  /** アップロード前の圧縮設定（null なら元のファイルをそのまま送る） */
+  compression: CompressionSettings | null
   onProgress?: (progress: number) => void
   onPhaseChange?: (phase: 'uploading' | 'verifying' | 'saving') => void
   onStageChange?: (stage: UploadStage) => void
+  /** ログのセッションが始まったとき（診断レポートで該当セッションを示すため） */
+  onLogSession?: (sessionId: string) => void
 }
 
 export interface ExecuteUploadResult {
@@ -100,7 +146,7 @@ export interface ExecuteUploadResult {
 
 export async function executeUpload(params: ExecuteUploadParams): Promise<ExecuteUploadResult> {
   const {
-    file,
+    file: sourceFile,
     userId,
     targetDate,
     submissionItemId,
@@ -110,21 +156,27 @@ export async function executeUpload(params: ExecuteUploadParams): Promise<Execut
     hash,
     isLate,
     fileLastModified,
+    videoCreatedAt,
+    recordingDateMismatch,
+    compression,
     onProgress,
     onPhaseChange,
     onStageChange,
+    onLogSession,
   } = params
 
-  const logger = new UploadLogger(userId, file.name, file.size)
+  const logger = new UploadLogger(userId, sourceFile.name, sourceFile.size)
+  onLogSession?.(logger.sessionId)
   let bunnyVideoId: string | null = null
+  const resumeKey = getResumableUploadKey(userId, targetDate, submissionItemId)
 
   // file-select フェーズ: バージョン・デバイス情報を記録（online check より前）
   const selectPhase = logger.startPhase('file-select')
   selectPhase.complete({
     appVersion: __APP_VERSION__,
     device: getDeviceInfo(),
-    fileType: file.type,
-    fileSize: file.size,
+    fileType: sourceFile.type,
+    fileSize: sourceFile.size,
   })
 
   // 前回失敗したflushをリトライ（fire-and-forget）
@@ -151,25 +203,135 @@ export async function executeUpload(params: ExecuteUploadParams): Promise<Execut
         target_date: targetDate,
         submission_item_id: submissionItemId,
       }) as { data: { id: number; bunny_video_id: string | null }[] | null }
-    metaPhase.complete({ existingCount: existing?.length ?? 0 })
 
-    // 3. Create Bunny video (with retry)
+    // 同じ動画の別日への提出（block 設定なら Bunny に送る前に止める。チェックに失敗しても DB のトリガーで止まる）
+    const duplicateCheck = hash ? await checkDuplicateVideo(userId, hash, targetDate, submissionItemId) : null
+    if (duplicateCheck?.duplicate) {
+      logger.logInfo('metadata', 'duplicate-video', {
+        policy: duplicateCheck.policy,
+        duplicateSubmissionId: duplicateCheck.duplicate.submissionId,
+        duplicateTargetDate: duplicateCheck.duplicate.targetDate,
+      })
+      if (duplicateCheck.policy === 'block') {
+        metaPhase.fail(new Error('Duplicate video'), { duplicateTargetDate: duplicateCheck.duplicate.targetDate })
+        throw new UploadError(
+          `Duplicate video of ${duplicateCheck.duplicate.targetDate}`,
+          'metadata',
+          false,
+          getDuplicateVideoMessage(duplicateCheck)!,
+        )
+      }
+    }
+
+    // 中断したアップロードの記録: 同じファイルなら続きから再開、別のファイル・期限切れなら破棄
+    // 元のファイルで照合し、圧縮して送っていた場合は中断時の圧縮済みファイルで続きを送る
+    let file = sourceFile
+    let resumeRecord = await getResumableUpload(resumeKey)
+    if (resumeRecord) {
+      const resumeFile = getResumableUploadFile(resumeRecord, sourceFile, compressedFiles.get(resumeKey))
+      if (!resumeFile || isResumableUploadExpired(resumeRecord)) {
+        logger.logInfo('metadata', 'resume-discard', {
+          videoId: resumeRecord.bunnyVideoId,
+          sameFile: matchesResumableFile(resumeRecord, sourceFile),
+          compressedFileLost: matchesResumableFile(resumeRecord, sourceFile) && !resumeFile,
+        })
+        await discardResumableUpload(resumeRecord)
+        resumeRecord = null
+      } else {
+        file = resumeFile
+      }
+    }
+    metaPhase.complete({
+      existingCount: existing?.length ?? 0,
+      resumable: !!resumeRecord,
+      duplicateOf: duplicateCheck?.duplicate?.targetDate ?? null,
+      videoCreatedAt,
+      recordingDateMismatch,
+    })
+
+    // 2b. 動画の圧縮（有効なクライアントのみ）。非対応・失敗時は元のファイルを送る
+    // 再開時は中断時と同じファイルを送るため圧縮しない
+    if (compression && !resumeRecord) {
+      onPhaseChange?.('uploading')
+      onStageChange?.('compressing')
+      const compressPhase = logger.startPhase('compress')
+      try {
+        const result = await compressVideo(sourceFile, compression, onProgress)
+        if (result.compressed) {
+          file = result.file
+          compressedFiles.set(resumeKey, file)
+          compressPhase.complete({
+            sourceSize: sourceFile.size,
+            compressedSize: file.size,
+            source: `${result.sourceWidth}x${result.sourceHeight}`,
+            target: `${result.width}x${result.height}`,
+            bitrateKbps: compression.bitrateKbps,
+            durationSec: result.durationSec,
+            elapsedMs: result.elapsedMs,
+          })
+        } else {
+          compressPhase.complete({ skipped: result.reason, sourceSize: sourceFile.size })
+        }
+      } catch (err) {
+        compressPhase.fail(err, { fallback: 'original' })
+      }
+      onProgress?.(0)
+    }
+
+    // 3. Create Bunny video (with retry)。再開時は既存の動画の TUS 認証情報を再発行する
     onPhaseChange?.('uploading')
     onStageChange?.('preparing-video')
     const bunnyPhase = logger.startPhase('bunny-create')
-    let bunnyResult: Awaited<ReturnType<typeof createBunnyVideo>>
+    let bunnyResult: BunnyUploadCredentials
     try {
-      bunnyResult = await retryAsync(
-        () => createBunnyVideo(file.name),
-        {
-          maxAttempts: BUNNY_CREATE_MAX_ATTEMPTS,
-          delays: BUNNY_CREATE_RETRY_DELAYS,
-        },
-        logger,
-        'bunny-create',
-      )
+      const retryOptions = {
+        maxAttempts: BUNNY_CREATE_MAX_ATTEMPTS,
+        delays: BUNNY_CREATE_RETRY_DELAYS,
+      }
+      let signed: BunnyUploadCredentials | null = null
+      if (resumeRecord) {
+        const resumeVideoId = resumeRecord.bunnyVideoId
+        signed = await retryAsync(() => signBunnyUpload(resumeVideoId), retryOptions, logger, 'bunny-create')
+        if (!signed) {
+          // サーバーが再開を拒否した（アップロード済みなど）。記録だけ消して同じファイルを新しい動画に送り直す
+          // Bunny 側の動画は cleanup-videos の孤立動画の削除に任せる
+          logger.logInfo('bunny-create', 'resume-refused', { videoId: resumeVideoId })
+          await deleteResumableUpload(resumeKey)
+          resumeRecord = null
+        }
+      }
+      bunnyResult = signed ?? await retryAsync(() => createBunnyVideo(file.name), retryOptions, logger, 'bunny-create')
       bunnyVideoId = bunnyResult.videoId
-      bunnyPhase.complete({ videoId: bunnyResult.videoId })
+      bunnyPhase.complete({
+        videoId: bunnyResult.videoId,
+        resumed: !!resumeRecord,
+        savedOffsetBytes: resumeRecord?.bytesUploaded ?? null,
+      })
+      if (!resumeRecord) {
+        const now = Date.now()
+        await saveResumableUpload({
+          key: resumeKey,
+          userId,
+          targetDate,
+          submissionItemId,
+          bunnyVideoId: bunnyResult.videoId,
+          libraryId: bunnyResult.libraryId,
+          tusEndpoint: bunnyResult.tusEndpoint,
+          tusUrl: null,
+          bytesUploaded: 0,
+          fileName: sourceFile.name,
+          fileSize: sourceFile.size,
+          fileType: sourceFile.type,
+          fileLastModified: sourceFile.lastModified,
+          uploadSize: file.size,
+          thumbnail,
+          duration,
+          hash,
+          isLate,
+          createdAt: now,
+          updatedAt: now,
+        })
+      }
       // 早期flush: TUS失敗しても「アップロード試行あり」の証拠をサーバーに残す (non-final)
       logger.flush().catch(() => {})
     } catch (err) {
@@ -179,6 +341,9 @@ export async function executeUpload(params: ExecuteUploadParams): Promise<Execut
         'bunny-create',
         true,
         '動画の準備に失敗しました。再度お試しください。',
+        false,
+        // 再開時は既存の動画を残す（次回も続きから再開できるように）
+        resumeRecord?.bunnyVideoId,
       )
     }
 
@@ -244,9 +409,12 @@ export async function executeUpload(params: ExecuteUploadParams): Promise<Execut
           fileSize: file.size,
           safeMode,
           thumbnailStrategy,
+          resumeFromUrl: !!resumeRecord?.tusUrl,
         })
         const upload = new tus.Upload(file, {
           endpoint: bunnyResult.tusEndpoint,
+          // 再開時は保存済みの URL に HEAD してサーバー側のオフセットから続ける（URL が無効なら新規作成）
+          uploadUrl: resumeRecord?.tusUrl ?? null,
           chunkSize: effectiveChunkSize,
           retryDelays: [0, 1000, 3000, 5000],
           headers: {
@@ -256,7 +424,17 @@ export async function executeUpload(params: ExecuteUploadParams): Promise<Execut
             LibraryId: bunnyResult.libraryId,
           },
           metadata: { filetype: file.type, title: file.name },
-          removeFingerprintOnSuccess: true,
+          // 再開は IndexedDB の記録（動画 ID と TUS URL の組）で行う。
+          // fingerprint による再開は別の動画 ID の URL を拾ってしまうため使わない
+          storeFingerprintForResuming: false,
+          onUploadUrlAvailable: () => {
+            updateResumableUpload(resumeKey, { tusUrl: upload.url }).catch(() => {})
+          },
+          onChunkComplete: (_chunkSize, bytesAccepted) => {
+            // 最後のチャンクの直後に記録を削除するため、完了時のオフセットは書き込まない
+            if (bytesAccepted >= file.size) return
+            updateResumableUpload(resumeKey, { bytesUploaded: bytesAccepted }).catch(() => {})
+          },
           onShouldRetry: (error, _retryAttempt, _options) => {
             // 既定判定を再現：4xx（409/423除く）はリトライしない、オフライン時もしない
             // ⚠️ tus-js-client v4.x の defaultOnShouldRetry 準拠 — ライブラリ更新時に要確認
@@ -345,20 +523,8 @@ export async function executeUpload(params: ExecuteUploadParams): Promise<Execut
         })
         logger.logInfo('tus-upload', 'tus-construct-done')
 
-        logger.logInfo('tus-upload', 'find-previous-start')
-        upload
-          .findPreviousUploads()
-          .then((prev) => {
-            logger.logInfo('tus-upload', 'find-previous-done', { count: prev.length })
-            if (prev.length > 0) upload.resumeFromPreviousUpload(prev[0])
-            upload.start()
-            logger.logInfo('tus-upload', 'upload-start-called')
-          })
-          .catch((err) => {
-            logger.logInfo('tus-upload', 'find-previous-fail', { error: String(err) })
-            upload.start()
-            logger.logInfo('tus-upload', 'upload-start-called')
-          })
+        upload.start()
+        logger.logInfo('tus-upload', 'upload-start-called')
 
         // 初動 30 秒タイムアウト
         initialProgressTimeout = setTimeout(() => {
@@ -377,14 +543,20 @@ export async function executeUpload(params: ExecuteUploadParams): Promise<Execut
           onStageChange?.('stalled')
         }, TUS_STALLED_WARN_MS)
       })
-      tusPhase.complete({ tusRetries: tusRetryCount })
+      tusPhase.complete({ tusRetries: tusRetryCount, resumeOffsetBytes })
+      // 転送完了後は再開の対象外
+      compressedFiles.delete(resumeKey)
+      await deleteResumableUpload(resumeKey)
     } catch (err) {
       tusPhase.fail(err)
+      // 動画は削除せず残し、再試行・再読み込み後に続きから再開する
       throw new UploadError(
         `TUS upload failed: ${err}`,
         'tus-upload',
         true,
-        '動画のアップロード中にエラーが発生しました。ネットワーク接続を確認して再度お試しください。',
+        '動画のアップロード中にエラーが発生しました。ネットワーク接続を確認して再試行すると、続きから再開します。',
+        false,
+        bunnyResult.videoId,
       )
     } finally {
       stopNetworkMonitor()
@@ -459,9 +631,11 @@ export async function executeUpload(params: ExecuteUploadParams): Promise<Execut
           p_video_hash: hash,
           p_duration: duration ? Math.round(duration) : null,
           p_thumbnail_url: thumbnail || null,
-          p_file_name: file.name,
+          p_file_name: sourceFile.name,
           p_is_late: isLate,
           p_file_last_modified: fileLastModified ?? undefined,
+          p_video_created_at: videoCreatedAt ?? undefined,
+          p_recording_date_mismatch: recordingDateMismatch,
         })
 
         if (rpcError) throw rpcError
@@ -483,12 +657,14 @@ export async function executeUpload(params: ExecuteUploadParams): Promise<Execut
           status: null,
           target_date: targetDate,
           submission_item_id: submissionItemId,
-          file_name: file.name,
+          file_name: sourceFile.name,
           duration: duration ? Math.round(duration) : null,
           is_late: isLate,
           video_size: file.size,
           video_hash: hash,
           file_last_modified: fileLastModified,
+          video_created_at: videoCreatedAt,
+          recording_date_mismatch: recordingDateMismatch,
         } as any)
 
         if (dbError) throw dbError
@@ -501,6 +677,15 @@ export async function executeUpload(params: ExecuteUploadParams): Promise<Execut
         console.error('Bunny cleanup failed:', e),
       )
       bunnyVideoId = null
+      const rejectedMessage = getRejectedSubmissionMessage(err)
+      if (rejectedMessage) {
+        throw new UploadError(
+          `DB save rejected: ${err}`,
+          'db-save',
+          false,
+          rejectedMessage,
+        )
+      }
       throw new UploadError(
         `DB save failed: ${err}`,
         'db-save',
@@ -528,11 +713,17 @@ export async function executeUpload(params: ExecuteUploadParams): Promise<Execut
         await deleteBunnyVideo(bunnyVideoId).catch((e) =>
           console.error('Bunny cleanup failed:', e),
         )
+        compressedFiles.delete(resumeKey)
+        await deleteResumableUpload(resumeKey)
       }
     } else if (err.isUncertain) {
       // For uncertain errors, don't clean up — just log
       const errorPhase = logger.startPhase('error')
       errorPhase.fail(err, { uncertain: true, pendingVideoId: err.pendingVideoId })
+    } else if (err.phase === 'tus-upload' || (err.phase === 'bunny-create' && err.pendingVideoId)) {
+      // Keep Bunny video and resume record so the upload can continue later
+      const errorPhase = logger.startPhase('error')
+      errorPhase.fail(err, { resumable: true, pendingVideoId: err.pendingVideoId })
     } else if (bunnyVideoId && !err.pendingVideoId) {
       // Clean up Bunny video for non-uncertain errors
       await deleteBunnyVideo(bunnyVideoId).catch((e) =>
@@ -554,6 +745,52 @@ export async function executeUpload(params: ExecuteUploadParams): Promise<Execut
   }
 }
 
+// --- checkDuplicateVideo ---
+
+/**
+ * 同じ動画（ハッシュ一致）の過去の提出を探す（同じ日付・項目の差し替えは除く）
+ * チェックできなかった場合は null（アップロードは止めない）
+ */
+export async function checkDuplicateVideo(
+  userId: string,
+  hash: string,
+  targetDate: string,
+  submissionItemId: number | null,
+): Promise<DuplicateVideoCheck | null> {
+  const { data, error } = await supabase.rpc('check_duplicate_video', {
+    p_user_id: userId,
+    p_video_hash: hash,
+    p_target_date: targetDate,
+    p_submission_item_id: submissionItemId,
+  })
+  if (error || !data?.[0]) {
+    if (error) console.error('Duplicate video check failed:', error)
+    return null
+  }
+
+  const row = data[0]
+  return {
+    policy: row.policy,
+    duplicate: row.duplicate_submission_id !== null && row.duplicate_target_date !== null
+      ? { submissionId: row.duplicate_submission_id, targetDate: row.duplicate_target_date, fileName: row.duplicate_file_name }
+      : null,
+  }
+}
+
+// submissions の INSERT トリガーによる拒否（block 設定）と、クライアントに表示するメッセージ
+const REJECTED_SUBMISSION_MESSAGES: Record<string, string> = {
+  // reject_duplicate_video
+  DUPLICATE_VIDEO: 'この動画は別の日に提出済みのため、アップロードできません。別の動画を選択してください。',
+  // reject_recording_date_mismatch
+  RECORDING_DATE_MISMATCH: 'この動画は提出日と異なる日に撮影されたため、アップロードできません。提出日に撮影した動画を選択してください。',
+}
+
+function getRejectedSubmissionMessage(err: unknown): string | null {
+  if (typeof err !== 'object' || err === null) return null
+  const message = (err as { message?: unknown }).message
+  return typeof message === 'string' ? REJECTED_SUBMISSION_MESSAGES[message] ?? null : null
+}
+
 // --- recheckVideoStatus (for uncertain state) ---
 
 export interface RecheckResult {
@@ -593,9 +830,13 @@ export async function continueAfterRecheck(params: {
   hash: string | null
   isLate: boolean
   fileLastModified: string | null
+  videoCreatedAt: string | null
+  recordingDateMismatch: boolean
 }): Promise<void> {
-  const { videoId, userId, targetDate, submissionItemId, file, thumbnail, duration, hash, isLate, fileLastModified } =
-    params
+  const {
+    videoId, userId, targetDate, submissionItemId, file, thumbnail, duration, hash, isLate, fileLastModified,
+    videoCreatedAt, recordingDateMismatch,
+  } = params
 
   const { data: existing } = await supabase
     .from('submissions')
@@ -619,6 +860,8 @@ export async function continueAfterRecheck(params: {
       p_file_name: file.name,
       p_is_late: isLate,
       p_file_last_modified: fileLastModified ?? undefined,
+      p_video_created_at: videoCreatedAt ?? undefined,
+      p_recording_date_mismatch: recordingDateMismatch,
     })
 
     if (rpcError) throw rpcError
@@ -643,8 +886,49 @@ export async function continueAfterRecheck(params: {
       video_size: file.size,
       video_hash: hash,
       file_last_modified: fileLastModified,
+      video_created_at: videoCreatedAt,
+      recording_date_mismatch: recordingDateMismatch,
     } as any)
 
     if (dbError) throw dbError
   }
 }
+
+// --- sendUploadDiagnosticReport ---
+
+/**
+ * 失敗したアップロードの診断レポートをトレーナーに送る
+ * 端末に残っているセッションのログも upload_logs に書き戻す（UploadLogsPage で該当セッションを開けるように）
+ */
+export async function sendUploadDiagnosticReport(
+  job: UploadJob,
+  note: string,
+): Promise<void> {
+  const { userId } = job.params
+  const entries = job.logSessionId ? UploadLogger.readSessionEntries(userId, job.logSessionId) : []
+
+  if (job.logSessionId && entries.length > 0) {
+    const { error: logError } = await supabase.from('upload_logs' as any).upsert(
+      { user_id: userId, session_id: job.logSessionId, entries } as any,
+      { onConflict: 'user_id,session_id' },
+    )
+    // ログの書き戻しに失敗してもレポートには含まれるため続行
+    if (logError) console.error('Upload log flush for diagnostics failed:', logError)
+  }
+
+  const report = buildUploadDiagnosticReport(job, entries, {
+    appVersion: __APP_VERSION__,
+    device: getDeviceInfo(),
+    networkState: getNetworkState(),
+    userAgent: navigator.userAgent,
+  })
+
+  const { error } = await supabase.from('upload_diagnostic_reports' as any).insert({
+    user_id: userId,
+    session_id: job.logSessionId,
+    note: normalizeDiagnosticNote(note),
+    report,
+  } as any)
+
+  if (error) throw error
+}
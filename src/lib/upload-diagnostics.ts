@@ -0,0 +1,81 @@
+// --- Upload diagnostics ---
+//
+// アップロードに失敗したクライアントが PendingUploadCard から送る診断レポート。
+// 失敗したジョブ・そのセッションのログ（UploadLogger）・端末とネットワークの状態をまとめ、
+// upload_diagnostic_reports に保存してトレーナーに知らせる（UploadLogsPage で該当セッションを開ける）。
+
+import type { DeviceInfo, UploadLogEntry } from '@/lib/upload-logger'
+import type { UploadJob } from '@/lib/upload-queue'
+
+// クライアントのメモの上限（文字数）
+export const MAX_DIAGNOSTIC_NOTE_LENGTH = 500
+
+export interface UploadDiagnosticReport {
+  appVersion: string
+  device: DeviceInfo
+  networkState: UploadLogEntry['networkState']
+  userAgent: string
+  job: {
+    label: string
+    targetDate: string
+    submissionItemId: number | null
+    /** クライアントに表示したメッセージ（UploadError.userMessage） */
+    error: string | null
+    isRetryable: boolean
+    isUncertain: boolean
+    pendingVideoId: string | null
+    progress: number
+    fileName: string
+    fileSize: number
+    fileType: string
+    compressed: boolean
+    offlineCapturedAt: string | null
+  }
+  /** 端末に残っているセッションのログ（サーバーへの送信に失敗していても含まれる） */
+  entries: UploadLogEntry[]
+  /** 失敗したフェーズのエラー（最後の fail） */
+  lastError: { phase: UploadLogEntry['phase']; message: string } | null
+}
+
+export interface DiagnosticEnvironment {
+  appVersion: string
+  device: DeviceInfo
+  networkState: UploadLogEntry['networkState']
+  userAgent: string
+}
+
+export function buildUploadDiagnosticReport(
+  job: UploadJob,
+  entries: UploadLogEntry[],
+  env: DiagnosticEnvironment
+): UploadDiagnosticReport {
+  const lastFail = [...entries].reverse().find((e) => e.status === 'fail' && e.error)
+  const { file } = job.params
+
+  return {
+    ...env,
+    job: {
+      label: job.label,
+      targetDate: job.params.targetDate,
+      submissionItemId: job.params.submissionItemId,
+      error: job.error,
+      isRetryable: job.isRetryable,
+      isUncertain: job.isUncertain,
+      pendingVideoId: job.pendingVideoId,
+      progress: job.progress,
+      fileName: file.name,
+      fileSize: file.size,
+      fileType: file.type,
+      compressed: job.params.compression !== null,
+      offlineCapturedAt: job.offlineCapturedAt !== null ? new Date(job.offlineCapturedAt).toISOString() : null,
+    },
+    entries,
+    lastError: lastFail ? { phase: lastFail.phase, message: lastFail.error!.message } : null,
+  }
+}
+
+/** メモの前後の空白を除き、上限で切り詰める（空なら null） */
+export function normalizeDiagnosticNote(note: string): string | null {
+  const trimmed = note.trim()
+  return trimmed ? trimmed.slice(0, MAX_DIAGNOSTIC_NOTE_LENGTH) : null
+}
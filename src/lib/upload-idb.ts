@@ -0,0 +1,56 @@
+// --- Upload IndexedDB ---
+//
+// アップロード関連の IndexedDB（再開情報: upload-resume-store.ts、オフライン撮影: upload-offline-store.ts）。
+// 両ストアを同じ DB に置くため、スキーマの更新はここで行う。
+
+const DB_NAME = 'fit-proof-uploads'
+// v2: offline-uploads を追加
+const DB_VERSION = 2
+
+export const RESUMABLE_UPLOADS_STORE = 'resumable-uploads'
+export const OFFLINE_UPLOADS_STORE = 'offline-uploads'
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'))
+      return
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      const db = request.result
+      for (const name of [RESUMABLE_UPLOADS_STORE, OFFLINE_UPLOADS_STORE]) {
+        if (!db.objectStoreNames.contains(name)) {
+          db.createObjectStore(name, { keyPath: 'key' })
+        }
+      }
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  }).catch((err) => {
+    // 次回呼び出しで再試行できるようにする
+    dbPromise = null
+    throw err
+  })
+
+  return dbPromise
+}
+
+export async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openDb()
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(storeName, mode)
+    const request = fn(tx.objectStore(storeName))
+    tx.oncomplete = () => resolve(request.result)
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error)
+  })
+}
@@ -0,0 +1,68 @@
+// --- Upload log filter ---
+//
+// UploadLogsPage の絞り込み（状態・失敗したフェーズ・OS・アプリのバージョン・リトライ回数）。
+// 期間はサーバー側（created_at）で絞り込むため、ここでは扱わない。
+
+import type { UploadLogEntry, UploadPhase } from '@/lib/upload-logger'
+import { summarizeUploadSession, type UploadSessionOutcome, type UploadSessionSummary } from '@/lib/upload-analytics'
+
+export const ALL = 'all'
+
+export interface UploadLogFilter {
+  status: UploadSessionOutcome | typeof ALL
+  failedPhase: UploadPhase | typeof ALL
+  os: string
+  appVersion: string
+  /** リトライ回数の下限（0 なら絞り込まない） */
+  minRetries: number
+}
+
+export const DEFAULT_UPLOAD_LOG_FILTER: UploadLogFilter = {
+  status: ALL,
+  failedPhase: ALL,
+  os: ALL,
+  appVersion: ALL,
+  minRetries: 0,
+}
+
+export function isUploadLogFilterActive(filter: UploadLogFilter): boolean {
+  return (Object.keys(DEFAULT_UPLOAD_LOG_FILTER) as (keyof UploadLogFilter)[])
+    .some((key) => filter[key] !== DEFAULT_UPLOAD_LOG_FILTER[key])
+}
+
+export function getRetryCount(entries: UploadLogEntry[]): number {
+  return entries.filter((e) => e.status === 'retry').length
+}
+
+export function matchesUploadLogFilter(
+  entries: UploadLogEntry[],
+  filter: UploadLogFilter,
+  summary: UploadSessionSummary = summarizeUploadSession(entries)
+): boolean {
+  if (filter.status !== ALL && summary.outcome !== filter.status) return false
+  if (filter.failedPhase !== ALL && summary.failedPhase !== filter.failedPhase) return false
+  if (filter.os !== ALL && summary.device?.os !== filter.os) return false
+  if (filter.appVersion !== ALL && summary.appVersion !== filter.appVersion) return false
+  if (filter.minRetries > 0 && getRetryCount(entries) < filter.minRetries) return false
+  return true
+}
+
+export interface UploadLogFilterOptions {
+  failedPhases: UploadPhase[]
+  os: string[]
+  appVersions: string[]
+}
+
+/** 読み込んだログに含まれる値（選択肢） */
+export function getUploadLogFilterOptions(summaries: UploadSessionSummary[]): UploadLogFilterOptions {
+  const unique = <T>(values: (T | null | undefined)[]) =>
+    [...new Set(values.filter((v): v is T => v != null))]
+
+  return {
+    failedPhases: unique(summaries.map((s) => s.failedPhase)),
+    os: unique(summaries.map((s) => s.device?.os)).sort(),
+    // 新しいバージョンから
+    appVersions: unique(summaries.map((s) => s.appVersion))
+      .sort((a, b) => b.localeCompare(a, undefined, { numeric: true })),
+  }
+}
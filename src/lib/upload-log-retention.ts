@@ -0,0 +1,57 @@
+// --- Upload log retention ---
+//
+// upload_logs の保持ポリシー（supabase/migrations/upload_log_retention.sql）。
+// 整理は prune-upload-logs Edge Function が行い、管理画面では現在の容量と次回の整理を表示する。
+
+export interface UploadLogRetention {
+  retention_days: number
+  /** 失敗したセッションの保持日数（retention_days 以上） */
+  failed_retention_days: number
+  max_sessions_per_user: number
+  prune_interval_hours: number
+  last_pruned_at: string | null
+  last_pruned_count: number | null
+}
+
+export type UploadLogRetentionPolicy = Pick<
+  UploadLogRetention,
+  'retention_days' | 'failed_retention_days' | 'max_sessions_per_user' | 'prune_interval_hours'
+>
+
+export interface UploadLogStats {
+  session_count: number
+  failed_count: number
+  total_bytes: number
+  oldest_at: string | null
+}
+
+// 入力できる範囲（テーブルの CHECK 制約と揃える）
+export const RETENTION_LIMITS: Record<keyof UploadLogRetentionPolicy, { min: number; max: number }> = {
+  retention_days: { min: 1, max: 365 },
+  failed_retention_days: { min: 1, max: 730 },
+  max_sessions_per_user: { min: 10, max: 10000 },
+  prune_interval_hours: { min: 1, max: 168 },
+}
+
+/** 次回の整理の予定日時（未実行なら now。以降、管理者がアプリを開いたときに実行される） */
+export function getNextPruneAt(
+  settings: Pick<UploadLogRetention, 'prune_interval_hours' | 'last_pruned_at'>,
+  now: Date = new Date()
+): Date {
+  if (!settings.last_pruned_at) return now
+  return new Date(new Date(settings.last_pruned_at).getTime() + settings.prune_interval_hours * 60 * 60 * 1000)
+}
+
+/** 保存前の入力チェック（問題なければ null） */
+export function getRetentionPolicyError(policy: UploadLogRetentionPolicy): string | null {
+  for (const [key, { min, max }] of Object.entries(RETENTION_LIMITS)) {
+    const value = policy[key as keyof UploadLogRetentionPolicy]
+    if (!Number.isInteger(value) || value < min || value > max) {
+      return `${min}〜${max}の整数を入力してください`
+    }
+  }
+  if (policy.failed_retention_days < policy.retention_days) {
+    return '失敗したセッションの保持日数は、通常の保持日数以上にしてください'
+  }
+  return null
+}
@@ -5,6 +5,7 @@ import { sendLogsOnUnload } from '@/lib/upload-beacon'
 
 export type UploadPhase =
   | 'file-select'
+  | 'compress'
   | 'metadata'
   | 'bunny-create'
   | 'tus-upload'
@@ -15,6 +16,19 @@ export type UploadPhase =
 
 export type UploadStatus = 'start' | 'success' | 'fail' | 'retry' | 'info' | 'progress'
 
+/** 管理画面（アップロードログ・分析）でのフェーズ名と説明 */
+export const UPLOAD_PHASE_LABELS: Record<UploadPhase, { name: string; desc: string }> = {
+  'file-select': { name: 'ファイル選択', desc: 'ユーザが動画ファイルを選択' },
+  'compress': { name: '動画の圧縮', desc: 'アップロード前に動画を縮小・再エンコード（失敗・非対応時は元のファイルを送信）' },
+  'metadata': { name: '既存レコード確認', desc: 'DB上の同日・同項目の提出済みレコードを検索' },
+  'bunny-create': { name: '動画枠の作成', desc: 'Bunny CDNに動画エントリを作成しアップロード認証を取得' },
+  'tus-upload': { name: '動画アップロード', desc: 'TUSプロトコルでBunny CDNにファイル転送' },
+  'bunny-processing': { name: 'CDN処理確認', desc: 'Bunny CDN側の動画エンコード・受理状態をポーリング確認' },
+  'db-save': { name: 'データベース保存', desc: '提出レコードをSupabaseに保存（新規or置換）' },
+  'complete': { name: 'アップロード完了', desc: '全フェーズ正常終了' },
+  'error': { name: 'エラー', desc: 'いずれかのフェーズで異常終了' },
+}
+
 export interface UploadLogEntry {
   userId: string
   sessionId: string
@@ -109,7 +123,7 @@ const AUTO_FLUSH_INTERVAL_MS = 2_000
 
 // --- Helpers ---
 
-function getNetworkState(): UploadLogEntry['networkState'] {
+export function getNetworkState(): UploadLogEntry['networkState'] {
   const conn = (navigator as any).connection
   return {
     online: navigator.onLine,
@@ -491,6 +505,11 @@ export class UploadLogger {
     }
   }
 
+  /** Read local log entries for a session */
+  static readSessionEntries(userId: string, sessionId: string): UploadLogEntry[] {
+    return UploadLogger.readLocalEntries(userId).filter((e) => e.sessionId === sessionId)
+  }
+
   /** Get all local logs (all users) — for admin debug */
   static getAllLogs(): UploadLogEntry[] {
     const entries: UploadLogEntry[] = []
@@ -0,0 +1,86 @@
+// --- Offline upload store ---
+//
+// 電波のないジムで撮影した動画を受け付けるため、オフライン時に選ばれた動画を
+// ファイル本体ごと IndexedDB に保存しておき、接続が戻ったらキューから通常どおり executeUpload する。
+// 再開情報（upload-resume-store.ts）と違い、ファイルを選び直せないので本体も保存する。
+// 保存に失敗した場合（容量不足・IndexedDB 非対応）は呼び出し側がエラーを表示する。
+
+import type { UploadJobParams } from '@/lib/upload-queue'
+import { getResumableUploadKey } from '@/lib/upload-resume-store'
+import { OFFLINE_UPLOADS_STORE, withStore } from '@/lib/upload-idb'
+
+export interface OfflineUploadRecord {
+  /** ジョブ ID と同じ（日付・提出項目ごとに 1 件） */
+  key: string
+  label: string
+  /** File は Safari で Blob として復元されることがあるため、名前・種類・更新日時は別に持つ */
+  blob: Blob
+  fileName: string
+  fileType: string
+  /** File.lastModified（ミリ秒） */
+  fileLastModified: number
+  params: Omit<UploadJobParams, 'file'>
+  capturedAt: number
+}
+
+export function createOfflineUploadRecord(
+  params: UploadJobParams,
+  label: string,
+  now: number = Date.now(),
+): OfflineUploadRecord {
+  const { file, ...rest } = params
+  return {
+    key: getResumableUploadKey(params.userId, params.targetDate, params.submissionItemId),
+    label,
+    blob: file,
+    fileName: file.name,
+    fileType: file.type,
+    fileLastModified: file.lastModified,
+    params: rest,
+    capturedAt: now,
+  }
+}
+
+/** 保存した動画をアップロードのパラメーターに戻す */
+export function toUploadJobParams(record: OfflineUploadRecord): UploadJobParams {
+  const file = new File([record.blob], record.fileName, {
+    type: record.fileType,
+    lastModified: record.fileLastModified,
+  })
+  return { ...record.params, file }
+}
+
+// --- IndexedDB ---
+
+export async function listOfflineUploads(userId: string): Promise<OfflineUploadRecord[]> {
+  try {
+    const records = await withStore<OfflineUploadRecord[]>(OFFLINE_UPLOADS_STORE, 'readonly', (store) => store.getAll())
+    return records
+      .filter((r) => r.params.userId === userId)
+      .sort((a, b) => a.capturedAt - b.capturedAt)
+  } catch (err) {
+    console.error('Failed to list offline uploads:', err)
+    return []
+  }
+}
+
+/** 保存できたか（容量不足などで失敗すると false） */
+export async function saveOfflineUpload(record: OfflineUploadRecord): Promise<boolean> {
+  try {
+    // ブラウザによる自動削除の対象から外す（許可されなくても保存は続ける）
+    await navigator.storage?.persist?.().catch(() => false)
+    await withStore(OFFLINE_UPLOADS_STORE, 'readwrite', (store) => store.put(record))
+    return true
+  } catch (err) {
+    console.error('Failed to save offline upload:', err)
+    return false
+  }
+}
+
+export async function deleteOfflineUpload(key: string): Promise<void> {
+  try {
+    await withStore(OFFLINE_UPLOADS_STORE, 'readwrite', (store) => store.delete(key))
+  } catch (err) {
+    console.error('Failed to delete offline upload:', err)
+  }
+}
@@ -0,0 +1,141 @@
+// --- Upload queue ---
+//
+// アプリ全体で共有するアップロードキューのジョブ定義と純粋なヘルパー。
+// 状態の保持と executeUpload の実行は UploadQueueContext が行う。
+// ジョブは日付・提出項目ごとに 1 件（ID は再開情報と同じ getResumableUploadKey）。
+// オフライン時に登録されたジョブは 'offline' のまま IndexedDB に保存され、接続が戻ると実行待ちに戻る。
+
+import type { ExecuteUploadParams, UploadStage } from '@/lib/upload-core'
+import { getResumableUploadKey } from '@/lib/upload-resume-store'
+
+export type UploadJobStatus = 'offline' | 'queued' | 'uploading' | 'succeeded' | 'failed'
+
+export type UploadJobParams = Omit<ExecuteUploadParams, 'onProgress' | 'onPhaseChange' | 'onStageChange' | 'onLogSession'>
+
+export interface UploadJob {
+  id: string
+  /** トレイに表示する名前（提出項目名） */
+  label: string
+  params: UploadJobParams
+  status: UploadJobStatus
+  progress: number
+  phase: 'uploading' | 'verifying' | 'saving' | null
+  stage: UploadStage | null
+  error: string | null
+  isRetryable: boolean
+  isUncertain: boolean
+  pendingVideoId: string | null
+  isRechecking: boolean
+  enqueuedAt: number
+  /** オフライン時に受け付けて端末に保存した日時（保存していなければ null） */
+  offlineCapturedAt: number | null
+  /** 最後に実行したアップロードのログのセッション（upload_logs.session_id） */
+  logSessionId: string | null
+  /** 診断レポートを送信した日時（失敗後に送信していなければ null） */
+  diagnosticsSentAt: number | null
+}
+
+export function getUploadJobId(params: Pick<UploadJobParams, 'userId' | 'targetDate' | 'submissionItemId'>): string {
+  return getResumableUploadKey(params.userId, params.targetDate, params.submissionItemId)
+}
+
+export function createUploadJob(params: UploadJobParams, label: string, now: number = Date.now()): UploadJob {
+  return {
+    id: getUploadJobId(params),
+    label,
+    params,
+    status: 'queued',
+    progress: 0,
+    phase: null,
+    stage: null,
+    error: null,
+    isRetryable: false,
+    isUncertain: false,
+    pendingVideoId: null,
+    isRechecking: false,
+    enqueuedAt: now,
+    offlineCapturedAt: null,
+    logSessionId: null,
+    diagnosticsSentAt: null,
+  }
+}
+
+/**
+ * 実行待ち・実行中（取り消し・再登録できない）か
+ * 接続待ちのジョブは端末に保存済みのため含めない（アプリを閉じてもよい）
+ */
+export function isUploadJobActive(job: UploadJob): boolean {
+  return job.status === 'queued' || job.status === 'uploading'
+}
+
+/** 空いている枠の数だけ、登録順に実行待ちのジョブを返す */
+export function selectJobsToStart(jobs: UploadJob[], concurrency: number): UploadJob[] {
+  const running = jobs.filter((j) => j.status === 'uploading').length
+  const slots = Math.max(0, concurrency - running)
+  if (slots === 0) return []
+  return jobs
+    .filter((j) => j.status === 'queued')
+    .sort((a, b) => a.enqueuedAt - b.enqueuedAt)
+    .slice(0, slots)
+}
+
+export interface UploadQueueSummary {
+  total: number
+  active: number
+  succeeded: number
+  failed: number
+  offline: number
+  /** 失敗・接続待ち以外のジョブ全体の進捗（ファイルサイズで加重、0〜100） */
+  overallProgress: number
+}
+
+export function getUploadQueueSummary(jobs: UploadJob[]): UploadQueueSummary {
+  let totalBytes = 0
+  let doneBytes = 0
+  for (const job of jobs) {
+    if (job.status === 'failed' || job.status === 'offline') continue
+    const size = job.params.file.size
+    totalBytes += size
+    doneBytes += job.status === 'succeeded' ? size : (size * job.progress) / 100
+  }
+
+  return {
+    total: jobs.length,
+    active: jobs.filter(isUploadJobActive).length,
+    succeeded: jobs.filter((j) => j.status === 'succeeded').length,
+    failed: jobs.filter((j) => j.status === 'failed').length,
+    offline: jobs.filter((j) => j.status === 'offline').length,
+    overallProgress: totalBytes > 0 ? Math.round((doneBytes / totalBytes) * 100) : 0,
+  }
+}
+
+/** トレイに表示する状態ラベル */
+export function getUploadJobStatusLabel(job: UploadJob): string {
+  if (job.isRechecking) return '状態を確認中...'
+  switch (job.status) {
+    case 'offline': return '接続待ち（オンラインになると自動でアップロードします）'
+    case 'queued': return '順番待ち'
+    case 'succeeded': return '完了'
+    case 'failed': return job.error ?? 'アップロードに失敗しました。'
+  }
+  switch (job.phase) {
+    case 'verifying': return '処理を確認中...'
+    case 'saving': return '保存中...'
+  }
+  switch (job.stage) {
+    case 'compressing': return `動画を圧縮中... ${job.progress}%`
+    case 'preparing-video': return '動画を作成中...'
+    case 'stalled': return '通信が遅延しています'
+    case 'uploading': return job.progress === 0 ? 'アップロードを開始しています...' : `アップロード中... ${job.progress}%`
+    default: return 'アップロード準備中...'
+  }
+}
+
+/** オフラインで受け付けてまだアップロードが完了していない日付（yyyy-MM-dd） */
+export function getPendingSyncDates(jobs: UploadJob[], userId: string | undefined): Set<string> {
+  return new Set(
+    jobs
+      .filter((j) => j.offlineCapturedAt !== null && j.status !== 'succeeded' && j.params.userId === userId)
+      .map((j) => j.params.targetDate),
+  )
+}
@@ -0,0 +1,141 @@
+// --- Resumable upload store ---
+//
+// 中断されたアップロード（iOS のタブ破棄・リロード・アプリ再起動）を続きから再開するため、
+// 進行中のアップロード状態を IndexedDB に保存する。
+// ファイル本体は保存しない（数百MBの複製は iOS でメモリ不足の原因になるため）。
+// 再開時はユーザーに同じ動画を選び直してもらい、名前・サイズ・更新日時で同一ファイルか判定する。
+// 圧縮して送った場合、圧縮済みのファイルは同じページ内の再試行にだけ使える（upload-core.ts の compressedFiles）。
+//
+// IndexedDB が使えない環境（プライベートブラウズ等）では何も保存せず、従来どおり最初からアップロードする。
+
+import { RESUMABLE_UPLOAD_MAX_AGE_MS } from '@/lib/upload-constants'
+import { RESUMABLE_UPLOADS_STORE, withStore } from '@/lib/upload-idb'
+
+export interface ResumableUploadRecord {
+  key: string
+  userId: string
+  targetDate: string
+  submissionItemId: number | null
+  bunnyVideoId: string
+  libraryId: string
+  tusEndpoint: string
+  /** TUS アップロード URL（作成リクエスト完了後に確定） */
+  tusUrl: string | null
+  /** サーバーが受領を確認した最後のオフセット（表示用。再開時は HEAD で実際の値を取得する） */
+  bytesUploaded: number
+  /** 選んだ元のファイル（圧縮前）の名前・サイズ・種類 */
+  fileName: string
+  fileSize: number
+  fileType: string
+  /** File.lastModified（ミリ秒） */
+  fileLastModified: number
+  /** 送信するファイルのサイズ（圧縮した場合は圧縮後）。以前の記録にはなく、その場合は fileSize と同じ */
+  uploadSize?: number
+  thumbnail: string | null
+  duration: number | null
+  hash: string | null
+  isLate: boolean
+  createdAt: number
+  updatedAt: number
+}
+
+export function getResumableUploadKey(
+  userId: string,
+  targetDate: string,
+  submissionItemId: number | null,
+): string {
+  return `${userId}:${targetDate}:${submissionItemId ?? 'none'}`
+}
+
+/** 再開に使えるファイルか（選び直したファイルが中断時と同一か） */
+export function matchesResumableFile(record: ResumableUploadRecord, file: File): boolean {
+  return (
+    record.fileName === file.name &&
+    record.fileSize === file.size &&
+    record.fileLastModified === file.lastModified
+  )
+}
+
+/** 送信するファイルのサイズ（圧縮した場合は圧縮後） */
+export function getResumableUploadSize(record: ResumableUploadRecord): number {
+  return record.uploadSize ?? record.fileSize
+}
+
+/**
+ * 中断したアップロードの続きとして送るファイル（再開できなければ null）
+ * 圧縮して送った場合は、中断時の圧縮済みファイルが残っているときだけ再開できる
+ * （圧縮は同じバイト列を再現しないため、圧縮し直したファイルでは続きを送れない）
+ */
+export function getResumableUploadFile(
+  record: ResumableUploadRecord,
+  sourceFile: File,
+  compressedFile: File | null | undefined,
+): File | null {
+  if (!matchesResumableFile(record, sourceFile)) return null
+  const uploadSize = getResumableUploadSize(record)
+  if (uploadSize === sourceFile.size) return sourceFile
+  return compressedFile && compressedFile.size === uploadSize ? compressedFile : null
+}
+
+/** TUS の署名更新で再開できる期間を過ぎたか（Bunny 側の未完了動画もこの期間で削除される） */
+export function isResumableUploadExpired(record: ResumableUploadRecord, now: number = Date.now()): boolean {
+  return now - record.createdAt > RESUMABLE_UPLOAD_MAX_AGE_MS
+}
+
+export function getResumableUploadProgress(record: ResumableUploadRecord): number {
+  const uploadSize = getResumableUploadSize(record)
+  if (uploadSize <= 0) return 0
+  return Math.min(100, Math.round((record.bytesUploaded / uploadSize) * 100))
+}
+
+// --- IndexedDB ---
+
+export async function getResumableUpload(key: string): Promise<ResumableUploadRecord | null> {
+  try {
+    const record = await withStore<ResumableUploadRecord | undefined>(RESUMABLE_UPLOADS_STORE, 'readonly', (store) => store.get(key))
+    return record ?? null
+  } catch (err) {
+    console.error('Failed to read resumable upload:', err)
+    return null
+  }
+}
+
+export async function saveResumableUpload(record: ResumableUploadRecord): Promise<void> {
+  try {
+    await withStore(RESUMABLE_UPLOADS_STORE, 'readwrite', (store) => store.put(record))
+  } catch (err) {
+    console.error('Failed to save resumable upload:', err)
+  }
+}
+
+// キーごとの書き込み中の更新。TUS のコールバックからは待たずに呼ばれるため、
+// 削除の前に待たないと、削除後に更新が書き戻して完了済みのアップロードの記録が残る
+const pendingUpdates = new Map<string, Promise<void>>()
+
+export function updateResumableUpload(
+  key: string,
+  updates: Partial<Pick<ResumableUploadRecord, 'tusUrl' | 'bytesUploaded'>>,
+): Promise<void> {
+  // 同じキーの更新は順に適用する（読み込みと書き込みの間に別の更新が割り込まないように）
+  const previous = pendingUpdates.get(key) ?? Promise.resolve()
+  const next = previous.then(async () => {
+    const record = await getResumableUpload(key)
+    if (!record) return
+    await saveResumableUpload({ ...record, ...updates, updatedAt: Date.now() })
+  })
+  pendingUpdates.set(key, next)
+  const cleanup = () => {
+    if (pendingUpdates.get(key) === next) pendingUpdates.delete(key)
+  }
+  next.then(cleanup, cleanup)
+  return next
+}
+
+export async function deleteResumableUpload(key: string): Promise<void> {
+  await pendingUpdates.get(key)?.catch(() => {})
+  try {
+    await withStore(RESUMABLE_UPLOADS_STORE, 'readwrite', (store) => store.delete(key))
+  } catch (err) {
+    console.error('Failed to delete resumable upload:', err)
+  }
+}
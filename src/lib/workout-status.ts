@@ -0,0 +1,92 @@
+// --- Workout status ---
+//
+// 投稿のステータス更新（承認/却下/免除/取り消し）を DB に反映する。
+// カレンダー（useWorkoutHistory.updateWorkoutStatus）とレビューキュー（ReviewQueuePage）で共通。
+// 集計値（total_reps・シールド等）は更新後にサーバー側で再計算する。
+// まとめて更新する場合は RPC bulk_update_submission_status で同じ判定を1トランザクションで行う。
+
+import { supabase } from '@/lib/supabase'
+import {
+  buildWorkoutStatusUpdate,
+  type WorkoutStatus,
+  type WorkoutStatusTarget,
+} from '@/utils/workoutStatus'
+
+// クライアント向けに通知をlocalStorageに保存
+function pushRevivalNotification(userId: string, targetDate: string | null, now: Date) {
+  const notificationKey = `pending_revival_${userId}`
+  const existing = localStorage.getItem(notificationKey)
+  const notifications = existing ? JSON.parse(existing) : []
+  notifications.push({
+    type: 'revival_success',
+    message: '🔥 不屈の復活！過去の空白を埋めました！',
+    targetDate,
+    createdAt: now.toISOString(),
+  })
+  localStorage.setItem(notificationKey, JSON.stringify(notifications))
+}
+
+export async function applyWorkoutStatus(params: {
+  workout: WorkoutStatusTarget & { user_id: string }
+  /** 同じクライアントの投稿（リバイバル判定用） */
+  otherWorkouts: Pick<WorkoutStatusTarget, 'id' | 'status' | 'target_date'>[]
+  status: WorkoutStatus
+  reps?: number | null
+  timeZone: string | null | undefined
+  now: Date
+}): Promise<{ isRevival: boolean }> {
+  const { workout, otherWorkouts, status, reps, timeZone, now } = params
+  const { update, isRevival } = buildWorkoutStatusUpdate(workout, otherWorkouts, status, reps, timeZone, now)
+
+  if (isRevival) pushRevivalNotification(workout.user_id, workout.target_date, now)
+
+  // 1. submissions テーブルを更新
+  const { error: dbError } = await (supabase
+    .from('submissions') as any)
+    .update(update)
+    .eq('id', workout.id)
+
+  if (dbError) throw dbError
+
+  // 2. 集計値（total_reps 等）をサーバー側で再計算
+  const { error: statsError } = await (supabase.rpc as any)('recompute_gamification_stats', { p_user_id: workout.user_id })
+  if (statsError) {
+    console.error('Failed to recompute gamification stats:', statsError)
+  }
+
+  return { isRevival }
+}
+
+export interface BulkWorkoutStatusResult {
+  submission_id: number
+  user_id: string
+  target_date: string | null
+  is_revival: boolean
+}
+
+/**
+ * 複数の投稿のステータスをまとめて更新する（すべて成功するか、すべて元に戻る）
+ * @param reps 承認時に全件へ設定する回数（null なら各投稿の回数を変更しない）
+ */
+export async function applyBulkWorkoutStatus(params: {
+  submissionIds: number[]
+  status: WorkoutStatus
+  reps?: number | null
+  now: Date
+}): Promise<BulkWorkoutStatusResult[]> {
+  const { submissionIds, status, reps, now } = params
+  if (submissionIds.length === 0) return []
+
+  const { data, error } = await (supabase.rpc as any)('bulk_update_submission_status', {
+    p_submission_ids: submissionIds,
+    p_status: status,
+    p_reps: status === 'success' ? reps ?? null : null,
+  })
+  if (error) throw error
+
+  const results = (data as BulkWorkoutStatusResult[]) || []
+  for (const r of results) {
+    if (r.is_revival) pushRevivalNotification(r.user_id, r.target_date, now)
+  }
+  return results
+}
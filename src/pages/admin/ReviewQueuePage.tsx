@@ -0,0 +1,598 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { format, parseISO, formatDistanceToNow } from 'date-fns'
+import { ja } from 'date-fns/locale'
+import { supabase } from '@/lib/supabase'
+import { useAuth } from '@/context/AuthContext'
+import { Database } from '@/types/database.types'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Card, CardContent } from '@/components/ui/card'
+import { VideoPlayerModal } from '@/components/admin/VideoPlayerModal'
+import { useVideoAnnotations } from '@/hooks/useVideoAnnotations'
+import { getBunnyVideoUrl } from '@/lib/bunny'
+import { applyWorkoutStatus, applyBulkWorkoutStatus } from '@/lib/workout-status'
+import { BulkActionBar } from '@/components/admin/BulkActionBar'
+import { toast } from '@/hooks/use-toast'
+import type { WorkoutStatus } from '@/utils/workoutStatus'
+import { groupReviewQueue, getAdjacentReviewItemId, getNextReviewItemIdAfterRemoval } from '@/utils/reviewQueue'
+import { getRecordingDateInfo } from '@/utils/recordingDate'
+import { getUnreadMessages } from '@/utils/commentThread'
+import { CommentThread } from '@/components/calendar/CommentThread'
+import {
+    Loader2,
+    Play,
+    CheckCircle2,
+    XCircle,
+    MinusCircle,
+    Camera,
+    ClipboardCheck,
+    MessageSquare,
+} from 'lucide-react'
+
+type Submission = Database['public']['Tables']['submissions']['Row']
+type AdminComment = Database['public']['Tables']['admin_comments']['Row']
+type ApprovedSubmission = Pick<Submission, 'id' | 'user_id' | 'status' | 'target_date'>
+
+interface ClientProfile {
+    id: string
+    display_name: string | null
+    timezone: string
+}
+
+// 入力中はショートカットを無効にする
+function isTypingTarget(target: EventTarget | null) {
+    if (!(target instanceof HTMLElement)) return false
+    return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)
+}
+
+const SHORTCUTS: { keys: string; label: string }[] = [
+    { keys: 'J / ↓', label: '次へ' },
+    { keys: 'K / ↑', label: '前へ' },
+    { keys: 'Enter / Space', label: '再生' },
+    { keys: 'A', label: '承認' },
+    { keys: 'R', label: '却下' },
+    { keys: 'E', label: '免除' },
+    { keys: 'C', label: 'コメント' },
+    { keys: 'X', label: '選択' },
+]
+
+export default function ReviewQueuePage() {
+    const { user } = useAuth()
+    const [submissions, setSubmissions] = useState<Submission[]>([])
+    const [approved, setApproved] = useState<ApprovedSubmission[]>([])
+    const [profiles, setProfiles] = useState<Record<string, ClientProfile>>({})
+    const [itemNames, setItemNames] = useState<Record<number, string>>({})
+    const [comments, setComments] = useState<Record<number, AdminComment[]>>({})
+    const [isLoading, setIsLoading] = useState(true)
+    const [selectedId, setSelectedId] = useState<number | null>(null)
+    const [playingId, setPlayingId] = useState<number | null>(null)
+    const [repsInput, setRepsInput] = useState('')
+    const [isUpdatingStatus, setIsUpdatingStatus] = useState(false)
+    // まとめて承認/却下する投稿
+    const [bulkSelectedIds, setBulkSelectedIds] = useState<Set<number>>(() => new Set())
+
+    const repsInputRef = useRef<HTMLInputElement>(null)
+    const commentInputRef = useRef<HTMLTextAreaElement>(null)
+    const itemRefs = useRef<Record<number, HTMLButtonElement | null>>({})
+
+    const fetchQueue = useCallback(async () => {
+        try {
+            const { data, error } = await supabase
+                .from('submissions')
+                .select('*')
+                .is('reviewed_at', null)
+                .eq('type', 'video')
+                .order('created_at', { ascending: true })
+
+            if (error) throw error
+            const rows = (data as Submission[]) || []
+
+            const userIds = Array.from(new Set(rows.map(s => s.user_id)))
+            const submissionIds = rows.map(s => s.id)
+            const itemIds = Array.from(new Set(rows.map(s => s.submission_item_id).filter((id): id is number => id != null)))
+            const targetDates = Array.from(new Set(rows.map(s => s.target_date).filter((d): d is string => d != null)))
+
+            const [profilesRes, itemsRes, commentsRes, approvedRes] = await Promise.all([
+                userIds.length > 0
+                    ? supabase.from('profiles').select('id, display_name, timezone').in('id', userIds)
+                    : Promise.resolve({ data: [], error: null }),
+                itemIds.length > 0
+                    ? supabase.from('submission_items').select('id, name').in('id', itemIds)
+                    : Promise.resolve({ data: [], error: null }),
+                submissionIds.length > 0
+                    ? (supabase.from('admin_comments') as any).select('*').in('submission_id', submissionIds)
+                    : Promise.resolve({ data: [], error: null }),
+                // リバイバル判定用: 同じ日付の承認済み投稿
+                userIds.length > 0 && targetDates.length > 0
+                    ? supabase
+                        .from('submissions')
+                        .select('id, user_id, status, target_date')
+                        .in('user_id', userIds)
+                        .in('target_date', targetDates)
+                        .eq('status', 'success')
+                    : Promise.resolve({ data: [], error: null }),
+            ])
+
+            if (profilesRes.error) console.error('Failed to fetch profiles:', profilesRes.error)
+            if (itemsRes.error) console.error('Failed to fetch submission items:', itemsRes.error)
+            if (commentsRes.error) console.warn('Comments fetch error:', commentsRes.error)
+            if (approvedRes.error) console.error('Failed to fetch approved submissions:', approvedRes.error)
+
+            setSubmissions(rows)
+            setProfiles(Object.fromEntries(((profilesRes.data as ClientProfile[]) || []).map(p => [p.id, p])))
+            setItemNames(Object.fromEntries(((itemsRes.data as { id: number; name: string }[]) || []).map(i => [i.id, i.name])))
+            const commentsBySubmission: Record<number, AdminComment[]> = {}
+            for (const c of (commentsRes.data as AdminComment[]) || []) {
+                (commentsBySubmission[c.submission_id] ??= []).push(c)
+            }
+            setComments(commentsBySubmission)
+            setApproved((approvedRes.data as ApprovedSubmission[]) || [])
+        } catch (err) {
+            console.error('Failed to fetch review queue:', err)
+        } finally {
+            setIsLoading(false)
+        }
+    }, [])
+
+    useEffect(() => {
+        fetchQueue()
+
+        const channel = supabase
+            .channel('review-queue-submissions')
+            .on(
+                'postgres_changes',
+                {
+                    event: '*',
+                    schema: 'public',
+                    table: 'submissions'
+                },
+                () => { fetchQueue() }
+            )
+            .on(
+                'postgres_changes',
+                {
+                    event: '*',
+                    schema: 'public',
+                    table: 'admin_comments'
+                },
+                () => { fetchQueue() }
+            )
+            .subscribe()
+
+        return () => { supabase.removeChannel(channel) }
+    }, [fetchQueue])
+
+    const groups = useMemo(() => groupReviewQueue(submissions), [submissions])
+    const selected = submissions.find(s => s.id === selectedId) ?? null
+    const playing = submissions.find(s => s.id === playingId) ?? null
+    const selectedComments = selected ? comments[selected.id] ?? [] : []
+
+    // 未選択・選択中の投稿がキューから消えた場合は先頭を選択
+    useEffect(() => {
+        if (selectedId === null || !submissions.some(s => s.id === selectedId)) {
+            setSelectedId(getAdjacentReviewItemId(groups, null, 1))
+        }
+    }, [groups, submissions, selectedId])
+
+    // キューから消えた投稿（他の画面で確認済みなど）は選択から外す
+    useEffect(() => {
+        setBulkSelectedIds(prev => {
+            const ids = new Set(submissions.map(s => s.id))
+            return Array.from(prev).every(id => ids.has(id)) ? prev : new Set(Array.from(prev).filter(id => ids.has(id)))
+        })
+    }, [submissions])
+
+    // 選択が変わったら入力欄を投稿の内容に合わせる
+    useEffect(() => {
+        setRepsInput(selected?.reps?.toString() || '')
+        if (selectedId !== null) itemRefs.current[selectedId]?.scrollIntoView({ block: 'nearest' })
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [selectedId])
+
+    const getUserName = (userId: string) => profiles[userId]?.display_name || userId.slice(0, 8)
+
+    const updateStatus = async (status: WorkoutStatus, reps?: number | null) => {
+        if (!selected || isUpdatingStatus) return
+        setIsUpdatingStatus(true)
+        try {
+            // カレンダーの承認/却下と同じ更新（リバイバル判定・集計値の再計算を含む）
+            const otherWorkouts = approved.filter(a => a.user_id === selected.user_id)
+            await applyWorkoutStatus({
+                workout: selected,
+                otherWorkouts,
+                status,
+                reps,
+                timeZone: profiles[selected.user_id]?.timezone,
+                now: new Date(),
+            })
+
+            if (status === 'success') {
+                setApproved(prev => [...prev, { id: selected.id, user_id: selected.user_id, status, target_date: selected.target_date }])
+            }
+            // 確認済みになった投稿をキューから外して次の投稿へ
+            setSelectedId(getNextReviewItemIdAfterRemoval(groups, selected.id))
+            setSubmissions(prev => prev.filter(s => s.id !== selected.id))
+        } catch (err: any) {
+            console.error('Status update failed:', err)
+            alert('ステータスの更新に失敗しました: ' + err.message)
+        } finally {
+            setIsUpdatingStatus(false)
+        }
+    }
+
+    const toggleBulkSelect = (id: number) => {
+        setBulkSelectedIds(prev => {
+            const next = new Set(prev)
+            if (next.has(id)) next.delete(id)
+            else next.add(id)
+            return next
+        })
+    }
+
+    // クライアントの投稿をすべて選択（すべて選択済みなら解除）
+    const toggleBulkSelectAll = (ids: number[]) => {
+        setBulkSelectedIds(prev => {
+            const next = new Set(prev)
+            if (ids.every(id => next.has(id))) ids.forEach(id => next.delete(id))
+            else ids.forEach(id => next.add(id))
+            return next
+        })
+    }
+
+    const handleBulkApply = async (status: WorkoutStatus, reps: number | null) => {
+        const ids = Array.from(bulkSelectedIds)
+        try {
+            const results = await applyBulkWorkoutStatus({ submissionIds: ids, status, reps, now: new Date() })
+            const revivalCount = results.filter(r => r.is_revival).length
+            toast({
+                title: `${results.length}件の投稿を更新しました`,
+                description: revivalCount ? `リバイバル: ${revivalCount}件` : undefined,
+            })
+            setBulkSelectedIds(new Set())
+            // 未確認に戻した投稿はキューに残る
+            if (status !== null) setSubmissions(prev => prev.filter(s => !bulkSelectedIds.has(s.id)))
+        } catch (err: any) {
+            console.error('Bulk status update failed:', err)
+            toast({
+                title: 'まとめて更新できませんでした',
+                description: err.message,
+                variant: 'destructive',
+            })
+        }
+    }
+
+    const handleApprove = () => {
+        const reps = parseInt(repsInput, 10)
+        if (isNaN(reps) || reps < 0) {
+            repsInputRef.current?.focus()
+            return
+        }
+        updateStatus('success', reps)
+    }
+
+    // クライアントからの未読の返信は選択したら既読にする
+    useEffect(() => {
+        if (!selected) return
+        if (getUnreadMessages(selectedComments, selected.user_id, true).length === 0) return
+
+        const submissionId = selected.id
+        ;(supabase.rpc as any)('mark_submission_comments_read', { p_submission_id: submissionId })
+            .then(({ error }: { error: any }) => {
+                if (error) {
+                    console.error('Mark as read failed:', error)
+                    return
+                }
+                const readAt = new Date().toISOString()
+                setComments(prev => ({
+                    ...prev,
+                    [submissionId]: (prev[submissionId] ?? []).map(c =>
+                        !c.read_at && c.user_id === selected.user_id ? { ...c, read_at: readAt } : c
+                    ),
+                }))
+            })
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [selectedId, selectedComments.length])
+
+    const handleSendComment = async (content: string) => {
+        if (!selected || !user?.id) return { success: false }
+        try {
+            const { data, error } = await (supabase
+                .from('admin_comments') as any)
+                .insert({
+                    submission_id: selected.id,
+                    user_id: user.id,
+                    content
+                })
+                .select()
+                .single()
+
+            if (error) throw error
+            setComments(prev => ({ ...prev, [selected.id]: [...(prev[selected.id] ?? []), data as AdminComment] }))
+            return { success: true }
+        } catch (err: any) {
+            console.error('Post comment failed:', err)
+            alert('メッセージの送信に失敗しました: ' + err.message)
+            return { success: false }
+        }
+    }
+
+    const handleDeleteComment = async (commentId: string) => {
+        if (!selected) return
+        try {
+            const { error } = await (supabase
+                .from('admin_comments') as any)
+                .delete()
+                .eq('id', commentId)
+
+            if (error) throw error
+            setComments(prev => ({ ...prev, [selected.id]: (prev[selected.id] ?? []).filter(c => c.id !== commentId) }))
+        } catch (err: any) {
+            console.error('Delete comment failed:', err)
+            alert('メッセージの削除に失敗しました: ' + err.message)
+        }
+    }
+
+    // キーボードショートカット（再生中は VideoPlayerModal のショートカットを優先）
+    useEffect(() => {
+        if (playingId !== null) return
+
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.metaKey || e.ctrlKey || e.altKey) return
+            if (isTypingTarget(e.target)) {
+                if (e.key === 'Escape') (e.target as HTMLElement).blur()
+                return
+            }
+
+            switch (e.key) {
+                case 'j': case 'J': case 'ArrowDown': {
+                    e.preventDefault()
+                    const next = getAdjacentReviewItemId(groups, selectedId, 1)
+                    if (next !== null) setSelectedId(next)
+                    break
+                }
+                case 'k': case 'K': case 'ArrowUp': {
+                    e.preventDefault()
+                    const prev = getAdjacentReviewItemId(groups, selectedId, -1)
+                    if (prev !== null) setSelectedId(prev)
+                    break
+                }
+                case 'Enter': case ' ':
+                    e.preventDefault()
+                    if (selected?.bunny_video_id || selected?.r2_key) setPlayingId(selected.id)
+                    break
+                case 'a': case 'A':
+                    e.preventDefault()
+                    handleApprove()
+                    break
+                case 'r': case 'R':
+                    e.preventDefault()
+                    updateStatus('fail')
+                    break
+                case 'e': case 'E':
+                    e.preventDefault()
+                    updateStatus('excused')
+                    break
+                case 'c': case 'C':
+                    e.preventDefault()
+                    commentInputRef.current?.focus()
+                    break
+                case 'x': case 'X':
+                    e.preventDefault()
+                    if (selectedId !== null) toggleBulkSelect(selectedId)
+                    break
+            }
+        }
+
+        document.addEventListener('keydown', handleKeyDown)
+        return () => document.removeEventListener('keydown', handleKeyDown)
+    })
+
+    const playingKey = playing ? playing.bunny_video_id || playing.r2_key : null
+    const videoAnnotations = useVideoAnnotations(playing?.id)
+    const selectedTimeZone = selected ? profiles[selected.user_id]?.timezone : null
+    const selectedRecordingInfo = selected ? getRecordingDateInfo(selected, selectedTimeZone) : null
+
+    return (
+        <div className="max-w-5xl mx-auto p-4 sm:p-6 space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+                <h1 className="text-xl font-bold shrink-0">
+                    レビュー待ち
+                    {submissions.length > 0 && (
+                        <span className="ml-2 text-sm font-normal text-muted-foreground">{submissions.length}件</span>
+                    )}
+                </h1>
+                <div className="hidden md:flex flex-wrap gap-x-3 gap-y-1 text-[10px] text-muted-foreground">
+                    {SHORTCUTS.map(s => (
+                        <span key={s.keys}>
+                            <kbd className="px-1 py-0.5 rounded border bg-muted font-mono">{s.keys}</kbd> {s.label}
+                        </span>
+                    ))}
+                </div>
+            </div>
+
+            {isLoading ? (
+                <div className="flex justify-center py-12">
+                    <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+                </div>
+            ) : submissions.length === 0 ? (
+                <Card>
+                    <CardContent className="py-12 flex flex-col items-center gap-2 text-muted-foreground">
+                        <ClipboardCheck className="w-8 h-8" />
+                        <p className="text-sm">未確認の投稿はありません</p>
+                    </CardContent>
+                </Card>
+            ) : (
+                <div className="grid gap-4 md:grid-cols-[minmax(0,1fr)_minmax(0,1.2fr)] items-start">
+                    {/* Queue */}
+                    <div className="space-y-3 md:max-h-[calc(100vh-10rem)] md:overflow-y-auto">
+                        {groups.map(group => (
+                            <Card key={group.userId} className="overflow-hidden">
+                                <div className="px-3 py-2 bg-muted/50 border-b flex items-center gap-2">
+                                    <input
+                                        type="checkbox"
+                                        checked={group.items.every(s => bulkSelectedIds.has(s.id))}
+                                        onChange={() => toggleBulkSelectAll(group.items.map(s => s.id))}
+                                        className="w-4 h-4 rounded shrink-0"
+                                        title="このクライアントの投稿をすべて選択"
+                                    />
+                                    <span className="text-sm font-bold truncate">{getUserName(group.userId)}</span>
+                                    <span className="ml-auto text-[10px] text-muted-foreground shrink-0">{group.items.length}件</span>
+                                </div>
+                                <div className="divide-y">
+                                    {group.items.map(s => (
+                                        <div
+                                            key={s.id}
+                                            className={`flex items-center gap-2 pl-3 transition-colors ${s.id === selectedId ? 'bg-primary/10' : 'hover:bg-muted/50'}`}
+                                        >
+                                            <input
+                                                type="checkbox"
+                                                checked={bulkSelectedIds.has(s.id)}
+                                                onChange={() => toggleBulkSelect(s.id)}
+                                                className="w-4 h-4 rounded shrink-0"
+                                            />
+                                            <button
+                                                ref={el => { itemRefs.current[s.id] = el }}
+                                                type="button"
+                                                onClick={() => setSelectedId(s.id)}
+                                                className="flex-1 min-w-0 text-left pr-3 py-2 text-xs flex items-center gap-2"
+                                            >
+                                                <span className="font-bold shrink-0">
+                                                    {s.target_date ? format(parseISO(s.target_date), 'M/d') : '—'}
+                                                </span>
+                                                <span className="truncate">
+                                                    {s.submission_item_id != null ? itemNames[s.submission_item_id] ?? '' : ''}
+                                                </span>
+                                                {comments[s.id]?.length > 0 && (
+                                                    <MessageSquare className={`w-3 h-3 shrink-0 ${getUnreadMessages(comments[s.id], s.user_id, true).length > 0 ? 'text-orange-500' : 'text-blue-500'}`} />
+                                                )}
+                                                <span className="ml-auto text-[10px] text-muted-foreground shrink-0">
+                                                    {formatDistanceToNow(parseISO(s.created_at), { addSuffix: true, locale: ja })}
+                                                </span>
+                                            </button>
+                                        </div>
+                                    ))}
+                                </div>
+                            </Card>
+                        ))}
+                    </div>
+
+                    {/* Detail */}
+                    {selected && (
+                        <Card className="md:sticky md:top-4">
+                            <CardContent className="p-4 space-y-4">
+                                <div className="flex items-start justify-between gap-2">
+                                    <div className="min-w-0">
+                                        <div className="text-sm font-bold truncate">{getUserName(selected.user_id)}</div>
+                                        <div className="text-xs text-muted-foreground">
+                                            {selected.target_date ? format(parseISO(selected.target_date), 'yyyy/MM/dd') : '日付不明'}
+                                            {selected.submission_item_id != null && itemNames[selected.submission_item_id] && ` ・ ${itemNames[selected.submission_item_id]}`}
+                                        </div>
+                                        <div className="text-[10px] text-muted-foreground/80">
+                                            投稿: {format(parseISO(selected.created_at), 'yyyy/MM/dd HH:mm')}
+                                        </div>
+                                        {selectedRecordingInfo && (
+                                            <div className={`flex items-center gap-1 text-[10px] ${selectedRecordingInfo.mismatch ? 'text-yellow-600 font-bold' : 'text-muted-foreground/80'}`}>
+                                                <Camera className="w-2.5 h-2.5 shrink-0" />
+                                                {selectedRecordingInfo.label}
+                                            </div>
+                                        )}
+                                    </div>
+                                </div>
+
+                                <button
+                                    type="button"
+                                    onClick={() => setPlayingId(selected.id)}
+                                    disabled={!selected.bunny_video_id && !selected.r2_key}
+                                    className="relative w-full aspect-video rounded-md bg-black/90 flex items-center justify-center overflow-hidden disabled:opacity-50"
+                                >
+                                    {selected.thumbnail_url && (
+                                        <img src={selected.thumbnail_url} alt="" className="absolute inset-0 w-full h-full object-contain" />
+                                    )}
+                                    <Play className="relative w-10 h-10 text-white drop-shadow" />
+                                </button>
+
+                                <div className="space-y-2">
+                                    <div className="flex items-center gap-2">
+                                        <Input
+                                            ref={repsInputRef}
+                                            type="number"
+                                            min="0"
+                                            placeholder="回数"
+                                            value={repsInput}
+                                            onChange={(e) => setRepsInput(e.target.value)}
+                                            onKeyDown={(e) => {
+                                                if (e.key === 'Enter') {
+                                                    e.preventDefault()
+                                                    handleApprove()
+                                                }
+                                            }}
+                                            className="h-9 w-24 text-sm"
+                                        />
+                                        <span className="text-sm text-muted-foreground">回</span>
+                                        <Button
+                                            size="sm"
+                                            className="h-9 gap-1.5 bg-green-600 hover:bg-green-700"
+                                            onClick={handleApprove}
+                                            disabled={isUpdatingStatus}
+                                        >
+                                            {isUpdatingStatus ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <CheckCircle2 className="w-3.5 h-3.5" />}
+                                            承認
+                                        </Button>
+                                    </div>
+                                    <div className="flex items-center gap-2">
+                                        <Button
+                                            size="sm"
+                                            variant="outline"
+                                            className="h-8 gap-1.5 text-red-600 hover:bg-red-50 hover:border-red-200"
+                                            onClick={() => updateStatus('fail')}
+                                            disabled={isUpdatingStatus}
+                                        >
+                                            <XCircle className="w-3.5 h-3.5" /> 却下
+                                        </Button>
+                                        <Button
+                                            size="sm"
+                                            variant="outline"
+                                            className="h-8 gap-1.5"
+                                            onClick={() => updateStatus('excused')}
+                                            disabled={isUpdatingStatus}
+                                        >
+                                            <MinusCircle className="w-3.5 h-3.5" /> 免除
+                                        </Button>
+                                    </div>
+                                </div>
+
+                                <div className="space-y-2">
+                                    <h5 className="text-xs font-bold text-slate-500 uppercase tracking-wider">メッセージ</h5>
+                                    <CommentThread
+                                        messages={selectedComments}
+                                        submissionOwnerId={selected.user_id}
+                                        isAdmin
+                                        ownerName={getUserName(selected.user_id)}
+                                        onSend={handleSendComment}
+                                        onDelete={handleDeleteComment}
+                                        inputRef={commentInputRef}
+                                    />
+                                </div>
+                            </CardContent>
+                        </Card>
+                    )}
+                </div>
+            )}
+
+            <BulkActionBar
+                selectedCount={bulkSelectedIds.size}
+                onApply={handleBulkApply}
+                onClear={() => setBulkSelectedIds(new Set())}
+            />
+
+            <VideoPlayerModal
+                videoUrl={playingKey ? getBunnyVideoUrl(playingKey) : null}
+                onClose={() => setPlayingId(null)}
+                recordingInfo={playing ? getRecordingDateInfo(playing, profiles[playing.user_id]?.timezone) : null}
+                annotations={videoAnnotations.annotations}
+                onAddAnnotation={videoAnnotations.addAnnotation}
+                onDeleteAnnotation={videoAnnotations.deleteAnnotation}
+            />
+        </div>
+    )
+}
@@ -1,10 +1,12 @@
 import { useEffect, useState } from 'react'
 import { supabase } from '@/lib/supabase'
-import { GamificationSettings, DEFAULT_GAMIFICATION_SETTINGS, VersionedSettings, DEFAULT_VERSIONED_SETTINGS, GamificationSettingVersion, PreconfigGamificationSettings } from '@/types/gamification.types'
+import { GamificationSettings, DEFAULT_GAMIFICATION_SETTINGS, VersionedSettings, DEFAULT_VERSIONED_SETTINGS, GamificationSettingVersion, PreconfigGamificationSettings, ShieldLedgerEntry, GoalType, GOAL_TYPE_OPTIONS } from '@/types/gamification.types'
 import { PreconfigData, PreconfigRule, PreconfigItem, DEFAULT_PRECONFIG } from '@/types/preconfig.types'
 import { useSubmissionRules } from '@/hooks/useSubmissionRules'
 import { useSubmissionItems } from '@/hooks/useSubmissionItems'
 import { useGamificationVersions } from '@/hooks/useGamificationVersions'
+import { useShieldLedger } from '@/hooks/useShieldLedger'
+import { useGamificationGoals } from '@/hooks/useGamificationGoals'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
@@ -19,6 +21,10 @@ import {
     SelectValue,
 } from "@/components/ui/select"
 import { getBunnyStats, type BunnyStats } from '@/lib/bunny'
+import { DEFAULT_TIMEZONE, TIMEZONE_OPTIONS } from '@/lib/timezone'
+import { DuplicateVideoPolicy } from '@/utils/duplicateDetection'
+import { RecordingDatePolicy } from '@/utils/recordingDate'
+import { DEFAULT_COMPRESSION_MAX_HEIGHT, DEFAULT_COMPRESSION_BITRATE_KBPS, COMPRESSION_MAX_HEIGHT_OPTIONS } from '@/lib/upload-constants'
 import { Popover, PopoverTrigger, PopoverContent } from '@/components/ui/popover'
 import { cn } from '@/lib/utils'
 import { format, parseISO, max as dateMax } from 'date-fns'
@@ -124,6 +130,12 @@ export default function SubmissionSettingsPage() {
     const [futureSubmissionDays, setFutureSubmissionDays] = useState<number>(0)
     const [deadlineMode, setDeadlineMode] = useState<'none' | 'mark'>('none')
     const [showDuplicateToUser, setShowDuplicateToUser] = useState<boolean>(false)
+    const [duplicateVideoPolicy, setDuplicateVideoPolicy] = useState<DuplicateVideoPolicy>('warn')
+    const [recordingDatePolicy, setRecordingDatePolicy] = useState<RecordingDatePolicy>('warn')
+    const [timezone, setTimezone] = useState<string>(DEFAULT_TIMEZONE)
+    const [videoCompressionEnabled, setVideoCompressionEnabled] = useState<boolean>(false)
+    const [videoCompressionMaxHeight, setVideoCompressionMaxHeight] = useState<number>(DEFAULT_COMPRESSION_MAX_HEIGHT)
+    const [videoCompressionBitrateKbps, setVideoCompressionBitrateKbps] = useState<number>(DEFAULT_COMPRESSION_BITRATE_KBPS)
     const [isUpdatingCalendarSettings, setIsUpdatingCalendarSettings] = useState(false)
 
     // Gamification settings state
@@ -143,7 +155,7 @@ export default function SubmissionSettingsPage() {
         if (isPreconfig(selectedClientId)) {
             // preconfig モードでは preconfigData から取得
             const gs = preconfigData?.profile_settings?.gamification_settings as PreconfigGamificationSettings | null
-            setVersionedSettings(gs?.versioned_settings ?? DEFAULT_VERSIONED_SETTINGS)
+            setVersionedSettings({ ...DEFAULT_VERSIONED_SETTINGS, ...gs?.versioned_settings })
         } else if (activeVersion) {
             setVersionedSettings({
                 condition_type: activeVersion.condition_type,
@@ -153,6 +165,8 @@ export default function SubmissionSettingsPage() {
                 allow_late: activeVersion.allow_late,
                 use_target_days: activeVersion.use_target_days,
                 custom_required_days: activeVersion.custom_required_days,
+                week_starts_on: activeVersion.week_starts_on,
+                shield_max_stock: activeVersion.shield_max_stock,
             })
         } else if (!versionsLoading) {
             setVersionedSettings(DEFAULT_VERSIONED_SETTINGS)
@@ -244,8 +258,16 @@ export default function SubmissionSettingsPage() {
             setFutureSubmissionDays(ps.future_submission_days)
             setDeadlineMode(ps.deadline_mode)
             setShowDuplicateToUser(ps.show_duplicate_to_user)
+            setDuplicateVideoPolicy(ps.duplicate_video_policy ?? 'warn')
+            setRecordingDatePolicy(ps.recording_date_policy ?? 'warn')
             setVideoRetentionDays(ps.video_retention_days)
-            setGamificationSettings(ps.gamification_settings || DEFAULT_GAMIFICATION_SETTINGS)
+            setTimezone(ps.timezone ?? DEFAULT_TIMEZONE)
+            setVideoCompressionEnabled(ps.video_compression_enabled ?? false)
+            setVideoCompressionMaxHeight(ps.video_compression_max_height ?? DEFAULT_COMPRESSION_MAX_HEIGHT)
+            setVideoCompressionBitrateKbps(ps.video_compression_bitrate_kbps ?? DEFAULT_COMPRESSION_BITRATE_KBPS)
+            setGamificationSettings(ps.gamification_settings
+                ? { ...DEFAULT_GAMIFICATION_SETTINGS, ...ps.gamification_settings }
+                : DEFAULT_GAMIFICATION_SETTINGS)
         }
         loadPreconfig()
     }, [selectedClientId])
@@ -267,16 +289,22 @@ export default function SubmissionSettingsPage() {
 
             const { data, error } = await supabase
                 .from('profiles')
-                .select('past_submission_days, future_submission_days, deadline_mode, show_duplicate_to_user, video_retention_days')
+                .select('past_submission_days, future_submission_days, deadline_mode, show_duplicate_to_user, duplicate_video_policy, recording_date_policy, video_retention_days, timezone, video_compression_enabled, video_compression_max_height, video_compression_bitrate_kbps')
                 .eq('id', selectedClientId)
-                .single() as { data: { past_submission_days: number | null, future_submission_days: number | null, deadline_mode: 'none' | 'mark' | null, show_duplicate_to_user: boolean | null, video_retention_days: number | null } | null, error: any }
+                .single() as { data: { past_submission_days: number | null, future_submission_days: number | null, deadline_mode: 'none' | 'mark' | null, show_duplicate_to_user: boolean | null, duplicate_video_policy: DuplicateVideoPolicy | null, recording_date_policy: RecordingDatePolicy | null, video_retention_days: number | null, timezone: string | null, video_compression_enabled: boolean | null, video_compression_max_height: number | null, video_compression_bitrate_kbps: number | null } | null, error: any }
 
             if (!error && data) {
                 setPastSubmissionDays(data.past_submission_days ?? 0)
                 setFutureSubmissionDays(data.future_submission_days ?? 0)
                 setDeadlineMode(data.deadline_mode ?? 'none')
                 setShowDuplicateToUser(data.show_duplicate_to_user ?? false)
+                setDuplicateVideoPolicy(data.duplicate_video_policy ?? 'warn')
+                setRecordingDatePolicy(data.recording_date_policy ?? 'warn')
                 setVideoRetentionDays(data.video_retention_days ?? 30)
+                setTimezone(data.timezone ?? DEFAULT_TIMEZONE)
+                setVideoCompressionEnabled(data.video_compression_enabled ?? false)
+                setVideoCompressionMaxHeight(data.video_compression_max_height ?? DEFAULT_COMPRESSION_MAX_HEIGHT)
+                setVideoCompressionBitrateKbps(data.video_compression_bitrate_kbps ?? DEFAULT_COMPRESSION_BITRATE_KBPS)
             }
         }
 
@@ -343,7 +371,13 @@ export default function SubmissionSettingsPage() {
                         future_submission_days: futureSubmissionDays,
                         deadline_mode: deadlineMode,
                         show_duplicate_to_user: showDuplicateToUser,
+                        duplicate_video_policy: duplicateVideoPolicy,
+                        recording_date_policy: recordingDatePolicy,
                         video_retention_days: videoRetentionDays,
+                        timezone,
+                        video_compression_enabled: videoCompressionEnabled,
+                        video_compression_max_height: videoCompressionMaxHeight,
+                        video_compression_bitrate_kbps: videoCompressionBitrateKbps,
                     },
                 }
                 setPreconfigData(next)
@@ -357,7 +391,13 @@ export default function SubmissionSettingsPage() {
                     future_submission_days: futureSubmissionDays,
                     deadline_mode: deadlineMode,
                     show_duplicate_to_user: showDuplicateToUser,
-                    video_retention_days: videoRetentionDays
+                    duplicate_video_policy: duplicateVideoPolicy,
+                    recording_date_policy: recordingDatePolicy,
+                    video_retention_days: videoRetentionDays,
+                    timezone,
+                    video_compression_enabled: videoCompressionEnabled,
+                    video_compression_max_height: videoCompressionMaxHeight,
+                    video_compression_bitrate_kbps: videoCompressionBitrateKbps
                 })
                 .eq('id', selectedClientId)
 
@@ -467,6 +507,13 @@ export default function SubmissionSettingsPage() {
         }))
     }
 
+    const updateTitlesSettings = (updates: Partial<GamificationSettings['titles']>) => {
+        setGamificationSettings(prev => ({
+            ...prev,
+            titles: { ...prev.titles, ...updates }
+        }))
+    }
+
     const { items: submissionItems, refetch: refetchItems, handleUpdateItemEffectiveFrom } = useSubmissionItems(effectiveProfileId)
     const [newItemName, setNewItemName] = useState('')
 
@@ -1284,10 +1331,10 @@ export default function SubmissionSettingsPage() {
                     <Card className="border-primary/20 shadow-md">
                         <CardHeader className="bg-primary/5 border-b">
                             <CardTitle className="flex items-center gap-2 text-primary">
-                                <Settings className="w-5 h-5" /> 重複の表示
+                                <Settings className="w-5 h-5" /> 重複・撮影日の確認
                             </CardTitle>
                             <CardDescription>
-                                同じ動画・同じ長さの動画がアップロードされた場合の「重複の可能性」表示をクライアントに見せるかどうかを設定します。
+                                同じ動画・同じ長さの動画がアップロードされた場合の「重複の可能性」表示をクライアントに見せるかどうかと、アップロード時の重複・撮影日のチェックを設定します。
                             </CardDescription>
                         </CardHeader>
                         <CardContent className="space-y-4 pt-6">
@@ -1325,6 +1372,164 @@ export default function SubmissionSettingsPage() {
                                     </div>
                                 </label>
                             </div>
+                            <div className="space-y-2 pt-4 border-t">
+                                <div>
+                                    <Label className="font-semibold">アップロード時のチェック</Label>
+                                    <p className="text-xs text-muted-foreground mt-1">
+                                        動画を選択したときに、同じ動画（Hash値一致）が別の日・項目に提出済みかを確認します。同じ日・項目の差し替えは対象外です。
+                                    </p>
+                                </div>
+                                {([
+                                    { value: 'none', label: 'チェックしない', description: '同じ動画でもそのままアップロードできます' },
+                                    { value: 'warn', label: '警告のみ（デフォルト）', description: 'クライアントに警告を表示しますが、アップロードは可能です' },
+                                    { value: 'block', label: 'アップロードを禁止', description: '同じ動画はアップロードできません' },
+                                ] as const).map(opt => (
+                                    <label key={opt.value} className="flex items-start gap-3 p-3 rounded-lg border cursor-pointer hover:bg-muted/50 transition-colors">
+                                        <input
+                                            type="radio"
+                                            name="duplicateVideoPolicy"
+                                            value={opt.value}
+                                            checked={duplicateVideoPolicy === opt.value}
+                                            onChange={() => setDuplicateVideoPolicy(opt.value)}
+                                            className="mt-1"
+                                        />
+                                        <div>
+                                            <div className="font-medium">{opt.label}</div>
+                                            <p className="text-xs text-muted-foreground">
+                                                {opt.description}
+                                            </p>
+                                        </div>
+                                    </label>
+                                ))}
+                            </div>
+                            <div className="space-y-2 pt-4 border-t">
+                                <div>
+                                    <Label className="font-semibold">撮影日のチェック</Label>
+                                    <p className="text-xs text-muted-foreground mt-1">
+                                        動画の作成日時（読み取れない場合はファイルの更新日時）から撮影日を判定し、提出日と異なる場合にクライアントへ知らせます。撮影日は投稿一覧と動画プレーヤーに表示されます。
+                                    </p>
+                                </div>
+                                {([
+                                    { value: 'none', label: 'チェックしない', description: '撮影日に関係なくアップロードできます' },
+                                    { value: 'warn', label: '警告のみ（デフォルト）', description: 'クライアントに警告を表示しますが、アップロードは可能です' },
+                                    { value: 'block', label: 'アップロードを禁止', description: '提出日と異なる日に撮影した動画はアップロードできません' },
+                                ] as const).map(opt => (
+                                    <label key={opt.value} className="flex items-start gap-3 p-3 rounded-lg border cursor-pointer hover:bg-muted/50 transition-colors">
+                                        <input
+                                            type="radio"
+                                            name="recordingDatePolicy"
+                                            value={opt.value}
+                                            checked={recordingDatePolicy === opt.value}
+                                            onChange={() => setRecordingDatePolicy(opt.value)}
+                                            className="mt-1"
+                                        />
+                                        <div>
+                                            <div className="font-medium">{opt.label}</div>
+                                            <p className="text-xs text-muted-foreground">
+                                                {opt.description}
+                                            </p>
+                                        </div>
+                                    </label>
+                                ))}
+                            </div>
+                            <Button
+                                onClick={handleUpdateCalendarSettings}
+                                disabled={isUpdatingCalendarSettings}
+                                className="w-full"
+                            >
+                                {isUpdatingCalendarSettings ? '保存中...' : '設定を保存'}
+                            </Button>
+                        </CardContent>
+                    </Card>
+                </div>
+
+                {/* Video Compression Settings Card */}
+                <div className="space-y-6 md:col-span-1 xl:col-span-2">
+                    <Card className="border-primary/20 shadow-md">
+                        <CardHeader className="bg-primary/5 border-b">
+                            <CardTitle className="flex items-center gap-2 text-primary">
+                                <Settings className="w-5 h-5" /> 動画の圧縮
+                            </CardTitle>
+                            <CardDescription>
+                                アップロード前にクライアントの端末で動画を縮小・再エンコードします。大きな動画のアップロードが失敗しやすい場合に有効にしてください。
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent className="space-y-4 pt-6">
+                            <div className="space-y-2">
+                                <label className="flex items-start gap-3 p-3 rounded-lg border cursor-pointer hover:bg-muted/50 transition-colors">
+                                    <input
+                                        type="radio"
+                                        name="videoCompressionEnabled"
+                                        value="false"
+                                        checked={!videoCompressionEnabled}
+                                        onChange={() => setVideoCompressionEnabled(false)}
+                                        className="mt-1"
+                                    />
+                                    <div>
+                                        <div className="font-medium">圧縮しない（デフォルト）</div>
+                                        <p className="text-xs text-muted-foreground">
+                                            撮影した動画をそのままアップロードします
+                                        </p>
+                                    </div>
+                                </label>
+                                <label className="flex items-start gap-3 p-3 rounded-lg border cursor-pointer hover:bg-muted/50 transition-colors">
+                                    <input
+                                        type="radio"
+                                        name="videoCompressionEnabled"
+                                        value="true"
+                                        checked={videoCompressionEnabled}
+                                        onChange={() => setVideoCompressionEnabled(true)}
+                                        className="mt-1"
+                                    />
+                                    <div>
+                                        <div className="font-medium">圧縮してからアップロード</div>
+                                        <p className="text-xs text-muted-foreground">
+                                            下記の解像度・ビットレートに縮小してからアップロードします
+                                        </p>
+                                    </div>
+                                </label>
+                            </div>
+                            {videoCompressionEnabled && (
+                                <div className="grid grid-cols-2 gap-4">
+                                    <div className="space-y-2">
+                                        <Label>解像度（短辺）</Label>
+                                        <Select
+                                            value={String(videoCompressionMaxHeight)}
+                                            onValueChange={(v) => setVideoCompressionMaxHeight(Number(v))}
+                                        >
+                                            <SelectTrigger>
+                                                <SelectValue />
+                                            </SelectTrigger>
+                                            <SelectContent>
+                                                {!COMPRESSION_MAX_HEIGHT_OPTIONS.includes(videoCompressionMaxHeight) && (
+                                                    <SelectItem value={String(videoCompressionMaxHeight)}>{videoCompressionMaxHeight}p</SelectItem>
+                                                )}
+                                                {COMPRESSION_MAX_HEIGHT_OPTIONS.map(h => (
+                                                    <SelectItem key={h} value={String(h)}>{h}p</SelectItem>
+                                                ))}
+                                            </SelectContent>
+                                        </Select>
+                                    </div>
+                                    <div className="space-y-2">
+                                        <Label>ビットレート</Label>
+                                        <div className="flex items-center gap-3">
+                                            <Input
+                                                type="number"
+                                                min={250}
+                                                max={20000}
+                                                step={250}
+                                                value={videoCompressionBitrateKbps}
+                                                onChange={(e) => setVideoCompressionBitrateKbps(Number(e.target.value))}
+                                                className="w-24"
+                                            />
+                                            <span className="text-sm text-muted-foreground">kbps</span>
+                                        </div>
+                                    </div>
+                                </div>
+                            )}
+                            <p className="text-xs text-muted-foreground">
+                                ※ 対応ブラウザ（WebCodecs 対応）でのみ圧縮され、非対応の場合や圧縮に失敗した場合は元のファイルをそのままアップロードします。音声は AAC で再エンコードして含めます（音声を圧縮できない環境では圧縮しません）。圧縮には動画の長さと同程度の時間がかかります。
+                            </p>
                             <Button
                                 onClick={handleUpdateCalendarSettings}
                                 disabled={isUpdatingCalendarSettings}
@@ -1403,6 +1608,26 @@ export default function SubmissionSettingsPage() {
                                             <span className="text-sm">日/週</span>
                                         </label>
 
+                                        {/* 週の開始曜日 */}
+                                        <div className="flex items-center gap-3">
+                                            <span className="text-sm">週の開始曜日:</span>
+                                            <Select
+                                                value={String(versionedSettings.week_starts_on)}
+                                                onValueChange={(v) => setVersionedSettings(prev => ({ ...prev, week_starts_on: v === '0' ? 0 : 1 }))}
+                                            >
+                                                <SelectTrigger className="w-36">
+                                                    <SelectValue />
+                                                </SelectTrigger>
+                                                <SelectContent>
+                                                    <SelectItem value="1">月曜（月〜日）</SelectItem>
+                                                    <SelectItem value="0">日曜（日〜土）</SelectItem>
+                                                </SelectContent>
+                                            </Select>
+                                        </div>
+                                        <p className="text-xs text-muted-foreground">
+                                            ストレート達成・グループ設定の週の区切り。変更は保存日以降の週に適用されます
+                                        </p>
+
                                         {/* 許容設定 */}
                                         <div className="border-t pt-3 space-y-2">
                                             <Label className="text-xs text-muted-foreground">ストレート達成時に許容する項目</Label>
@@ -1494,6 +1719,19 @@ export default function SubmissionSettingsPage() {
                                             />
                                             <span className="text-sm">月の全対象日をストレート達成でシールド獲得</span>
                                         </label>
+                                        <div className="flex items-center gap-3">
+                                            <span className="text-sm">所持上限:</span>
+                                            <NumberStepper
+                                                value={versionedSettings.shield_max_stock}
+                                                onChange={(v) => setVersionedSettings(prev => ({ ...prev, shield_max_stock: v }))}
+                                                min={1}
+                                                max={99}
+                                            />
+                                            <span className="text-sm">個</span>
+                                        </div>
+                                        <p className="text-xs text-muted-foreground">
+                                            上限に達している間に達成した分は獲得できません。変更は保存日以降の達成に適用され、獲得済みのシールドは減りません
+                                        </p>
                                     </div>
                                 )}
                             </div>
@@ -1538,7 +1776,29 @@ export default function SubmissionSettingsPage() {
                                     </label>
                                 </div>
                                 <p className="text-xs text-muted-foreground pl-7">
-                                    投稿を続けた日数。週明け月曜に前週のノルマ達成を判定、未達ならリセット
+                                    投稿を続けた日数。週明けに前週のノルマ達成を判定、未達ならリセット
+                                </p>
+                            </div>
+
+                            {/* 称号 */}
+                            <div className="space-y-3 p-4 rounded-lg border bg-muted/10">
+                                <div className="flex items-center justify-between">
+                                    <div className="flex items-center gap-2">
+                                        <span className="text-lg">🏅</span>
+                                        <Label className="font-semibold">称号</Label>
+                                    </div>
+                                    <label className="flex items-center gap-2 cursor-pointer">
+                                        <input
+                                            type="checkbox"
+                                            checked={gamificationSettings.titles.enabled}
+                                            onChange={(e) => updateTitlesSettings({ enabled: e.target.checked })}
+                                            className="w-4 h-4 rounded"
+                                        />
+                                        <span className="text-sm">表示する</span>
+                                    </label>
+                                </div>
+                                <p className="text-xs text-muted-foreground pl-7">
+                                    連続日数に応じた称号（1日・3日・7日…3650日）を表示し、新しい称号の到達時にお祝いを表示
                                 </p>
                             </div>
 
@@ -1607,6 +1867,11 @@ export default function SubmissionSettingsPage() {
                                 {isUpdatingGamification ? '保存中...' : 'ゲーミフィケーション設定を保存'}
                             </Button>
 
+                            {/* カスタム目標（追加・終了は即時反映） */}
+                            {effectiveProfileId && (
+                                <CustomGoalsSection userId={effectiveProfileId} />
+                            )}
+
                             {/* 設定履歴 */}
                             {!isPreconfig(selectedClientId) && deletedVersions.length > 0 && (
                                 <DeletedAccordion
@@ -1624,6 +1889,8 @@ export default function SubmissionSettingsPage() {
                                                 { key: 'リバイバル', value: v.allow_revival ? '可' : '不可' },
                                                 { key: 'シールド', value: v.allow_shield ? '可' : '不可' },
                                                 { key: '対象日数', value: v.use_target_days ? '自動（目標日数設定）' : `${v.custom_required_days}日` },
+                                                { key: '週の開始', value: v.week_starts_on === 0 ? '日曜' : '月曜' },
+                                                { key: 'シールド上限', value: `${v.shield_max_stock}個` },
                                             ],
                                         }))
                                     }
@@ -1634,6 +1901,11 @@ export default function SubmissionSettingsPage() {
                                     }}
                                 />
                             )}
+
+                            {/* シールド台帳 */}
+                            {effectiveProfileId && (
+                                <ShieldLedgerAccordion userId={effectiveProfileId} />
+                            )}
                         </CardContent>
                     </Card>
                 </div>
@@ -1967,6 +2239,27 @@ export default function SubmissionSettingsPage() {
                                             ※ 期限超過マーク表示を選択した場合、その日付の提出期限時刻を過ぎて投稿すると is_late が記録されます。過去日付への投稿は、期限時刻に関わらず常に期限超過として記録されます。なお、is_late（期限超過）と is_revival（過去の空白日への復活投稿）は独立した判定です。
                                         </p>
                                     </div>
+                                    <div className="space-y-2">
+                                        <Label>タイムゾーン</Label>
+                                        <Select value={timezone} onValueChange={setTimezone}>
+                                            <SelectTrigger>
+                                                <SelectValue />
+                                            </SelectTrigger>
+                                            <SelectContent>
+                                                {!TIMEZONE_OPTIONS.some(opt => opt.value === timezone) && (
+                                                    <SelectItem value={timezone}>{timezone}</SelectItem>
+                                                )}
+                                                {TIMEZONE_OPTIONS.map(opt => (
+                                                    <SelectItem key={opt.value} value={opt.value}>
+                                                        {opt.label}
+                                                    </SelectItem>
+                                                ))}
+                                            </SelectContent>
+                                        </Select>
+                                        <p className="text-xs text-muted-foreground">
+                                            提出期限・「今日」・連続日数の日付の区切りはこのタイムゾーンで判定します（端末のタイムゾーンには依存しません）
+                                        </p>
+                                    </div>
                                     <div className="space-y-2">
                                         <label className="flex items-start gap-3 p-3 rounded-lg border cursor-pointer hover:bg-muted/50 transition-colors">
                                             <input
@@ -2485,3 +2778,235 @@ function DeletedAccordion({ label, items, onUpdateEffectiveTo, onReactivate, pas
         </div>
     )
 }
+
+function CustomGoalsSection({ userId }: { userId: string }) {
+    const { activeGoals, loading, addGoal, endGoal } = useGamificationGoals({ userId })
+    const [title, setTitle] = useState('')
+    const [goalType, setGoalType] = useState<GoalType>('monthly_days')
+    const [target, setTarget] = useState(20)
+    const [reward, setReward] = useState('')
+    const [isSaving, setIsSaving] = useState(false)
+
+    const typeOption = (type: GoalType) => GOAL_TYPE_OPTIONS.find(o => o.value === type)!
+
+    const handleAdd = async () => {
+        if (!title.trim()) {
+            alert('目標名を入力してください')
+            return
+        }
+        setIsSaving(true)
+        const ok = await addGoal({
+            title: title.trim(),
+            goal_type: goalType,
+            target,
+            reward: reward.trim() || null,
+        })
+        setIsSaving(false)
+        if (!ok) {
+            alert('目標の追加に失敗しました')
+            return
+        }
+        setTitle('')
+        setReward('')
+    }
+
+    const handleEnd = async (id: number, goalTitle: string) => {
+        if (!confirm(`目標「${goalTitle}」を終了しますか？（達成履歴は残ります）`)) return
+        const ok = await endGoal(id)
+        if (!ok) alert('目標の終了に失敗しました')
+    }
+
+    return (
+        <div className="space-y-3 p-4 rounded-lg border bg-muted/10">
+            <div className="flex items-center gap-2">
+                <span className="text-lg">🎯</span>
+                <Label className="font-semibold">カスタム目標</Label>
+            </div>
+            <p className="text-xs text-muted-foreground pl-7">
+                月間チャレンジなどの独自目標。クライアントのカレンダーに進捗バーを表示し、達成時にお祝いを表示します
+            </p>
+
+            {loading ? (
+                <p className="text-xs text-muted-foreground pl-7">読み込み中...</p>
+            ) : activeGoals.length === 0 ? (
+                <p className="text-xs text-muted-foreground pl-7">設定中の目標はありません</p>
+            ) : (
+                <div className="space-y-2 pl-7">
+                    {activeGoals.map(goal => (
+                        <div key={goal.id} className="flex items-center justify-between gap-2 p-2 rounded border bg-background text-sm">
+                            <div className="min-w-0">
+                                <p className="font-medium truncate">{goal.title}</p>
+                                <p className="text-xs text-muted-foreground">
+                                    {typeOption(goal.goal_type).label} {goal.target}{typeOption(goal.goal_type).unit}
+                                    {goal.reward && ` ・ ご褒美: ${goal.reward}`}
+                                    {` ・ ${format(parseISO(goal.effective_from), 'yyyy/MM/dd')}〜`}
+                                </p>
+                            </div>
+                            <Button variant="ghost" size="icon"
+                                className="h-7 w-7 shrink-0 text-muted-foreground hover:text-destructive"
+                                title="終了"
+                                onClick={() => handleEnd(goal.id, goal.title)}
+                            >
+                                <Trash2 className="w-4 h-4" />
+                            </Button>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            <div className="border-t pt-3 space-y-2 pl-7">
+                <Input
+                    value={title}
+                    onChange={(e) => setTitle(e.target.value)}
+                    placeholder="目標名（例: 4月チャレンジ）"
+                    maxLength={50}
+                />
+                <div className="flex flex-wrap items-center gap-2">
+                    <Select value={goalType} onValueChange={(v) => setGoalType(v as GoalType)}>
+                        <SelectTrigger className="w-56">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            {GOAL_TYPE_OPTIONS.map(o => (
+                                <SelectItem key={o.value} value={o.value}>{o.label}</SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                    <Input
+                        type="number"
+                        min={1}
+                        value={target}
+                        onChange={(e) => setTarget(Math.max(1, parseInt(e.target.value) || 1))}
+                        className="w-24"
+                    />
+                    <span className="text-sm">{typeOption(goalType).unit}</span>
+                </div>
+                <Input
+                    value={reward}
+                    onChange={(e) => setReward(e.target.value)}
+                    placeholder="ご褒美（任意）"
+                />
+                <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleAdd}
+                    disabled={isSaving}
+                    className="w-full"
+                >
+                    <Plus className="w-4 h-4 mr-1" />
+                    {isSaving ? '追加中...' : '目標を追加'}
+                </Button>
+            </div>
+        </div>
+    )
+}
+
+const SHIELD_LEDGER_LABELS: Record<ShieldLedgerEntry['entry_type'], string> = {
+    grant: '獲得',
+    revoke: '獲得取消',
+    consume: '使用',
+    refund: '使用取消',
+    forfeit: '上限のため見送り',
+}
+
+function ShieldLedgerAccordion({ userId }: { userId: string }) {
+    const [open, setOpen] = useState(false)
+    const [currentPage, setCurrentPage] = useState(1)
+    const ITEMS_PER_PAGE = 10
+    const { rows, balance, loading, refetch } = useShieldLedger(open ? userId : undefined)
+
+    // ページネーション計算
+    const totalPages = Math.max(1, Math.ceil(rows.length / ITEMS_PER_PAGE))
+    const safePage = Math.min(currentPage, totalPages)
+    const paginatedRows = rows.slice(
+        (safePage - 1) * ITEMS_PER_PAGE,
+        safePage * ITEMS_PER_PAGE
+    )
+
+    // 獲得・使用の対象（週 / 日付）
+    const describe = (row: typeof rows[number]) => {
+        if (row.period_start) {
+            return row.period_type === 'month'
+                ? `${format(parseISO(row.period_start), 'yyyy/MM')} 月間達成`
+                : `${format(parseISO(row.period_start), 'yyyy/MM/dd')} 週のストレート達成`
+        }
+        if (row.target_date) return `${format(parseISO(row.target_date), 'yyyy/MM/dd')} に適用`
+        return '-'
+    }
+
+    return (
+        <div className="border rounded-lg bg-muted/5">
+            <button
+                className="w-full flex items-center gap-2 px-3 py-2 text-sm text-muted-foreground hover:bg-muted/20 transition-colors rounded-lg"
+                onClick={() => { setOpen(!open); setCurrentPage(1) }}
+            >
+                <ChevronDown className={cn("w-4 h-4 transition-transform", open && "rotate-180")} />
+                <span>シールド台帳</span>
+            </button>
+            {open && (
+                <div className="px-3 pb-3">
+                    <div className="flex items-center justify-between pb-2 text-xs text-muted-foreground">
+                        <span>台帳上の残数: <span className="font-semibold text-foreground">{balance}</span></span>
+                        <Button variant="ghost" size="icon"
+                            className="h-6 w-6 text-muted-foreground hover:text-primary"
+                            title="再読み込み"
+                            onClick={() => refetch()}
+                        >
+                            <RotateCcw className="w-3.5 h-3.5" />
+                        </Button>
+                    </div>
+                    {loading ? (
+                        <p className="text-xs text-muted-foreground">読み込み中...</p>
+                    ) : rows.length === 0 ? (
+                        <p className="text-xs text-muted-foreground">記録はありません</p>
+                    ) : (
+                    <div className="overflow-x-auto">
+                    <table className="w-full text-xs">
+                        <thead>
+                            <tr className="text-muted-foreground border-b">
+                                <th className="text-left py-1 font-medium">日時</th>
+                                <th className="text-left py-1 font-medium">種別</th>
+                                <th className="text-left py-1 font-medium">内容</th>
+                                <th className="text-right py-1 font-medium">増減</th>
+                                <th className="text-right py-1 font-medium">残数</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {paginatedRows.map(row => (
+                                <tr key={row.id} className="border-b last:border-0">
+                                    <td className="py-1.5 pr-2 whitespace-nowrap">{format(parseISO(row.created_at), 'yyyy/MM/dd HH:mm')}</td>
+                                    <td className="py-1.5 pr-2 whitespace-nowrap">{SHIELD_LEDGER_LABELS[row.entry_type]}</td>
+                                    <td className="py-1.5 pr-2">
+                                        {describe(row)}
+                                        {row.version_id !== null && (
+                                            <span className="text-muted-foreground ml-1">（設定 #{row.version_id}）</span>
+                                        )}
+                                    </td>
+                                    <td className={cn("py-1.5 pr-2 text-right", row.delta > 0 ? "text-emerald-600" : row.delta < 0 ? "text-destructive" : "text-muted-foreground")}>
+                                        {row.delta > 0 ? `+${row.delta}` : row.delta}
+                                    </td>
+                                    <td className="py-1.5 text-right">{row.balance}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    </div>
+                    )}
+                    {totalPages > 1 && (
+                        <div className="flex items-center justify-between pt-2 text-xs text-muted-foreground">
+                            <Button variant="ghost" size="sm" className="h-6 px-2 text-xs"
+                                disabled={safePage <= 1}
+                                onClick={() => setCurrentPage(p => Math.max(1, p - 1))}
+                            >前へ</Button>
+                            <span>{safePage} / {totalPages}</span>
+                            <Button variant="ghost" size="sm" className="h-6 px-2 text-xs"
+                                disabled={safePage >= totalPages}
+                                onClick={() => setCurrentPage(p => Math.min(totalPages, p + 1))}
+                            >次へ</Button>
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    )
+}
@@ -0,0 +1,328 @@
+import { useEffect, useMemo, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { format, subDays, addDays, parseISO } from 'date-fns'
+import { supabase } from '@/lib/supabase'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card'
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from '@/components/ui/table'
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select'
+import { Loader2, FileText, AlertTriangle } from 'lucide-react'
+import { UPLOAD_PHASE_LABELS, type UploadLogEntry } from '@/lib/upload-logger'
+import {
+    summarizeUploadSession,
+    getOutcomeStatsBy,
+    getPhaseDurationStats,
+    getFailurePhaseStats,
+    type UploadAnalyticsDimension,
+    type UploadOutcomeStats,
+} from '@/lib/upload-analytics'
+
+// 一度に集計するセッション数の上限（entries に転送の進捗が含まれるため大きくなりやすい）
+const MAX_SESSIONS = 2000
+const DEFAULT_RANGE_DAYS = 30
+const ALL_CLIENTS = 'all'
+
+const DIMENSIONS: { value: UploadAnalyticsDimension; label: string }[] = [
+    { value: 'deviceType', label: 'デバイス' },
+    { value: 'os', label: 'OS' },
+    { value: 'browser', label: 'ブラウザ' },
+    { value: 'fileSize', label: 'ファイルサイズ' },
+    { value: 'appVersion', label: 'アプリのバージョン' },
+]
+
+interface UploadLogRow {
+    user_id: string
+    session_id: string
+    entries: UploadLogEntry[]
+}
+
+export default function UploadAnalyticsPage() {
+    const today = format(new Date(), 'yyyy-MM-dd')
+    const [from, setFrom] = useState(format(subDays(new Date(), DEFAULT_RANGE_DAYS - 1), 'yyyy-MM-dd'))
+    const [to, setTo] = useState(today)
+    const [clientId, setClientId] = useState<string>(ALL_CLIENTS)
+    const [clients, setClients] = useState<{ id: string; display_name: string | null }[]>([])
+    const [logs, setLogs] = useState<UploadLogRow[]>([])
+    const [loading, setLoading] = useState(true)
+
+    useEffect(() => {
+        const fetchClients = async () => {
+            const { data } = await supabase
+                .from('profiles')
+                .select('id, display_name')
+                .eq('role', 'client')
+                .order('display_name') as { data: { id: string; display_name: string | null }[] | null }
+            setClients(data || [])
+        }
+        fetchClients()
+    }, [])
+
+    useEffect(() => {
+        if (!from || !to || from > to) return
+        let cancelled = false
+
+        const fetchLogs = async () => {
+            setLoading(true)
+            // 日付はブラウザのタイムゾーンで解釈する（終了日は当日を含む）
+            let query = supabase
+                .from('upload_logs' as any)
+                .select('user_id, session_id, entries')
+                .gte('created_at', parseISO(from).toISOString())
+                .lt('created_at', addDays(parseISO(to), 1).toISOString())
+                .order('created_at', { ascending: false })
+                .limit(MAX_SESSIONS) as any
+            if (clientId !== ALL_CLIENTS) query = query.eq('user_id', clientId)
+
+            const { data, error } = await query
+            if (cancelled) return
+            if (error) console.error('Failed to fetch upload logs:', error)
+            setLogs((data as UploadLogRow[]) || [])
+            setLoading(false)
+        }
+        fetchLogs()
+
+        return () => {
+            cancelled = true
+        }
+    }, [from, to, clientId])
+
+    const sessions = useMemo(() => logs.map(log => summarizeUploadSession(log.entries || [])), [logs])
+    const overall = useMemo(() => {
+        const success = sessions.filter(s => s.outcome === 'success').length
+        const failed = sessions.filter(s => s.outcome === 'failed').length
+        return {
+            total: sessions.length,
+            success,
+            failed,
+            incomplete: sessions.length - success - failed,
+            successRate: sessions.length > 0 ? Math.round((success / sessions.length) * 1000) / 10 : 0,
+        }
+    }, [sessions])
+    const phaseDurations = useMemo(() => getPhaseDurationStats(sessions), [sessions])
+    const failurePhases = useMemo(() => getFailurePhaseStats(sessions), [sessions])
+
+    const formatMs = (ms: number | null) => {
+        if (ms == null) return '—'
+        if (ms < 1000) return `${ms}ms`
+        if (ms < 60_000) return `${(ms / 1000).toFixed(1)}s`
+        return `${Math.floor(ms / 60_000)}分${Math.round((ms % 60_000) / 1000)}秒`
+    }
+
+    const successRateColor = (rate: number) => {
+        if (rate >= 90) return 'bg-green-500'
+        if (rate >= 70) return 'bg-yellow-500'
+        return 'bg-red-500'
+    }
+
+    const renderOutcomeTable = (stats: UploadOutcomeStats[]) => (
+        <Table>
+            <TableHeader>
+                <TableRow>
+                    <TableHead>区分</TableHead>
+                    <TableHead className="text-right">件数</TableHead>
+                    <TableHead className="text-right">成功</TableHead>
+                    <TableHead className="text-right">失敗</TableHead>
+                    <TableHead className="text-right">中断</TableHead>
+                    <TableHead className="w-[160px]">成功率</TableHead>
+                </TableRow>
+            </TableHeader>
+            <TableBody>
+                {stats.map(s => (
+                    <TableRow key={s.key}>
+                        <TableCell className="font-medium">{s.key}</TableCell>
+                        <TableCell className="text-right">{s.total}</TableCell>
+                        <TableCell className="text-right text-green-700">{s.success}</TableCell>
+                        <TableCell className="text-right text-destructive">{s.failed}</TableCell>
+                        <TableCell className="text-right text-muted-foreground">{s.incomplete}</TableCell>
+                        <TableCell>
+                            <div className="flex items-center gap-2">
+                                <div className="flex-1 h-2 rounded-full bg-muted overflow-hidden">
+                                    <div className={`h-full ${successRateColor(s.successRate)}`} style={{ width: `${s.successRate}%` }} />
+                                </div>
+                                <span className="text-xs font-bold w-12 text-right">{s.successRate}%</span>
+                            </div>
+                        </TableCell>
+                    </TableRow>
+                ))}
+            </TableBody>
+        </Table>
+    )
+
+    return (
+        <div className="max-w-5xl mx-auto p-4 sm:p-6 space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+                <h1 className="text-xl font-bold shrink-0">アップロード分析</h1>
+                <Button variant="outline" size="sm" asChild>
+                    <Link to="/admin/upload-logs">
+                        <FileText className="w-4 h-4 mr-1" /> ログ一覧
+                    </Link>
+                </Button>
+            </div>
+
+            {/* Filters */}
+            <Card>
+                <CardContent className="p-4 grid gap-3 sm:grid-cols-3">
+                    <div className="space-y-1">
+                        <Label htmlFor="analytics-from" className="text-xs">開始日</Label>
+                        <Input id="analytics-from" type="date" value={from} max={to} onChange={(e) => setFrom(e.target.value)} />
+                    </div>
+                    <div className="space-y-1">
+                        <Label htmlFor="analytics-to" className="text-xs">終了日</Label>
+                        <Input id="analytics-to" type="date" value={to} min={from} max={today} onChange={(e) => setTo(e.target.value)} />
+                    </div>
+                    <div className="space-y-1">
+                        <Label className="text-xs">クライアント</Label>
+                        <Select value={clientId} onValueChange={setClientId}>
+                            <SelectTrigger>
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value={ALL_CLIENTS}>すべてのクライアント</SelectItem>
+                                {clients.map(c => (
+                                    <SelectItem key={c.id} value={c.id}>{c.display_name || c.id.slice(0, 8)}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                </CardContent>
+            </Card>
+
+            {loading ? (
+                <div className="flex items-center justify-center py-12">
+                    <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+                </div>
+            ) : sessions.length === 0 ? (
+                <div className="text-center py-12 text-muted-foreground text-sm">
+                    この期間のログがありません
+                </div>
+            ) : (
+                <>
+                    {logs.length >= MAX_SESSIONS && (
+                        <div className="flex items-center gap-1.5 text-xs text-yellow-700 bg-yellow-50 border border-yellow-200 rounded-md px-3 py-2">
+                            <AlertTriangle className="w-3.5 h-3.5 shrink-0" />
+                            新しい順に{MAX_SESSIONS}件のみ集計しています。期間を短くすると全件を集計できます。
+                        </div>
+                    )}
+
+                    {/* Overall */}
+                    <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+                        {[
+                            { label: 'セッション', value: overall.total, className: '' },
+                            { label: '成功', value: overall.success, className: 'text-green-700' },
+                            { label: '失敗', value: overall.failed, className: 'text-destructive' },
+                            { label: '中断・不明', value: overall.incomplete, className: 'text-muted-foreground' },
+                            { label: '成功率', value: `${overall.successRate}%`, className: '' },
+                        ].map(item => (
+                            <Card key={item.label}>
+                                <CardContent className="p-3">
+                                    <div className="text-[10px] text-muted-foreground font-medium">{item.label}</div>
+                                    <div className={`text-xl font-bold ${item.className}`}>{item.value}</div>
+                                </CardContent>
+                            </Card>
+                        ))}
+                    </div>
+                    <p className="text-[10px] text-muted-foreground">
+                        1回のアップロード（再試行を含む）を1セッションとして集計します。「中断・不明」は完了も失敗も記録されていないセッション（アプリの終了・端末による強制終了など）で、成功率の分母に含みます。
+                    </p>
+
+                    {/* Outcome by dimension */}
+                    <div className="grid gap-4 lg:grid-cols-2">
+                        {DIMENSIONS.map(d => (
+                            <Card key={d.value}>
+                                <CardHeader className="pb-2">
+                                    <CardTitle className="text-sm">{d.label}別の成功率</CardTitle>
+                                </CardHeader>
+                                <CardContent className="pt-0">
+                                    {renderOutcomeTable(getOutcomeStatsBy(sessions, d.value))}
+                                </CardContent>
+                            </Card>
+                        ))}
+                    </div>
+
+                    {/* Phase durations */}
+                    <Card>
+                        <CardHeader className="pb-2">
+                            <CardTitle className="text-sm">フェーズごとの所要時間</CardTitle>
+                            <CardDescription className="text-xs">成功したフェーズの所要時間の中央値</CardDescription>
+                        </CardHeader>
+                        <CardContent className="pt-0">
+                            <Table>
+                                <TableHeader>
+                                    <TableRow>
+                                        <TableHead>フェーズ</TableHead>
+                                        <TableHead className="text-right">件数</TableHead>
+                                        <TableHead className="text-right">中央値</TableHead>
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {phaseDurations.map(p => (
+                                        <TableRow key={p.phase}>
+                                            <TableCell className="font-medium">{UPLOAD_PHASE_LABELS[p.phase].name}</TableCell>
+                                            <TableCell className="text-right">{p.count}</TableCell>
+                                            <TableCell className="text-right font-mono">{formatMs(p.medianMs)}</TableCell>
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                            </Table>
+                        </CardContent>
+                    </Card>
+
+                    {/* Failure phases */}
+                    <Card>
+                        <CardHeader className="pb-2">
+                            <CardTitle className="text-sm">失敗したフェーズ</CardTitle>
+                            <CardDescription className="text-xs">失敗したセッションの内訳と、最も多いエラー</CardDescription>
+                        </CardHeader>
+                        <CardContent className="pt-0">
+                            {failurePhases.length === 0 ? (
+                                <p className="text-xs text-muted-foreground py-4 text-center">失敗したセッションはありません</p>
+                            ) : (
+                                <Table>
+                                    <TableHeader>
+                                        <TableRow>
+                                            <TableHead>フェーズ</TableHead>
+                                            <TableHead className="text-right">件数</TableHead>
+                                            <TableHead className="text-right">割合</TableHead>
+                                            <TableHead className="text-right">失敗時の進捗</TableHead>
+                                            <TableHead>最も多いエラー</TableHead>
+                                        </TableRow>
+                                    </TableHeader>
+                                    <TableBody>
+                                        {failurePhases.map(f => (
+                                            <TableRow key={f.phase}>
+                                                <TableCell className="font-medium">{UPLOAD_PHASE_LABELS[f.phase].name}</TableCell>
+                                                <TableCell className="text-right">{f.count}</TableCell>
+                                                <TableCell className="text-right">{f.share}%</TableCell>
+                                                <TableCell className="text-right">
+                                                    {f.medianProgressPercent != null ? `${f.medianProgressPercent}%` : '—'}
+                                                </TableCell>
+                                                <TableCell className="text-xs text-muted-foreground break-all max-w-[280px]">
+                                                    {f.topError ?? '—'}
+                                                </TableCell>
+                                            </TableRow>
+                                        ))}
+                                    </TableBody>
+                                </Table>
+                            )}
+                        </CardContent>
+                    </Card>
+                </>
+            )}
+        </div>
+    )
+}
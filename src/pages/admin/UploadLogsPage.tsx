@@ -1,8 +1,19 @@
-import { useEffect, useState } from 'react'
+import { useEffect, useMemo, useState } from 'react'
+import { Link, useNavigate, useParams, useSearchParams } from 'react-router-dom'
+import { addDays, parseISO } from 'date-fns'
 import { supabase } from '@/lib/supabase'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select'
 import { Card, CardContent } from '@/components/ui/card'
+import { UploadLogRetentionCard } from '@/components/admin/UploadLogRetentionCard'
+import { UploadDiagnosticReportsCard } from '@/components/admin/UploadDiagnosticReportsCard'
 import {
     AlertDialog,
     AlertDialogContent,
@@ -12,8 +23,34 @@ import {
     AlertDialogFooter,
     AlertDialogCancel,
 } from '@/components/ui/alert-dialog'
-import { Download, Trash2, ChevronDown, ChevronRight, Loader2, AlertCircle, CheckCircle, RotateCcw, Search, Info, ArrowUpCircle, PlayCircle } from 'lucide-react'
-import type { UploadLogEntry } from '@/lib/upload-logger'
+import { Download, Trash2, ChevronDown, ChevronRight, Loader2, AlertCircle, CheckCircle, RotateCcw, Search, Info, ArrowUpCircle, PlayCircle, BarChart3, ArrowLeft, Link2, X } from 'lucide-react'
+import { UPLOAD_PHASE_LABELS, type UploadLogEntry, type UploadPhase } from '@/lib/upload-logger'
+import { summarizeUploadSession } from '@/lib/upload-analytics'
+import {
+    ALL,
+    DEFAULT_UPLOAD_LOG_FILTER,
+    getUploadLogFilterOptions,
+    isUploadLogFilterActive,
+    matchesUploadLogFilter,
+    type UploadLogFilter,
+} from '@/lib/upload-log-filter'
+
+// 一覧に読み込むセッション数の上限（期間で絞り込むと古いログも表示できる）
+const MAX_LOGS = 300
+
+const STATUS_OPTIONS: { value: UploadLogFilter['status']; label: string }[] = [
+    { value: ALL, label: 'すべての状態' },
+    { value: 'success', label: '成功' },
+    { value: 'failed', label: 'エラー' },
+    { value: 'incomplete', label: '中断' },
+]
+
+const RETRY_OPTIONS: { value: number; label: string }[] = [
+    { value: 0, label: 'リトライ: 指定なし' },
+    { value: 1, label: 'リトライ 1回以上' },
+    { value: 3, label: 'リトライ 3回以上' },
+    { value: 5, label: 'リトライ 5回以上' },
+]
 
 interface UploadLogRow {
     id: number
@@ -26,7 +63,16 @@ interface UploadLogRow {
 
 type ProfileMap = Record<string, string>
 
+/** セッションへのリンク（クライアントからの報告の調査時に共有する） */
+const getSessionPath = (sessionId: string) => `/admin/upload-logs/${sessionId}`
+
 export default function UploadLogsPage() {
+    // /admin/upload-logs/:sessionId は 1 セッションのみ表示
+    // /admin/upload-logs?video=<bunny_video_id> はその動画をアップロードしたセッションへ移動（WorkoutCard から）
+    const { sessionId } = useParams<{ sessionId: string }>()
+    const [searchParams] = useSearchParams()
+    const videoId = sessionId ? null : searchParams.get('video')
+    const navigate = useNavigate()
     const [logs, setLogs] = useState<UploadLogRow[]>([])
     const [profileMap, setProfileMap] = useState<ProfileMap>({})
     const [loading, setLoading] = useState(true)
@@ -35,21 +81,71 @@ export default function UploadLogsPage() {
     const [deleteDialogOpen, setDeleteDialogOpen] = useState(false)
     const [deleting, setDeleting] = useState(false)
     const [expandedProgressGroups, setExpandedProgressGroups] = useState<Set<string>>(new Set())
+    const [retentionRefreshKey, setRetentionRefreshKey] = useState(0)
+    const [filter, setFilter] = useState<UploadLogFilter>(DEFAULT_UPLOAD_LOG_FILTER)
+    const [from, setFrom] = useState('')
+    const [to, setTo] = useState('')
+    const [videoNotFound, setVideoNotFound] = useState(false)
+    const [copiedSessionId, setCopiedSessionId] = useState<string | null>(null)
 
     useEffect(() => {
+        if (videoId) return
+        if (from && to && from > to) return
         fetchLogs()
-    }, [])
+    }, [sessionId, videoId, from, to])
+
+    // 動画 ID → アップロードしたセッション（再開したアップロードは同じ動画 ID になるため最新のもの）
+    useEffect(() => {
+        if (!videoId) return
+        let cancelled = false
+        setVideoNotFound(false)
+        setLoading(true)
+
+        const resolveSession = async () => {
+            const { data, error } = await (supabase
+                .from('upload_logs' as any)
+                .select('session_id')
+                .contains('entries', JSON.stringify([{ phase: 'bunny-create', status: 'success', extra: { videoId } }]))
+                .order('created_at', { ascending: false })
+                .limit(1) as any)
+            if (cancelled) return
+            if (error) console.error('Failed to find upload log for video:', error)
+
+            const found = (data as { session_id: string }[] | null)?.[0]
+            if (found) {
+                navigate(getSessionPath(found.session_id), { replace: true })
+            } else {
+                setVideoNotFound(true)
+                setLoading(false)
+            }
+        }
+        resolveSession()
+
+        return () => {
+            cancelled = true
+        }
+    }, [videoId])
 
     const fetchLogs = async () => {
         setLoading(true)
+        setVideoNotFound(false)
+
+        let logsQuery = supabase
+            .from('upload_logs' as any)
+            .select('*')
+            .order('created_at', { ascending: false }) as any
+        if (sessionId) {
+            logsQuery = logsQuery.eq('session_id', sessionId)
+        } else {
+            // 日付はブラウザのタイムゾーンで解釈する（終了日は当日を含む）
+            if (from) logsQuery = logsQuery.gte('created_at', parseISO(from).toISOString())
+            if (to) logsQuery = logsQuery.lt('created_at', addDays(parseISO(to), 1).toISOString())
+            logsQuery = logsQuery.limit(MAX_LOGS)
+        }
 
         // Fetch logs and profiles in parallel
         const [logsResult, profilesResult] = await Promise.all([
-            supabase
-                .from('upload_logs' as any)
-                .select('*')
-                .order('created_at', { ascending: false })
-                .limit(100) as any,
+            logsQuery,
             supabase
                 .from('profiles')
                 .select('id, display_name') as any,
@@ -69,9 +165,20 @@ export default function UploadLogsPage() {
 
         setProfileMap(pMap)
         setLogs((logsResult.data as UploadLogRow[]) || [])
+        if (sessionId) setExpandedSessions(new Set([sessionId]))
         setLoading(false)
     }
 
+    const handleCopyLink = async (targetSessionId: string) => {
+        try {
+            await navigator.clipboard.writeText(`${window.location.origin}${getSessionPath(targetSessionId)}`)
+            setCopiedSessionId(targetSessionId)
+            setTimeout(() => setCopiedSessionId(prev => prev === targetSessionId ? null : prev), 2000)
+        } catch (err) {
+            console.error('Failed to copy session link:', err)
+        }
+    }
+
     const toggleSession = (sessionId: string) => {
         setExpandedSessions(prev => {
             const next = new Set(prev)
@@ -104,12 +211,13 @@ export default function UploadLogsPage() {
             console.error('Failed to clear logs:', error)
         } else {
             setLogs([])
+            setRetentionRefreshKey(prev => prev + 1)
         }
         setDeleting(false)
         setDeleteDialogOpen(false)
     }
 
-    const getUserName = (log: UploadLogRow): string => {
+    const getUserName = (log: Pick<UploadLogRow, 'user_id'>): string => {
         return profileMap[log.user_id] || log.user_id.slice(0, 8)
     }
 
@@ -137,17 +245,7 @@ export default function UploadLogsPage() {
     }
 
     const phaseLabel = (phase: string): { name: string; desc: string } => {
-        const labels: Record<string, { name: string; desc: string }> = {
-            'file-select': { name: 'ファイル選択', desc: 'ユーザが動画ファイルを選択' },
-            'metadata':    { name: '既存レコード確認', desc: 'DB上の同日・同項目の提出済みレコードを検索' },
-            'bunny-create': { name: '動画枠の作成', desc: 'Bunny CDNに動画エントリを作成しアップロード認証を取得' },
-            'tus-upload':  { name: '動画アップロード', desc: 'TUSプロトコルでBunny CDNにファイル転送' },
-            'bunny-processing': { name: 'CDN処理確認', desc: 'Bunny CDN側の動画エンコード・受理状態をポーリング確認' },
-            'db-save':     { name: 'データベース保存', desc: '提出レコードをSupabaseに保存（新規or置換）' },
-            'complete':    { name: 'アップロード完了', desc: '全フェーズ正常終了' },
-            'error':       { name: 'エラー', desc: 'いずれかのフェーズで異常終了' },
-        }
-        return labels[phase] || { name: phase, desc: '' }
+        return UPLOAD_PHASE_LABELS[phase as UploadPhase] || { name: phase, desc: '' }
     }
 
     const statusLabel = (status: string): string => {
@@ -226,47 +324,151 @@ export default function UploadLogsPage() {
         return result
     }
 
-    const filteredLogs = searchQuery
-        ? logs.filter(log => {
-            const name = getUserName(log).toLowerCase()
-            const fileName = log.entries?.find(e => e.fileName)?.fileName?.toLowerCase() ?? ''
-            const q = searchQuery.toLowerCase()
-            return name.includes(q) || fileName.includes(q)
-        })
-        : logs
+    const summaries = useMemo(
+        () => new Map(logs.map(log => [log.id, summarizeUploadSession(log.entries || [])])),
+        [logs]
+    )
+    const filterOptions = useMemo(() => getUploadLogFilterOptions([...summaries.values()]), [summaries])
+    const isFiltered = !!searchQuery || !!from || !!to || isUploadLogFilterActive(filter)
+
+    const filteredLogs = logs.filter(log => {
+        if (!matchesUploadLogFilter(log.entries || [], filter, summaries.get(log.id))) return false
+        if (!searchQuery) return true
+        const name = getUserName(log).toLowerCase()
+        const fileName = log.entries?.find(e => e.fileName)?.fileName?.toLowerCase() ?? ''
+        const q = searchQuery.toLowerCase()
+        return name.includes(q) || fileName.includes(q)
+    })
+
+    const clearFilters = () => {
+        setSearchQuery('')
+        setFilter(DEFAULT_UPLOAD_LOG_FILTER)
+        setFrom('')
+        setTo('')
+    }
+
+    const selectTriggerClass = 'h-8 text-xs'
 
     return (
         <div className="max-w-4xl mx-auto p-4 sm:p-6 space-y-4">
             <div className="flex flex-wrap items-center justify-between gap-2">
-                <h1 className="text-xl font-bold shrink-0">アップロードログ</h1>
+                <div className="flex items-center gap-2 min-w-0">
+                    {(sessionId || videoId) && (
+                        <Button variant="ghost" size="icon" className="h-8 w-8 shrink-0" asChild>
+                            <Link to="/admin/upload-logs" aria-label="すべてのログ">
+                                <ArrowLeft className="w-4 h-4" />
+                            </Link>
+                        </Button>
+                    )}
+                    <h1 className="text-xl font-bold shrink-0">アップロードログ</h1>
+                </div>
                 <div className="flex items-center gap-2">
+                    <Button variant="outline" size="sm" asChild>
+                        <Link to="/admin/upload-analytics">
+                            <BarChart3 className="w-4 h-4 mr-1" /> 分析
+                        </Link>
+                    </Button>
                     <Button variant="outline" size="sm" onClick={handleExport} disabled={filteredLogs.length === 0}>
                         <Download className="w-4 h-4 mr-1" />
-                        {searchQuery ? `${filteredLogs.length}件` : '全件'}
-                    </Button>
-                    <Button variant="destructive" size="sm" onClick={() => setDeleteDialogOpen(true)} disabled={logs.length === 0}>
-                        <Trash2 className="w-4 h-4 mr-1" /> クリア
+                        {isFiltered ? `${filteredLogs.length}件` : '全件'}
                     </Button>
+                    {!sessionId && !videoId && (
+                        <Button variant="destructive" size="sm" onClick={() => setDeleteDialogOpen(true)} disabled={logs.length === 0}>
+                            <Trash2 className="w-4 h-4 mr-1" /> クリア
+                        </Button>
+                    )}
                 </div>
             </div>
 
-            <div className="relative">
-                <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
-                <Input
-                    placeholder="ユーザ名またはファイル名で検索..."
-                    value={searchQuery}
-                    onChange={(e) => setSearchQuery(e.target.value)}
-                    className="pl-9"
-                />
-            </div>
+            {!videoId && (
+                <UploadDiagnosticReportsCard sessionId={sessionId} getUserName={(userId) => getUserName({ user_id: userId })} />
+            )}
+
+            {!sessionId && !videoId && (
+                <>
+                    <UploadLogRetentionCard refreshKey={retentionRefreshKey} onPruned={fetchLogs} />
+
+                    <div className="relative">
+                        <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                        <Input
+                            placeholder="ユーザ名またはファイル名で検索..."
+                            value={searchQuery}
+                            onChange={(e) => setSearchQuery(e.target.value)}
+                            className="pl-9"
+                        />
+                    </div>
+
+                    <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                        <Select value={filter.status} onValueChange={(v) => setFilter({ ...filter, status: v as UploadLogFilter['status'] })}>
+                            <SelectTrigger className={selectTriggerClass}><SelectValue /></SelectTrigger>
+                            <SelectContent>
+                                {STATUS_OPTIONS.map(o => (
+                                    <SelectItem key={o.value} value={o.value}>{o.label}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                        <Select value={filter.failedPhase} onValueChange={(v) => setFilter({ ...filter, failedPhase: v as UploadLogFilter['failedPhase'] })}>
+                            <SelectTrigger className={selectTriggerClass}><SelectValue /></SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value={ALL}>失敗したフェーズ: すべて</SelectItem>
+                                {filterOptions.failedPhases.map(phase => (
+                                    <SelectItem key={phase} value={phase}>{phaseLabel(phase).name}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                        <Select value={filter.os} onValueChange={(v) => setFilter({ ...filter, os: v })}>
+                            <SelectTrigger className={selectTriggerClass}><SelectValue /></SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value={ALL}>すべての OS</SelectItem>
+                                {filterOptions.os.map(os => (
+                                    <SelectItem key={os} value={os}>{os}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                        <Select value={filter.appVersion} onValueChange={(v) => setFilter({ ...filter, appVersion: v })}>
+                            <SelectTrigger className={selectTriggerClass}><SelectValue /></SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value={ALL}>すべてのバージョン</SelectItem>
+                                {filterOptions.appVersions.map(version => (
+                                    <SelectItem key={version} value={version}>v{version}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                        <Select value={String(filter.minRetries)} onValueChange={(v) => setFilter({ ...filter, minRetries: Number(v) })}>
+                            <SelectTrigger className={selectTriggerClass}><SelectValue /></SelectTrigger>
+                            <SelectContent>
+                                {RETRY_OPTIONS.map(o => (
+                                    <SelectItem key={o.value} value={String(o.value)}>{o.label}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                        <Input type="date" value={from} max={to || undefined} onChange={(e) => setFrom(e.target.value)} className="h-8 text-xs" aria-label="開始日" />
+                        <Input type="date" value={to} min={from || undefined} onChange={(e) => setTo(e.target.value)} className="h-8 text-xs" aria-label="終了日" />
+                        <Button variant="ghost" size="sm" className="h-8 text-xs" onClick={clearFilters} disabled={!isFiltered}>
+                            <X className="w-3 h-3 mr-1" /> 条件をクリア
+                        </Button>
+                    </div>
+                    {logs.length >= MAX_LOGS && (
+                        <p className="text-[10px] text-muted-foreground">
+                            最新{MAX_LOGS}セッションから絞り込んでいます。古いログは期間を指定してください。
+                        </p>
+                    )}
+                </>
+            )}
 
             {loading ? (
                 <div className="flex items-center justify-center py-12">
                     <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
                 </div>
+            ) : videoNotFound ? (
+                <div className="text-center py-12 text-muted-foreground text-sm">
+                    この動画のアップロードログが見つかりません（保持期間を過ぎて削除された可能性があります）
+                </div>
             ) : filteredLogs.length === 0 ? (
                 <div className="text-center py-12 text-muted-foreground text-sm">
-                    {searchQuery ? '該当するログが見つかりません' : 'ログがありません'}
+                    {sessionId
+                        ? 'このセッションのログが見つかりません（保持期間を過ぎて削除された可能性があります）'
+                        : isFiltered ? '該当するログが見つかりません' : 'ログがありません'}
                 </div>
             ) : (
                 <div className="space-y-3">
@@ -340,6 +542,17 @@ export default function UploadLogsPage() {
 
                                 {isExpanded && (
                                     <CardContent className="pt-0 pb-4 px-4">
+                                        <div className="ml-7 mb-3 flex items-center gap-2">
+                                            <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => handleCopyLink(log.session_id)}>
+                                                <Link2 className="w-3 h-3 mr-1" />
+                                                {copiedSessionId === log.session_id ? 'コピーしました' : 'リンクをコピー'}
+                                            </Button>
+                                            {!sessionId && (
+                                                <Button variant="ghost" size="sm" className="h-7 text-xs" asChild>
+                                                    <Link to={getSessionPath(log.session_id)}>このセッションのみ表示</Link>
+                                                </Button>
+                                            )}
+                                        </div>
                                         <div className="ml-7 border-l-2 border-muted pl-4 space-y-3">
                                             {groupEntries(log.entries || [], log.session_id).map((item) => {
                                                 if (item.type === 'progress-group') {
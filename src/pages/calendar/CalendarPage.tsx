@@ -1,4 +1,5 @@
-import { useMemo, useState, useEffect } from "react";
+import { useMemo, useState, useEffect, useRef } from "react";
+import { useSearchParams } from "react-router-dom";
 import { Calendar } from "@/components/ui/calendar";
 import { useWorkoutHistory } from "@/hooks/useWorkoutHistory";
 import {
@@ -11,6 +12,8 @@ import {
   subMonths,
   isSameMonth,
   lastDayOfMonth,
+  startOfWeek,
+  endOfWeek,
 } from "date-fns";
 import { ja } from "date-fns/locale";
 import { SwipeableWorkoutView } from "@/components/calendar/SwipeableWorkoutView";
@@ -20,11 +23,17 @@ import {
   ChevronLeft,
   ChevronRight,
   MessageSquare,
+  History,
+  CloudUpload,
+  CheckSquare,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { useAuth } from "@/context/AuthContext";
 import { supabase } from "@/lib/supabase";
+import { DEFAULT_TIMEZONE } from "@/lib/timezone";
 import {
   Select,
   SelectContent,
@@ -44,7 +53,17 @@ import { useSubmissionItems } from "@/hooks/useSubmissionItems";
 import { useSwipeable } from "react-swipeable";
 import { useGamification } from "@/hooks/useGamification";
 import { getGroupInfoForDate } from "@/utils/groupFulfillment";
+import { GOAL_TYPE_OPTIONS } from "@/types/gamification.types";
 import { GamificationNotifications } from "@/components/gamification/GamificationPopup";
+import { useUploadQueue } from "@/context/UploadQueueContext";
+import { getPendingSyncDates } from "@/lib/upload-queue";
+import { getRecordingDateInfo } from "@/utils/recordingDate";
+import { BulkActionBar } from "@/components/admin/BulkActionBar";
+import type { WorkoutStatus } from "@/utils/workoutStatus";
+import { toast } from "@/hooks/use-toast";
+import { getUnreadMessages } from "@/utils/commentThread";
+import { useUnreadCommentCounts } from "@/hooks/useUnreadCommentCounts";
+import { useVideoAnnotations } from "@/hooks/useVideoAnnotations";
 // Popover is used instead of Tooltip for better mobile compatibility
 
 export default function CalendarPage() {
@@ -67,12 +86,25 @@ export default function CalendarPage() {
       future_submission_days: number;
       deadline_mode: "none" | "mark";
       show_duplicate_to_user: boolean;
+      timezone: string;
     }[]
   >([]);
-  const [selectedVideo, setSelectedVideo] = useState<string | null>(null);
+  // 管理者用: クライアントごとの未読の返信
+  const { counts: unreadCommentCounts } = useUnreadCommentCounts(
+    isAdmin ? user?.id : undefined,
+  );
+  // 再生中の動画（bunny_video_id または r2_key）
+  const [selectedVideoKey, setSelectedVideoKey] = useState<string | null>(null);
+  // 管理者用: ゲーミフィケーションを指定日時点で表示（null = 現在）
+  const [viewAsOf, setViewAsOf] = useState<Date | null>(null);
 
   // Determine whose rules to fetch: selected user for admin, or self for client
   const targetUserId = isAdmin ? selectedClientId || user?.id : user?.id;
+  // 期限・当日の判定に使うタイムゾーン（表示中のクライアントのもの）
+  const targetTimeZone =
+    (isAdmin && selectedClientId
+      ? clients.find((c) => c.id === selectedClientId)?.timezone
+      : profile?.timezone) ?? DEFAULT_TIMEZONE;
   const {
     getRuleForDate,
     isDeadlinePassed,
@@ -81,7 +113,7 @@ export default function CalendarPage() {
     getAllGroupConfigs,
     getGroupConfigsForDate,
     getTargetDaysPerWeek,
-  } = useSubmissionRules(targetUserId);
+  } = useSubmissionRules(targetUserId, targetTimeZone);
   const { items: submissionItems, getEffectiveSubmissionItems } =
     useSubmissionItems(targetUserId);
 
@@ -91,13 +123,19 @@ export default function CalendarPage() {
     refetch,
     deleteWorkout,
     updateWorkoutStatus,
-    addAdminComment,
-    deleteAdminComment,
-    markCommentAsRead,
-  } = useWorkoutHistory(selectedClientId);
+    bulkUpdateWorkoutStatus,
+    postComment,
+    deleteComment,
+    markThreadAsRead,
+  } = useWorkoutHistory(selectedClientId, targetTimeZone);
   const [selectedDate, setSelectedDate] = useState<Date>(new Date());
   const [currentMonth, setCurrentMonth] = useState<Date>(new Date());
   const [isDatePickerOpen, setIsDatePickerOpen] = useState(false);
+  // 管理者用: まとめて承認/却下する投稿の選択（日付をまたいで保持）
+  const [isSelectMode, setIsSelectMode] = useState(false);
+  const [bulkSelectedIds, setBulkSelectedIds] = useState<Set<number>>(
+    () => new Set(),
+  );
 
   // 定休日判定関数
   const isRestDay = isRestDayForDate;
@@ -108,14 +146,6 @@ export default function CalendarPage() {
     [getAllGroupConfigs],
   );
 
-  // グループ充足判定コールバック（SwipeableWorkoutView用）
-  const checkGroupFulfilled = useMemo(() => {
-    return (date: Date): boolean => {
-      const info = getGroupInfoForDate(date, groupConfigs, workouts);
-      return info?.isFulfilled ?? false;
-    };
-  }, [groupConfigs, workouts]);
-
   // isViewingOtherUser の動的計算
   const isViewingOtherUser = Boolean(
     isAdmin && selectedClientId && selectedClientId !== user?.id,
@@ -128,11 +158,70 @@ export default function CalendarPage() {
     isRestDay,
     groupConfigs,
     getGroupConfigsForDate,
-    getTargetDaysPerWeek,
     dataLoading: loading || rulesLoading,
     onRefreshSubmissions: () => refetch(true),
+    asOf: isAdmin ? viewAsOf : null,
+    timeZone: targetTimeZone,
   });
 
+  // 週の開始曜日（日付ごとに有効な設定）
+  const getWeekStartsOn = gamification.getWeekStartsOnForDate;
+
+  // グループ充足判定コールバック（SwipeableWorkoutView用）
+  const checkGroupFulfilled = useMemo(() => {
+    return (date: Date): boolean => {
+      const info = getGroupInfoForDate(
+        date,
+        groupConfigs,
+        workouts,
+        getWeekStartsOn,
+      );
+      return info?.isFulfilled ?? false;
+    };
+  }, [groupConfigs, workouts, getWeekStartsOn]);
+
+  // オフラインで撮影し、まだアップロードされていない日付（「同期待ち」表示用）
+  const { jobs: uploadJobs } = useUploadQueue();
+  const pendingSyncDates = useMemo(
+    () => getPendingSyncDates(uploadJobs, targetUserId),
+    [uploadJobs, targetUserId],
+  );
+  // 再生中の動画の投稿
+  const selectedVideoSubmission = useMemo(() => {
+    if (!selectedVideoKey) return null;
+    return (
+      workouts?.find(
+        (w) => (w.bunny_video_id || w.r2_key) === selectedVideoKey,
+      ) ?? null
+    );
+  }, [selectedVideoKey, workouts]);
+  // 再生中の動画の撮影日（管理者のみ表示）
+  const selectedRecordingInfo = useMemo(() => {
+    if (!isAdmin || !selectedVideoSubmission) return null;
+    return getRecordingDateInfo(selectedVideoSubmission, targetTimeZone);
+  }, [isAdmin, selectedVideoSubmission, targetTimeZone]);
+  // 再生位置に紐づくメモ（追加・削除は管理者のみ）
+  const videoAnnotations = useVideoAnnotations(selectedVideoSubmission?.id);
+
+  // 接続の回復後に自動アップロードされた投稿を反映する（登録元の画面がない場合も含む）
+  // 件数ではなくジョブ ID で判定する（clearFinished で完了済みが消えた後の同期も取りこぼさない）
+  const syncedJobIds = useMemo(
+    () =>
+      uploadJobs
+        .filter((j) => j.offlineCapturedAt !== null && j.status === "succeeded")
+        .map((j) => j.id),
+    [uploadJobs],
+  );
+  const refetchedSyncJobIdsRef = useRef(new Set<string>());
+  useEffect(() => {
+    const newIds = syncedJobIds.filter(
+      (id) => !refetchedSyncJobIdsRef.current.has(id),
+    );
+    if (newIds.length === 0) return;
+    newIds.forEach((id) => refetchedSyncJobIdsRef.current.add(id));
+    refetch(true);
+  }, [syncedJobIds, refetch]);
+
   // クライアント側: localStorageから保留中のリバイバル通知を読み取り表示
   const [clientNotifications, setClientNotifications] = useState<
     Array<{
@@ -209,6 +298,89 @@ export default function CalendarPage() {
 
   const isToday = isSameDay(selectedDate, new Date());
 
+  // クライアントを切り替えたら時点表示・選択を解除
+  useEffect(() => {
+    setViewAsOf(null);
+    setIsSelectMode(false);
+    setBulkSelectedIds(new Set());
+  }, [selectedClientId]);
+
+  const toggleBulkSelect = (id: number) => {
+    setBulkSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  // 日付の投稿をすべて選択（すべて選択済みなら解除）
+  const toggleBulkSelectAll = (ids: number[]) => {
+    setBulkSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (ids.every((id) => next.has(id))) ids.forEach((id) => next.delete(id));
+      else ids.forEach((id) => next.add(id));
+      return next;
+    });
+  };
+
+  // 選択中の日付の週の未確認の投稿を選択に追加
+  const selectWeekUnreviewed = () => {
+    const weekStartsOn = getWeekStartsOn(selectedDate);
+    const from = format(startOfWeek(selectedDate, { weekStartsOn }), "yyyy-MM-dd");
+    const to = format(endOfWeek(selectedDate, { weekStartsOn }), "yyyy-MM-dd");
+    const ids = workouts
+      .filter(
+        (w) =>
+          w.type !== "shield" &&
+          !w.reviewed_at &&
+          w.target_date &&
+          w.target_date >= from &&
+          w.target_date <= to,
+      )
+      .map((w) => w.id);
+    setBulkSelectedIds((prev) => new Set([...prev, ...ids]));
+  };
+
+  const exitSelectMode = () => {
+    setIsSelectMode(false);
+    setBulkSelectedIds(new Set());
+  };
+
+  const handleBulkApply = async (status: WorkoutStatus, reps: number | null) => {
+    const result = await bulkUpdateWorkoutStatus(
+      Array.from(bulkSelectedIds),
+      status,
+      reps,
+    );
+    if (!result.success) {
+      toast({
+        title: "まとめて更新できませんでした",
+        description: result.error,
+        variant: "destructive",
+      });
+      return;
+    }
+    toast({
+      title: `${result.updatedCount}件の投稿を更新しました`,
+      description: result.revivalCount
+        ? `リバイバル: ${result.revivalCount}件`
+        : undefined,
+    });
+    setBulkSelectedIds(new Set());
+  };
+
+  // 選択中の投稿がある日付（カレンダーのセルに表示）
+  const bulkSelectedDates = useMemo(
+    () =>
+      new Set(
+        workouts
+          .filter((w) => bulkSelectedIds.has(w.id) && w.target_date)
+          .map((w) => w.target_date as string),
+      ),
+    [workouts, bulkSelectedIds],
+  );
+
   // Persist selection for admins
   useEffect(() => {
     if (isAdmin) {
@@ -220,6 +392,22 @@ export default function CalendarPage() {
     }
   }, [selectedClientId, isAdmin]);
 
+  // Open the client picked from the Sidebar's unread messages (/?client=<id>)
+  const [searchParams, setSearchParams] = useSearchParams();
+  const clientParam = searchParams.get("client");
+  useEffect(() => {
+    if (!clientParam || !profile) return;
+    if (isAdmin) setSelectedClientId(clientParam);
+    setSearchParams(
+      (prev) => {
+        const next = new URLSearchParams(prev);
+        next.delete("client");
+        return next;
+      },
+      { replace: true },
+    );
+  }, [clientParam, profile, isAdmin, setSearchParams]);
+
   // Fetch clients if admin
   useEffect(() => {
     if (isAdmin) {
@@ -227,7 +415,7 @@ export default function CalendarPage() {
         const { data, error } = await supabase
           .from("profiles")
           .select(
-            "id, display_name, past_submission_days, future_submission_days, deadline_mode, show_duplicate_to_user",
+            "id, display_name, past_submission_days, future_submission_days, deadline_mode, show_duplicate_to_user, timezone",
           )
           .eq("role", "client");
         if (!error && data) {
@@ -279,9 +467,13 @@ export default function CalendarPage() {
         map[key].hasSuccess ||= s.status === "success";
         map[key].hasFail ||= s.status === "fail";
         map[key].hasAdminComment ||= (s as any).admin_comments?.length > 0;
-        map[key].hasUnreadComment ||= (s as any).admin_comments?.some(
-          (c: any) => !c.read_at,
-        );
+        // 閲覧者宛ての未読（管理者: クライアントからの返信、クライアント: トレーナーから）
+        map[key].hasUnreadComment ||=
+          getUnreadMessages(
+            (s as any).admin_comments ?? [],
+            s.user_id,
+            isAdmin,
+          ).length > 0;
 
         // 却下がある場合は、他がどうあれその日は「却下あり」
         // 日付別の承認状態を管理するために、全項目が成功しているかも後で重要になる
@@ -294,7 +486,7 @@ export default function CalendarPage() {
       });
 
     return map;
-  }, [workouts]);
+  }, [workouts, isAdmin]);
 
   if (loading && workouts.length === 0) {
     return (
@@ -327,6 +519,12 @@ export default function CalendarPage() {
                   {clients.map((client) => (
                     <SelectItem key={client.id} value={client.id}>
                       {client.display_name || "不明なユーザー"}
+                      {unreadCommentCounts[client.id] > 0 && (
+                        <span className="ml-2 inline-flex items-center gap-0.5 text-[10px] font-bold text-orange-600">
+                          <MessageSquare className="w-2.5 h-2.5" />
+                          {unreadCommentCounts[client.id]}
+                        </span>
+                      )}
                     </SelectItem>
                   ))}
                   <SelectItem value="all">自分を表示中</SelectItem>
@@ -335,23 +533,87 @@ export default function CalendarPage() {
             </div>
           )}
         </div>
-        {/* 今日ボタン */}
-        <Button
-          variant="outline"
-          size="sm"
-          onClick={goToToday}
-          disabled={isToday}
-          className="gap-1"
-        >
-          <CalendarDays className="w-4 h-4" />
-          今日
-        </Button>
+        <div className="flex items-center gap-2">
+          {/* まとめて承認/却下（管理者がクライアント選択時） */}
+          {isAdmin && selectedClientId && (
+            <>
+              {isSelectMode && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={selectWeekUnreviewed}
+                  className="gap-1"
+                >
+                  この週の未確認を選択
+                </Button>
+              )}
+              <Button
+                variant={isSelectMode ? "secondary" : "outline"}
+                size="sm"
+                onClick={() =>
+                  isSelectMode ? exitSelectMode() : setIsSelectMode(true)
+                }
+                className="gap-1"
+              >
+                <CheckSquare className="w-4 h-4" />
+                {isSelectMode ? "選択を終了" : "まとめて選択"}
+              </Button>
+            </>
+          )}
+          {/* 今日ボタン */}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={goToToday}
+            disabled={isToday}
+            className="gap-1"
+          >
+            <CalendarDays className="w-4 h-4" />
+            今日
+          </Button>
+        </div>
       </div>
 
       {/* ゲーミフィケーションダッシュボード（クライアント時または管理者がクライアント選択時） */}
       {(!isAdmin || selectedClientId) && gamification && (
         <>
-          <div className="mx-1 sm:mx-0 px-4 py-3 bg-gradient-to-r from-primary/5 via-primary/10 to-primary/5 rounded-lg border space-y-2">
+          <div
+            className={`mx-1 sm:mx-0 px-4 py-3 bg-gradient-to-r from-primary/5 via-primary/10 to-primary/5 rounded-lg border space-y-2 ${
+              gamification.asOf ? "border-amber-400" : ""
+            }`}
+          >
+            {/* 管理者用: 指定日時点で表示 */}
+            {isAdmin && (
+              <div className="flex items-center justify-end gap-2 px-2 text-xs text-muted-foreground">
+                <History className="w-3.5 h-3.5" />
+                <span>時点表示:</span>
+                <Input
+                  type="date"
+                  className="h-7 w-[140px] text-xs"
+                  value={viewAsOf ? format(viewAsOf, "yyyy-MM-dd") : ""}
+                  max={format(new Date(), "yyyy-MM-dd")}
+                  onChange={(e) =>
+                    setViewAsOf(e.target.value ? parseISO(e.target.value) : null)
+                  }
+                />
+                {viewAsOf && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 px-2 text-xs"
+                    onClick={() => setViewAsOf(null)}
+                  >
+                    現在に戻す
+                  </Button>
+                )}
+              </div>
+            )}
+            {gamification.asOf && (
+              <p className="px-2 text-xs text-amber-600 dark:text-amber-400">
+                {format(gamification.asOf, "yyyy/M/d")}
+                の終了時点の投稿・承認状態で再計算しています（ルール・設定履歴は現在のもの）
+              </p>
+            )}
             {/* 上段: ストリークと累積回数 - 均等配置 */}
             <div className="flex items-center justify-between px-2">
               {/* ストリーク（連続日数） */}
@@ -361,13 +623,106 @@ export default function CalendarPage() {
                     <button className="flex items-center gap-2 font-bold text-lg hover:opacity-80 transition-opacity cursor-help">
                       <span className="text-xl">🔥</span>
                       <span>{gamification.state.currentStreak}日連続</span>
+                      {gamification.state.longestStreak >
+                        gamification.state.currentStreak && (
+                        <span className="text-xs font-medium text-muted-foreground">
+                          (最長{gamification.state.longestStreak}日)
+                        </span>
+                      )}
+                      {gamification.settings.titles.enabled &&
+                        gamification.titles.current && (
+                          <span className="text-xs font-semibold px-2 py-0.5 rounded-full bg-purple-100 text-purple-700 dark:bg-purple-900/40 dark:text-purple-200 max-w-[9rem] truncate">
+                            {gamification.titles.current.title}
+                          </span>
+                        )}
                     </button>
                   </PopoverTrigger>
-                  <PopoverContent className="w-64 text-sm">
+                  <PopoverContent className="w-72 text-sm">
                     <p className="font-semibold mb-1">🔥 連続日数</p>
                     <p className="text-muted-foreground">
                       投稿を連続で続けた日数です。休息日はカウントされません。
                     </p>
+                    {gamification.streakHistory.longest && (
+                      <div className="mt-2 pt-2 border-t space-y-1 text-muted-foreground">
+                        <p>
+                          🏆 自己ベスト:{" "}
+                          <strong className="text-foreground">
+                            {gamification.streakHistory.longest.length}日
+                          </strong>
+                        </p>
+                        <p className="text-xs">
+                          {format(
+                            parseISO(gamification.streakHistory.longest.startDate),
+                            "yyyy/M/d",
+                          )}
+                          〜
+                          {format(
+                            parseISO(gamification.streakHistory.longest.endDate),
+                            "yyyy/M/d",
+                          )}
+                          {gamification.streakHistory.longest.brokenBy === null &&
+                            "（継続中）"}
+                        </p>
+                        {/* 管理者向け: 全区間の履歴（新しい順） */}
+                        {isAdmin && (
+                          <div className="pt-1">
+                            <p className="text-xs font-semibold text-foreground mb-1">
+                              ストリーク履歴（{gamification.streakHistory.segments.length}区間）
+                            </p>
+                            <ul className="max-h-40 overflow-y-auto space-y-0.5 text-xs">
+                              {[...gamification.streakHistory.segments]
+                                .reverse()
+                                .map((seg) => (
+                                  <li
+                                    key={seg.startDate}
+                                    className="flex items-center justify-between gap-2"
+                                  >
+                                    <span>
+                                      {format(parseISO(seg.startDate), "yyyy/M/d")}〜
+                                      {format(parseISO(seg.endDate), "M/d")}
+                                    </span>
+                                    <span className="tabular-nums">
+                                      <strong className="text-foreground">
+                                        {seg.length}日
+                                      </strong>
+                                      {seg.brokenBy
+                                        ? ` ✕${format(parseISO(seg.brokenBy), "M/d")}`
+                                        : " 継続中"}
+                                    </span>
+                                  </li>
+                                ))}
+                            </ul>
+                          </div>
+                        )}
+                      </div>
+                    )}
+                    {gamification.settings.titles.enabled && (
+                      <div className="mt-2 pt-2 border-t space-y-1 text-muted-foreground">
+                        {gamification.titles.current ? (
+                          <>
+                            <p className="font-semibold text-foreground">
+                              🏅 {gamification.titles.current.title}
+                            </p>
+                            <p className="text-xs">
+                              {gamification.titles.current.message}
+                            </p>
+                          </>
+                        ) : (
+                          <p className="text-xs">まだ称号はありません</p>
+                        )}
+                        {gamification.titles.next && (
+                          <p className="text-xs pt-1">
+                            次の称号「{gamification.titles.next.title}」まであと
+                            <strong>{gamification.titles.daysToNext}日</strong>
+                          </p>
+                        )}
+                        {gamification.titles.awarded.length > 0 && (
+                          <p className="text-xs">
+                            獲得済み称号: {gamification.titles.awarded.length}個
+                          </p>
+                        )}
+                      </div>
+                    )}
                   </PopoverContent>
                 </Popover>
               )}
@@ -436,6 +791,9 @@ export default function CalendarPage() {
                         ? `ストレート${gamification.activeVersion?.straight_count ?? 1}回達成でシールド+1獲得！`
                         : "月の全対象日をストレート達成でシールド+1獲得！"}
                     </p>
+                    <p className="text-xs text-muted-foreground/70 mt-1">
+                      ※ 所持できるのは{gamification.state.shieldMaxStock}個までです
+                    </p>
                   </PopoverContent>
                 </Popover>
               )}
@@ -474,7 +832,9 @@ export default function CalendarPage() {
                           conditions.length > 0
                             ? `${conditions.join("・")}で`
                             : "";
-                        return `1週間（月〜日）で目標日数（${targetDays}日）を${condText}達成した回数`;
+                        const weekRange =
+                          (av?.week_starts_on ?? 1) === 0 ? "日〜土" : "月〜日";
+                        return `1週間（${weekRange}）で目標日数（${targetDays}日）を${condText}達成した回数`;
                       })()}
                     </p>
                     <p className="text-xs text-muted-foreground/70 mt-1">
@@ -508,6 +868,54 @@ export default function CalendarPage() {
                 </Popover>
               )}
             </div>
+
+            {/* カスタム目標の進捗 */}
+            {gamification.goals.length > 0 && (
+              <div className="space-y-2 px-2 pt-1">
+                {gamification.goals.map(({ goal, progress }) => {
+                  const typeOption = GOAL_TYPE_OPTIONS.find(
+                    (o) => o.value === goal.goal_type
+                  );
+                  return (
+                    <div key={goal.id} className="space-y-1">
+                      <div className="flex items-center justify-between text-xs">
+                        <span className="font-semibold truncate">
+                          🎯 {goal.title}
+                          <span className="ml-1 font-normal text-muted-foreground">
+                            {goal.goal_type === "late_free_weeks"
+                              ? "（連続）"
+                              : "（今月）"}
+                          </span>
+                        </span>
+                        <span
+                          className={
+                            progress.completed
+                              ? "font-bold text-emerald-600"
+                              : "text-muted-foreground"
+                          }
+                        >
+                          {progress.completed && "✓ "}
+                          {progress.current}/{progress.target}
+                          {typeOption?.unit}
+                        </span>
+                      </div>
+                      <Progress
+                        value={Math.min(
+                          100,
+                          (progress.current / progress.target) * 100
+                        )}
+                        className="h-1.5"
+                      />
+                      {goal.reward && (
+                        <p className="text-[10px] text-muted-foreground">
+                          ご褒美: {goal.reward}
+                        </p>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
           </div>
         </>
       )}
@@ -651,6 +1059,7 @@ export default function CalendarPage() {
                   date,
                   groupConfigs,
                   workouts,
+                  getWeekStartsOn,
                 );
                 const isGroupFulfilled = groupInfo?.isFulfilled ?? false;
 
@@ -705,6 +1114,23 @@ export default function CalendarPage() {
 
                     <div className="flex flex-col items-center justify-center w-full min-h-[28px] relative"></div>
 
+                    {/* まとめて更新の選択中 */}
+                    {bulkSelectedDates.has(key) && (
+                      <div className="absolute bottom-1 left-1 z-20 text-primary">
+                        <CheckSquare className="w-2.5 h-2.5" />
+                      </div>
+                    )}
+
+                    {/* 同期待ち（オフラインで撮影した動画が未アップロード） */}
+                    {pendingSyncDates.has(key) && (
+                      <div className="absolute top-1 left-1 z-20 flex items-center gap-0.5 text-sky-600">
+                        <CloudUpload className="w-2.5 h-2.5" />
+                        <span className="hidden sm:inline text-[8px] font-bold leading-none">
+                          同期待ち
+                        </span>
+                      </div>
+                    )}
+
                     {/* Shield Day Overlay - スタンプと同じサイズで大きく表示 */}
                     {gamification.isShieldDay(date) && !st?.hasSubmission && (
                       <div className="absolute inset-0 z-30 flex items-center justify-center pointer-events-none overflow-visible">
@@ -809,10 +1235,10 @@ export default function CalendarPage() {
         onDelete={deleteWorkout}
         isAdmin={isAdmin}
         onUpdateStatus={updateWorkoutStatus}
-        onAddComment={addAdminComment}
-        onDeleteComment={deleteAdminComment}
-        onMarkAsRead={markCommentAsRead}
-        onPlay={(key: string) => setSelectedVideo(getBunnyVideoUrl(key))}
+        onAddComment={postComment}
+        onDeleteComment={deleteComment}
+        onMarkAsRead={markThreadAsRead}
+        onPlay={(key: string) => setSelectedVideoKey(key)}
         submissionItems={submissionItems}
         onUploadSuccess={() => refetch(true)}
         isViewingOtherUser={isViewingOtherUser}
@@ -843,6 +1269,7 @@ export default function CalendarPage() {
         isRestDay={isRestDayForDate}
         isGroupFulfilledForDate={checkGroupFulfilled}
         isLate={isDeadlinePassed(selectedDate)}
+        isLateAt={(at) => isDeadlinePassed(selectedDate, at)}
         deadlineMode={(() => {
           const clientProfile = selectedClientId
             ? clients.find((c) => c.id === selectedClientId)
@@ -863,11 +1290,27 @@ export default function CalendarPage() {
             false
           );
         })()}
+        timeZone={targetTimeZone}
+        selectedIds={isSelectMode ? bulkSelectedIds : undefined}
+        onToggleSelect={isSelectMode ? toggleBulkSelect : undefined}
+        onToggleSelectAll={isSelectMode ? toggleBulkSelectAll : undefined}
       />
 
+      {isSelectMode && (
+        <BulkActionBar
+          selectedCount={bulkSelectedIds.size}
+          onApply={handleBulkApply}
+          onClear={() => setBulkSelectedIds(new Set())}
+        />
+      )}
+
       <VideoPlayerModal
-        videoUrl={selectedVideo}
-        onClose={() => setSelectedVideo(null)}
+        videoUrl={selectedVideoKey ? getBunnyVideoUrl(selectedVideoKey) : null}
+        onClose={() => setSelectedVideoKey(null)}
+        recordingInfo={selectedRecordingInfo}
+        annotations={videoAnnotations.annotations}
+        onAddAnnotation={isAdmin ? videoAnnotations.addAnnotation : undefined}
+        onDeleteAnnotation={isAdmin ? videoAnnotations.deleteAnnotation : undefined}
       />
 
       {/* ゲーミフィケーション通知ポップアップ（クライアント向け - localStorageから） */}
@@ -879,6 +1322,14 @@ export default function CalendarPage() {
           }
         />
       )}
+
+      {/* 称号獲得などフック内で発生した通知（localStorage 通知の表示後に順番に表示） */}
+      {!isAdmin && clientNotifications.length === 0 && (
+        <GamificationNotifications
+          notifications={gamification.state.pendingNotifications}
+          onClear={gamification.clearNotification}
+        />
+      )}
     </div>
   );
 }
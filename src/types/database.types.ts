@@ -25,6 +25,12 @@ export interface Database {
                     revival_success_count: number
                     gamification_settings: Record<string, unknown> | null
                     video_retention_days: number | null
+                    timezone: string
+                    video_compression_enabled: boolean
+                    video_compression_max_height: number
+                    video_compression_bitrate_kbps: number
+                    duplicate_video_policy: 'none' | 'warn' | 'block'
+                    recording_date_policy: 'none' | 'warn' | 'block'
                 }
                 Insert: {
                     id: string
@@ -41,6 +47,12 @@ export interface Database {
                     revival_success_count?: number
                     gamification_settings?: Record<string, unknown> | null
                     video_retention_days?: number | null
+                    timezone?: string
+                    video_compression_enabled?: boolean
+                    video_compression_max_height?: number
+                    video_compression_bitrate_kbps?: number
+                    duplicate_video_policy?: 'none' | 'warn' | 'block'
+                    recording_date_policy?: 'none' | 'warn' | 'block'
                 }
                 Update: {
                     id?: string
@@ -57,6 +69,12 @@ export interface Database {
                     revival_success_count?: number
                     gamification_settings?: Record<string, unknown> | null
                     video_retention_days?: number | null
+                    timezone?: string
+                    video_compression_enabled?: boolean
+                    video_compression_max_height?: number
+                    video_compression_bitrate_kbps?: number
+                    duplicate_video_policy?: 'none' | 'warn' | 'block'
+                    recording_date_policy?: 'none' | 'warn' | 'block'
                 }
                 Relationships: []
             }
@@ -109,6 +127,8 @@ export interface Database {
                     video_size: number | null
                     video_hash: string | null
                     file_last_modified: string | null
+                    video_created_at: string | null
+                    recording_date_mismatch: boolean
                 }
                 Insert: {
                     id?: number
@@ -130,6 +150,8 @@ export interface Database {
                     video_size?: number | null
                     video_hash?: string | null
                     file_last_modified?: string | null
+                    video_created_at?: string | null
+                    recording_date_mismatch?: boolean
                 }
                 Update: {
                     id?: number
@@ -151,6 +173,8 @@ export interface Database {
                     video_size?: number | null
                     video_hash?: string | null
                     file_last_modified?: string | null
+                    video_created_at?: string | null
+                    recording_date_mismatch?: boolean
                 }
                 Relationships: [
                     {
@@ -218,6 +242,8 @@ export interface Database {
                     allow_late: boolean
                     use_target_days: boolean
                     custom_required_days: number
+                    week_starts_on: 0 | 1
+                    shield_max_stock: number
                     effective_from: string
                     effective_to: string | null
                     created_at: string
@@ -232,6 +258,8 @@ export interface Database {
                     allow_late?: boolean
                     use_target_days?: boolean
                     custom_required_days?: number
+                    week_starts_on?: 0 | 1
+                    shield_max_stock?: number
                     effective_from?: string
                     effective_to?: string | null
                     created_at?: string
@@ -246,6 +274,8 @@ export interface Database {
                     allow_late?: boolean
                     use_target_days?: boolean
                     custom_required_days?: number
+                    week_starts_on?: 0 | 1
+                    shield_max_stock?: number
                     effective_from?: string
                     effective_to?: string | null
                     created_at?: string
@@ -279,6 +309,153 @@ export interface Database {
                 }
                 Relationships: []
             }
+            video_annotations: {
+                Row: {
+                    id: string
+                    submission_id: number
+                    user_id: string
+                    time_seconds: number
+                    content: string
+                    created_at: string
+                }
+                Insert: {
+                    id?: string
+                    submission_id: number
+                    user_id: string
+                    time_seconds: number
+                    content: string
+                    created_at?: string
+                }
+                Update: {
+                    id?: string
+                    submission_id?: number
+                    user_id?: string
+                    time_seconds?: number
+                    content?: string
+                    created_at?: string
+                }
+                Relationships: []
+            }
+            streak_title_awards: {
+                Row: {
+                    id: number
+                    user_id: string
+                    days: number
+                    awarded_at: string
+                }
+                Insert: {
+                    id?: number
+                    user_id: string
+                    days: number
+                    awarded_at?: string
+                }
+                Update: {
+                    id?: number
+                    user_id?: string
+                    days?: number
+                    awarded_at?: string
+                }
+                Relationships: []
+            }
+            shield_ledger: {
+                Row: {
+                    id: number
+                    user_id: string
+                    entry_type: 'grant' | 'revoke' | 'consume' | 'refund' | 'forfeit'
+                    delta: number
+                    period_type: 'straight' | 'month' | null
+                    period_start: string | null
+                    version_id: number | null
+                    target_date: string | null
+                    reverses_id: number | null
+                    created_at: string
+                }
+                Insert: {
+                    id?: number
+                    user_id: string
+                    entry_type: 'grant' | 'revoke' | 'consume' | 'refund' | 'forfeit'
+                    delta: number
+                    period_type?: 'straight' | 'month' | null
+                    period_start?: string | null
+                    version_id?: number | null
+                    target_date?: string | null
+                    reverses_id?: number | null
+                    created_at?: string
+                }
+                Update: {
+                    id?: number
+                    user_id?: string
+                    entry_type?: 'grant' | 'revoke' | 'consume' | 'refund' | 'forfeit'
+                    delta?: number
+                    period_type?: 'straight' | 'month' | null
+                    period_start?: string | null
+                    version_id?: number | null
+                    target_date?: string | null
+                    reverses_id?: number | null
+                    created_at?: string
+                }
+                Relationships: []
+            }
+            gamification_goals: {
+                Row: {
+                    id: number
+                    user_id: string
+                    title: string
+                    goal_type: 'monthly_reps' | 'monthly_days' | 'late_free_weeks'
+                    target: number
+                    reward: string | null
+                    effective_from: string
+                    effective_to: string | null
+                    created_at: string
+                }
+                Insert: {
+                    id?: number
+                    user_id: string
+                    title: string
+                    goal_type: 'monthly_reps' | 'monthly_days' | 'late_free_weeks'
+                    target: number
+                    reward?: string | null
+                    effective_from?: string
+                    effective_to?: string | null
+                    created_at?: string
+                }
+                Update: {
+                    id?: number
+                    user_id?: string
+                    title?: string
+                    goal_type?: 'monthly_reps' | 'monthly_days' | 'late_free_weeks'
+                    target?: number
+                    reward?: string | null
+                    effective_from?: string
+                    effective_to?: string | null
+                    created_at?: string
+                }
+                Relationships: []
+            }
+            gamification_goal_completions: {
+                Row: {
+                    id: number
+                    goal_id: number
+                    user_id: string
+                    period_key: string
+                    completed_at: string
+                }
+                Insert: {
+                    id?: number
+                    goal_id: number
+                    user_id: string
+                    period_key: string
+                    completed_at?: string
+                }
+                Update: {
+                    id?: number
+                    goal_id?: number
+                    user_id?: string
+                    period_key?: string
+                    completed_at?: string
+                }
+                Relationships: []
+            }
         }
         Views: {
             [_ in never]: never
@@ -298,6 +475,8 @@ export interface Database {
                     p_allow_late?: boolean
                     p_use_target_days?: boolean
                     p_custom_required_days?: number
+                    p_week_starts_on?: number
+                    p_shield_max_stock?: number
                 }
                 Returns: undefined
             }
@@ -307,6 +486,55 @@ export interface Database {
                 }
                 Returns: undefined
             }
+            recompute_gamification_stats: {
+                Args: { p_user_id: string }
+                Returns: {
+                    total_reps: number
+                    perfect_week_count: number
+                    revival_success_count: number
+                    shield_stock: number
+                }[]
+            }
+            compute_gamification_stats: {
+                Args: { p_user_id: string; p_as_of?: string | null }
+                Returns: {
+                    total_reps: number
+                    perfect_week_count: number
+                    revival_success_count: number
+                    shield_stock: number
+                }[]
+            }
+            bulk_update_submission_status: {
+                Args: { p_submission_ids: number[]; p_status: string | null; p_reps?: number | null }
+                Returns: {
+                    submission_id: number
+                    user_id: string
+                    target_date: string | null
+                    is_revival: boolean
+                }[]
+            }
+            apply_shield: {
+                Args: { p_user_id: string; p_target_date: string }
+                Returns: boolean
+            }
+            remove_shield: {
+                Args: { p_user_id: string; p_target_date: string }
+                Returns: boolean
+            }
+            check_duplicate_video: {
+                Args: {
+                    p_user_id: string
+                    p_video_hash: string
+                    p_target_date: string
+                    p_submission_item_id?: number | null
+                }
+                Returns: {
+                    policy: 'none' | 'warn' | 'block'
+                    duplicate_submission_id: number | null
+                    duplicate_target_date: string | null
+                    duplicate_file_name: string | null
+                }[]
+            }
             replace_submissions: {
                 Args: {
                     p_user_id: string
@@ -320,6 +548,8 @@ export interface Database {
                     p_file_name: string | null
                     p_is_late: boolean
                     p_file_last_modified?: string
+                    p_video_created_at?: string
+                    p_recording_date_mismatch?: boolean
                 }
                 Returns: { old_bunny_video_ids: string[]; new_id: number }[]
             }
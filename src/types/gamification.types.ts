@@ -27,6 +27,11 @@ export interface GamificationTotalRepsSettings {
     enabled: boolean    // UI表示するか
 }
 
+// 称号（継続日数）設定
+export interface GamificationTitlesSettings {
+    enabled: boolean    // UI表示・獲得演出を行うか
+}
+
 // ゲーミフィケーション設定全体（JSONB に保存される UI フラグ + effective_from）
 export interface GamificationSettings {
     straight: GamificationStraightSettings
@@ -34,6 +39,7 @@ export interface GamificationSettings {
     revival: GamificationRevivalSettings
     streak: GamificationStreakSettings
     total_reps: GamificationTotalRepsSettings
+    titles: GamificationTitlesSettings
     effective_from: string | null   // 全項目共通の適用開始日 (YYYY-MM-DD)
 }
 
@@ -42,6 +48,9 @@ export interface PreconfigGamificationSettings extends GamificationSettings {
     versioned_settings?: VersionedSettings
 }
 
+// 週の開始曜日（0=日曜始まり, 1=月曜始まり）
+export type WeekStartsOn = 0 | 1
+
 // gamification_setting_versions テーブルの行型
 export interface GamificationSettingVersion {
     id: number
@@ -53,11 +62,61 @@ export interface GamificationSettingVersion {
     allow_late: boolean
     use_target_days: boolean
     custom_required_days: number
+    week_starts_on: WeekStartsOn
+    shield_max_stock: number
     effective_from: string
     effective_to: string | null
     created_at: string
 }
 
+// shield_ledger テーブルの行型（シールドの獲得・使用の台帳。残数は delta の合計）
+export interface ShieldLedgerEntry {
+    id: number
+    user_id: string
+    entry_type: 'grant' | 'revoke' | 'consume' | 'refund' | 'forfeit'
+    delta: number                               // forfeit（上限により獲得見送り）は 0
+    period_type: 'straight' | 'month' | null    // grant / revoke: 獲得の元になった週・月
+    period_start: string | null
+    version_id: number | null                   // grant / forfeit: 獲得元の週に有効だった設定バージョン
+    target_date: string | null                  // consume / refund: シールドを適用・解除した日
+    reverses_id: number | null                  // revoke / refund: 取り消した grant / consume
+    created_at: string
+}
+
+// カスタム目標の種類
+//   monthly_reps:    月間の累積回数（承認済み）
+//   monthly_days:    月間の投稿日数（承認済み）
+//   late_free_weeks: 期限超過なしの週（承認済み投稿があり、遅刻投稿がない週）の連続数
+export type GoalType = 'monthly_reps' | 'monthly_days' | 'late_free_weeks'
+
+export const GOAL_TYPE_OPTIONS: { value: GoalType; label: string; unit: string }[] = [
+    { value: 'monthly_reps', label: '月間の累積回数', unit: '回' },
+    { value: 'monthly_days', label: '月間の投稿日数', unit: '日' },
+    { value: 'late_free_weeks', label: '期限超過なしの週の連続数', unit: '週' },
+]
+
+// gamification_goals テーブルの行型（管理者が設定するカスタム目標）
+export interface GamificationGoal {
+    id: number
+    user_id: string
+    title: string
+    goal_type: GoalType
+    target: number
+    reward: string | null           // 達成時のご褒美（自由記述）
+    effective_from: string
+    effective_to: string | null
+    created_at: string
+}
+
+// gamification_goal_completions テーブルの行型
+export interface GamificationGoalCompletion {
+    id: number
+    goal_id: number
+    user_id: string
+    period_key: string              // 月間目標: 'yyyy-MM'、連続週目標: 達成した週の開始日 'yyyy-MM-dd'
+    completed_at: string
+}
+
 // 計算に渡す簡易型（テーブル行から抽出）
 export interface VersionedSettings {
     condition_type: 'straight_count' | 'monthly_all'
@@ -67,6 +126,8 @@ export interface VersionedSettings {
     allow_late: boolean
     use_target_days: boolean
     custom_required_days: number
+    week_starts_on: WeekStartsOn    // 週の開始曜日（ストレート達成・グループの週区切り）
+    shield_max_stock: number        // シールドの所持上限（上限に達している間の獲得は見送り）
 }
 
 // VersionedSettings のデフォルト値
@@ -78,6 +139,8 @@ export const DEFAULT_VERSIONED_SETTINGS: VersionedSettings = {
     allow_late: true,
     use_target_days: true,
     custom_required_days: 7,
+    week_starts_on: 1,
+    shield_max_stock: 3,
 }
 
 // デフォルト設定（UI フラグ + effective_from のみ）
@@ -97,5 +160,8 @@ export const DEFAULT_GAMIFICATION_SETTINGS: GamificationSettings = {
     total_reps: {
         enabled: true
     },
+    titles: {
+        enabled: true
+    },
     effective_from: null    // デフォルトはnull（全期間対象）
 }
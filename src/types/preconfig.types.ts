@@ -1,4 +1,6 @@
 import { PreconfigGamificationSettings, DEFAULT_GAMIFICATION_SETTINGS } from './gamification.types'
+import { DEFAULT_TIMEZONE } from '@/lib/timezone'
+import { DEFAULT_COMPRESSION_MAX_HEIGHT, DEFAULT_COMPRESSION_BITRATE_KBPS } from '@/lib/upload-constants'
 
 export interface PreconfigRule {
     temp_id: number
@@ -26,6 +28,13 @@ export interface PreconfigProfileSettings {
     deadline_mode: 'none' | 'mark'
     show_duplicate_to_user: boolean
     video_retention_days: number
+    timezone?: string   // 未設定の古い preconfig は DEFAULT_TIMEZONE 扱い
+    // 動画圧縮（未設定の古い preconfig は圧縮なし）
+    video_compression_enabled?: boolean
+    video_compression_max_height?: number
+    video_compression_bitrate_kbps?: number
+    duplicate_video_policy?: 'none' | 'warn' | 'block'   // 未設定の古い preconfig は 'warn' 扱い
+    recording_date_policy?: 'none' | 'warn' | 'block'    // 未設定の古い preconfig は 'warn' 扱い
     gamification_settings: PreconfigGamificationSettings | null
 }
 
@@ -42,6 +51,12 @@ export const DEFAULT_PRECONFIG: PreconfigData = {
         deadline_mode: 'none',
         show_duplicate_to_user: false,
         video_retention_days: 30,
+        timezone: DEFAULT_TIMEZONE,
+        video_compression_enabled: false,
+        video_compression_max_height: DEFAULT_COMPRESSION_MAX_HEIGHT,
+        video_compression_bitrate_kbps: DEFAULT_COMPRESSION_BITRATE_KBPS,
+        duplicate_video_policy: 'warn',
+        recording_date_policy: 'warn',
         gamification_settings: DEFAULT_GAMIFICATION_SETTINGS,
     },
     rules: [],
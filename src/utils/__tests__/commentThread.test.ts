@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest'
+import { isTrainerMessage, sortThread, getUnreadMessages } from '@/utils/commentThread'
+
+const OWNER = 'client-1'
+const TRAINER = 'admin-1'
+
+function message(id: string, userId: string, createdAt: string, readAt: string | null = null) {
+    return { id, user_id: userId, content: id, read_at: readAt, created_at: createdAt }
+}
+
+const thread = [
+    message('reply', OWNER, '2026-04-10T10:00:00Z'),
+    message('first', TRAINER, '2026-04-09T10:00:00Z', '2026-04-09T12:00:00Z'),
+    message('followup', TRAINER, '2026-04-11T10:00:00Z'),
+]
+
+describe('isTrainerMessage', () => {
+    it('投稿者以外のメッセージはトレーナー', () => {
+        expect(isTrainerMessage(thread[1], OWNER)).toBe(true)
+        expect(isTrainerMessage(thread[0], OWNER)).toBe(false)
+    })
+})
+
+describe('sortThread', () => {
+    it('古い順に並べる（元の配列は変更しない）', () => {
+        expect(sortThread(thread).map(m => m.id)).toEqual(['first', 'reply', 'followup'])
+        expect(thread[0].id).toBe('reply')
+    })
+})
+
+describe('getUnreadMessages', () => {
+    it('トレーナーにはクライアントからの未読を返す', () => {
+        expect(getUnreadMessages(thread, OWNER, true).map(m => m.id)).toEqual(['reply'])
+    })
+
+    it('クライアントにはトレーナーからの未読を返す', () => {
+        expect(getUnreadMessages(thread, OWNER, false).map(m => m.id)).toEqual(['followup'])
+    })
+})
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest'
+import { findDuplicateSubmission, getDuplicateVideoMessage } from '@/utils/duplicateDetection'
+
+function video(id: number, targetDate: string, overrides: Partial<{ video_hash: string | null; file_last_modified: string | null; created_at: string }> = {}) {
+    return {
+        id,
+        target_date: targetDate,
+        file_name: `IMG_${id}.MOV`,
+        video_hash: null,
+        file_last_modified: null,
+        created_at: `${targetDate}T12:00:00Z`,
+        ...overrides,
+    }
+}
+
+describe('findDuplicateSubmission', () => {
+    it('Hash一致の最も早く提出された動画を重複元にする', () => {
+        const target = video(3, '2026-04-10', { video_hash: 'abc' })
+        const result = findDuplicateSubmission(target, [
+            target,
+            video(2, '2026-04-09', { video_hash: 'abc' }),
+            video(1, '2026-04-08', { video_hash: 'abc' }),
+        ])
+        expect(result).toEqual({
+            type: 'hash',
+            info: { submissionId: 1, targetDate: '2026-04-08', fileName: 'IMG_1.MOV' },
+        })
+    })
+
+    it('Hash一致がなければファイル更新時刻の一致を探す', () => {
+        const modified = '2026-04-08T09:30:00.000Z'
+        const target = video(2, '2026-04-10', { video_hash: 'abc', file_last_modified: modified })
+        const result = findDuplicateSubmission(target, [
+            target,
+            video(1, '2026-04-08', { video_hash: 'xyz', file_last_modified: '2026-04-08T09:30:00+00:00' }),
+        ])
+        expect(result?.type).toBe('file_time')
+        expect(result?.info.submissionId).toBe(1)
+    })
+
+    it('自分自身は重複元にしない', () => {
+        const target = video(1, '2026-04-10', { video_hash: 'abc' })
+        expect(findDuplicateSubmission(target, [target])).toBeNull()
+    })
+})
+
+describe('getDuplicateVideoMessage', () => {
+    const duplicate = { submissionId: 1, targetDate: '2026-04-08', fileName: 'IMG_1.MOV' }
+
+    it('警告', () => {
+        expect(getDuplicateVideoMessage({ policy: 'warn', duplicate })).toBe('この動画は4/8に提出済みの動画と同じです。')
+    })
+
+    it('ブロック', () => {
+        expect(getDuplicateVideoMessage({ policy: 'block', duplicate })).toContain('アップロードできません')
+    })
+
+    it('重複がない・チェックしない設定なら表示しない', () => {
+        expect(getDuplicateVideoMessage({ policy: 'block', duplicate: null })).toBeNull()
+        expect(getDuplicateVideoMessage({ policy: 'none', duplicate })).toBeNull()
+        expect(getDuplicateVideoMessage(null)).toBeNull()
+    })
+})
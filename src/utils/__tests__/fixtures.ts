@@ -0,0 +1,128 @@
+/**
+ * streakCalculator / groupFulfillment / goalEvaluator テスト用のフィクスチャ
+ * 日付はすべてローカル（日本時間）の 'yyyy-MM-dd' で記述する
+ */
+
+import { format, parseISO, addDays } from 'date-fns'
+import { SubmissionForStreak, GroupConfig, IsRestDayFn } from '@/utils/streakCalculator'
+import { VersionedSettings, DEFAULT_VERSIONED_SETTINGS } from '@/types/gamification.types'
+
+// テスト上の「現在時刻」: 2026-04-10（金）12:00
+export const NOW = new Date(2026, 3, 10, 12, 0, 0)
+
+export function day(dateStr: string): Date {
+    return parseISO(dateStr)
+}
+
+/**
+ * 承認済みの動画投稿
+ */
+export function approved(targetDate: string, overrides: Partial<SubmissionForStreak> = {}): SubmissionForStreak {
+    return {
+        target_date: targetDate,
+        status: 'success',
+        is_revival: false,
+        is_late: false,
+        type: 'video',
+        ...overrides,
+    }
+}
+
+/**
+ * 未判定の動画投稿
+ */
+export function pending(targetDate: string): SubmissionForStreak {
+    return approved(targetDate, { status: null })
+}
+
+/**
+ * 却下された動画投稿
+ */
+export function failed(targetDate: string): SubmissionForStreak {
+    return approved(targetDate, { status: 'fail' })
+}
+
+/**
+ * シールド適用レコード（apply_shield RPC と同じく status='success'）
+ */
+export function shield(targetDate: string): SubmissionForStreak {
+    return approved(targetDate, { type: 'shield' })
+}
+
+/**
+ * from〜to（両端含む）の各日に承認済み投稿を作る。except の日付は除外
+ */
+export function approvedRange(from: string, to: string, except: string[] = []): SubmissionForStreak[] {
+    const result: SubmissionForStreak[] = []
+    for (let d = day(from); format(d, 'yyyy-MM-dd') <= to; d = addDays(d, 1)) {
+        const dateStr = format(d, 'yyyy-MM-dd')
+        if (!except.includes(dateStr)) result.push(approved(dateStr))
+    }
+    return result
+}
+
+/**
+ * 指定曜日（0=日〜6=土）を定休日とする判定関数
+ */
+export function restDays(...daysOfWeek: number[]): IsRestDayFn {
+    return (date: Date) => daysOfWeek.includes(date.getDay())
+}
+
+export const noRestDays: IsRestDayFn = () => false
+
+export function group(
+    groupId: string,
+    daysOfWeek: number[],
+    requiredCount: number,
+    effectiveFrom: string,
+    effectiveTo: string | null = null
+): GroupConfig {
+    return { groupId, daysOfWeek, requiredCount, effectiveFrom, effectiveTo }
+}
+
+/**
+ * useSubmissionRules.getGroupConfigsForDate と同じ [effectiveFrom, effectiveTo) で有効なグループを返す
+ */
+export function groupConfigsFor(configs: GroupConfig[]): (date: Date) => GroupConfig[] {
+    return (date: Date) => {
+        const dateStr = format(date, 'yyyy-MM-dd')
+        return configs.filter(g =>
+            g.effectiveFrom <= dateStr && (g.effectiveTo === null || g.effectiveTo > dateStr)
+        )
+    }
+}
+
+/**
+ * useSubmissionRules.getTargetDaysPerWeek と同じ計算（7 - 定休日数 - グループ削減日数）
+ */
+export function weeklyTargetFor(
+    restDayCount: number,
+    getGroupConfigs: (date: Date) => GroupConfig[] = () => []
+): (date: Date) => number {
+    return (date: Date) => {
+        const groupReduceCount = getGroupConfigs(date)
+            .reduce((sum, g) => sum + (g.daysOfWeek.length - g.requiredCount), 0)
+        return 7 - restDayCount - groupReduceCount
+    }
+}
+
+interface SettingsVersionFixture extends Partial<VersionedSettings> {
+    from: string
+    to?: string | null
+}
+
+/**
+ * useGamificationVersions.getSettingsForDate と同じ解決（新しい順に [from, to) を探し、なければデフォルト）
+ */
+export function settingsFor(...versions: SettingsVersionFixture[]): (date: Date) => VersionedSettings {
+    const sorted = [...versions].sort((a, b) => b.from.localeCompare(a.from))
+    return (date: Date) => {
+        const dateStr = format(date, 'yyyy-MM-dd')
+        for (const { from, to, ...settings } of sorted) {
+            if (from > dateStr) continue
+            if (to && to <= dateStr) continue
+            return { ...DEFAULT_VERSIONED_SETTINGS, ...settings }
+        }
+        return DEFAULT_VERSIONED_SETTINGS
+    }
+}
@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { evaluateGoal, GoalDefinition, SubmissionForGoal } from '@/utils/goalEvaluator'
+import { SubmissionForStreak } from '@/utils/streakCalculator'
+import { NOW, approved, pending, failed, shield, approvedRange, settingsFor } from './fixtures'
+
+beforeEach(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(NOW)
+})
+
+afterEach(() => {
+    vi.useRealTimers()
+})
+
+function goal(overrides: Partial<GoalDefinition>): GoalDefinition {
+    return {
+        id: 1,
+        goal_type: 'monthly_reps',
+        target: 100,
+        effective_from: '2026-01-01',
+        effective_to: null,
+        ...overrides,
+    }
+}
+
+function withReps(submission: SubmissionForStreak, reps: number | null = null): SubmissionForGoal {
+    return { ...submission, reps }
+}
+
+describe('evaluateGoal（月間目標）', () => {
+    it('当月の承認済み投稿の回数を合計する（未判定・却下・シールド・前月は除外）', () => {
+        const submissions = [
+            withReps(approved('2026-04-01'), 30),
+            withReps(approved('2026-04-02'), 40),
+            withReps(pending('2026-04-03'), 50),
+            withReps(failed('2026-04-04'), 50),
+            withReps(shield('2026-04-05')),
+            withReps(approved('2026-03-31'), 100),
+        ]
+        const result = evaluateGoal(goal({}), submissions)
+        expect(result.current).toBe(70)
+        expect(result.completed).toBe(false)
+        expect(result.completedPeriodKeys).toEqual(['2026-03'])
+    })
+
+    it('投稿日数は同日の複数投稿を1日と数える', () => {
+        const submissions = [
+            ...approvedRange('2026-04-01', '2026-04-05'),
+            approved('2026-04-05'),
+        ].map(s => withReps(s))
+        const result = evaluateGoal(goal({ goal_type: 'monthly_days', target: 5 }), submissions)
+        expect(result.current).toBe(5)
+        expect(result.completed).toBe(true)
+        expect(result.completedPeriodKeys).toEqual(['2026-04'])
+    })
+
+    it('effective_from より前の投稿は数えない', () => {
+        const submissions = approvedRange('2026-04-01', '2026-04-09').map(s => withReps(s))
+        const result = evaluateGoal(goal({ goal_type: 'monthly_days', target: 5, effective_from: '2026-04-06' }), submissions)
+        expect(result.current).toBe(4)
+        expect(result.completed).toBe(false)
+    })
+
+    it('終了済みの目標は最終月を現在の期間とする', () => {
+        const submissions = approvedRange('2026-02-01', '2026-02-10').map(s => withReps(s))
+        const result = evaluateGoal(
+            goal({ goal_type: 'monthly_days', target: 10, effective_to: '2026-03-01' }),
+            submissions
+        )
+        expect(result.current).toBe(10)
+        expect(result.completedPeriodKeys).toEqual(['2026-02'])
+    })
+})
+
+describe('evaluateGoal（期限超過なしの週）', () => {
+    const lateFree = (overrides: Partial<GoalDefinition> = {}) =>
+        goal({ goal_type: 'late_free_weeks', target: 2, effective_from: '2026-03-16', ...overrides })
+
+    it('終了済みの週のみ数え、target 週連続で達成する', () => {
+        // 3/16〜3/22, 3/23〜3/29, 3/30〜4/5 が完了週。4/6〜 は判定しない
+        const submissions = [
+            approved('2026-03-17'),
+            approved('2026-03-24'),
+            approved('2026-04-01'),
+            approved('2026-04-07', { is_late: true }),
+        ].map(s => withReps(s))
+        const result = evaluateGoal(lateFree(), submissions)
+        expect(result.completedPeriodKeys).toEqual(['2026-03-23'])
+        expect(result.current).toBe(1)
+        expect(result.completed).toBe(false)
+    })
+
+    it('遅刻投稿や投稿のない週で連続が途切れる', () => {
+        const submissions = [
+            approved('2026-03-17'),
+            approved('2026-03-24', { is_late: true }),
+            approved('2026-04-01'),
+        ].map(s => withReps(s))
+        const result = evaluateGoal(lateFree(), submissions)
+        expect(result.completedPeriodKeys).toEqual([])
+        expect(result.current).toBe(1)
+    })
+
+    it('直近の週で達成した場合は completed になる', () => {
+        const submissions = [approved('2026-03-24'), approved('2026-04-01')].map(s => withReps(s))
+        const result = evaluateGoal(lateFree({ effective_from: '2026-03-23' }), submissions)
+        expect(result.completed).toBe(true)
+        expect(result.current).toBe(2)
+        expect(result.completedPeriodKeys).toEqual(['2026-03-30'])
+    })
+
+    it('週の開始曜日の設定に従って週を区切る', () => {
+        // 日曜始まり: 3/22〜3/28, 3/29〜4/4 が完了週（4/5〜 は進行中）
+        const sunday = settingsFor({ from: '2026-01-01', week_starts_on: 0 })
+        const submissions = [approved('2026-03-23'), approved('2026-03-29')].map(s => withReps(s))
+        const result = evaluateGoal(
+            lateFree({ effective_from: '2026-03-22' }),
+            submissions,
+            date => sunday(date).week_starts_on
+        )
+        expect(result.completedPeriodKeys).toEqual(['2026-03-29'])
+    })
+})
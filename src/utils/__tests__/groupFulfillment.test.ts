@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest'
+import { getGroupInfoForDate, isGroupFulfilledForDate } from '@/utils/groupFulfillment'
+import { day, approved, failed, group } from './fixtures'
+
+// 2026-03-09（月）〜 2026-03-15（日）の週を基準にする
+const weekend = group('weekend', [0, 6], 1, '2026-03-01')
+
+describe('getGroupInfoForDate', () => {
+    it('グループ外の曜日は null', () => {
+        expect(getGroupInfoForDate(day('2026-03-11'), [weekend], [])).toBeNull()
+    })
+
+    it('同じ週の別の日で必要日数を満たしていれば充足', () => {
+        const info = getGroupInfoForDate(day('2026-03-15'), [weekend], [approved('2026-03-14')])
+        expect(info).toEqual({
+            groupLabel: '土日',
+            requiredCount: 1,
+            postedDaysCount: 1,
+            isFulfilled: true,
+        })
+        expect(isGroupFulfilledForDate(day('2026-03-15'), [weekend], [approved('2026-03-14')])).toBe(true)
+    })
+
+    it('その日自体に投稿があれば充足扱いにしない', () => {
+        const info = getGroupInfoForDate(day('2026-03-14'), [weekend], [approved('2026-03-14')])
+        expect(info?.postedDaysCount).toBe(1)
+        expect(info?.isFulfilled).toBe(false)
+    })
+
+    it('却下された投稿は数えない', () => {
+        const info = getGroupInfoForDate(day('2026-03-15'), [weekend], [failed('2026-03-14')])
+        expect(info?.postedDaysCount).toBe(0)
+        expect(info?.isFulfilled).toBe(false)
+    })
+
+    it('週は月曜始まり（前週の日曜は別の週）', () => {
+        const info = getGroupInfoForDate(day('2026-03-14'), [weekend], [approved('2026-03-08')])
+        expect(info?.postedDaysCount).toBe(0)
+    })
+
+    it('適用開始日より前のグループ曜日は数えない', () => {
+        // 日曜から適用されたグループでは、同じ週の土曜の投稿は対象外
+        const startsSunday = group('weekend', [0, 6], 1, '2026-03-15')
+        const info = getGroupInfoForDate(day('2026-03-15'), [startsSunday], [approved('2026-03-14')])
+        expect(info?.postedDaysCount).toBe(0)
+        expect(info?.isFulfilled).toBe(false)
+    })
+
+    it('適用終了日以降は対象外（[effectiveFrom, effectiveTo)）', () => {
+        const endsSunday = group('weekend', [0, 6], 1, '2026-03-01', '2026-03-15')
+        expect(getGroupInfoForDate(day('2026-03-14'), [endsSunday], [])).not.toBeNull()
+        expect(getGroupInfoForDate(day('2026-03-15'), [endsSunday], [])).toBeNull()
+    })
+
+    it('バージョン切り替え後は新しいグループの必要日数で判定する', () => {
+        const configs = [
+            group('weekend-v1', [0, 6], 1, '2026-03-01', '2026-03-09'),
+            group('weekend-v2', [0, 6], 2, '2026-03-09'),
+        ]
+        const info = getGroupInfoForDate(day('2026-03-15'), configs, [approved('2026-03-14')])
+        expect(info?.requiredCount).toBe(2)
+        expect(info?.isFulfilled).toBe(false)
+    })
+
+    it('曜日ラベルは月曜始まりの順', () => {
+        const mwfSun = group('mix', [0, 5, 1, 3], 2, '2026-03-01')
+        expect(getGroupInfoForDate(day('2026-03-11'), [mwfSun], [])?.groupLabel).toBe('月水金日')
+    })
+})
+
+describe('getGroupInfoForDate（日曜始まり）', () => {
+    const sundayStart = () => 0 as const
+
+    it('日曜と同じ週の土曜の投稿で充足', () => {
+        const info = getGroupInfoForDate(day('2026-03-08'), [weekend], [approved('2026-03-14')], sundayStart)
+        expect(info?.postedDaysCount).toBe(1)
+        expect(info?.isFulfilled).toBe(true)
+    })
+
+    it('前日の土曜は前の週', () => {
+        const info = getGroupInfoForDate(day('2026-03-15'), [weekend], [approved('2026-03-14')], sundayStart)
+        expect(info?.postedDaysCount).toBe(0)
+    })
+
+    it('曜日ラベルは日曜始まりの順', () => {
+        expect(getGroupInfoForDate(day('2026-03-14'), [weekend], [], sundayStart)?.groupLabel).toBe('日土')
+    })
+
+    it('開始曜日の変更をまたぐ週では変更前の週に属する日を数えない', () => {
+        // 3/11（水）から日曜始まり: 3/8（日）は月曜始まりの 3/2 週、3/14（土）は日曜始まりの 3/8 週
+        const changed = (date: Date) => (date >= day('2026-03-11') ? 0 : 1)
+        const info = getGroupInfoForDate(day('2026-03-14'), [weekend], [approved('2026-03-08')], changed)
+        expect(info?.postedDaysCount).toBe(0)
+    })
+})
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest'
+import {
+    getRecordedAt,
+    getRecordingDate,
+    isRecordingDateMismatch,
+    getRecordingDateMessage,
+    getRecordingDateInfo,
+} from '@/utils/recordingDate'
+
+const NOW = new Date('2026-04-10T12:00:00Z')
+
+describe('getRecordedAt', () => {
+    it('動画の作成日時を優先する', () => {
+        expect(getRecordedAt('2026-04-09T10:00:00Z', '2026-04-10T10:00:00Z', NOW))
+            .toEqual({ at: '2026-04-09T10:00:00Z', source: 'metadata' })
+    })
+
+    it('作成日時がなければファイルの更新日時を使う', () => {
+        expect(getRecordedAt(null, '2026-04-10T10:00:00Z', NOW))
+            .toEqual({ at: '2026-04-10T10:00:00Z', source: 'file' })
+    })
+
+    it('未設定の作成日時（1904年など）や未来の日時は採用しない', () => {
+        expect(getRecordedAt('1904-01-01T00:00:00Z', '2026-04-10T10:00:00Z', NOW)?.source).toBe('file')
+        expect(getRecordedAt('2026-05-01T00:00:00Z', null, NOW)).toBeNull()
+    })
+})
+
+describe('isRecordingDateMismatch', () => {
+    it('クライアントのタイムゾーンの日付で比べる', () => {
+        // UTC では 4/9、東京では 4/10
+        const recordedAt = { at: '2026-04-09T16:00:00Z', source: 'metadata' as const }
+        expect(getRecordingDate(recordedAt, 'Asia/Tokyo')).toBe('2026-04-10')
+        expect(isRecordingDateMismatch(recordedAt, '2026-04-10', 'Asia/Tokyo')).toBe(false)
+        expect(isRecordingDateMismatch(recordedAt, '2026-04-10', 'America/New_York')).toBe(true)
+    })
+
+    it('撮影日時が不明なら一致扱い', () => {
+        expect(isRecordingDateMismatch(null, '2026-04-10', 'Asia/Tokyo')).toBe(false)
+    })
+})
+
+describe('getRecordingDateMessage', () => {
+    const recordedAt = { at: '2026-04-08T03:00:00Z', source: 'metadata' as const }
+
+    it('警告', () => {
+        expect(getRecordingDateMessage('warn', recordedAt, '2026-04-10', 'Asia/Tokyo'))
+            .toBe('この動画は4/8に撮影されたようです（提出日は4/10）。')
+    })
+
+    it('ブロック', () => {
+        expect(getRecordingDateMessage('block', recordedAt, '2026-04-10', 'Asia/Tokyo'))
+            .toBe('この動画は4/8に撮影されたため、4/10の提出には使えません。4/10に撮影した動画を選択してください。')
+    })
+
+    it('チェックしない設定・日付が一致する場合は null', () => {
+        expect(getRecordingDateMessage('none', recordedAt, '2026-04-10', 'Asia/Tokyo')).toBeNull()
+        expect(getRecordingDateMessage('block', recordedAt, '2026-04-08', 'Asia/Tokyo')).toBeNull()
+    })
+})
+
+describe('getRecordingDateInfo', () => {
+    it('撮影日と提出日との不一致を返す', () => {
+        const info = getRecordingDateInfo({
+            video_created_at: '2026-04-08T03:00:00Z',
+            file_last_modified: '2026-04-10T03:00:00Z',
+            target_date: '2026-04-10',
+        }, 'Asia/Tokyo')
+        expect(info).toMatchObject({ label: '4/8撮影', mismatch: true, recordedAt: { source: 'metadata' } })
+    })
+
+    it('撮影日時が不明なら null', () => {
+        expect(getRecordingDateInfo({ video_created_at: null, file_last_modified: null, target_date: '2026-04-10' }, 'Asia/Tokyo')).toBeNull()
+    })
+})
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest'
+import { groupReviewQueue, getAdjacentReviewItemId, getNextReviewItemIdAfterRemoval } from '@/utils/reviewQueue'
+
+function item(id: number, userId: string, createdAt: string) {
+    return { id, user_id: userId, created_at: createdAt }
+}
+
+const items = [
+    item(1, 'bob', '2026-04-09T10:00:00Z'),
+    item(2, 'alice', '2026-04-08T10:00:00Z'),
+    item(3, 'bob', '2026-04-07T10:00:00Z'),
+    item(4, 'alice', '2026-04-10T10:00:00Z'),
+    item(5, 'carol', '2026-04-08T12:00:00Z'),
+]
+
+describe('groupReviewQueue', () => {
+    it('クライアントごとにまとめ、最も古い投稿の順に並べる', () => {
+        const groups = groupReviewQueue(items)
+        expect(groups.map(g => g.userId)).toEqual(['bob', 'alice', 'carol'])
+        expect(groups[0]).toEqual({
+            userId: 'bob',
+            items: [items[2], items[0]],
+            oldestCreatedAt: '2026-04-07T10:00:00Z',
+        })
+        expect(groups[1].items.map(i => i.id)).toEqual([2, 4])
+    })
+
+    it('空なら空配列', () => {
+        expect(groupReviewQueue([])).toEqual([])
+    })
+})
+
+describe('getAdjacentReviewItemId', () => {
+    const groups = groupReviewQueue(items)
+
+    it('表示順（グループをまたぐ）で前後の投稿を返す', () => {
+        expect(getAdjacentReviewItemId(groups, 1, 1)).toBe(2)
+        expect(getAdjacentReviewItemId(groups, 2, -1)).toBe(1)
+        expect(getAdjacentReviewItemId(groups, 5, 1)).toBeNull()
+        expect(getAdjacentReviewItemId(groups, 3, -1)).toBeNull()
+    })
+
+    it('未選択・キューにない投稿なら先頭を返す', () => {
+        expect(getAdjacentReviewItemId(groups, null, 1)).toBe(3)
+        expect(getAdjacentReviewItemId(groups, 99, 1)).toBe(3)
+        expect(getAdjacentReviewItemId([], null, 1)).toBeNull()
+    })
+})
+
+describe('getNextReviewItemIdAfterRemoval', () => {
+    it('次の投稿、末尾なら前の投稿を返す', () => {
+        const groups = groupReviewQueue(items)
+        expect(getNextReviewItemIdAfterRemoval(groups, 1)).toBe(2)
+        expect(getNextReviewItemIdAfterRemoval(groups, 5)).toBe(4)
+        expect(getNextReviewItemIdAfterRemoval(groupReviewQueue([items[0]]), 1)).toBeNull()
+    })
+})
@@ -0,0 +1,299 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { format } from 'date-fns'
+import { fixedClock, asOfClock } from '@/lib/clock'
+import {
+    calculateStreak,
+    analyzeStreakHistory,
+    calculatePerfectWeeks,
+    isRevivalCandidate,
+    calculateShieldReward,
+} from '@/utils/streakCalculator'
+import {
+    NOW, day, approved, pending, failed, shield, approvedRange,
+    restDays, noRestDays, group, groupConfigsFor, weeklyTargetFor, settingsFor,
+} from './fixtures'
+
+beforeEach(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(NOW)
+})
+
+afterEach(() => {
+    vi.useRealTimers()
+})
+
+// 週の確定基準（useGamification と同じく今日の 0 時）
+const confirmedBefore = day('2026-04-10')
+
+describe('calculateStreak', () => {
+    it('当日の記録がなければ昨日から数える', () => {
+        const result = calculateStreak(approvedRange('2026-04-07', '2026-04-09'), noRestDays)
+        expect(result.currentStreak).toBe(3)
+    })
+
+    it('当日に未判定の投稿があれば当日も数える', () => {
+        const submissions = [...approvedRange('2026-04-08', '2026-04-09'), pending('2026-04-10')]
+        expect(calculateStreak(submissions, noRestDays).currentStreak).toBe(3)
+    })
+
+    it('当日の記録が却下のみならストリークは 0', () => {
+        const submissions = [...approvedRange('2026-04-07', '2026-04-09'), failed('2026-04-10')]
+        expect(calculateStreak(submissions, noRestDays).currentStreak).toBe(0)
+    })
+
+    it('定休日は途切れさせずカウントもしない', () => {
+        const submissions = approvedRange('2026-04-03', '2026-04-09', ['2026-04-05'])
+        expect(calculateStreak(submissions, restDays(0)).currentStreak).toBe(6)
+    })
+
+    it('シールド日は途切れさせずカウントもしない', () => {
+        const submissions = [...approvedRange('2026-04-06', '2026-04-09', ['2026-04-08']), shield('2026-04-08')]
+        const result = calculateStreak(submissions, noRestDays)
+        expect(result.currentStreak).toBe(3)
+        expect(result.shieldDays).toEqual(['2026-04-08'])
+    })
+
+    it('定休日に置いたシールドは結果に影響しない', () => {
+        const base = approvedRange('2026-04-04', '2026-04-09', ['2026-04-05'])
+        const withShield = calculateStreak([...base, shield('2026-04-05')], restDays(0))
+        expect(withShield.currentStreak).toBe(5)
+        expect(withShield.currentStreak).toBe(calculateStreak(base, restDays(0)).currentStreak)
+    })
+
+    it('適用開始日より前は数えない', () => {
+        const submissions = approvedRange('2026-04-01', '2026-04-09')
+        expect(calculateStreak(submissions, noRestDays, day('2026-04-06')).currentStreak).toBe(4)
+    })
+
+    it.each([
+        ['土曜に投稿があれば日曜は余剰日としてスキップ', ['2026-04-05'], 7],
+        ['土日とも未投稿なら途切れる', ['2026-04-04', '2026-04-05'], 4],
+    ])('グループ: %s', (_label, except, expected) => {
+        const getGroupConfigs = groupConfigsFor([group('weekend', [0, 6], 1, '2026-03-01')])
+        const submissions = approvedRange('2026-04-02', '2026-04-09', except)
+        expect(calculateStreak(submissions, noRestDays, undefined, getGroupConfigs).currentStreak).toBe(expected)
+    })
+
+    it('グループ設定の変更をまたぐ場合は各週に有効な設定で判定する', () => {
+        // 3/30 から土日グループの必要日数が 1 → 2 に変わる
+        const submissions = approvedRange('2026-03-23', '2026-04-09', ['2026-03-29', '2026-04-05'])
+        const changed = groupConfigsFor([
+            group('weekend-v1', [0, 6], 1, '2026-03-02', '2026-03-30'),
+            group('weekend-v2', [0, 6], 2, '2026-03-30'),
+        ])
+        const unchanged = groupConfigsFor([group('weekend-v1', [0, 6], 1, '2026-03-02')])
+
+        expect(calculateStreak(submissions, noRestDays, undefined, changed).currentStreak).toBe(4)
+        expect(calculateStreak(submissions, noRestDays, undefined, unchanged).currentStreak).toBe(16)
+    })
+})
+
+describe('週の開始曜日', () => {
+    const sundayStart = () => 0 as const
+    const weekend = groupConfigsFor([group('weekend', [0, 6], 1, '2026-03-01')])
+
+    it.each([
+        ['月曜始まりなら土曜の投稿で日曜をスキップ', undefined, 7],
+        ['日曜始まりなら日曜は翌週の土曜と同じ週なのでスキップしない', sundayStart, 4],
+    ])('calculateStreak: %s', (_label, getWeekStartsOn, expected) => {
+        const submissions = approvedRange('2026-04-02', '2026-04-09', ['2026-04-05'])
+        expect(calculateStreak(submissions, noRestDays, undefined, weekend, getWeekStartsOn).currentStreak).toBe(expected)
+    })
+
+    it.each([
+        ['月曜始まり', settingsFor(), 0],
+        ['日曜始まり', settingsFor({ from: '2026-03-01', week_starts_on: 0 }), 1],
+    ])('calculatePerfectWeeks: 日〜土の投稿は%sで判定すると', (_label, getSettingsForDate, expected) => {
+        const submissions = approvedRange('2026-03-08', '2026-03-14')
+        expect(calculatePerfectWeeks(
+            submissions, noRestDays, weeklyTargetFor(0), () => [], getSettingsForDate, confirmedBefore
+        )).toBe(expected)
+    })
+
+    it('変更前の週は変更前の区切りのまま判定する', () => {
+        // 3/22（日）から日曜始まりに変更。3/2〜3/15 は月曜始まりの 2 週
+        const submissions = approvedRange('2026-03-02', '2026-03-15')
+        const count = (getSettingsForDate: ReturnType<typeof settingsFor>) => calculatePerfectWeeks(
+            submissions, noRestDays, weeklyTargetFor(0), () => [], getSettingsForDate, confirmedBefore
+        )
+        expect(count(settingsFor(
+            { from: '2026-03-01', to: '2026-03-22' },
+            { from: '2026-03-22', week_starts_on: 0 },
+        ))).toBe(2)
+        // 最初から日曜始まりなら 3/8〜3/14 の 1 週のみ
+        expect(count(settingsFor({ from: '2026-03-01', week_starts_on: 0 }))).toBe(1)
+    })
+})
+
+describe('analyzeStreakHistory', () => {
+    it('グループ設定の変更で途切れた区間と継続中の区間を分けて返す', () => {
+        const submissions = approvedRange('2026-03-23', '2026-04-09', ['2026-03-29', '2026-04-05'])
+        const getGroupConfigs = groupConfigsFor([
+            group('weekend-v1', [0, 6], 1, '2026-03-02', '2026-03-30'),
+            group('weekend-v2', [0, 6], 2, '2026-03-30'),
+        ])
+
+        const history = analyzeStreakHistory(submissions, noRestDays, undefined, getGroupConfigs)
+
+        expect(history.segments).toEqual([
+            { startDate: '2026-03-23', endDate: '2026-04-04', length: 12, brokenBy: '2026-04-05' },
+            { startDate: '2026-04-06', endDate: '2026-04-09', length: 4, brokenBy: null },
+        ])
+        expect(history.longest?.length).toBe(12)
+        expect(history.current?.length).toBe(4)
+    })
+
+    it('最長が同じ長さなら新しい区間を採用する', () => {
+        const submissions = [
+            ...approvedRange('2026-04-01', '2026-04-02'),
+            ...approvedRange('2026-04-04', '2026-04-05'),
+            ...approvedRange('2026-04-08', '2026-04-09'),
+        ]
+        const history = analyzeStreakHistory(submissions, noRestDays)
+
+        expect(history.segments).toHaveLength(3)
+        expect(history.longest?.startDate).toBe('2026-04-08')
+        expect(history.current?.startDate).toBe('2026-04-08')
+    })
+
+    it('投稿がなければ空', () => {
+        expect(analyzeStreakHistory([], noRestDays)).toEqual({ segments: [], longest: null, current: null })
+    })
+})
+
+describe('calculatePerfectWeeks', () => {
+    const noGroups = () => []
+
+    it.each([
+        ['週目標（7日）では達成にならない', settingsFor(), 1],
+        ['必要日数 5 日なら達成になる', settingsFor({ from: '2026-03-01', use_target_days: false, custom_required_days: 5 }), 2],
+    ])('最初の部分週（水曜開始）: %s', (_label, getSettingsForDate, expected) => {
+        const submissions = approvedRange('2026-03-04', '2026-03-15')
+        const count = calculatePerfectWeeks(
+            submissions, noRestDays, weeklyTargetFor(0), noGroups, getSettingsForDate, confirmedBefore
+        )
+        expect(count).toBe(expected)
+    })
+
+    it('確定前の週（今週）は数えない', () => {
+        const submissions = approvedRange('2026-04-06', '2026-04-10')
+        const getSettingsForDate = settingsFor({ from: '2026-03-01', use_target_days: false, custom_required_days: 5 })
+        expect(calculatePerfectWeeks(
+            submissions, noRestDays, weeklyTargetFor(0), noGroups, getSettingsForDate, confirmedBefore
+        )).toBe(0)
+    })
+
+    it.each([
+        [true, 1],
+        [false, 0],
+    ])('遅刻投稿: allow_late=%s', (allowLate, expected) => {
+        const submissions = [
+            ...approvedRange('2026-03-09', '2026-03-15', ['2026-03-11']),
+            approved('2026-03-11', { is_late: true }),
+        ]
+        const getSettingsForDate = settingsFor({ from: '2026-03-01', allow_late: allowLate })
+        expect(calculatePerfectWeeks(
+            submissions, noRestDays, weeklyTargetFor(0), noGroups, getSettingsForDate, confirmedBefore
+        )).toBe(expected)
+    })
+
+    it.each([
+        ['allow_late=false の期間の遅刻は不達成', '2026-03-10', 0],
+        ['週途中に allow_late=true へ変わった後の遅刻は達成', '2026-03-13', 1],
+    ])('遅刻投稿（週途中の設定変更）: %s', (_label, lateDate, expected) => {
+        const submissions = [
+            ...approvedRange('2026-03-09', '2026-03-15', [lateDate]),
+            approved(lateDate, { is_late: true }),
+        ]
+        const getSettingsForDate = settingsFor(
+            { from: '2026-03-01', to: '2026-03-12', allow_late: false },
+            { from: '2026-03-12', allow_late: true },
+        )
+        expect(calculatePerfectWeeks(
+            submissions, noRestDays, weeklyTargetFor(0), noGroups, getSettingsForDate, confirmedBefore
+        )).toBe(expected)
+    })
+
+    it.each([
+        ['対象日のシールド（allow_shield=true）は達成日になる', true, '2026-03-11', 1],
+        ['対象日のシールド（allow_shield=false）は達成日にならない', false, '2026-03-11', 0],
+        ['定休日のシールドは達成日の代わりにならない', true, '2026-03-15', 0],
+    ])('シールド: %s', (_label, allowShield, shieldDate, expected) => {
+        // 日曜定休・週目標 6 日。水曜は未投稿
+        const submissions = [...approvedRange('2026-03-09', '2026-03-14', ['2026-03-11']), shield(shieldDate)]
+        const getSettingsForDate = settingsFor({ from: '2026-03-01', allow_shield: allowShield })
+        expect(calculatePerfectWeeks(
+            submissions, restDays(0), weeklyTargetFor(1), noGroups, getSettingsForDate, confirmedBefore
+        )).toBe(expected)
+    })
+
+    it.each([
+        ['新設定の週は土日とも必要', [], 1],
+        ['新設定の週に土日とも投稿すれば達成', ['2026-03-22'], 2],
+    ])('グループ設定の変更をまたぐ: %s', (_label, extraDates, expected) => {
+        // 3/16 から土日グループの必要日数が 1 → 2 に変わる（週目標も 6 → 7 日）
+        const getGroupConfigs = groupConfigsFor([
+            group('weekend-v1', [0, 6], 1, '2026-03-02', '2026-03-16'),
+            group('weekend-v2', [0, 6], 2, '2026-03-16'),
+        ])
+        const submissions = [
+            ...approvedRange('2026-03-09', '2026-03-21', ['2026-03-15']),
+            ...extraDates.map(d => approved(d)),
+        ]
+        expect(calculatePerfectWeeks(
+            submissions, noRestDays, weeklyTargetFor(0, getGroupConfigs), getGroupConfigs, settingsFor(), confirmedBefore
+        )).toBe(expected)
+    })
+})
+
+describe('isRevivalCandidate', () => {
+    it.each([
+        ['過去の空白日', '2026-04-08', [], noRestDays, true],
+        ['未判定の投稿しかない過去日', '2026-04-08', [pending('2026-04-08')], noRestDays, true],
+        ['承認済み投稿がある過去日', '2026-04-08', [approved('2026-04-08')], noRestDays, false],
+        ['定休日', '2026-04-05', [], restDays(0), false],
+        ['当日', '2026-04-10', [], noRestDays, false],
+        ['未来日', '2026-04-11', [], noRestDays, false],
+    ])('%s', (_label, targetDate, submissions, isRestDay, expected) => {
+        expect(isRevivalCandidate(day(targetDate), submissions, isRestDay)).toBe(expected)
+    })
+})
+
+describe('calculateShieldReward', () => {
+    const settings = settingsFor({ from: '2026-01-01', straight_count: 2, shield_max_stock: 3 })(day('2026-04-01'))
+
+    it.each([
+        ['達成回数が straight_count に届かない', 1, 0, settings, 0],
+        ['straight_count 回目の達成で付与', 2, 0, settings, 1],
+        ['上限に達していれば見送り', 2, 3, settings, 0],
+        ['上限を引き上げた設定なら付与', 2, 3, { ...settings, shield_max_stock: 5 }, 1],
+        ['月間全日の条件では付与しない', 2, 0, { ...settings, condition_type: 'monthly_all' as const }, 0],
+    ])('%s', (_label, count, stock, s, expected) => {
+        expect(calculateShieldReward(count, stock, s)).toBe(expected)
+    })
+})
+
+describe('Clock の差し替え', () => {
+    it.each([
+        ['日付が変わる直前は当日扱い', new Date(2026, 3, 9, 23, 59, 59), false],
+        ['日付が変わった直後は過去日扱い', new Date(2026, 3, 10, 0, 0, 0), true],
+    ])('isRevivalCandidate: %s', (_label, now, expected) => {
+        expect(isRevivalCandidate(day('2026-04-09'), [], noRestDays, fixedClock(now))).toBe(expected)
+    })
+
+    it('指定日時点のストリークを再現できる', () => {
+        const submissions = approvedRange('2026-03-01', '2026-04-09', ['2026-03-20'])
+        // 3/25 終了時点では 3/21〜3/25 の 5 日
+        expect(calculateStreak(submissions, noRestDays, undefined, undefined, undefined, asOfClock(day('2026-03-25'))).currentStreak).toBe(5)
+        expect(calculateStreak(submissions, noRestDays).currentStreak).toBe(20)
+    })
+
+    it('指定日時点で終了していない週はストレート判定しない', () => {
+        const submissions = approvedRange('2026-03-09', '2026-03-22')
+        const count = (asOf: Date) => calculatePerfectWeeks(
+            submissions, noRestDays, weeklyTargetFor(0), () => [], settingsFor(), day(format(asOf, 'yyyy-MM-dd')), asOfClock(asOf)
+        )
+        expect(count(day('2026-03-22'))).toBe(1)
+        expect(count(day('2026-03-23'))).toBe(2)
+    })
+})
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest'
+import { sortAnnotations, getAnnotationMarkerPercent, getActiveAnnotations } from '@/utils/videoAnnotations'
+
+function annotation(id: string, time: number) {
+    return { id, time_seconds: time, content: id }
+}
+
+const annotations = [
+    annotation('knees', 42),
+    annotation('start', 0),
+    annotation('depth', 43.5),
+]
+
+describe('sortAnnotations', () => {
+    it('再生位置の順に並べる（元の配列は変更しない）', () => {
+        expect(sortAnnotations(annotations).map(a => a.id)).toEqual(['start', 'knees', 'depth'])
+        expect(annotations[0].id).toBe('knees')
+    })
+})
+
+describe('getAnnotationMarkerPercent', () => {
+    it('動画の長さに対する割合', () => {
+        expect(getAnnotationMarkerPercent(30, 120)).toBe(25)
+    })
+
+    it('範囲外は 0〜100 に収める', () => {
+        expect(getAnnotationMarkerPercent(150, 120)).toBe(100)
+        expect(getAnnotationMarkerPercent(-1, 120)).toBe(0)
+    })
+
+    it('長さが不明な場合は null', () => {
+        expect(getAnnotationMarkerPercent(10, 0)).toBeNull()
+        expect(getAnnotationMarkerPercent(10, NaN)).toBeNull()
+        expect(getAnnotationMarkerPercent(10, Infinity)).toBeNull()
+    })
+})
+
+describe('getActiveAnnotations', () => {
+    it('メモの位置から表示秒数の間だけ返す', () => {
+        expect(getActiveAnnotations(annotations, 41.9)).toEqual([])
+        expect(getActiveAnnotations(annotations, 44).map(a => a.id)).toEqual(['knees', 'depth'])
+        expect(getActiveAnnotations(annotations, 45).map(a => a.id)).toEqual(['depth'])
+        expect(getActiveAnnotations(annotations, 46.5)).toEqual([])
+    })
+
+    it('表示秒数を指定できる', () => {
+        expect(getActiveAnnotations(annotations, 1, 0.5)).toEqual([])
+        expect(getActiveAnnotations(annotations, 0.2, 0.5).map(a => a.id)).toEqual(['start'])
+    })
+})
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest'
+import { parseMvhdCreationTime, readVideoCreationTime } from '@/utils/videoMetadata'
+
+const MAC_EPOCH_OFFSET_SEC = 2082844800
+
+function box(type: string, payload: Uint8Array): Uint8Array {
+    const bytes = new Uint8Array(8 + payload.length)
+    const view = new DataView(bytes.buffer)
+    view.setUint32(0, bytes.length)
+    for (let i = 0; i < 4; i++) bytes[4 + i] = type.charCodeAt(i)
+    bytes.set(payload, 8)
+    return bytes
+}
+
+function mvhd(date: Date, version: 0 | 1 = 0): Uint8Array {
+    const seconds = Math.floor(date.getTime() / 1000) + MAC_EPOCH_OFFSET_SEC
+    const payload = new Uint8Array(version === 1 ? 32 : 20)
+    const view = new DataView(payload.buffer)
+    view.setUint8(0, version)
+    if (version === 1) {
+        view.setBigUint64(4, BigInt(seconds))
+    } else {
+        view.setUint32(4, seconds)
+    }
+    return box('mvhd', payload)
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+    const bytes = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0))
+    let offset = 0
+    for (const p of parts) {
+        bytes.set(p, offset)
+        offset += p.length
+    }
+    return bytes
+}
+
+const RECORDED = new Date('2026-04-10T09:30:00Z')
+
+describe('parseMvhdCreationTime', () => {
+    it('version 0（32bit）', () => {
+        const bytes = mvhd(RECORDED, 0)
+        expect(parseMvhdCreationTime(new DataView(bytes.buffer, 8))).toEqual(RECORDED)
+    })
+
+    it('version 1（64bit）', () => {
+        const bytes = mvhd(RECORDED, 1)
+        expect(parseMvhdCreationTime(new DataView(bytes.buffer, 8))).toEqual(RECORDED)
+    })
+
+    it('未設定（0）なら null', () => {
+        expect(parseMvhdCreationTime(new DataView(new Uint8Array(20).buffer))).toBeNull()
+    })
+})
+
+describe('readVideoCreationTime', () => {
+    it('ftyp・mdat の後ろにある moov > mvhd を読む', async () => {
+        const file = new Blob([concat(
+            box('ftyp', new Uint8Array(12)),
+            box('mdat', new Uint8Array(1024)),
+            box('moov', concat(mvhd(RECORDED), box('trak', new Uint8Array(16)))),
+        )])
+        expect(await readVideoCreationTime(file)).toEqual(RECORDED)
+    })
+
+    it('moov がなければ null', async () => {
+        const file = new Blob([concat(box('ftyp', new Uint8Array(12)), box('mdat', new Uint8Array(16)))])
+        expect(await readVideoCreationTime(file)).toBeNull()
+    })
+
+    it('壊れたファイルなら null', async () => {
+        expect(await readVideoCreationTime(new Blob([new Uint8Array([0, 0, 0, 2, 0x6d])]))).toBeNull()
+    })
+})
@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest'
+import {
+    FRAME_DURATION,
+    parseStoredPlaybackRate,
+    getAdjacentPlaybackRate,
+    getFrameStepTime,
+    updateFrameDurationEstimate,
+    buildLoopRange,
+    getLoopSeekTarget,
+    getSnapshotFileName,
+    setDirectVideoSource,
+} from '@/utils/videoReview'
+
+describe('parseStoredPlaybackRate', () => {
+    it('選択肢にある値はそのまま（スロー再生を含む）', () => {
+        expect(parseStoredPlaybackRate('0.1')).toBe(0.1)
+        expect(parseStoredPlaybackRate('0.25')).toBe(0.25)
+        expect(parseStoredPlaybackRate('4')).toBe(4)
+    })
+
+    it('未保存・選択肢にない値は 1x', () => {
+        expect(parseStoredPlaybackRate(null)).toBe(1)
+        expect(parseStoredPlaybackRate('0.3')).toBe(1)
+        expect(parseStoredPlaybackRate('11')).toBe(1)
+        expect(parseStoredPlaybackRate('abc')).toBe(1)
+    })
+})
+
+describe('getAdjacentPlaybackRate', () => {
+    it('1段階速く/遅くする', () => {
+        expect(getAdjacentPlaybackRate(1, -1)).toBe(0.5)
+        expect(getAdjacentPlaybackRate(0.25, -1)).toBe(0.1)
+        expect(getAdjacentPlaybackRate(1, 1)).toBe(2)
+    })
+
+    it('端ではそのまま', () => {
+        expect(getAdjacentPlaybackRate(0.1, -1)).toBe(0.1)
+        expect(getAdjacentPlaybackRate(10, 1)).toBe(10)
+    })
+})
+
+describe('getFrameStepTime', () => {
+    it('1コマ進める/戻す', () => {
+        expect(getFrameStepTime(1, 1, 10)).toBeCloseTo(1 + FRAME_DURATION)
+        expect(getFrameStepTime(1, -1, 10)).toBeCloseTo(1 - FRAME_DURATION)
+        expect(getFrameStepTime(1, 1, 10, 3)).toBeCloseTo(1 + 3 * FRAME_DURATION)
+    })
+
+    it('先頭・末尾を超えない', () => {
+        expect(getFrameStepTime(0, -1, 10)).toBe(0)
+        expect(getFrameStepTime(10, 1, 10)).toBe(10)
+    })
+
+    it('推定した1コマの秒数で進める', () => {
+        expect(getFrameStepTime(1, 1, 10, 1, 1 / 240)).toBeCloseTo(1 + 1 / 240)
+        expect(getFrameStepTime(1, -1, 10, 2, 1 / 60)).toBeCloseTo(1 - 2 / 60)
+    })
+})
+
+describe('updateFrameDurationEstimate', () => {
+    it('最初のフレーム間隔をそのまま使う', () => {
+        expect(updateFrameDurationEstimate(null, 1 / 60)).toBeCloseTo(1 / 60)
+        expect(updateFrameDurationEstimate(null, 1 / 240)).toBeCloseTo(1 / 240)
+    })
+
+    it('間引かれたフレームより短い間隔を優先する', () => {
+        // 120fps を 60Hz の画面で再生すると1コマおきに表示される
+        const estimate = updateFrameDurationEstimate(null, 2 / 120)
+        expect(updateFrameDurationEstimate(estimate, 1 / 120)).toBeCloseTo(1 / 120)
+        expect(updateFrameDurationEstimate(1 / 120, 2 / 120)).toBeCloseTo(1 / 120)
+    })
+
+    it('シーク・ループでの巻き戻しや途切れは無視する', () => {
+        expect(updateFrameDurationEstimate(null, -2)).toBeNull()
+        expect(updateFrameDurationEstimate(null, 0)).toBeNull()
+        expect(updateFrameDurationEstimate(1 / 30, 0.5)).toBeCloseTo(1 / 30)
+    })
+})
+
+describe('buildLoopRange', () => {
+    it('逆順の指定は入れ替える', () => {
+        expect(buildLoopRange(5, 2)).toEqual({ start: 2, end: 5 })
+    })
+
+    it('短すぎる区間は null', () => {
+        expect(buildLoopRange(3, 3.05)).toBeNull()
+    })
+})
+
+describe('getLoopSeekTarget', () => {
+    const loop = { start: 2, end: 5 }
+
+    it('区間の終わりに達したら先頭へ戻す', () => {
+        expect(getLoopSeekTarget(5, loop)).toBe(2)
+        expect(getLoopSeekTarget(7, loop)).toBe(2)
+    })
+
+    it('区間より前にシークした場合も先頭へ', () => {
+        expect(getLoopSeekTarget(1, loop)).toBe(2)
+    })
+
+    it('区間内・ループなしは null', () => {
+        expect(getLoopSeekTarget(3, loop)).toBeNull()
+        expect(getLoopSeekTarget(3, null)).toBeNull()
+    })
+})
+
+describe('getSnapshotFileName', () => {
+    it('再生位置を含む', () => {
+        expect(getSnapshotFileName(42.5)).toBe('fit-proof-0m42.5s.png')
+        expect(getSnapshotFileName(75)).toBe('fit-proof-1m15.0s.png')
+    })
+})
+
+describe('setDirectVideoSource', () => {
+    it('ネイティブ HLS でも CORS で読み込む（静止画を canvas から書き出せるように）', () => {
+        // 読み込みは src の設定で始まり、その時点の crossOrigin で CORS の有無が決まる
+        let crossOriginAtLoad: string | null | undefined
+        const video = {
+            crossOrigin: null as string | null,
+            get src() { return '' },
+            set src(_url: string) { crossOriginAtLoad = this.crossOrigin },
+        }
+        setDirectVideoSource(video, 'https://cdn.example.com/abc/playlist.m3u8')
+        expect(crossOriginAtLoad).toBe('anonymous')
+    })
+})
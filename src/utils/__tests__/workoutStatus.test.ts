@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest'
+import { buildWorkoutStatusUpdate } from '@/utils/workoutStatus'
+
+const NOW = new Date('2026-04-10T12:00:00Z')
+const TZ = 'Asia/Tokyo'
+
+function workout(id: number, targetDate: string, overrides: Partial<{ status: string | null; created_at: string }> = {}) {
+    return {
+        id,
+        status: null,
+        target_date: targetDate,
+        created_at: `${targetDate}T03:00:00Z`,
+        ...overrides,
+    }
+}
+
+describe('buildWorkoutStatusUpdate', () => {
+    it('承認時は reps と reviewed_at を設定する', () => {
+        const target = workout(1, '2026-04-10')
+        const { update, isRevival } = buildWorkoutStatusUpdate(target, [target], 'success', 20, TZ, NOW)
+        expect(update).toEqual({ status: 'success', reviewed_at: NOW.toISOString(), reps: 20 })
+        expect(isRevival).toBe(false)
+    })
+
+    it('取り消し時は reps とリバイバルをリセットし reviewed_at を null にする', () => {
+        const target = workout(1, '2026-04-08', { status: 'success' })
+        const { update } = buildWorkoutStatusUpdate(target, [target], null, undefined, TZ, NOW)
+        expect(update).toEqual({ status: null, reviewed_at: null, reps: null, is_revival: false })
+    })
+
+    it('過去日を後から埋めた初回承認はリバイバル', () => {
+        const target = workout(1, '2026-04-08', { created_at: '2026-04-09T03:00:00Z' })
+        const { update, isRevival } = buildWorkoutStatusUpdate(target, [target], 'success', 10, TZ, NOW)
+        expect(isRevival).toBe(true)
+        expect(update.is_revival).toBe(true)
+    })
+
+    it('当日投稿を翌日以降に承認してもリバイバルではない', () => {
+        const target = workout(1, '2026-04-08')
+        expect(buildWorkoutStatusUpdate(target, [target], 'success', 10, TZ, NOW).isRevival).toBe(false)
+    })
+
+    it('同じ日付に他の承認済み投稿があればリバイバルではない', () => {
+        const target = workout(2, '2026-04-08', { created_at: '2026-04-09T03:00:00Z' })
+        const others = [workout(1, '2026-04-08', { status: 'success' }), target]
+        expect(buildWorkoutStatusUpdate(target, others, 'success', 10, TZ, NOW).isRevival).toBe(false)
+    })
+
+    it('却下・免除ではリバイバル判定をしない', () => {
+        const target = workout(1, '2026-04-08', { created_at: '2026-04-09T03:00:00Z' })
+        const { update, isRevival } = buildWorkoutStatusUpdate(target, [target], 'excused', 10, TZ, NOW)
+        expect(update).toEqual({ status: 'excused', reviewed_at: NOW.toISOString() })
+        expect(isRevival).toBe(false)
+    })
+})
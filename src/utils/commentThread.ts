@@ -0,0 +1,37 @@
+/**
+ * 投稿ごとのトレーナーとクライアントのメッセージ（admin_comments）のユーティリティ
+ * 投稿者（submissions.user_id）と同じ user_id のメッセージ = クライアント、それ以外 = トレーナー
+ */
+
+export interface ThreadMessage {
+  id: string
+  user_id: string
+  content: string
+  read_at: string | null
+  created_at: string
+}
+
+/**
+ * トレーナーのメッセージか
+ */
+export function isTrainerMessage(message: Pick<ThreadMessage, 'user_id'>, submissionOwnerId: string): boolean {
+  return message.user_id !== submissionOwnerId
+}
+
+/**
+ * 古い順に並べる
+ */
+export function sortThread<T extends Pick<ThreadMessage, 'created_at'>>(messages: T[]): T[] {
+  return [...messages].sort((a, b) => a.created_at.localeCompare(b.created_at))
+}
+
+/**
+ * 閲覧者宛ての未読メッセージ（トレーナーにはクライアントから、クライアントにはトレーナーから）
+ */
+export function getUnreadMessages<T extends Pick<ThreadMessage, 'user_id' | 'read_at'>>(
+  messages: T[],
+  submissionOwnerId: string,
+  viewerIsTrainer: boolean
+): T[] {
+  return messages.filter(m => !m.read_at && isTrainerMessage(m, submissionOwnerId) !== viewerIsTrainer)
+}
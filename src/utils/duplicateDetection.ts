@@ -0,0 +1,75 @@
+/**
+ * 重複動画の判定ユーティリティ
+ * 投稿済み動画の「重複の可能性」表示（WorkoutCard）と、アップロード前のチェック結果の表示に使用
+ */
+
+import { format, parseISO } from 'date-fns'
+
+export type DuplicateVideoPolicy = 'none' | 'warn' | 'block'
+
+export type DuplicateType = 'hash' | 'file_time'
+
+export interface DuplicateInfo {
+  submissionId: number
+  targetDate: string       // 重複元の提出日（yyyy-MM-dd、不明なら '日付不明'）
+  fileName: string
+}
+
+interface DuplicateCandidate {
+  id: number
+  target_date: string | null
+  file_name?: string | null
+  video_hash: string | null
+  file_last_modified: string | null
+  created_at: string
+}
+
+/**
+ * 投稿済み動画の重複元を探す
+ * Hash 一致（同一動画）を優先し、なければファイル更新時刻の完全一致（同一ファイルの可能性）を探す。
+ * 重複元が複数ある場合は最も早く提出されたものを返す。
+ */
+export function findDuplicateSubmission(
+  submission: DuplicateCandidate,
+  submissions: DuplicateCandidate[]
+): { type: DuplicateType; info: DuplicateInfo } | null {
+  const others = submissions
+    .filter(w => w.id !== submission.id)
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+
+  const toInfo = (w: DuplicateCandidate): DuplicateInfo => ({
+    submissionId: w.id,
+    targetDate: w.target_date || '日付不明',
+    fileName: w.file_name || '不明',
+  })
+
+  if (submission.video_hash) {
+    const hashMatch = others.find(w => w.video_hash === submission.video_hash)
+    if (hashMatch) return { type: 'hash', info: toInfo(hashMatch) }
+  }
+
+  if (submission.file_last_modified) {
+    const sTime = new Date(submission.file_last_modified).getTime()
+    const fileTimeMatch = others.find(w =>
+      w.file_last_modified !== null && new Date(w.file_last_modified).getTime() === sTime
+    )
+    if (fileTimeMatch) return { type: 'file_time', info: toInfo(fileTimeMatch) }
+  }
+
+  return null
+}
+
+/** アップロード前のチェック結果（check_duplicate_video RPC） */
+export interface DuplicateVideoCheck {
+  policy: DuplicateVideoPolicy
+  duplicate: { submissionId: number; targetDate: string; fileName: string | null } | null
+}
+
+/** クライアントに表示する警告・ブロックのメッセージ（表示しない場合は null） */
+export function getDuplicateVideoMessage(check: DuplicateVideoCheck | null): string | null {
+  if (!check?.duplicate || check.policy === 'none') return null
+  const date = format(parseISO(check.duplicate.targetDate), 'M/d')
+  return check.policy === 'block'
+    ? `この動画は${date}に提出済みのため、アップロードできません。別の動画を選択してください。`
+    : `この動画は${date}に提出済みの動画と同じです。`
+}
@@ -0,0 +1,178 @@
+/**
+ * カスタム目標（gamification_goals）の達成状況を計算するユーティリティ
+ * calculatePerfectWeeks と同じく投稿データからオンデマンドで算出する
+ */
+
+import { format, eachDayOfInterval, addDays, isBefore, startOfDay, startOfMonth, addMonths, parseISO, subDays } from 'date-fns'
+import { GamificationGoal } from '@/types/gamification.types'
+import { SubmissionForStreak, GetWeekStartsOn, mondayWeekStart, getWeekStart } from '@/utils/streakCalculator'
+import { Clock, systemClock } from '@/lib/clock'
+
+/**
+ * 目標計算用の投稿データ（累積回数の目標のため reps を含む）
+ */
+export interface SubmissionForGoal extends SubmissionForStreak {
+    reps: number | null
+}
+
+export type GoalDefinition = Pick<GamificationGoal, 'id' | 'goal_type' | 'target' | 'effective_from' | 'effective_to'>
+
+/**
+ * 目標の達成状況
+ */
+export interface GoalProgress {
+    goalId: number
+    current: number                 // 現在の期間の進捗（連続週目標は現在の連続数）
+    target: number
+    completed: boolean              // 現在の期間で達成済みか
+    completedPeriodKeys: string[]   // 達成した全期間（古い順）
+}
+
+/**
+ * 目標の対象期間内か（[effective_from, effective_to) で判定）
+ */
+function isInGoalWindow(dateStr: string, goal: GoalDefinition): boolean {
+    if (dateStr < goal.effective_from) return false
+    if (goal.effective_to && dateStr >= goal.effective_to) return false
+    return true
+}
+
+/**
+ * 承認済みの通常投稿（shield 除外）
+ */
+function getApprovedSubmissions(submissions: SubmissionForGoal[], goal: GoalDefinition): SubmissionForGoal[] {
+    return submissions.filter(s =>
+        s.target_date && s.status === 'success' && s.type !== 'shield' && isInGoalWindow(s.target_date, goal)
+    )
+}
+
+/**
+ * 月間目標（累積回数・投稿日数）
+ * 期間は暦月。当月は達成した時点で達成扱いにする
+ */
+function evaluateMonthlyGoal(goal: GoalDefinition, submissions: SubmissionForGoal[], today: Date): GoalProgress {
+    const approved = getApprovedSubmissions(submissions, goal)
+
+    const valueByMonth = new Map<string, number>()
+    if (goal.goal_type === 'monthly_reps') {
+        for (const s of approved) {
+            const monthKey = s.target_date!.slice(0, 7)
+            valueByMonth.set(monthKey, (valueByMonth.get(monthKey) ?? 0) + (s.reps ?? 0))
+        }
+    } else {
+        const datesByMonth = new Map<string, Set<string>>()
+        for (const s of approved) {
+            const monthKey = s.target_date!.slice(0, 7)
+            if (!datesByMonth.has(monthKey)) datesByMonth.set(monthKey, new Set())
+            datesByMonth.get(monthKey)!.add(s.target_date!)
+        }
+        for (const [monthKey, dates] of datesByMonth) {
+            valueByMonth.set(monthKey, dates.size)
+        }
+    }
+
+    // 現在の期間: 当月（終了済みの目標は最終月）
+    let currentMonth = startOfMonth(today)
+    if (goal.effective_to && !isBefore(currentMonth, startOfMonth(parseISO(goal.effective_to)))) {
+        currentMonth = startOfMonth(subDays(parseISO(goal.effective_to), 1))
+    }
+    const currentKey = format(currentMonth, 'yyyy-MM')
+
+    const completedPeriodKeys: string[] = []
+    for (
+        let month = startOfMonth(parseISO(goal.effective_from));
+        !isBefore(currentMonth, month);
+        month = addMonths(month, 1)
+    ) {
+        const monthKey = format(month, 'yyyy-MM')
+        if ((valueByMonth.get(monthKey) ?? 0) >= goal.target) completedPeriodKeys.push(monthKey)
+    }
+
+    const current = valueByMonth.get(currentKey) ?? 0
+    return {
+        goalId: goal.id,
+        current,
+        target: goal.target,
+        completed: current >= goal.target,
+        completedPeriodKeys,
+    }
+}
+
+/**
+ * 期限超過なしの週の連続数
+ * 終了済みの週のみ判定し、target 週連続ごとに1回達成（達成した週の開始日が期間キー）
+ * 週の区切りは calculatePerfectWeeks と同じく日付ごとの週の開始曜日で決める
+ */
+function evaluateLateFreeWeeksGoal(
+    goal: GoalDefinition,
+    submissions: SubmissionForGoal[],
+    today: Date,
+    getWeekStartsOn: GetWeekStartsOn
+): GoalProgress {
+    const approved = getApprovedSubmissions(submissions, goal)
+    const approvedDates = new Set(approved.map(s => s.target_date!))
+    const lateDates = new Set(approved.filter(s => s.is_late).map(s => s.target_date!))
+
+    const start = startOfDay(parseISO(goal.effective_from))
+    let end = subDays(today, 1)
+    if (goal.effective_to) {
+        const lastDay = subDays(parseISO(goal.effective_to), 1)
+        if (isBefore(lastDay, end)) end = lastDay
+    }
+
+    // 日付を週ごとにグループ化（目標の対象期間内の日のみ）
+    const weekMap = new Map<string, string[]>()
+    if (!isBefore(end, start)) {
+        for (const day of eachDayOfInterval({ start, end })) {
+            const weekKey = format(getWeekStart(day, getWeekStartsOn), 'yyyy-MM-dd')
+            if (!weekMap.has(weekKey)) weekMap.set(weekKey, [])
+            weekMap.get(weekKey)!.push(format(day, 'yyyy-MM-dd'))
+        }
+    }
+
+    let run = 0
+    const completedPeriodKeys: string[] = []
+    for (const [weekKey, dates] of weekMap) {
+        // 終了していない週は判定しない
+        if (!isBefore(addDays(parseISO(weekKey), 6), today)) continue
+
+        const hasApproved = dates.some(d => approvedDates.has(d))
+        const hasLate = dates.some(d => lateDates.has(d))
+        if (hasApproved && !hasLate) {
+            run++
+            if (run % goal.target === 0) completedPeriodKeys.push(weekKey)
+        } else {
+            run = 0
+        }
+    }
+
+    const completed = run > 0 && run % goal.target === 0
+    return {
+        goalId: goal.id,
+        current: completed ? goal.target : run % goal.target,
+        target: goal.target,
+        completed,
+        completedPeriodKeys,
+    }
+}
+
+/**
+ * 目標の達成状況を計算
+ *
+ * @param goal - 目標定義
+ * @param submissions - 全投稿データ
+ * @param getWeekStartsOn - 日付ベースの週の開始曜日取得関数（省略時は月曜始まり）
+ * @param clock - 現在時刻の取得元（省略時はシステム時刻）
+ */
+export function evaluateGoal(
+    goal: GoalDefinition,
+    submissions: SubmissionForGoal[],
+    getWeekStartsOn: GetWeekStartsOn = mondayWeekStart,
+    clock: Clock = systemClock
+): GoalProgress {
+    const today = startOfDay(clock())
+    if (goal.goal_type === 'late_free_weeks') {
+        return evaluateLateFreeWeeksGoal(goal, submissions, today, getWeekStartsOn)
+    }
+    return evaluateMonthlyGoal(goal, submissions, today)
+}
@@ -3,8 +3,8 @@
  * カレンダーUIでグループの充足状態を判定・表示するために使用
  */
 
-import { format, startOfWeek, addDays } from 'date-fns'
-import { GroupConfig } from '@/utils/streakCalculator'
+import { format, addDays } from 'date-fns'
+import { GroupConfig, GetWeekStartsOn, mondayWeekStart, getWeekStart } from '@/utils/streakCalculator'
 
 const DAY_LABELS = ['日', '月', '火', '水', '木', '金', '土']
 
@@ -21,12 +21,14 @@ export interface GroupDayInfo {
  * @param date - 対象日
  * @param groupConfigs - 全グループ設定
  * @param workouts - 全投稿データ
+ * @param getWeekStartsOn - 日付ベースの週の開始曜日取得関数（省略時は月曜始まり）
  * @returns グループ日でなければ null、グループ日なら GroupDayInfo
  */
 export function getGroupInfoForDate(
   date: Date,
   groupConfigs: GroupConfig[],
-  workouts: Array<{ target_date: string | null; status: string | null }>
+  workouts: Array<{ target_date: string | null; status: string | null }>,
+  getWeekStartsOn: GetWeekStartsOn = mondayWeekStart
 ): GroupDayInfo | null {
   const dayOfWeek = date.getDay()
   const dateStr = format(date, 'yyyy-MM-dd')
@@ -40,8 +42,9 @@ export function getGroupInfoForDate(
 
   if (!group) return null
 
-  // 週キー（月曜始まり、streakCalculator.ts と同一）
-  const weekStart = startOfWeek(date, { weekStartsOn: 1 })
+  // 週キー（streakCalculator.ts と同一）
+  const weekStart = getWeekStart(date, getWeekStartsOn)
+  const weekStartStr = format(weekStart, 'yyyy-MM-dd')
 
   // 投稿済み日付セット（fail 以外）を事前構築
   const postedDateSet = new Set<string>()
@@ -54,11 +57,14 @@ export function getGroupInfoForDate(
   // この週のグループ曜日を列挙し、投稿済み日数をカウント
   let postedDaysCount = 0
   for (const dow of group.daysOfWeek) {
-    // 月曜(1)からのオフセットを計算。日曜(0)は +6
-    const offset = (dow === 0) ? 6 : dow - 1
+    // 週開始日の曜日からのオフセットを計算
+    const offset = (dow - weekStart.getDay() + 7) % 7
     const dayDate = addDays(weekStart, offset)
     const dayDateStr = format(dayDate, 'yyyy-MM-dd')
 
+    // 週の開始曜日の変更をまたぐ週では、別の週に属する日は除外
+    if (format(getWeekStart(dayDate, getWeekStartsOn), 'yyyy-MM-dd') !== weekStartStr) continue
+
     // effectiveFrom 以前の日は除外
     if (dayDateStr < group.effectiveFrom) continue
     // effectiveTo 以降の日は除外（[effectiveFrom, effectiveTo) セマンティクス）
@@ -73,9 +79,9 @@ export function getGroupInfoForDate(
   const thisDateHasPost = postedDateSet.has(dateStr)
   const isFulfilled = !thisDateHasPost && postedDaysCount >= group.requiredCount
 
-  // 曜日ラベル生成（月曜始まり順でソートして連結: 月火水木金土日）
-  const mondayFirst = (d: number) => d === 0 ? 7 : d
-  const sortedDays = [...group.daysOfWeek].sort((a, b) => mondayFirst(a) - mondayFirst(b))
+  // 曜日ラベル生成（週の開始曜日順でソートして連結: 月曜始まりなら 月火水木金土日、日曜始まりなら 日月火水木金土）
+  const weekOrder = (d: number) => (d - weekStart.getDay() + 7) % 7
+  const sortedDays = [...group.daysOfWeek].sort((a, b) => weekOrder(a) - weekOrder(b))
   const groupLabel = sortedDays.map(d => DAY_LABELS[d]).join('')
 
   return {
@@ -92,8 +98,9 @@ export function getGroupInfoForDate(
 export function isGroupFulfilledForDate(
   date: Date,
   groupConfigs: GroupConfig[],
-  workouts: Array<{ target_date: string | null; status: string | null }>
+  workouts: Array<{ target_date: string | null; status: string | null }>,
+  getWeekStartsOn: GetWeekStartsOn = mondayWeekStart
 ): boolean {
-  const info = getGroupInfoForDate(date, groupConfigs, workouts)
+  const info = getGroupInfoForDate(date, groupConfigs, workouts, getWeekStartsOn)
   return info?.isFulfilled ?? false
 }
@@ -0,0 +1,103 @@
+/**
+ * 撮影日の判定ユーティリティ
+ * 動画の撮影日（mvhd の作成日時、なければファイルの更新日時）と提出日を比べ、
+ * アップロード前の警告・ブロックと、トレーナー向けの「X撮影」表示に使用
+ */
+
+import { format, parseISO } from 'date-fns'
+import { toZonedTime } from '@/lib/timezone'
+
+export type RecordingDatePolicy = 'none' | 'warn' | 'block'
+
+/** metadata: 動画の作成日時（mvhd）、file: ファイルの更新日時 */
+export type RecordingDateSource = 'metadata' | 'file'
+
+export interface RecordedAt {
+  at: string               // ISO 8601
+  source: RecordingDateSource
+}
+
+// 作成日時が未設定の機材では 1904 年や 1970 年になるため、それより前は採用しない
+const MIN_PLAUSIBLE_YEAR = 2000
+// 端末の時計のずれを許容する幅
+const FUTURE_TOLERANCE_MS = 24 * 60 * 60 * 1000
+
+export function isPlausibleRecordingTime(date: Date, now: Date = new Date()): boolean {
+  const time = date.getTime()
+  if (Number.isNaN(time)) return false
+  return date.getUTCFullYear() >= MIN_PLAUSIBLE_YEAR && time <= now.getTime() + FUTURE_TOLERANCE_MS
+}
+
+/**
+ * 撮影日時を決める
+ * 動画の作成日時を優先し、なければ（または不正な値なら）ファイルの更新日時を使う
+ */
+export function getRecordedAt(
+  videoCreatedAt: string | null | undefined,
+  fileLastModified: string | null | undefined,
+  now: Date = new Date()
+): RecordedAt | null {
+  const candidates: [string | null | undefined, RecordingDateSource][] = [
+    [videoCreatedAt, 'metadata'],
+    [fileLastModified, 'file'],
+  ]
+  for (const [value, source] of candidates) {
+    if (value && isPlausibleRecordingTime(new Date(value), now)) {
+      return { at: value, source }
+    }
+  }
+  return null
+}
+
+/** 撮影日時をクライアントのタイムゾーンで表示する */
+export function formatRecordedAt(recordedAt: RecordedAt, timeZone: string | null | undefined, pattern: string): string {
+  return format(toZonedTime(new Date(recordedAt.at), timeZone), pattern)
+}
+
+/** 撮影日（クライアントのタイムゾーンでの yyyy-MM-dd） */
+export function getRecordingDate(recordedAt: RecordedAt, timeZone?: string | null): string {
+  return formatRecordedAt(recordedAt, timeZone, 'yyyy-MM-dd')
+}
+
+export function isRecordingDateMismatch(
+  recordedAt: RecordedAt | null,
+  targetDate: string,
+  timeZone?: string | null
+): boolean {
+  return recordedAt !== null && getRecordingDate(recordedAt, timeZone) !== targetDate
+}
+
+/** クライアントに表示する警告・ブロックのメッセージ（表示しない場合は null） */
+export function getRecordingDateMessage(
+  policy: RecordingDatePolicy,
+  recordedAt: RecordedAt | null,
+  targetDate: string,
+  timeZone?: string | null
+): string | null {
+  if (policy === 'none' || !recordedAt || !isRecordingDateMismatch(recordedAt, targetDate, timeZone)) return null
+  const recorded = format(parseISO(getRecordingDate(recordedAt, timeZone)), 'M/d')
+  const target = format(parseISO(targetDate), 'M/d')
+  return policy === 'block'
+    ? `この動画は${recorded}に撮影されたため、${target}の提出には使えません。${target}に撮影した動画を選択してください。`
+    : `この動画は${recorded}に撮影されたようです（提出日は${target}）。`
+}
+
+/** トレーナー向けの撮影日表示（WorkoutCard・動画プレーヤー） */
+export interface RecordingDateInfo {
+  recordedAt: RecordedAt
+  label: string            // 'M/d撮影'
+  mismatch: boolean        // 提出日と異なる
+}
+
+export function getRecordingDateInfo(
+  submission: { video_created_at: string | null; file_last_modified: string | null; target_date: string | null },
+  timeZone?: string | null
+): RecordingDateInfo | null {
+  const recordedAt = getRecordedAt(submission.video_created_at, submission.file_last_modified)
+  if (!recordedAt) return null
+  return {
+    recordedAt,
+    label: `${formatRecordedAt(recordedAt, timeZone, 'M/d')}撮影`,
+    mismatch: !!submission.target_date && isRecordingDateMismatch(recordedAt, submission.target_date, timeZone),
+  }
+}
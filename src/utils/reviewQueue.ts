@@ -0,0 +1,65 @@
+/**
+ * レビューキュー（未確認の投稿の一覧）の並び順を決めるユーティリティ
+ * 古い投稿から確認できるよう、クライアントごとにまとめて最も古い投稿の順に並べる
+ */
+
+export interface ReviewQueueItem {
+  id: number
+  user_id: string
+  created_at: string
+}
+
+export interface ReviewQueueGroup<T extends ReviewQueueItem> {
+  userId: string
+  items: T[]
+  oldestCreatedAt: string
+}
+
+/**
+ * クライアントごとにまとめる（グループ内・グループ間ともに古い順）
+ */
+export function groupReviewQueue<T extends ReviewQueueItem>(items: T[]): ReviewQueueGroup<T>[] {
+  const sorted = [...items].sort((a, b) => a.created_at.localeCompare(b.created_at) || a.id - b.id)
+
+  const groups = new Map<string, T[]>()
+  for (const item of sorted) {
+    const group = groups.get(item.user_id)
+    if (group) group.push(item)
+    else groups.set(item.user_id, [item])
+  }
+
+  // 挿入順 = 最も古い投稿の順
+  return Array.from(groups, ([userId, groupItems]) => ({
+    userId,
+    items: groupItems,
+    oldestCreatedAt: groupItems[0].created_at,
+  }))
+}
+
+/**
+ * キューの表示順で前後の投稿IDを返す（端では null）
+ */
+export function getAdjacentReviewItemId(
+  groups: ReviewQueueGroup<ReviewQueueItem>[],
+  currentId: number | null,
+  direction: 1 | -1
+): number | null {
+  const ids = groups.flatMap(g => g.items.map(i => i.id))
+  if (ids.length === 0) return null
+  if (currentId === null) return ids[0]
+
+  const index = ids.indexOf(currentId)
+  if (index === -1) return ids[0]
+  return ids[index + direction] ?? null
+}
+
+/**
+ * 処理した投稿をキューから外した後に選択する投稿
+ * 次の投稿、末尾なら前の投稿（残りがなければ null）
+ */
+export function getNextReviewItemIdAfterRemoval(
+  groups: ReviewQueueGroup<ReviewQueueItem>[],
+  removedId: number
+): number | null {
+  return getAdjacentReviewItemId(groups, removedId, 1) ?? getAdjacentReviewItemId(groups, removedId, -1)
+}
@@ -3,8 +3,9 @@
  * オンデマンドで承認済み履歴と定休日設定から各種実績を算出
  */
 
-import { format, eachDayOfInterval, subDays, addDays, isBefore, startOfDay, startOfWeek } from 'date-fns'
+import { format, eachDayOfInterval, subDays, addDays, isBefore, startOfDay, startOfWeek, parseISO, Day } from 'date-fns'
 import { VersionedSettings } from '@/types/gamification.types'
+import { Clock, systemClock } from '@/lib/clock'
 
 /**
  * 投稿データの最小型
@@ -26,6 +27,25 @@ export interface StreakResult {
     revivalDays: string[]       // リバイバルで復活した日（YYYY-MM-DD形式）
 }
 
+/**
+ * ストリーク区間（全履歴解析用）
+ */
+export interface StreakSegment {
+    startDate: string           // 区間内最初の投稿日（YYYY-MM-DD形式）
+    endDate: string             // 区間内最後の投稿日（YYYY-MM-DD形式）
+    length: number              // calculateStreak と同じ数え方の連続日数
+    brokenBy: string | null     // 途切れた日（null = 継続中）
+}
+
+/**
+ * 全履歴のストリーク解析結果
+ */
+export interface StreakHistory {
+    segments: StreakSegment[]       // 古い順
+    longest: StreakSegment | null   // 歴代最長（同じ長さなら新しい方）
+    current: StreakSegment | null   // 継続中の区間
+}
+
 /**
  * 日付が定休日かどうかを判定する関数の型
  */
@@ -43,6 +63,23 @@ export interface GroupConfig {
     effectiveTo: string | null  // 適用終了日（null = 現在有効）。[effectiveFrom, effectiveTo) で判定
 }
 
+/**
+ * 日付からその日に有効な週の開始曜日（0=日〜6=土）を返す関数の型
+ * 週の開始曜日はバージョン管理設定（week_starts_on）で、変更前の日付は変更前の週区切りのまま扱う
+ */
+export type GetWeekStartsOn = (date: Date) => Day
+
+// 従来どおり月曜始まり
+export const mondayWeekStart: GetWeekStartsOn = () => 1
+
+/**
+ * 日付が属する週の開始日
+ * 週の開始曜日はその日付に有効な設定で決める（変更日をまたぐ週は変更前後で別の部分週になる）
+ */
+export function getWeekStart(date: Date, getWeekStartsOn: GetWeekStartsOn = mondayWeekStart): Date {
+    return startOfWeek(date, { weekStartsOn: getWeekStartsOn(date) })
+}
+
 /**
  * 承認済み投稿のある日付セットを生成（shield は除外）
  */
@@ -109,6 +146,67 @@ function getLateDates(submissions: SubmissionForStreak[]): Set<string> {
     return lateDates
 }
 
+/**
+ * グループ事前計算（calculateStreak / analyzeStreakHistory のフェーズA）
+ * weekKey: 日付が属する週の開始日（yyyy-MM-dd）。週の開始曜日は getWeekStartsOn で日付ごとに解決する。
+ * キー: "${weekKey}-${group.groupId}"、値: その週のグループ内承認+シールド日数
+ */
+function buildGroupApprovalCountMap(
+    days: Date[],
+    submittedDates: Set<string>,
+    shieldDates: Set<string>,
+    effectiveFrom?: Date,
+    getGroupConfigs?: (date: Date) => GroupConfig[],
+    getWeekStartsOn?: GetWeekStartsOn
+): Map<string, number> {
+    const groupApprovalCountMap = new Map<string, number>()
+
+    for (const day of days) {
+        // effectiveFrom カットオフ
+        if (effectiveFrom && isBefore(startOfDay(day), startOfDay(effectiveFrom))) continue
+
+        const dateStr = format(day, 'yyyy-MM-dd')
+        const dayOfWeek = day.getDay()
+        const weekKey = format(getWeekStart(day, getWeekStartsOn), 'yyyy-MM-dd')
+        const activeGroupConfigs = getGroupConfigs ? getGroupConfigs(day) : []
+        for (const group of activeGroupConfigs) {
+            if (!group.daysOfWeek.includes(dayOfWeek)) continue
+            if (submittedDates.has(dateStr) || shieldDates.has(dateStr)) {
+                const mapKey = `${weekKey}-${group.groupId}`
+                groupApprovalCountMap.set(mapKey, (groupApprovalCountMap.get(mapKey) ?? 0) + 1)
+            }
+        }
+    }
+
+    return groupApprovalCountMap
+}
+
+/**
+ * 未投稿・未シールドかつグループ義務が充足済みの余剰日かどうか
+ */
+function isGroupSkipDay(
+    day: Date,
+    submittedDates: Set<string>,
+    shieldDates: Set<string>,
+    groupApprovalCountMap: Map<string, number>,
+    getGroupConfigs?: (date: Date) => GroupConfig[],
+    getWeekStartsOn?: GetWeekStartsOn
+): boolean {
+    const dateStr = format(day, 'yyyy-MM-dd')
+    if (submittedDates.has(dateStr) || shieldDates.has(dateStr)) return false
+
+    const dayOfWeek = day.getDay()
+    const weekKey = format(getWeekStart(day, getWeekStartsOn), 'yyyy-MM-dd')
+    const activeDayGroupConfigs = getGroupConfigs ? getGroupConfigs(day) : []
+    for (const group of activeDayGroupConfigs) {
+        if (!group.daysOfWeek.includes(dayOfWeek)) continue
+        const mapKey = `${weekKey}-${group.groupId}`
+        const totalFulfilled = groupApprovalCountMap.get(mapKey) ?? 0
+        if (totalFulfilled >= group.requiredCount) return true
+    }
+    return false
+}
+
 /**
  * 現在のストリークを計算（オンデマンド）
  * シールドは手動適用のみ（DB上の type='shield' レコードで判定）
@@ -117,19 +215,23 @@ function getLateDates(submissions: SubmissionForStreak[]): Set<string> {
  * @param isRestDay - 定休日判定関数
  * @param effectiveFrom - 適用開始日
  * @param getGroupConfigs - 日付ベースのグループ設定取得関数
+ * @param getWeekStartsOn - 日付ベースの週の開始曜日取得関数（省略時は月曜始まり）
+ * @param clock - 現在時刻の取得元（省略時はシステム時刻）
  * @returns ストリーク計算結果
  */
 export function calculateStreak(
     submissions: SubmissionForStreak[],
     isRestDay: IsRestDayFn,
     effectiveFrom?: Date,
-    getGroupConfigs?: (date: Date) => GroupConfig[]
+    getGroupConfigs?: (date: Date) => GroupConfig[],
+    getWeekStartsOn: GetWeekStartsOn = mondayWeekStart,
+    clock: Clock = systemClock
 ): StreakResult {
     const submittedDates = getSubmittedDates(submissions)
     const revivalDates = getRevivalDates(submissions)
     const shieldDates = getShieldDates(submissions)
 
-    const today = startOfDay(new Date())
+    const today = startOfDay(clock())
     const todayStr = format(today, 'yyyy-MM-dd')
     let consecutiveDays = 0
 
@@ -142,26 +244,7 @@ export function calculateStreak(
     const days = eachDayOfInterval({ start: startDate, end: scanEnd })
 
     // フェーズA: グループ事前計算（正順）
-    // weekKey: 月曜始まりの週開始日（yyyy-MM-dd）。土日を同一週に含めるため weekStartsOn: 1 を使用。
-    // キー: "${weekKey}-${group.groupId}"、値: その週のグループ内承認+シールド日数
-    const groupApprovalCountMap = new Map<string, number>()
-
-    for (const day of days) {
-        // effectiveFrom カットオフ
-        if (effectiveFrom && isBefore(startOfDay(day), startOfDay(effectiveFrom))) continue
-
-        const dateStr = format(day, 'yyyy-MM-dd')
-        const dayOfWeek = day.getDay()
-        const weekKey = format(startOfWeek(day, { weekStartsOn: 1 }), 'yyyy-MM-dd')
-        const activeGroupConfigs = getGroupConfigs ? getGroupConfigs(day) : []
-        for (const group of activeGroupConfigs) {
-            if (!group.daysOfWeek.includes(dayOfWeek)) continue
-            if (submittedDates.has(dateStr) || shieldDates.has(dateStr)) {
-                const mapKey = `${weekKey}-${group.groupId}`
-                groupApprovalCountMap.set(mapKey, (groupApprovalCountMap.get(mapKey) ?? 0) + 1)
-            }
-        }
-    }
+    const groupApprovalCountMap = buildGroupApprovalCountMap(days, submittedDates, shieldDates, effectiveFrom, getGroupConfigs, getWeekStartsOn)
 
     // フェーズB: 最新の連続記録を逆順で計算
     for (let i = days.length - 1; i >= 0; i--) {
@@ -178,22 +261,8 @@ export function calculateStreak(
             continue
         }
 
-        const dayOfWeek = day.getDay()
-        const weekKey = format(startOfWeek(day, { weekStartsOn: 1 }), 'yyyy-MM-dd')
-
         // グループスキップ判定: この日が未承認・未シールドかつ、グループ義務が充足済みなら余剰日としてスキップ
-        const activeDayGroupConfigs = getGroupConfigs ? getGroupConfigs(day) : []
-        let isGroupSkipDay = false
-        for (const group of activeDayGroupConfigs) {
-            if (!group.daysOfWeek.includes(dayOfWeek)) continue
-            const mapKey = `${weekKey}-${group.groupId}`
-            const totalFulfilled = groupApprovalCountMap.get(mapKey) ?? 0
-            if (!submittedDates.has(dateStr) && !shieldDates.has(dateStr) && totalFulfilled >= group.requiredCount) {
-                isGroupSkipDay = true
-                break
-            }
-        }
-        if (isGroupSkipDay) continue
+        if (isGroupSkipDay(day, submittedDates, shieldDates, groupApprovalCountMap, getGroupConfigs, getWeekStartsOn)) continue
 
         const hasSubmission = submittedDates.has(dateStr)
 
@@ -214,6 +283,97 @@ export function calculateStreak(
     }
 }
 
+/**
+ * 全履歴のストリーク区間を解析
+ * calculateStreak と同じ定休日・グループ・シールドの扱いで、最古の投稿日から正順に走査する
+ * （calculateStreak は直近90日のみ対象）
+ *
+ * @param submissions - 全投稿データ
+ * @param isRestDay - 定休日判定関数
+ * @param effectiveFrom - 適用開始日
+ * @param getGroupConfigs - 日付ベースのグループ設定取得関数
+ * @param getWeekStartsOn - 日付ベースの週の開始曜日取得関数（省略時は月曜始まり）
+ * @param clock - 現在時刻の取得元（省略時はシステム時刻）
+ * @returns 全区間・歴代最長・継続中の区間
+ */
+export function analyzeStreakHistory(
+    submissions: SubmissionForStreak[],
+    isRestDay: IsRestDayFn,
+    effectiveFrom?: Date,
+    getGroupConfigs?: (date: Date) => GroupConfig[],
+    getWeekStartsOn: GetWeekStartsOn = mondayWeekStart,
+    clock: Clock = systemClock
+): StreakHistory {
+    const submittedDates = getSubmittedDates(submissions)
+    const shieldDates = getShieldDates(submissions)
+
+    const today = startOfDay(clock())
+    const todayStr = format(today, 'yyyy-MM-dd')
+
+    // 走査終了日は calculateStreak と同じ（当日の記録がなければ昨日まで）
+    const hasTodayRecord = submissions.some(s => s.target_date === todayStr)
+    const scanEnd = hasTodayRecord ? today : subDays(today, 1)
+
+    const allTargetDates = submissions
+        .filter(s => s.target_date)
+        .map(s => s.target_date!)
+        .sort()
+
+    if (allTargetDates.length === 0) {
+        return { segments: [], longest: null, current: null }
+    }
+
+    let startDate = startOfDay(parseISO(allTargetDates[0]))
+    if (effectiveFrom && isBefore(startDate, startOfDay(effectiveFrom))) {
+        startDate = startOfDay(effectiveFrom)
+    }
+    if (isBefore(scanEnd, startDate)) {
+        return { segments: [], longest: null, current: null }
+    }
+
+    const days = eachDayOfInterval({ start: startDate, end: scanEnd })
+    const groupApprovalCountMap = buildGroupApprovalCountMap(days, submittedDates, shieldDates, effectiveFrom, getGroupConfigs, getWeekStartsOn)
+
+    const segments: StreakSegment[] = []
+    let active: StreakSegment | null = null
+
+    for (const day of days) {
+        if (isRestDay(day)) continue
+        if (isGroupSkipDay(day, submittedDates, shieldDates, groupApprovalCountMap, getGroupConfigs, getWeekStartsOn)) continue
+
+        const dateStr = format(day, 'yyyy-MM-dd')
+
+        if (submittedDates.has(dateStr)) {
+            if (!active) {
+                active = { startDate: dateStr, endDate: dateStr, length: 0, brokenBy: null }
+            }
+            active.length++
+            active.endDate = dateStr
+        } else if (shieldDates.has(dateStr)) {
+            // シールド日: 途切れさせないがカウントしない
+            continue
+        } else if (active) {
+            active.brokenBy = dateStr
+            segments.push(active)
+            active = null
+        }
+    }
+
+    if (active) segments.push(active)
+
+    let longest: StreakSegment | null = null
+    for (const seg of segments) {
+        if (!longest || seg.length >= longest.length) longest = seg
+    }
+
+    const last = segments[segments.length - 1]
+    return {
+        segments,
+        longest,
+        current: last && last.brokenBy === null ? last : null,
+    }
+}
+
 /**
  * 日付が「有効な達成日」かどうかを判定するヘルパー
  * 遅刻判定もここで完結し、週レベルの一括失格は行わない
@@ -243,9 +403,10 @@ function isEffectiveDay(
 }
 
 /**
- * ストレート達成回数を週（月〜日）単位で計算
+ * ストレート達成回数を週単位で計算
  * 日単位の設定解決: 週内の各日ごとに getSettingsForDate を呼んで設定を取得
- * 週の目標日数は週開始日（月曜）の設定で決定（週途中の変更は翌週から反映）
+ * 週の区切りは各日に有効な week_starts_on で決定（変更前の週は変更前の区切りのまま）
+ * 週の目標日数は週開始日の設定で決定（週途中の変更は翌週から反映）
  *
  * @param submissions - 全投稿データ（type='shield' を含む）
  * @param isRestDay - 定休日判定関数
@@ -253,6 +414,7 @@ function isEffectiveDay(
  * @param getGroupConfigs - 日付からグループ設定を返す関数
  * @param getSettingsForDate - 日付からバージョン管理設定を返す関数
  * @param confirmedBeforeDate - この日付より前の週のみ判定（undefined時は全週）
+ * @param clock - 現在時刻の取得元（省略時はシステム時刻）
  */
 export function calculatePerfectWeeks(
     submissions: SubmissionForStreak[],
@@ -260,7 +422,8 @@ export function calculatePerfectWeeks(
     getWeeklyTarget: (date: Date) => number,
     getGroupConfigs: (date: Date) => GroupConfig[],
     getSettingsForDate: (date: Date) => VersionedSettings,
-    confirmedBeforeDate?: Date
+    confirmedBeforeDate?: Date,
+    clock: Clock = systemClock
 ): number {
     const approvedDates = getApprovedDates(submissions)
     const revivalDates = getRevivalDates(submissions)
@@ -276,13 +439,15 @@ export function calculatePerfectWeeks(
     if (allTargetDates.length === 0) return 0
 
     const oldestDate = startOfDay(new Date(allTargetDates[0]))
-    const today = startOfDay(new Date())
+    const today = startOfDay(clock())
     const allDays = eachDayOfInterval({ start: oldestDate, end: today })
 
-    // 日付を週（月曜始まり）ごとにグループ化
+    // 日付を週ごとにグループ化（週の開始曜日はその日に有効な設定）
+    const getWeekStartsOn: GetWeekStartsOn = (date) => getSettingsForDate(date).week_starts_on
+    const getWeekKey = (date: Date) => format(getWeekStart(date, getWeekStartsOn), 'yyyy-MM-dd')
     const weekMap = new Map<string, Date[]>()
     for (const day of allDays) {
-        const weekKey = format(startOfWeek(day, { weekStartsOn: 1 }), 'yyyy-MM-dd')
+        const weekKey = getWeekKey(day)
         if (!weekMap.has(weekKey)) {
             weekMap.set(weekKey, [])
         }
@@ -292,8 +457,8 @@ export function calculatePerfectWeeks(
     let perfectWeekCount = 0
 
     for (const [weekKey, weekDays] of weekMap) {
-        // 確定週チェック: 週の最終日（日曜）が confirmedBeforeDate より前でなければスキップ
-        const weekStart = new Date(weekKey)
+        // 確定週チェック: 週の最終日が confirmedBeforeDate より前でなければスキップ
+        const weekStart = parseISO(weekKey)
         const weekEnd = addDays(weekStart, 6)
         if (confirmedBeforeDate && !isBefore(weekEnd, confirmedBeforeDate)) {
             continue
@@ -327,11 +492,14 @@ export function calculatePerfectWeeks(
                 // グループに属する全曜日について、この週の対応日付を列挙
                 let groupAchieved = 0
                 for (const dow of group.daysOfWeek) {
-                    // 週開始（月曜=1）から dow に対応する日付を計算
-                    const offset = ((dow - 1) + 7) % 7
+                    // 週開始日の曜日から dow に対応する日付を計算
+                    const offset = ((dow - weekStart.getDay()) + 7) % 7
                     const groupDate = addDays(weekStart, offset)
                     const groupDateStr = format(groupDate, 'yyyy-MM-dd')
 
+                    // 週の開始曜日の変更をまたぐ週では、別の週に属する日は数えない
+                    if (getWeekKey(groupDate) !== weekKey) continue
+
                     // effectiveFrom / effectiveTo の有効期間チェック（日単位）
                     if (groupDateStr < group.effectiveFrom) continue
                     if (group.effectiveTo && groupDateStr >= group.effectiveTo) continue
@@ -357,12 +525,11 @@ export function calculatePerfectWeeks(
             }
         }
 
-        // 目標日数は週開始日（月曜）の設定で決定（非遡及的）
-        // weekDays[0] は最初の部分週では月曜でない可能性があるため、明示的に算出
-        const weekMonday = startOfWeek(weekDays[0], { weekStartsOn: 1 })
-        const weekStartSettings = getSettingsForDate(weekMonday)
+        // 目標日数は週開始日の設定で決定（非遡及的）
+        // weekDays[0] は最初の部分週では週開始日でない可能性があるため、weekKey の日付を使う
+        const weekStartSettings = getSettingsForDate(weekStart)
         const target = weekStartSettings.use_target_days
-            ? getWeeklyTarget(weekMonday)
+            ? getWeeklyTarget(weekStart)
             : weekStartSettings.custom_required_days
 
         if (achieved >= target) {
@@ -379,14 +546,16 @@ export function calculatePerfectWeeks(
  * @param targetDate - 投稿対象日
  * @param submissions - 全投稿データ（この投稿を含まない）
  * @param isRestDay - 定休日判定関数
+ * @param clock - 現在時刻の取得元（省略時はシステム時刻）
  * @returns リバイバル対象ならtrue
  */
 export function isRevivalCandidate(
     targetDate: Date,
     submissions: SubmissionForStreak[],
-    isRestDay: IsRestDayFn
+    isRestDay: IsRestDayFn,
+    clock: Clock = systemClock
 ): boolean {
-    const today = startOfDay(new Date())
+    const today = startOfDay(clock())
     const targetStart = startOfDay(targetDate)
 
     // 未来の日付はリバイバル対象外
@@ -412,27 +581,28 @@ export function isRevivalCandidate(
 }
 
 /**
- * ストレート達成時にシールドを付与するかを判定
- * 7日連続（シールド/リバイバル不使用）達成でシールド+1（上限3）
+ * ストレート達成時にシールドを付与するかを判定（reconcile_shield_ledger と同じ判定）
+ * straight_count 回のストレート達成ごとにシールド+1。所持数が shield_max_stock に達している場合は見送り
+ * 設定はストレート達成した週に有効なものを使う（設定を変更しても獲得済みのシールドは変わらない）
  *
- * @param currentStreak - 現在のストリーク
+ * @param straightCountSinceLastReward - 前回の獲得（または見送り）以降のストレート達成回数（今回の達成を含む）
  * @param shieldStock - 現在のシールド残数
- * @param usedShieldOrRevival - シールドまたはリバイバルを使用したか
+ * @param settings - ストレート達成した週に有効な設定
  * @returns 付与するシールド数（0または1）
  */
 export function calculateShieldReward(
-    currentStreak: number,
+    straightCountSinceLastReward: number,
     shieldStock: number,
-    usedShieldOrRevival: boolean
+    settings: Pick<VersionedSettings, 'condition_type' | 'straight_count' | 'shield_max_stock'>
 ): number {
-    if (usedShieldOrRevival) {
+    // 月間全日の条件はストレート達成回数では付与しない
+    if (settings.condition_type !== 'straight_count') {
         return 0
     }
 
-    // 7日達成ごとにシールド付与（上限3）
-    if (currentStreak > 0 && currentStreak % 7 === 0 && shieldStock < 3) {
-        return 1
+    if (straightCountSinceLastReward < Math.max(settings.straight_count, 1)) {
+        return 0
     }
 
-    return 0
+    return shieldStock < settings.shield_max_stock ? 1 : 0
 }
@@ -0,0 +1,104 @@
+/**
+ * 継続日数の称号（docs/称号.md）
+ *
+ * calculateStreak の currentStreak を入力として、現在の称号と次の称号を解決する。
+ * 獲得済み称号の永続化は useStreakTitles（streak_title_awards テーブル）で行う。
+ */
+
+export interface StreakTitle {
+    days: number        // 必要な連続日数
+    title: string       // 称号
+    message: string     // 獲得時メッセージ
+    tier: 1 | 2 | 3 | 4 // 第1期〜第4期
+}
+
+export interface StreakTitleResolution {
+    current: StreakTitle | null     // 到達済みの最上位称号
+    next: StreakTitle | null        // 次に狙える称号（最上位到達時は null）
+    daysToNext: number | null       // 次の称号までの残り日数
+}
+
+export const STREAK_TITLE_TIER_LABELS: Record<StreakTitle['tier'], string> = {
+    1: '第1期：習慣の格闘期',
+    2: '第2期：習慣の安定期',
+    3: '第3期：尊敬の領域',
+    4: '第4期：伝説の領域',
+}
+
+// 日数の昇順で定義すること
+export const STREAK_TITLES: StreakTitle[] = [
+    // 第1期：習慣の格闘期（1〜60日）
+    { days: 1, tier: 1, title: '千里の道の一歩', message: 'どんな偉大な変化も今日から。歴史に刻まれるべき「第1回」です。' },
+    { days: 2, tier: 1, title: '三日坊主への挑戦', message: '英語学習者の約3割が脱落する地点。あなたは今、平均を超えようとしています。' },
+    { days: 3, tier: 1, title: '三日坊主・卒業', message: '日本伝統の挫折の壁を突破！今日からあなたの継続力は「上位層」です。' },
+    { days: 7, tier: 1, title: '一週間の守護者', message: '読書などの新習慣を始めた人の4割が脱落する「魔の期間」を制覇しました。' },
+    { days: 11, tier: 1, title: 'キングの背番号', message: 'カズ（三浦知良）の11。年齢に抗い、動き続ける伝説の精神の入り口です。' },
+    { days: 14, tier: 1, title: '二週間の選ばれし者', message: '選挙戦なら当選確定。自分との約束という「信頼の票」を積み上げました。' },
+    { days: 17, tier: 1, title: '自己管理の二刀流', message: '大谷翔平の17。日常とトレーニングを高い次元で両立させる達人です。' },
+    { days: 21, tier: 1, title: '習慣の孵化（ふか）', message: '脳が運動を「当たり前」と認識し始める境界線。習慣があなたの味方になりました。' },
+    { days: 29, tier: 1, title: '不敗伝説の記録', message: '藤井聡太氏の29連勝と同じ。あなたのカレンダーに、自分への敗北はありません。' },
+    { days: 30, tier: 1, title: 'マンスリー・キング', message: '1ヶ月達成。ダイエットに挑んだ人の半分が脱落する最初の月を勝ち残りました。' },
+    { days: 32, tier: 1, title: '日常のインフラ', message: 'タモリ氏の32年続く番組のように、あなたの運動は生活に欠かせない顔です。' },
+    { days: 40, tier: 1, title: 'プロのルーティン', message: 'イチロー氏が40日間同じ食事を続けた執念に到達。偏執的なまでの自己管理力です。' },
+    { days: 42, tier: 1, title: '精神のマラソン完走', message: '42.195kmの距離を耐え抜く精神力。あなたは自分自身の限界を走り抜きました。' },
+    { days: 51, tier: 1, title: 'レーザービームの意志', message: 'イチローの51。周囲の雑音を射抜き、目標だけを見据える揺るぎない継続です。' },
+    { days: 55, tier: 1, title: '重厚なる信頼の背中', message: '松井秀喜の55。重厚で、誰にも止められないパワーがあなたの習慣に宿りました。' },
+    { days: 60, tier: 1, title: '変革へのコミット', message: '2ヶ月達成。他人に「本気で自分を変えた」と胸を張って言い切れる実績です。' },
+    // 第2期：習慣の安定期（61〜180日）
+    { days: 66, tier: 2, title: '無意識の領域', message: 'ロンドン大学の研究で「習慣が自動化する」とされる平均日数。もう努力はいりません。' },
+    { days: 80, tier: 2, title: 'ルーティンの求道者', message: 'イチロー氏が毎日同じ食生活を続けた年間最多記録と同じ。継続こそがあなたの才能。' },
+    { days: 90, tier: 2, title: 'クォーター・マスター', message: '英語学習者の約9割が挫折する「3ヶ月の壁」をあなたは粉砕しました。' },
+    { days: 100, tier: 2, title: '百日のセンチュリオン', message: '3桁の大台。赤ちゃんならお食い初め。あなたの新しい習慣は、もう一生モノです。' },
+    { days: 108, tier: 2, title: '煩悩の打ち手', message: '108の煩悩（サボりたい欲）をすべてトレーニングで叩き伏せた証です。' },
+    { days: 151, tier: 2, title: 'マスター・コレクター', message: '初代ポケモンの数（151）と同じ。あなたは健康という全スキルを捕まえました。' },
+    { days: 180, tier: 2, title: 'ハーフイヤーの英雄', message: '半年達成。俳優・渡辺謙氏が独学で英語をマスターし世界へ挑んだ期間と同じです。' },
+    // 第3期：尊敬の領域（181〜365日）
+    { days: 200, tier: 3, title: '200日の精鋭', message: '1年の稼働日の大半をトレーニングに捧げました。もはや自己管理のプロです。' },
+    { days: 262, tier: 3, title: '積み上げの世界記録', message: 'イチロー氏の年間安打記録。1年でこれだけ「自分に勝った」人は世界に一握り。' },
+    { days: 265, tier: 3, title: '揺るぎない太平の世', message: '江戸幕府265年の歴史と同じ。あなたの心身という国は、もう誰にも崩せません。' },
+    { days: 300, tier: 3, title: '屈強なる志士', message: '赤穂浪士が討ち入りを待ち、耐え忍んだ期間。あなたの志は歴史級に強固です。' },
+    { days: 365, tier: 3, title: '年間王者（グランドスラム）', message: '1年達成。全人類の0.1%も到達できない、継続という名の聖域に立ちました。' },
+    // 第4期：伝説の領域（366日〜）
+    { days: 500, tier: 4, title: '五百日の奇跡', message: 'もはやトレーニングが「趣味」ではなく、あなたの「生き方（スタイル）」です。' },
+    { days: 868, tier: 4, title: '世界の記録保持者', message: '王貞治氏の通算本塁打数。あなたの毎日の動きは、一回一回が世界記録級の価値。' },
+    { days: 1000, tier: 4, title: '千日の修行者（生き仏）', message: '比叡山の荒行と同じ。あなたの精神力は、信仰に近い強さを持っています。' },
+    { days: 1492, tier: 4, title: '不滅の鉄人記録', message: '金本知憲氏のフルイニング記録に匹敵。故障を乗り越え続けた、真の王者の証。' },
+    { days: 3650, tier: 4, title: '十年のレジェンド', message: '10年間毎日投稿を続けたHIKAKIN氏の領域。あなたの継続は、歴史そのものです。' },
+]
+
+/**
+ * 連続日数から現在の称号と次の称号を解決する
+ */
+export function resolveStreakTitle(currentStreak: number): StreakTitleResolution {
+    let current: StreakTitle | null = null
+    let next: StreakTitle | null = null
+
+    for (const t of STREAK_TITLES) {
+        if (t.days <= currentStreak) {
+            current = t
+        } else {
+            next = t
+            break
+        }
+    }
+
+    return {
+        current,
+        next,
+        daysToNext: next ? next.days - currentStreak : null,
+    }
+}
+
+/**
+ * 連続日数で到達済みの称号をすべて返す（昇順）
+ */
+export function getReachedStreakTitles(currentStreak: number): StreakTitle[] {
+    return STREAK_TITLES.filter(t => t.days <= currentStreak)
+}
+
+/**
+ * 日数から称号定義を取得
+ */
+export function getStreakTitleByDays(days: number): StreakTitle | null {
+    return STREAK_TITLES.find(t => t.days === days) ?? null
+}
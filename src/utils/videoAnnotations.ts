@@ -0,0 +1,40 @@
+/**
+ * 動画の再生位置に紐づくメモ（video_annotations）のユーティリティ
+ */
+
+export interface VideoAnnotation {
+  id: string
+  time_seconds: number
+  content: string
+}
+
+/** 再生中にメモを画面に表示しておく秒数 */
+export const ANNOTATION_DISPLAY_SECONDS = 3
+
+/**
+ * 再生位置の順に並べる（同じ位置は元の順）
+ */
+export function sortAnnotations<T extends Pick<VideoAnnotation, 'time_seconds'>>(annotations: T[]): T[] {
+  return [...annotations].sort((a, b) => a.time_seconds - b.time_seconds)
+}
+
+/**
+ * シークバー上のマーカーの位置（%）。長さが不明な場合は null
+ */
+export function getAnnotationMarkerPercent(timeSeconds: number, duration: number): number | null {
+  if (!Number.isFinite(duration) || duration <= 0) return null
+  return Math.max(0, Math.min(100, (timeSeconds / duration) * 100))
+}
+
+/**
+ * 現在の再生位置で表示するメモ（メモの位置から ANNOTATION_DISPLAY_SECONDS 秒間）
+ */
+export function getActiveAnnotations<T extends Pick<VideoAnnotation, 'time_seconds'>>(
+  annotations: T[],
+  currentTime: number,
+  displaySeconds: number = ANNOTATION_DISPLAY_SECONDS
+): T[] {
+  return sortAnnotations(annotations).filter(
+    a => currentTime >= a.time_seconds && currentTime < a.time_seconds + displaySeconds
+  )
+}
@@ -0,0 +1,95 @@
+/**
+ * 動画コンテナのメタデータ読み取り
+ * MP4 / MOV（ISO BMFF / QuickTime）の moov > mvhd から撮影（作成）日時を取得する。
+ * ファイル全体は読まず、ボックスのヘッダーと mvhd の先頭だけを Blob.slice で読む。
+ */
+
+// mvhd の日時は 1904-01-01 00:00:00 UTC からの秒数
+const MAC_EPOCH_OFFSET_SEC = 2082844800
+// 壊れたファイルで延々とボックスを辿らないための上限
+const MAX_BOXES_PER_LEVEL = 256
+
+interface BoxHeader {
+  type: string
+  offset: number
+  size: number
+  headerSize: number
+}
+
+async function readBoxHeader(file: Blob, offset: number, end: number): Promise<BoxHeader | null> {
+  const buffer = await file.slice(offset, Math.min(offset + 16, end)).arrayBuffer()
+  if (buffer.byteLength < 8) return null
+
+  const view = new DataView(buffer)
+  const size32 = view.getUint32(0)
+  const type = String.fromCharCode(view.getUint8(4), view.getUint8(5), view.getUint8(6), view.getUint8(7))
+
+  let size: number
+  let headerSize = 8
+  if (size32 === 1) {
+    // 64bit サイズ（largesize）
+    if (buffer.byteLength < 16) return null
+    size = Number(view.getBigUint64(8))
+    headerSize = 16
+  } else if (size32 === 0) {
+    // 末尾まで
+    size = end - offset
+  } else {
+    size = size32
+  }
+
+  if (size < headerSize) return null
+  return { type, offset, size, headerSize }
+}
+
+async function findBox(file: Blob, start: number, end: number, type: string): Promise<BoxHeader | null> {
+  let offset = start
+  for (let i = 0; i < MAX_BOXES_PER_LEVEL && offset < end; i++) {
+    const box = await readBoxHeader(file, offset, end)
+    if (!box) return null
+    if (box.type === type) return box
+    offset += box.size
+  }
+  return null
+}
+
+/**
+ * mvhd ボックスの中身（ヘッダーの直後から）から作成日時を取り出す
+ * 未設定（0）の場合は null
+ */
+export function parseMvhdCreationTime(view: DataView): Date | null {
+  if (view.byteLength < 8) return null
+  const version = view.getUint8(0)
+
+  let seconds: number
+  if (version === 1) {
+    if (view.byteLength < 12) return null
+    seconds = Number(view.getBigUint64(4))
+  } else {
+    seconds = view.getUint32(4)
+  }
+
+  if (seconds === 0) return null
+  return new Date((seconds - MAC_EPOCH_OFFSET_SEC) * 1000)
+}
+
+/**
+ * 動画ファイルの作成日時（mvhd の creation_time）を読む
+ * MP4 / MOV 以外、または読み取れない場合は null
+ */
+export async function readVideoCreationTime(file: Blob): Promise<Date | null> {
+  try {
+    const moov = await findBox(file, 0, file.size, 'moov')
+    if (!moov) return null
+
+    const mvhd = await findBox(file, moov.offset + moov.headerSize, moov.offset + moov.size, 'mvhd')
+    if (!mvhd) return null
+
+    const start = mvhd.offset + mvhd.headerSize
+    const buffer = await file.slice(start, Math.min(start + 12, mvhd.offset + mvhd.size)).arrayBuffer()
+    return parseMvhdCreationTime(new DataView(buffer))
+  } catch (err) {
+    console.warn('Failed to read video creation time:', err)
+    return null
+  }
+}
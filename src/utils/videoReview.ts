@@ -0,0 +1,105 @@
+/**
+ * フォームチェック用の動画再生ツール（VideoPlayerModal のコマ送り・A-B ループ・スロー再生・静止画保存）
+ */
+
+/** 選択できる再生速度（0.1x〜0.25x はスロー再生） */
+export const PLAYBACK_RATES = [0.1, 0.25, 0.5, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10] as const
+
+/**
+ * コマ送りの1コマの秒数の既定値
+ * ブラウザから動画のフレームレートを取得できないため、再生中のフレーム間隔から推定できるまでは
+ * スマートフォンの標準（30fps）とみなす
+ */
+export const FRAME_DURATION = 1 / 30
+
+/** フレーム間隔として扱う範囲（240fps〜10fps。範囲外はシークや再生の途切れとみなす） */
+const MIN_FRAME_DURATION = 1 / 250
+const MAX_FRAME_DURATION = 1 / 10
+
+/** A-B ループの最短の長さ（秒）。これより短い区間はループにしない */
+export const MIN_LOOP_LENGTH = 0.1
+
+export interface LoopRange {
+  start: number
+  end: number
+}
+
+/**
+ * localStorage に保存した再生速度を読み込む（選択肢にない値は 1x）
+ */
+export function parseStoredPlaybackRate(stored: string | null): number {
+  const val = stored ? parseFloat(stored) : 1
+  return (PLAYBACK_RATES as readonly number[]).includes(val) ? val : 1
+}
+
+/**
+ * 選択肢の中で1段階速い/遅い再生速度（端ではそのまま）
+ */
+export function getAdjacentPlaybackRate(current: number, direction: 1 | -1): number {
+  const rates = PLAYBACK_RATES as readonly number[]
+  const index = rates.indexOf(current)
+  if (index === -1) return 1
+  return rates[Math.max(0, Math.min(rates.length - 1, index + direction))]
+}
+
+/**
+ * 続けて表示された2フレームの mediaTime の差（requestVideoFrameCallback）で1コマの秒数の推定を更新する
+ * 高速再生や画面のリフレッシュレートを超えるフレームレートではフレームが間引かれて差が大きくなるため、
+ * これまでの最小値を使う（60fps 以上の動画もスロー再生すると正確になる）
+ */
+export function updateFrameDurationEstimate(current: number | null, mediaTimeDelta: number): number | null {
+  if (!(mediaTimeDelta >= MIN_FRAME_DURATION && mediaTimeDelta <= MAX_FRAME_DURATION)) return current
+  return current === null ? mediaTimeDelta : Math.min(current, mediaTimeDelta)
+}
+
+/**
+ * 1コマ進めた/戻した再生位置（0〜duration に収める）
+ */
+export function getFrameStepTime(
+  currentTime: number,
+  direction: 1 | -1,
+  duration: number,
+  frames: number = 1,
+  frameDuration: number = FRAME_DURATION,
+): number {
+  const next = currentTime + direction * frames * frameDuration
+  if (!Number.isFinite(duration)) return Math.max(0, next)
+  return Math.max(0, Math.min(duration, next))
+}
+
+/**
+ * A・B の位置からループ区間を作る（逆順の指定は入れ替え、短すぎる区間は null）
+ */
+export function buildLoopRange(a: number, b: number): LoopRange | null {
+  const start = Math.min(a, b)
+  const end = Math.max(a, b)
+  if (end - start < MIN_LOOP_LENGTH) return null
+  return { start, end }
+}
+
+/**
+ * ループ区間の外に出た場合の戻り先（区間内なら null）
+ */
+export function getLoopSeekTarget(currentTime: number, loop: LoopRange | null): number | null {
+  if (!loop) return null
+  if (currentTime >= loop.end || currentTime < loop.start) return loop.start
+  return null
+}
+
+/**
+ * 動画要素に再生 URL を直接設定する（hls.js を使えない Safari のネイティブ HLS・MP4）
+ * 配信元は別オリジンのため、CORS で読み込まないと静止画の保存で canvas が汚染されて書き出せない
+ */
+export function setDirectVideoSource(video: Pick<HTMLVideoElement, 'crossOrigin' | 'src'>, url: string): void {
+  video.crossOrigin = 'anonymous'
+  video.src = url
+}
+
+/**
+ * 静止画のファイル名（例: fit-proof-0m42.5s.png）
+ */
+export function getSnapshotFileName(timeSeconds: number): string {
+  const m = Math.floor(timeSeconds / 60)
+  const s = (timeSeconds % 60).toFixed(1)
+  return `fit-proof-${m}m${s}s.png`
+}
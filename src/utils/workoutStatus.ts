@@ -0,0 +1,88 @@
+/**
+ * 投稿のステータス更新（承認/却下/免除/取り消し）の内容を決めるユーティリティ
+ * カレンダー（useWorkoutHistory）とレビューキュー（ReviewQueuePage）で同じ判定を使う
+ */
+
+import { toZonedTime } from '@/lib/timezone'
+
+export type WorkoutStatus = 'success' | 'fail' | 'excused' | null
+
+export interface WorkoutStatusTarget {
+  id: number
+  status: string | null
+  target_date: string | null
+  created_at: string
+}
+
+export interface WorkoutStatusUpdate {
+  status: WorkoutStatus
+  reviewed_at: string | null
+  reps?: number | null
+  is_revival?: boolean
+}
+
+/**
+ * submissions に書き込む値とリバイバルかどうか
+ * @param otherWorkouts 同じクライアントの投稿（同じ日付に他の承認済みがあるかの判定に使う）
+ * @param timeZone 当日・投稿日の判定に使うクライアントのタイムゾーン
+ */
+export function buildWorkoutStatusUpdate(
+  workout: WorkoutStatusTarget,
+  otherWorkouts: Pick<WorkoutStatusTarget, 'id' | 'status' | 'target_date'>[],
+  status: WorkoutStatus,
+  reps: number | null | undefined,
+  timeZone: string | null | undefined,
+  now: Date
+): { update: WorkoutStatusUpdate; isRevival: boolean } {
+  const update: WorkoutStatusUpdate = {
+    status,
+    reviewed_at: status ? now.toISOString() : null,
+  }
+
+  // 承認時はrepsを設定
+  if (status === 'success' && reps !== undefined) {
+    update.reps = reps
+  }
+  // 取り消し時はrepsをnullにリセット
+  if (status === null) {
+    update.reps = null
+    update.is_revival = false
+  }
+
+  // 新規承認時のリバイバル自動判定
+  const targetDate = workout.target_date
+  if (status !== 'success' || workout.status === 'success' || !targetDate) {
+    return { update, isRevival: false }
+  }
+
+  // この日付に他の承認済み投稿があるか確認
+  const hasOtherApproved = otherWorkouts.some(w =>
+    w.id !== workout.id &&
+    w.target_date === targetDate &&
+    w.status === 'success'
+  )
+
+  // 過去の日付で、他に承認済みがなければリバイバル候補
+  // タイムゾーン安全: targetDate を年月日に分解してローカル深夜0時として生成する
+  const [ty, tm, td] = targetDate.split('-').map(Number)
+  const targetDateObj = new Date(ty, tm - 1, td) // ローカル深夜0時（UTC解釈問題なし）
+  // 当日・投稿日はクライアントのタイムゾーンで判定
+  const today = toZonedTime(now, timeZone)
+  today.setHours(0, 0, 0, 0)
+  if (targetDateObj >= today || hasOtherApproved) {
+    return { update, isRevival: false }
+  }
+
+  // #7: created_at が target_date より後の日付の場合のみリバイバル
+  // リバイバルの本質 = 「過去の空白日を後から埋めた」こと。
+  // 当日投稿→翌日承認や事前投稿は正規の提出なのでリバイバルではない。
+  const createdAtDate = toZonedTime(new Date(workout.created_at), timeZone)
+  createdAtDate.setHours(0, 0, 0, 0)
+  if (createdAtDate <= targetDateObj) {
+    return { update, isRevival: false }
+  }
+
+  // 過去日かつ初回承認かつ target_date より後に投稿 → リバイバル
+  update.is_revival = true
+  return { update, isRevival: true }
+}
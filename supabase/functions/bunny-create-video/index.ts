@@ -10,6 +10,33 @@ const corsHeaders = {
 
 const ENABLED_RESOLUTIONS = '480p'  // 変更時: '720p' に書き換えて再デプロイ
 
+// 動画の所有者はタイトルの先頭の user.id で判定する（クライアントが送るタイトルでは所有を証明できないため、サーバーで付ける）
+function getOwnedVideoTitle(userId: string, title: string) {
+    return `${userId}/${title}`
+}
+
+function isVideoOwnedBy(video: { title?: string }, userId: string) {
+    return typeof video.title === 'string' && video.title.startsWith(`${userId}/`)
+}
+
+// TUS 署名を生成: SHA256(library_id + api_key + expiration_time + video_id)
+async function createUploadCredentials(videoId: string, libraryId: string, apiKey: string) {
+    const expirationTime = Math.floor(Date.now() / 1000) + 3600 // 1時間有効
+    const signaturePayload = libraryId + apiKey + expirationTime + videoId
+    const encoder = new TextEncoder()
+    const hashBuffer = await crypto.subtle.digest('SHA-256', encoder.encode(signaturePayload))
+    const hashArray = Array.from(new Uint8Array(hashBuffer))
+    const authorizationSignature = hashArray.map(b => b.toString(16).padStart(2, '0')).join('')
+
+    return {
+        videoId,
+        libraryId,
+        tusEndpoint: 'https://video.bunnycdn.com/tusupload',
+        authorizationSignature,
+        authorizationExpire: expirationTime,
+    }
+}
+
 Deno.serve(async (req) => {
     if (req.method === 'OPTIONS') {
         return new Response('ok', { headers: corsHeaders })
@@ -108,8 +135,60 @@ Deno.serve(async (req) => {
             )
         }
 
+        if (action === 'sign') {
+            // 中断したアップロードの再開用: 既存ビデオの TUS 認証情報を再発行
+            // 自分が作成し、まだアップロードが完了していない（status 0 = Created）動画のみ。提出済みの動画を上書きさせない
+            const videoId = body.videoId
+            if (!videoId) {
+                return new Response(JSON.stringify({ error: 'Missing videoId' }), {
+                    status: 400,
+                    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+                })
+            }
+
+            const videoRes = await fetch(
+                `https://video.bunnycdn.com/library/${BUNNY_STREAM_LIBRARY_ID}/videos/${videoId}`,
+                {
+                    method: 'GET',
+                    headers: { AccessKey: BUNNY_STREAM_API_KEY },
+                }
+            )
+
+            if (videoRes.status === 404) {
+                return new Response(JSON.stringify({ error: 'Video not found' }), {
+                    status: 404,
+                    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+                })
+            }
+
+            if (!videoRes.ok) {
+                const errText = await videoRes.text()
+                throw new Error(`Bunny video lookup failed: ${videoRes.status} ${errText}`)
+            }
+
+            const video = await videoRes.json()
+            if (!isVideoOwnedBy(video, user.id)) {
+                return new Response(JSON.stringify({ error: 'Forbidden' }), {
+                    status: 403,
+                    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+                })
+            }
+
+            if (video.status !== 0) {
+                return new Response(JSON.stringify({ error: 'Video upload already completed' }), {
+                    status: 409,
+                    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+                })
+            }
+
+            return new Response(
+                JSON.stringify(await createUploadCredentials(videoId, BUNNY_STREAM_LIBRARY_ID, BUNNY_STREAM_API_KEY)),
+                { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            )
+        }
+
         // action === 'create': ビデオ作成 + TUS 認証情報返却
-        const title = body.title || 'untitled'
+        const title = getOwnedVideoTitle(user.id, body.title || 'untitled')
 
         // Bunny API でビデオプレースホルダーを作成
         const createRes = await fetch(
@@ -135,22 +214,8 @@ Deno.serve(async (req) => {
         const videoData = await createRes.json()
         const videoId = videoData.guid
 
-        // TUS 署名を生成: SHA256(library_id + api_key + expiration_time + video_id)
-        const expirationTime = Math.floor(Date.now() / 1000) + 3600 // 1時間有効
-        const signaturePayload = BUNNY_STREAM_LIBRARY_ID + BUNNY_STREAM_API_KEY + expirationTime + videoId
-        const encoder = new TextEncoder()
-        const hashBuffer = await crypto.subtle.digest('SHA-256', encoder.encode(signaturePayload))
-        const hashArray = Array.from(new Uint8Array(hashBuffer))
-        const authorizationSignature = hashArray.map(b => b.toString(16).padStart(2, '0')).join('')
-
         return new Response(
-            JSON.stringify({
-                videoId,
-                libraryId: BUNNY_STREAM_LIBRARY_ID,
-                tusEndpoint: 'https://video.bunnycdn.com/tusupload',
-                authorizationSignature,
-                authorizationExpire: expirationTime,
-            }),
+            JSON.stringify(await createUploadCredentials(videoId, BUNNY_STREAM_LIBRARY_ID, BUNNY_STREAM_API_KEY)),
             { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
         )
 
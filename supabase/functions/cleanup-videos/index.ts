@@ -12,6 +12,7 @@ const corsHeaders = {
  * Edge Function to clean up old videos from Bunny Stream.
  * - Reads retention period per client from profiles.video_retention_days
  * - Deletes orphaned Bunny videos (in Bunny but not in DB) with a 5-minute grace window
+ *   (24 hours for videos whose upload has not completed, so interrupted uploads can be resumed)
  * Called automatically when admin opens the app.
  */
 Deno.serve(async (req) => {
@@ -100,9 +101,13 @@ Deno.serve(async (req) => {
 
         const graceWindowMs = 5 * 60 * 1000 // 5分
         const graceThreshold = new Date(Date.now() - graceWindowMs)
+        // アップロード未完了（status 0 = Created）の動画は中断からの再開を待つ
+        // （src/lib/upload-constants.ts の RESUMABLE_UPLOAD_MAX_AGE_MS と揃える）
+        const resumableWindowMs = 24 * 60 * 60 * 1000 // 24時間
+        const resumableThreshold = new Date(Date.now() - resumableWindowMs)
 
         // ページネーション付きで全ビデオを取得
-        const allBunnyVideos: { guid: string; dateUploaded: string }[] = []
+        const allBunnyVideos: { guid: string; dateUploaded: string; status: number }[] = []
         let page = 1
         const itemsPerPage = 100
 
@@ -121,7 +126,7 @@ Deno.serve(async (req) => {
             const items = listData.items || []
 
             for (const item of items) {
-                allBunnyVideos.push({ guid: item.guid, dateUploaded: item.dateUploaded })
+                allBunnyVideos.push({ guid: item.guid, dateUploaded: item.dateUploaded, status: item.status })
             }
 
             // totalItems で残りページを判定
@@ -145,12 +150,13 @@ Deno.serve(async (req) => {
         )
 
         // 5. Bunny 上にあるが DB にない = 孤立ビデオ → 削除
-        // 作成から 5 分以上経過したもののみ（アップロード中の誤削除を防ぐ）
+        // 作成から 5 分以上（アップロード未完了は 24 時間以上）経過したもののみ（アップロード中の誤削除を防ぐ）
         let orphanCount = 0
         for (const video of allBunnyVideos) {
             if (!dbVideoIdSet.has(video.guid)) {
                 const uploadedAt = new Date(video.dateUploaded)
-                if (uploadedAt < graceThreshold) {
+                const threshold = video.status === 0 ? resumableThreshold : graceThreshold
+                if (uploadedAt < threshold) {
                     try {
                         await deleteBunnyVideo(video.guid)
                         console.log(`Deleted orphan Bunny video: ${video.guid}`)
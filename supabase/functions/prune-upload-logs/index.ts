@@ -0,0 +1,106 @@
+// @ts-nocheck
+// This file runs in Deno (Supabase Edge Functions), not in Node.js/browser.
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+/**
+ * Edge Function to prune upload_logs according to upload_log_retention.
+ * - Keeps sessions for retention_days (failed sessions for failed_retention_days)
+ * - Keeps at most max_sessions_per_user sessions per user (newest first)
+ * - Skips unless prune_interval_hours have passed since the last run
+ *   ({ force: true } runs immediately; admin only)
+ * Called automatically when admin opens the app (same as cleanup-videos).
+ * Can also be scheduled with Supabase Cron.
+ */
+Deno.serve(async (req) => {
+    if (req.method === 'OPTIONS') {
+        return new Response('ok', { headers: corsHeaders })
+    }
+
+    try {
+        const SUPABASE_URL = Deno.env.get('SUPABASE_URL')!
+        const SUPABASE_ANON_KEY = Deno.env.get('SUPABASE_ANON_KEY')!
+        const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+        const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY)
+
+        const body = await req.json().catch(() => ({}))
+        const force = body?.force === true
+
+        // 即時実行は管理者のみ（JWT でユーザーを確認）
+        if (force) {
+            const authHeader = req.headers.get('Authorization')
+            const userClient = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
+                global: { headers: { Authorization: authHeader ?? '' } },
+            })
+            const { data: { user } } = await userClient.auth.getUser()
+            const { data: profile } = user
+                ? await supabase.from('profiles').select('role').eq('id', user.id).maybeSingle()
+                : { data: null }
+
+            if (profile?.role !== 'admin') {
+                return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+                    status: 401,
+                    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+                })
+            }
+        }
+
+        // 1. 保持ポリシーを取得し、前回の整理から間隔が空いているか確認
+        const { data: settings, error: settingsError } = await supabase
+            .from('upload_log_retention')
+            .select('prune_interval_hours, last_pruned_at')
+            .eq('id', 1)
+            .single()
+
+        if (settingsError) throw settingsError
+
+        const intervalMs = settings.prune_interval_hours * 60 * 60 * 1000
+        const nextRunAt = settings.last_pruned_at
+            ? new Date(new Date(settings.last_pruned_at).getTime() + intervalMs)
+            : new Date()
+
+        if (!force && nextRunAt.getTime() > Date.now()) {
+            console.log(`Upload log pruning skipped (next run: ${nextRunAt.toISOString()})`)
+            return new Response(
+                JSON.stringify({ skipped: true, nextRunAt: nextRunAt.toISOString() }),
+                { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            )
+        }
+
+        // 2. 整理を実行（削除と last_pruned_at の更新は prune_upload_logs 内で行う）
+        const { data: result, error: pruneError } = await supabase.rpc('prune_upload_logs').single()
+
+        if (pruneError) throw pruneError
+
+        console.log(
+            `Upload logs pruned: expired ${result.expired_count}, failed expired ${result.failed_expired_count}, over per-user cap ${result.capped_count}`
+        )
+
+        return new Response(
+            JSON.stringify({
+                expired: result.expired_count,
+                failedExpired: result.failed_expired_count,
+                capped: result.capped_count,
+                nextRunAt: new Date(Date.now() + intervalMs).toISOString(),
+            }),
+            { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error)
+        console.error('prune-upload-logs error:', message)
+        if (error instanceof Error && error.stack) {
+            console.error('Stack:', error.stack.split('\n').slice(0, 5).join(' | '))
+        }
+        return new Response(JSON.stringify({ error: message }), {
+            status: 500,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        })
+    }
+})
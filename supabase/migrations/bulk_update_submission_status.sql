@@ -0,0 +1,108 @@
+-- =============================================================
+-- bulk_update_submission_status.sql
+-- 複数の投稿をまとめて承認/却下/免除/未確認に戻す（管理者のみ）
+-- 1件ずつの更新（src/utils/workoutStatus.ts の buildWorkoutStatusUpdate）と同じ内容を
+-- 1トランザクションで適用し、対象クライアントの集計値を再計算する。
+-- 途中で失敗した場合はすべて元に戻る。
+--
+-- 1. bulk_update_submission_status RPC
+-- =============================================================
+
+CREATE OR REPLACE FUNCTION bulk_update_submission_status(
+    p_submission_ids bigint[],
+    p_status text,
+    p_reps integer DEFAULT NULL
+)
+RETURNS TABLE (
+    submission_id bigint,
+    user_id uuid,
+    target_date date,
+    is_revival boolean
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+    v_now CONSTANT timestamptz := now();
+    v_row submissions%ROWTYPE;
+    v_tz text;
+    v_is_revival boolean;
+    v_user_ids uuid[] := ARRAY[]::uuid[];
+    v_user_id uuid;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+    ) THEN
+        RAISE EXCEPTION 'Permission denied';
+    END IF;
+
+    IF p_status IS NOT NULL AND p_status NOT IN ('success', 'fail', 'excused') THEN
+        RAISE EXCEPTION 'Invalid status: %', p_status;
+    END IF;
+
+    IF p_reps IS NOT NULL AND p_reps < 0 THEN
+        RAISE EXCEPTION 'Invalid reps: %', p_reps;
+    END IF;
+
+    -- 同じ日付の投稿は古い順に処理する（先に承認した投稿だけがリバイバルになる）
+    FOR v_row IN
+        SELECT s.* FROM submissions s
+        WHERE s.id = ANY(p_submission_ids)
+          AND s.type <> 'shield'
+        ORDER BY s.user_id, s.target_date, s.created_at, s.id
+        FOR UPDATE
+    LOOP
+        v_tz := gamification_user_timezone(v_row.user_id);
+
+        -- 新規承認時のリバイバル判定
+        -- 過去の日付・他に承認済みの投稿がない・target_date より後の日付に投稿した場合のみ
+        v_is_revival := coalesce(p_status = 'success'
+            AND v_row.status IS DISTINCT FROM 'success'
+            AND v_row.target_date IS NOT NULL
+            AND v_row.target_date < (v_now AT TIME ZONE v_tz)::date
+            AND NOT EXISTS (
+                SELECT 1 FROM submissions o
+                WHERE o.user_id = v_row.user_id
+                  AND o.target_date = v_row.target_date
+                  AND o.status = 'success'
+                  AND o.id <> v_row.id
+            )
+            AND (v_row.created_at AT TIME ZONE v_tz)::date > v_row.target_date, false);
+
+        UPDATE submissions s
+        SET status = p_status,
+            reviewed_at = CASE WHEN p_status IS NULL THEN NULL ELSE v_now END,
+            -- 承認時は指定があれば reps を設定、取り消し時は reps・リバイバルをリセット
+            reps = CASE
+                WHEN p_status IS NULL THEN NULL
+                WHEN p_status = 'success' AND p_reps IS NOT NULL THEN p_reps
+                ELSE s.reps
+            END,
+            is_revival = CASE
+                WHEN p_status IS NULL THEN false
+                WHEN v_is_revival THEN true
+                ELSE s.is_revival
+            END
+        WHERE s.id = v_row.id;
+
+        IF NOT (v_row.user_id = ANY(v_user_ids)) THEN
+            v_user_ids := v_user_ids || v_row.user_id;
+        END IF;
+
+        submission_id := v_row.id;
+        user_id := v_row.user_id;
+        target_date := v_row.target_date;
+        is_revival := v_is_revival;
+        RETURN NEXT;
+    END LOOP;
+
+    -- 集計値（total_reps・シールド等）を再計算
+    FOREACH v_user_id IN ARRAY v_user_ids LOOP
+        PERFORM recompute_gamification_stats(v_user_id);
+    END LOOP;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION bulk_update_submission_status(bigint[], text, integer) TO authenticated;
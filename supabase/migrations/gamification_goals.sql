@@ -0,0 +1,94 @@
+-- =============================================================
+-- gamification_goals.sql
+-- カスタム目標（月間チャレンジ等）の定義と達成履歴
+-- 1. gamification_goals テーブル DDL
+-- 2. gamification_goal_completions テーブル DDL
+-- 3. RLS
+-- =============================================================
+
+-- Step 1: 目標定義
+-- 進捗の計算はフロントエンド（src/utils/goalEvaluator.ts）が行う
+-- 削除は effective_to をセットして終了扱いにする（達成履歴を残すため）
+CREATE TABLE IF NOT EXISTS gamification_goals (
+    id              bigint generated by default as identity primary key,
+    user_id         uuid references profiles(id) on delete cascade not null,
+    title           text not null check (char_length(title) between 1 and 50),
+    goal_type       text check (goal_type in ('monthly_reps', 'monthly_days', 'late_free_weeks')) not null,
+    target          integer not null check (target > 0),
+    reward          text,
+    effective_from  date not null default current_date,
+    effective_to    date default null,
+    created_at      timestamp with time zone default now() not null,
+    CONSTRAINT chk_gamification_goals_effective_range
+        CHECK (effective_to IS NULL OR effective_to >= effective_from)
+);
+
+CREATE INDEX IF NOT EXISTS idx_gamification_goals_user_id
+    ON gamification_goals (user_id);
+
+-- Step 2: 達成履歴
+-- period_key: 月間目標は 'yyyy-MM'、連続週目標は達成した週の開始日 'yyyy-MM-dd'
+CREATE TABLE IF NOT EXISTS gamification_goal_completions (
+    id              bigint generated by default as identity primary key,
+    goal_id         bigint references gamification_goals(id) on delete cascade not null,
+    user_id         uuid references profiles(id) on delete cascade not null,
+    period_key      text not null,
+    completed_at    timestamp with time zone default now() not null,
+    unique (goal_id, period_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_gamification_goal_completions_user_id
+    ON gamification_goal_completions (user_id);
+
+-- Step 3: RLS
+ALTER TABLE gamification_goals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE gamification_goal_completions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own gamification goals." ON gamification_goals
+    FOR SELECT USING (
+        auth.uid() = user_id
+        OR EXISTS (
+            SELECT 1 FROM profiles
+            WHERE profiles.id = auth.uid()
+            AND profiles.role = 'admin'
+        )
+    );
+
+CREATE POLICY "Admins can manage gamification goals." ON gamification_goals
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM profiles
+            WHERE profiles.id = auth.uid()
+            AND profiles.role = 'admin'
+        )
+    );
+
+CREATE POLICY "Users can view own goal completions." ON gamification_goal_completions
+    FOR SELECT USING (
+        auth.uid() = user_id
+        OR EXISTS (
+            SELECT 1 FROM profiles
+            WHERE profiles.id = auth.uid()
+            AND profiles.role = 'admin'
+        )
+    );
+
+-- 達成判定はクライアント本人のブラウザで行う（streak_title_awards と同じ）
+CREATE POLICY "Users can insert own goal completions." ON gamification_goal_completions
+    FOR INSERT WITH CHECK (
+        auth.uid() = user_id
+        AND EXISTS (
+            SELECT 1 FROM gamification_goals
+            WHERE gamification_goals.id = goal_id
+            AND gamification_goals.user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Admins can manage goal completions." ON gamification_goal_completions
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM profiles
+            WHERE profiles.id = auth.uid()
+            AND profiles.role = 'admin'
+        )
+    );
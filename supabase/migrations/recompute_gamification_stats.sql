@@ -0,0 +1,402 @@
+-- =============================================================
+-- recompute_gamification_stats.sql
+-- ゲーミフィケーション集計値のサーバー側再計算
+-- profiles の total_reps / perfect_week_count / revival_success_count / shield_stock を
+-- submissions・submission_rules・gamification_setting_versions から毎回算出し直す。
+-- （従来はブラウザ側で計算・加減算して profiles に書き戻していたため、
+--   複数タブから古い値で上書きされる問題があった）
+--
+-- 1. 判定ヘルパー関数（streakCalculator.ts / useSubmissionRules.ts と同じ判定）
+-- 2. recompute_gamification_stats RPC
+-- 3. apply_shield / remove_shield を再計算ベースに置き換え
+-- =============================================================
+
+-- Step 1: 判定ヘルパー関数
+
+-- ルールが指定日に有効か（[effective_from, effective_to) セマンティクス）
+-- submission_rules の effective_from / effective_to は timestamptz のためローカル日付に変換して比較する
+CREATE OR REPLACE FUNCTION gamification_rule_active(
+    p_effective_from timestamptz,
+    p_effective_to timestamptz,
+    p_date date,
+    p_tz text
+) RETURNS boolean
+LANGUAGE sql STABLE
+AS $$
+    SELECT (p_effective_from AT TIME ZONE p_tz)::date <= p_date
+       AND (p_effective_to IS NULL OR (p_effective_to AT TIME ZONE p_tz)::date > p_date)
+$$;
+
+-- 休息日判定（weekly: 同曜日 / daily: 同日付）
+CREATE OR REPLACE FUNCTION gamification_is_rest_day(
+    p_user_id uuid,
+    p_date date,
+    p_tz text
+) RETURNS boolean
+LANGUAGE sql STABLE
+AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM submission_rules r
+        WHERE r.user_id = p_user_id
+          AND r.rule_type = 'rest_day'
+          AND gamification_rule_active(r.effective_from, r.effective_to, p_date, p_tz)
+          AND (
+              (r.scope = 'weekly' AND r.day_of_week = extract(dow FROM p_date)::int)
+              OR (r.scope = 'daily' AND r.specific_date = p_date)
+          )
+    )
+$$;
+
+-- 指定日に有効なグループ設定（group_id 単位）
+CREATE OR REPLACE FUNCTION gamification_group_configs(
+    p_user_id uuid,
+    p_date date,
+    p_tz text
+) RETURNS TABLE (
+    group_id uuid,
+    days_of_week int[],
+    required_count int,
+    effective_from date,
+    effective_to date
+)
+LANGUAGE sql STABLE
+AS $$
+    SELECT
+        r.group_id,
+        array_agg(DISTINCT r.day_of_week::int) FILTER (WHERE r.day_of_week IS NOT NULL),
+        coalesce(min(r.group_required_count), 1),
+        min((r.effective_from AT TIME ZONE p_tz)::date),
+        min((r.effective_to AT TIME ZONE p_tz)::date)
+    FROM submission_rules r
+    WHERE r.user_id = p_user_id
+      AND r.rule_type = 'group'
+      AND r.group_id IS NOT NULL
+      AND gamification_rule_active(r.effective_from, r.effective_to, p_date, p_tz)
+    GROUP BY r.group_id
+$$;
+
+-- 週目標日数 = 7 - 休息曜日数 - グループによる削減日数
+CREATE OR REPLACE FUNCTION gamification_target_days(
+    p_user_id uuid,
+    p_date date,
+    p_tz text
+) RETURNS integer
+LANGUAGE sql STABLE
+AS $$
+    SELECT 7
+        - (
+            SELECT count(DISTINCT r.day_of_week)::int FROM submission_rules r
+            WHERE r.user_id = p_user_id
+              AND r.rule_type = 'rest_day'
+              AND r.scope = 'weekly'
+              AND r.day_of_week IS NOT NULL
+              AND gamification_rule_active(r.effective_from, r.effective_to, p_date, p_tz)
+        )
+        - coalesce((
+            SELECT sum(coalesce(cardinality(g.days_of_week), 0) - g.required_count)::int
+            FROM gamification_group_configs(p_user_id, p_date, p_tz) g
+        ), 0)
+$$;
+
+-- 指定日に有効なバージョン設定（該当なしはデフォルト値）
+CREATE OR REPLACE FUNCTION gamification_settings_for_date(
+    p_user_id uuid,
+    p_date date
+) RETURNS gamification_setting_versions
+LANGUAGE plpgsql STABLE
+AS $$
+DECLARE
+    v_row gamification_setting_versions%ROWTYPE;
+BEGIN
+    SELECT * INTO v_row FROM gamification_setting_versions v
+    WHERE v.user_id = p_user_id
+      AND v.effective_from <= p_date
+      AND (v.effective_to IS NULL OR v.effective_to > p_date)
+    ORDER BY v.effective_from DESC, v.created_at DESC, v.id DESC
+    LIMIT 1;
+
+    IF NOT FOUND THEN
+        v_row.user_id := p_user_id;
+        v_row.condition_type := 'straight_count';
+        v_row.straight_count := 1;
+        v_row.allow_shield := false;
+        v_row.allow_revival := false;
+        v_row.allow_late := true;
+        v_row.use_target_days := true;
+        v_row.custom_required_days := 7;
+    END IF;
+
+    RETURN v_row;
+END;
+$$;
+
+-- 有効な達成日か（streakCalculator.ts の isEffectiveDay と同じ判定順）
+CREATE OR REPLACE FUNCTION gamification_is_effective_day(
+    p_user_id uuid,
+    p_date date,
+    p_cutoff date,
+    p_allow_revival boolean,
+    p_allow_shield boolean,
+    p_allow_late boolean
+) RETURNS boolean
+LANGUAGE sql STABLE
+AS $$
+    WITH s AS (
+        SELECT
+            coalesce(bool_or(status = 'success' AND type <> 'shield'), false) AS approved,
+            coalesce(bool_or(status = 'success' AND type <> 'shield' AND is_revival), false) AS revival,
+            coalesce(bool_or(type = 'shield'), false) AS shield,
+            coalesce(bool_or(status = 'success' AND type <> 'shield' AND is_late), false) AS late
+        FROM submissions
+        WHERE user_id = p_user_id
+          AND target_date = p_date
+          AND (p_cutoff IS NULL OR target_date >= p_cutoff)
+    )
+    SELECT CASE
+        WHEN NOT p_allow_late AND s.late THEN false
+        WHEN s.approved THEN (NOT s.revival) OR p_allow_revival
+        WHEN s.shield THEN p_allow_shield
+        ELSE false
+    END
+    FROM s
+$$;
+
+-- Step 2: 再計算 RPC
+-- 値が変わった場合のみ profiles を更新する（profiles の realtime 購読で再計算が連鎖しないように）
+CREATE OR REPLACE FUNCTION recompute_gamification_stats(p_user_id uuid)
+RETURNS TABLE (
+    total_reps integer,
+    perfect_week_count integer,
+    revival_success_count integer,
+    shield_stock integer
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+    v_tz CONSTANT text := 'Asia/Tokyo';
+    v_today date := (now() AT TIME ZONE v_tz)::date;
+    v_settings jsonb;
+    v_cutoff date;
+    v_shield_enabled boolean;
+    v_total_reps integer;
+    v_revival integer;
+    v_perfect integer := 0;
+    v_used_shields integer;
+    v_earned integer := 0;
+    v_active gamification_setting_versions%ROWTYPE;
+    v_oldest date;
+    v_week_start date;
+    v_day date;
+    v_day_settings gamification_setting_versions%ROWTYPE;
+    v_group_settings gamification_setting_versions%ROWTYPE;
+    v_week_settings gamification_setting_versions%ROWTYPE;
+    v_group record;
+    v_dow int;
+    v_group_dow int;
+    v_group_date date;
+    v_group_achieved int;
+    v_achieved int;
+    v_target int;
+    v_is_group_day boolean;
+    v_processed text[];
+BEGIN
+    -- 本人または管理者のみ（auth.uid() が NULL = 他の RPC / service role からの呼び出し）
+    IF auth.uid() IS NOT NULL AND auth.uid() <> p_user_id AND NOT EXISTS (
+        SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+    ) THEN
+        RAISE EXCEPTION 'Permission denied';
+    END IF;
+
+    -- 同一ユーザーの再計算を直列化
+    PERFORM pg_advisory_xact_lock(hashtext('gamification:' || p_user_id::text));
+
+    SELECT gamification_settings INTO v_settings FROM profiles WHERE id = p_user_id;
+    v_cutoff := nullif(v_settings->>'effective_from', '')::date;
+    v_shield_enabled := coalesce((v_settings->'shield'->>'enabled')::boolean, true);
+
+    -- 累積回数・リバイバル回数（shield 除外、適用開始日以降）
+    SELECT
+        coalesce(sum(s.reps) FILTER (WHERE s.status = 'success'), 0)::int,
+        count(*) FILTER (WHERE s.status = 'success' AND s.is_revival)::int
+    INTO v_total_reps, v_revival
+    FROM submissions s
+    WHERE s.user_id = p_user_id
+      AND s.type <> 'shield'
+      AND (v_cutoff IS NULL OR s.target_date >= v_cutoff);
+
+    -- ストレート達成回数（月曜始まりの週単位、終了済みの週のみ）
+    SELECT min(s.target_date) INTO v_oldest
+    FROM submissions s
+    WHERE s.user_id = p_user_id
+      AND s.target_date IS NOT NULL
+      AND (v_cutoff IS NULL OR s.target_date >= v_cutoff);
+
+    IF v_oldest IS NOT NULL THEN
+        v_week_start := date_trunc('week', v_oldest)::date;
+
+        WHILE v_week_start + 6 < v_today LOOP
+            v_achieved := 0;
+            v_processed := ARRAY[]::text[];
+
+            FOR v_day IN
+                SELECT d::date FROM generate_series(greatest(v_week_start, v_oldest), v_week_start + 6, interval '1 day') d
+            LOOP
+                CONTINUE WHEN gamification_is_rest_day(p_user_id, v_day, v_tz);
+
+                v_day_settings := gamification_settings_for_date(p_user_id, v_day);
+                v_dow := extract(dow FROM v_day)::int;
+                v_is_group_day := false;
+
+                FOR v_group IN
+                    SELECT * FROM gamification_group_configs(p_user_id, v_day, v_tz) g
+                    WHERE v_dow = ANY(g.days_of_week)
+                LOOP
+                    v_is_group_day := true;
+                    EXIT WHEN v_group.group_id::text = ANY(v_processed);
+                    v_processed := array_append(v_processed, v_group.group_id::text);
+
+                    -- グループに属する全曜日について、この週の対応日付を判定
+                    v_group_achieved := 0;
+                    FOR v_group_dow IN SELECT unnest(v_group.days_of_week) LOOP
+                        v_group_date := v_week_start + ((v_group_dow + 6) % 7);
+                        CONTINUE WHEN v_group_date < v_group.effective_from;
+                        CONTINUE WHEN v_group.effective_to IS NOT NULL AND v_group_date >= v_group.effective_to;
+
+                        v_group_settings := gamification_settings_for_date(p_user_id, v_group_date);
+                        IF gamification_is_effective_day(p_user_id, v_group_date, v_cutoff,
+                            v_group_settings.allow_revival, v_group_settings.allow_shield, v_group_settings.allow_late) THEN
+                            v_group_achieved := v_group_achieved + 1;
+                        END IF;
+                    END LOOP;
+
+                    v_achieved := v_achieved + least(v_group_achieved, v_group.required_count);
+                    EXIT;
+                END LOOP;
+
+                CONTINUE WHEN v_is_group_day;
+
+                IF gamification_is_effective_day(p_user_id, v_day, v_cutoff,
+                    v_day_settings.allow_revival, v_day_settings.allow_shield, v_day_settings.allow_late) THEN
+                    v_achieved := v_achieved + 1;
+                END IF;
+            END LOOP;
+
+            -- 目標日数は週開始日（月曜）の設定で決定
+            v_week_settings := gamification_settings_for_date(p_user_id, v_week_start);
+            IF v_week_settings.use_target_days THEN
+                v_target := gamification_target_days(p_user_id, v_week_start, v_tz);
+            ELSE
+                v_target := v_week_settings.custom_required_days;
+            END IF;
+
+            IF v_achieved >= v_target THEN
+                v_perfect := v_perfect + 1;
+            END IF;
+
+            v_week_start := v_week_start + 7;
+        END LOOP;
+    END IF;
+
+    -- シールド残数 = ストレート達成からの獲得数 - 使用済みシールド数
+    SELECT * INTO v_active FROM gamification_setting_versions v
+    WHERE v.user_id = p_user_id AND v.effective_to IS NULL;
+
+    IF coalesce(v_active.condition_type, 'straight_count') = 'straight_count' THEN
+        v_earned := v_perfect / greatest(coalesce(v_active.straight_count, 1), 1);
+    END IF;
+
+    SELECT count(*)::int INTO v_used_shields
+    FROM submissions s
+    WHERE s.user_id = p_user_id
+      AND s.type = 'shield'
+      AND s.status = 'success'
+      AND (v_cutoff IS NULL OR s.target_date >= v_cutoff);
+
+    total_reps := v_total_reps;
+    perfect_week_count := v_perfect;
+    revival_success_count := v_revival;
+    shield_stock := CASE WHEN v_shield_enabled THEN greatest(0, v_earned - v_used_shields) ELSE 0 END;
+
+    UPDATE profiles p
+    SET total_reps = recompute_gamification_stats.total_reps,
+        perfect_week_count = recompute_gamification_stats.perfect_week_count,
+        revival_success_count = recompute_gamification_stats.revival_success_count,
+        shield_stock = recompute_gamification_stats.shield_stock
+    WHERE p.id = p_user_id
+      AND (p.total_reps, p.perfect_week_count, p.revival_success_count, p.shield_stock)
+          IS DISTINCT FROM (
+              recompute_gamification_stats.total_reps,
+              recompute_gamification_stats.perfect_week_count,
+              recompute_gamification_stats.revival_success_count,
+              recompute_gamification_stats.shield_stock
+          );
+
+    RETURN NEXT;
+END;
+$$;
+
+-- Step 3: シールド適用 / 取り消し RPC を再計算ベースに置き換え
+-- stock の加減算は行わず、shield 行の INSERT / DELETE 後に再計算する
+CREATE OR REPLACE FUNCTION apply_shield(p_user_id uuid, p_target_date date)
+RETURNS boolean
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_stock integer;
+    v_has_submission boolean;
+BEGIN
+    -- ユーザー+日付の組み合わせで排他ロック（同時実行による race condition 防止）
+    PERFORM pg_advisory_xact_lock(hashtext(p_user_id::text || p_target_date::text));
+
+    -- 通常投稿（video/comment）が既に存在する日にはシールドを適用しない
+    SELECT EXISTS(
+        SELECT 1 FROM submissions
+        WHERE user_id = p_user_id AND target_date = p_target_date AND type IN ('video', 'comment')
+    ) INTO v_has_submission;
+    IF v_has_submission THEN
+        RETURN false;
+    END IF;
+
+    -- 最新の stock を再計算して取得
+    SELECT r.shield_stock INTO v_stock FROM recompute_gamification_stats(p_user_id) r;
+    IF v_stock IS NULL OR v_stock <= 0 THEN
+        RETURN false;
+    END IF;
+
+    -- shield 行を挿入（UNIQUE 制約で重複は自動拒否）
+    INSERT INTO submissions (user_id, type, target_date, status)
+    VALUES (p_user_id, 'shield', p_target_date, 'success');
+
+    PERFORM recompute_gamification_stats(p_user_id);
+
+    RETURN true;
+EXCEPTION WHEN unique_violation THEN
+    -- 既に適用済み
+    RETURN false;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION remove_shield(p_user_id uuid, p_target_date date)
+RETURNS boolean
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_deleted integer;
+BEGIN
+    -- shield 行を削除
+    DELETE FROM submissions
+    WHERE user_id = p_user_id AND type = 'shield' AND target_date = p_target_date;
+
+    GET DIAGNOSTICS v_deleted = ROW_COUNT;
+    IF v_deleted = 0 THEN
+        RETURN false;  -- 削除対象なし → stock は変えない
+    END IF;
+
+    PERFORM recompute_gamification_stats(p_user_id);
+
+    RETURN true;
+END;
+$$;
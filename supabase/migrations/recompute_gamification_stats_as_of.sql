@@ -0,0 +1,268 @@
+-- =============================================================
+-- recompute_gamification_stats_as_of.sql
+-- 指定日時点のゲーミフィケーション集計値を算出できるようにする
+-- （管理者の「指定日時点で表示」モード用。profiles は更新しない）
+--
+-- 指定時点の判定:
+--   - 投稿・シールド: created_at <= p_as_of のもののみ
+--   - 承認: coalesce(reviewed_at, created_at) <= p_as_of のもののみ success 扱い
+--   - 設定履歴（gamification_setting_versions）・提出ルールは現在の記録を使う
+--
+-- 1. gamification_is_effective_day に p_as_of を追加
+-- 2. compute_gamification_stats（読み取り専用の集計）
+-- 3. recompute_gamification_stats を compute_gamification_stats ベースに置き換え
+-- =============================================================
+
+-- Step 1: 有効な達成日判定に時点指定を追加
+DROP FUNCTION IF EXISTS gamification_is_effective_day(uuid, date, date, boolean, boolean, boolean);
+
+CREATE OR REPLACE FUNCTION gamification_is_effective_day(
+    p_user_id uuid,
+    p_date date,
+    p_cutoff date,
+    p_allow_revival boolean,
+    p_allow_shield boolean,
+    p_allow_late boolean,
+    p_as_of timestamptz DEFAULT NULL
+) RETURNS boolean
+LANGUAGE sql STABLE
+AS $$
+    WITH s AS (
+        SELECT
+            coalesce(bool_or(approved AND type <> 'shield'), false) AS approved,
+            coalesce(bool_or(approved AND type <> 'shield' AND is_revival), false) AS revival,
+            coalesce(bool_or(type = 'shield'), false) AS shield,
+            coalesce(bool_or(approved AND type <> 'shield' AND is_late), false) AS late
+        FROM (
+            SELECT
+                type, is_revival, is_late,
+                status = 'success'
+                    AND (p_as_of IS NULL OR coalesce(reviewed_at, created_at) <= p_as_of) AS approved
+            FROM submissions
+            WHERE user_id = p_user_id
+              AND target_date = p_date
+              AND (p_cutoff IS NULL OR target_date >= p_cutoff)
+              AND (p_as_of IS NULL OR created_at <= p_as_of)
+        ) t
+    )
+    SELECT CASE
+        WHEN NOT p_allow_late AND s.late THEN false
+        WHEN s.approved THEN (NOT s.revival) OR p_allow_revival
+        WHEN s.shield THEN p_allow_shield
+        ELSE false
+    END
+    FROM s
+$$;
+
+-- Step 2: 集計（p_as_of = NULL は現在時点）
+CREATE OR REPLACE FUNCTION compute_gamification_stats(
+    p_user_id uuid,
+    p_as_of timestamptz DEFAULT NULL
+)
+RETURNS TABLE (
+    total_reps integer,
+    perfect_week_count integer,
+    revival_success_count integer,
+    shield_stock integer
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+    v_tz CONSTANT text := 'Asia/Tokyo';
+    v_today date := (coalesce(p_as_of, now()) AT TIME ZONE v_tz)::date;
+    v_settings jsonb;
+    v_cutoff date;
+    v_shield_enabled boolean;
+    v_total_reps integer;
+    v_revival integer;
+    v_perfect integer := 0;
+    v_used_shields integer;
+    v_earned integer := 0;
+    v_active gamification_setting_versions%ROWTYPE;
+    v_oldest date;
+    v_week_start date;
+    v_day date;
+    v_day_settings gamification_setting_versions%ROWTYPE;
+    v_group_settings gamification_setting_versions%ROWTYPE;
+    v_week_settings gamification_setting_versions%ROWTYPE;
+    v_group record;
+    v_dow int;
+    v_group_dow int;
+    v_group_date date;
+    v_group_achieved int;
+    v_achieved int;
+    v_target int;
+    v_is_group_day boolean;
+    v_processed text[];
+BEGIN
+    -- 本人または管理者のみ（auth.uid() が NULL = 他の RPC / service role からの呼び出し）
+    IF auth.uid() IS NOT NULL AND auth.uid() <> p_user_id AND NOT EXISTS (
+        SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+    ) THEN
+        RAISE EXCEPTION 'Permission denied';
+    END IF;
+
+    SELECT gamification_settings INTO v_settings FROM profiles WHERE id = p_user_id;
+    v_cutoff := nullif(v_settings->>'effective_from', '')::date;
+    v_shield_enabled := coalesce((v_settings->'shield'->>'enabled')::boolean, true);
+
+    -- 累積回数・リバイバル回数（shield 除外、適用開始日以降、指定時点までに承認済み）
+    SELECT
+        coalesce(sum(s.reps), 0)::int,
+        count(*) FILTER (WHERE s.is_revival)::int
+    INTO v_total_reps, v_revival
+    FROM submissions s
+    WHERE s.user_id = p_user_id
+      AND s.type <> 'shield'
+      AND s.status = 'success'
+      AND (v_cutoff IS NULL OR s.target_date >= v_cutoff)
+      AND (p_as_of IS NULL OR coalesce(s.reviewed_at, s.created_at) <= p_as_of);
+
+    -- ストレート達成回数（月曜始まりの週単位、終了済みの週のみ）
+    SELECT min(s.target_date) INTO v_oldest
+    FROM submissions s
+    WHERE s.user_id = p_user_id
+      AND s.target_date IS NOT NULL
+      AND (v_cutoff IS NULL OR s.target_date >= v_cutoff)
+      AND (p_as_of IS NULL OR s.created_at <= p_as_of);
+
+    IF v_oldest IS NOT NULL THEN
+        v_week_start := date_trunc('week', v_oldest)::date;
+
+        WHILE v_week_start + 6 < v_today LOOP
+            v_achieved := 0;
+            v_processed := ARRAY[]::text[];
+
+            FOR v_day IN
+                SELECT d::date FROM generate_series(greatest(v_week_start, v_oldest), v_week_start + 6, interval '1 day') d
+            LOOP
+                CONTINUE WHEN gamification_is_rest_day(p_user_id, v_day, v_tz);
+
+                v_day_settings := gamification_settings_for_date(p_user_id, v_day);
+                v_dow := extract(dow FROM v_day)::int;
+                v_is_group_day := false;
+
+                FOR v_group IN
+                    SELECT * FROM gamification_group_configs(p_user_id, v_day, v_tz) g
+                    WHERE v_dow = ANY(g.days_of_week)
+                LOOP
+                    v_is_group_day := true;
+                    EXIT WHEN v_group.group_id::text = ANY(v_processed);
+                    v_processed := array_append(v_processed, v_group.group_id::text);
+
+                    -- グループに属する全曜日について、この週の対応日付を判定
+                    v_group_achieved := 0;
+                    FOR v_group_dow IN SELECT unnest(v_group.days_of_week) LOOP
+                        v_group_date := v_week_start + ((v_group_dow + 6) % 7);
+                        CONTINUE WHEN v_group_date < v_group.effective_from;
+                        CONTINUE WHEN v_group.effective_to IS NOT NULL AND v_group_date >= v_group.effective_to;
+
+                        v_group_settings := gamification_settings_for_date(p_user_id, v_group_date);
+                        IF gamification_is_effective_day(p_user_id, v_group_date, v_cutoff,
+                            v_group_settings.allow_revival, v_group_settings.allow_shield, v_group_settings.allow_late,
+                            p_as_of) THEN
+                            v_group_achieved := v_group_achieved + 1;
+                        END IF;
+                    END LOOP;
+
+                    v_achieved := v_achieved + least(v_group_achieved, v_group.required_count);
+                    EXIT;
+                END LOOP;
+
+                CONTINUE WHEN v_is_group_day;
+
+                IF gamification_is_effective_day(p_user_id, v_day, v_cutoff,
+                    v_day_settings.allow_revival, v_day_settings.allow_shield, v_day_settings.allow_late,
+                    p_as_of) THEN
+                    v_achieved := v_achieved + 1;
+                END IF;
+            END LOOP;
+
+            -- 目標日数は週開始日（月曜）の設定で決定
+            v_week_settings := gamification_settings_for_date(p_user_id, v_week_start);
+            IF v_week_settings.use_target_days THEN
+                v_target := gamification_target_days(p_user_id, v_week_start, v_tz);
+            ELSE
+                v_target := v_week_settings.custom_required_days;
+            END IF;
+
+            IF v_achieved >= v_target THEN
+                v_perfect := v_perfect + 1;
+            END IF;
+
+            v_week_start := v_week_start + 7;
+        END LOOP;
+    END IF;
+
+    -- シールド残数 = ストレート達成からの獲得数 - 使用済みシールド数
+    -- 現在時点は有効中のバージョン、指定時点はその日に有効だったバージョンの獲得条件を使う
+    IF p_as_of IS NULL THEN
+        SELECT * INTO v_active FROM gamification_setting_versions v
+        WHERE v.user_id = p_user_id AND v.effective_to IS NULL;
+    ELSE
+        v_active := gamification_settings_for_date(p_user_id, v_today);
+    END IF;
+
+    IF coalesce(v_active.condition_type, 'straight_count') = 'straight_count' THEN
+        v_earned := v_perfect / greatest(coalesce(v_active.straight_count, 1), 1);
+    END IF;
+
+    SELECT count(*)::int INTO v_used_shields
+    FROM submissions s
+    WHERE s.user_id = p_user_id
+      AND s.type = 'shield'
+      AND s.status = 'success'
+      AND (v_cutoff IS NULL OR s.target_date >= v_cutoff)
+      AND (p_as_of IS NULL OR s.created_at <= p_as_of);
+
+    total_reps := v_total_reps;
+    perfect_week_count := v_perfect;
+    revival_success_count := v_revival;
+    shield_stock := CASE WHEN v_shield_enabled THEN greatest(0, v_earned - v_used_shields) ELSE 0 END;
+
+    RETURN NEXT;
+END;
+$$;
+
+-- Step 3: 再計算 RPC（現在時点で集計し、値が変わった場合のみ profiles を更新）
+CREATE OR REPLACE FUNCTION recompute_gamification_stats(p_user_id uuid)
+RETURNS TABLE (
+    total_reps integer,
+    perfect_week_count integer,
+    revival_success_count integer,
+    shield_stock integer
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+BEGIN
+    -- 同一ユーザーの再計算を直列化
+    PERFORM pg_advisory_xact_lock(hashtext('gamification:' || p_user_id::text));
+
+    SELECT c.total_reps, c.perfect_week_count, c.revival_success_count, c.shield_stock
+    INTO total_reps, perfect_week_count, revival_success_count, shield_stock
+    FROM compute_gamification_stats(p_user_id) c;
+
+    UPDATE profiles p
+    SET total_reps = recompute_gamification_stats.total_reps,
+        perfect_week_count = recompute_gamification_stats.perfect_week_count,
+        revival_success_count = recompute_gamification_stats.revival_success_count,
+        shield_stock = recompute_gamification_stats.shield_stock
+    WHERE p.id = p_user_id
+      AND (p.total_reps, p.perfect_week_count, p.revival_success_count, p.shield_stock)
+          IS DISTINCT FROM (
+              recompute_gamification_stats.total_reps,
+              recompute_gamification_stats.perfect_week_count,
+              recompute_gamification_stats.revival_success_count,
+              recompute_gamification_stats.shield_stock
+          );
+
+    RETURN NEXT;
+END;
+$$;
@@ -0,0 +1,45 @@
+-- =============================================================
+-- streak_title_awards.sql
+-- 継続日数の称号（docs/称号.md）の獲得履歴テーブル
+-- 1. テーブル DDL
+-- 2. RLS
+-- =============================================================
+
+-- Step 1: テーブル作成
+-- 称号定義はフロントエンド（src/utils/streakTitles.ts）が持ち、ここでは到達日数のみを保存する
+CREATE TABLE IF NOT EXISTS streak_title_awards (
+    id              bigint generated by default as identity primary key,
+    user_id         uuid references profiles(id) on delete cascade not null,
+    days            integer not null check (days > 0),
+    awarded_at      timestamp with time zone default now() not null,
+    unique (user_id, days)
+);
+
+CREATE INDEX IF NOT EXISTS idx_streak_title_awards_user_id
+    ON streak_title_awards (user_id);
+
+-- Step 2: RLS
+ALTER TABLE streak_title_awards ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own streak title awards." ON streak_title_awards
+    FOR SELECT USING (
+        auth.uid() = user_id
+        OR EXISTS (
+            SELECT 1 FROM profiles
+            WHERE profiles.id = auth.uid()
+            AND profiles.role = 'admin'
+        )
+    );
+
+-- 獲得判定はクライアント本人のブラウザで行う
+CREATE POLICY "Users can insert own streak title awards." ON streak_title_awards
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Admins can manage streak title awards." ON streak_title_awards
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM profiles
+            WHERE profiles.id = auth.uid()
+            AND profiles.role = 'admin'
+        )
+    );
@@ -0,0 +1,111 @@
+-- =============================================================
+-- submission_comment_threads.sql
+-- 投稿ごとのコメントをトレーナーとクライアントのスレッドにする
+-- 従来は投稿ごとに管理者のコメント1件（submission_id が UNIQUE）で、クライアントは読むだけだった。
+-- 投稿者（submissions.user_id）と同じ user_id のメッセージ = クライアント、それ以外 = トレーナー。
+-- read_at は相手側が読んだ時刻（メッセージごと）。
+--
+-- 1. submission_id の UNIQUE 制約を外す
+-- 2. クライアントの投稿・削除の RLS（既読の更新は RPC のみ）
+-- 3. mark_submission_comments_read RPC
+-- 4. get_unread_comment_counts RPC（未読件数をクライアントごとに集計）
+-- 5. リアルタイム配信
+-- =============================================================
+
+-- Step 1: 1投稿に複数のメッセージ
+ALTER TABLE admin_comments DROP CONSTRAINT IF EXISTS admin_comments_submission_id_key;
+CREATE INDEX IF NOT EXISTS admin_comments_submission_id_created_at_idx
+    ON admin_comments (submission_id, created_at);
+
+-- Step 2: クライアントは自分の投稿にメッセージを送れる・自分のメッセージを削除できる
+DROP POLICY IF EXISTS "Clients can post comments on their own submissions." ON admin_comments;
+CREATE POLICY "Clients can post comments on their own submissions." ON admin_comments
+    FOR INSERT WITH CHECK (
+        auth.uid() = user_id
+        AND EXISTS (
+            SELECT 1 FROM submissions
+            WHERE submissions.id = submission_id
+              AND submissions.user_id = auth.uid()
+        )
+    );
+
+DROP POLICY IF EXISTS "Users can delete their own comments." ON admin_comments;
+CREATE POLICY "Users can delete their own comments." ON admin_comments
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- 既読の更新は mark_submission_comments_read のみ（トレーナーのメッセージを書き換えられないように）
+DROP POLICY IF EXISTS "Users can update comments on their own submissions." ON admin_comments;
+
+-- Step 3: 相手からの未読メッセージを既読にする（本人または管理者のみ）
+CREATE OR REPLACE FUNCTION mark_submission_comments_read(p_submission_id bigint)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_owner uuid;
+    v_count integer;
+BEGIN
+    SELECT user_id INTO v_owner FROM submissions WHERE id = p_submission_id;
+    IF v_owner IS NULL THEN
+        RETURN 0;
+    END IF;
+
+    IF auth.uid() <> v_owner AND NOT EXISTS (
+        SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+    ) THEN
+        RAISE EXCEPTION 'Permission denied';
+    END IF;
+
+    UPDATE admin_comments c
+    SET read_at = now()
+    WHERE c.submission_id = p_submission_id
+      AND c.read_at IS NULL
+      -- クライアントはトレーナーのメッセージ、トレーナーはクライアントのメッセージを既読にする
+      AND CASE WHEN auth.uid() = v_owner THEN c.user_id <> v_owner ELSE c.user_id = v_owner END;
+
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    RETURN v_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION mark_submission_comments_read(bigint) TO authenticated;
+
+-- Step 4: 自分宛ての未読メッセージの件数（クライアントごと）
+-- クライアント: トレーナーからの未読（自分の1行）/ 管理者: クライアントからの未読（クライアントごと）
+CREATE OR REPLACE FUNCTION get_unread_comment_counts()
+RETURNS TABLE (user_id uuid, unread_count integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT s.user_id, count(*)::integer
+    FROM admin_comments c
+    JOIN submissions s ON s.id = c.submission_id
+    WHERE c.read_at IS NULL
+      AND (
+          (s.user_id = auth.uid() AND c.user_id <> s.user_id)
+          OR (
+              c.user_id = s.user_id
+              AND s.user_id <> auth.uid()
+              AND EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'admin')
+          )
+      )
+    GROUP BY s.user_id
+$$;
+
+GRANT EXECUTE ON FUNCTION get_unread_comment_counts() TO authenticated;
+
+-- Step 5: メッセージをリアルタイムで配信（登録済みの場合はスキップ）
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_publication_tables
+        WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'admin_comments'
+    ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE admin_comments;
+    END IF;
+END;
+$$;
@@ -0,0 +1,55 @@
+-- Upload diagnostic reports
+-- アップロードに失敗したクライアントが送る診断レポート（PendingUploadCard の「診断情報を送信」）
+-- report: 失敗したジョブ・セッションのログ・端末とネットワークの状態（src/lib/upload-diagnostics.ts の UploadDiagnosticReport）
+-- session_id: upload_logs.session_id（UploadLogsPage の /admin/upload-logs/:sessionId で開く）
+CREATE TABLE IF NOT EXISTS upload_diagnostic_reports (
+  id          bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  user_id     uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  session_id  text,
+  note        text CHECK (char_length(note) <= 500),
+  report      jsonb NOT NULL,
+  created_at  timestamptz NOT NULL DEFAULT now(),
+  read_at     timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_upload_diagnostic_reports_created_at ON upload_diagnostic_reports(created_at DESC);
+-- 未読件数（トレーナーへの通知）
+CREATE INDEX IF NOT EXISTS idx_upload_diagnostic_reports_unread ON upload_diagnostic_reports(created_at) WHERE read_at IS NULL;
+
+-- RLS
+ALTER TABLE upload_diagnostic_reports ENABLE ROW LEVEL SECURITY;
+
+-- INSERT: own reports only
+CREATE POLICY upload_diagnostic_reports_insert ON upload_diagnostic_reports
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+-- SELECT: own reports or admin
+CREATE POLICY upload_diagnostic_reports_select ON upload_diagnostic_reports
+  FOR SELECT
+  USING (
+    auth.uid() = user_id
+    OR EXISTS (
+      SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+    )
+  );
+
+-- UPDATE（既読）/ DELETE: admin only
+CREATE POLICY upload_diagnostic_reports_update ON upload_diagnostic_reports
+  FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+    )
+  );
+
+CREATE POLICY upload_diagnostic_reports_delete ON upload_diagnostic_reports
+  FOR DELETE
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+    )
+  );
+
+-- 新しいレポートをトレーナーの画面に即時反映する（useDiagnosticReportCount の Realtime 購読）
+ALTER PUBLICATION supabase_realtime ADD TABLE upload_diagnostic_reports;
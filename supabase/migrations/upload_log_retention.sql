@@ -0,0 +1,132 @@
+-- Upload log retention
+-- upload_logs を保持ポリシーに従って自動で整理する（prune-upload-logs Edge Function から実行）
+-- - 通常のセッションは retention_days 日、失敗したセッションは failed_retention_days 日保持
+-- - ユーザーごとに新しい順に max_sessions_per_user 件まで保持（古いものから削除）
+-- - 前回の整理から prune_interval_hours 時間経過していれば、次に管理者がアプリを開いたときに実行
+
+-- 1. 保持ポリシー（1 行のみ）
+CREATE TABLE IF NOT EXISTS upload_log_retention (
+  id                     smallint PRIMARY KEY DEFAULT 1 CHECK (id = 1),
+  retention_days         integer NOT NULL DEFAULT 30 CHECK (retention_days BETWEEN 1 AND 365),
+  failed_retention_days  integer NOT NULL DEFAULT 90 CHECK (failed_retention_days BETWEEN 1 AND 730),
+  max_sessions_per_user  integer NOT NULL DEFAULT 200 CHECK (max_sessions_per_user BETWEEN 10 AND 10000),
+  prune_interval_hours   integer NOT NULL DEFAULT 24 CHECK (prune_interval_hours BETWEEN 1 AND 168),
+  last_pruned_at         timestamptz,
+  last_pruned_count      integer,
+  updated_at             timestamptz NOT NULL DEFAULT now(),
+
+  CHECK (failed_retention_days >= retention_days)
+);
+
+INSERT INTO upload_log_retention (id) VALUES (1) ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE upload_log_retention ENABLE ROW LEVEL SECURITY;
+
+-- SELECT / UPDATE: admin only（INSERT / DELETE は不可）
+CREATE POLICY upload_log_retention_select ON upload_log_retention
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+    )
+  );
+
+CREATE POLICY upload_log_retention_update ON upload_log_retention
+  FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+    )
+  );
+
+-- 2. 失敗したセッションの判定
+-- 完了していない、かつ圧縮以外のフェーズで失敗している（src/lib/upload-analytics.ts の summarizeUploadSession と揃える）
+CREATE OR REPLACE FUNCTION is_failed_upload_log(p_entries jsonb)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT jsonb_path_exists(p_entries, '$[*] ? (@.status == "fail" && @.phase != "compress")')
+     AND NOT jsonb_path_exists(p_entries, '$[*] ? (@.phase == "complete" && @.status == "success")');
+$$;
+
+-- 3. 整理の実行（Edge Function の service role から呼び出す）
+CREATE OR REPLACE FUNCTION prune_upload_logs()
+RETURNS TABLE(expired_count integer, failed_expired_count integer, capped_count integer)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_settings upload_log_retention%ROWTYPE;
+  v_expired integer;
+  v_failed_expired integer;
+  v_capped integer;
+BEGIN
+  SELECT * INTO v_settings FROM upload_log_retention WHERE id = 1;
+
+  -- 保持期間を過ぎた成功・中断したセッション
+  WITH deleted AS (
+    DELETE FROM upload_logs
+    WHERE created_at < now() - make_interval(days => v_settings.retention_days)
+      AND NOT is_failed_upload_log(entries)
+    RETURNING 1
+  )
+  SELECT count(*) INTO v_expired FROM deleted;
+
+  -- 保持期間を過ぎた失敗したセッション
+  WITH deleted AS (
+    DELETE FROM upload_logs
+    WHERE created_at < now() - make_interval(days => v_settings.failed_retention_days)
+    RETURNING 1
+  )
+  SELECT count(*) INTO v_failed_expired FROM deleted;
+
+  -- ユーザーごとの上限を超えた古いセッション
+  WITH ranked AS (
+    SELECT id, row_number() OVER (PARTITION BY user_id ORDER BY created_at DESC) AS rn
+    FROM upload_logs
+  ),
+  deleted AS (
+    DELETE FROM upload_logs l
+    USING ranked r
+    WHERE l.id = r.id AND r.rn > v_settings.max_sessions_per_user
+    RETURNING 1
+  )
+  SELECT count(*) INTO v_capped FROM deleted;
+
+  UPDATE upload_log_retention
+  SET last_pruned_at = now(),
+      last_pruned_count = v_expired + v_failed_expired + v_capped
+  WHERE id = 1;
+
+  RETURN QUERY SELECT v_expired, v_failed_expired, v_capped;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION prune_upload_logs() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION prune_upload_logs() TO service_role;
+
+-- 4. 管理画面向けの現在の容量
+CREATE OR REPLACE FUNCTION get_upload_log_stats()
+RETURNS TABLE(session_count bigint, failed_count bigint, total_bytes bigint, oldest_at timestamptz)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'Unauthorized';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    count(*),
+    count(*) FILTER (WHERE is_failed_upload_log(entries)),
+    pg_total_relation_size('upload_logs'),
+    min(created_at)
+  FROM upload_logs;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_upload_log_stats() TO authenticated;
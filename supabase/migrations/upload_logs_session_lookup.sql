@@ -0,0 +1,8 @@
+-- Upload log lookup by session / video
+-- /admin/upload-logs/:sessionId（セッションへのリンク）と、WorkoutCard からの動画 ID での検索用
+
+-- session_id 単独での検索（UNIQUE(user_id, session_id) は user_id が先頭のため使えない）
+CREATE INDEX IF NOT EXISTS idx_upload_logs_session_id ON upload_logs(session_id);
+
+-- entries @> '[{"phase": "bunny-create", "extra": {"videoId": ...}}]' での検索
+CREATE INDEX IF NOT EXISTS idx_upload_logs_entries ON upload_logs USING gin (entries jsonb_path_ops);
@@ -0,0 +1,52 @@
+-- Video annotations
+-- 動画の再生位置に紐づくトレーナーのメモ（「0:42 で膝が内側に入っている」など）
+-- VideoPlayerModal のシークバーにマーカーとして表示し、クリックでその位置へ移動する
+-- time_seconds: 動画の先頭からの秒数
+CREATE TABLE IF NOT EXISTS video_annotations (
+  id            uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  submission_id bigint NOT NULL REFERENCES submissions(id) ON DELETE CASCADE,
+  user_id       uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  time_seconds  double precision NOT NULL CHECK (time_seconds >= 0),
+  content       text NOT NULL CHECK (char_length(content) BETWEEN 1 AND 500),
+  created_at    timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_video_annotations_submission_id ON video_annotations(submission_id, time_seconds);
+
+-- RLS
+ALTER TABLE video_annotations ENABLE ROW LEVEL SECURITY;
+
+-- SELECT: 自分の投稿のメモ or admin
+CREATE POLICY video_annotations_select ON video_annotations
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM submissions
+      WHERE submissions.id = video_annotations.submission_id
+        AND submissions.user_id = auth.uid()
+    )
+    OR EXISTS (
+      SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+    )
+  );
+
+-- INSERT / DELETE: admin only
+CREATE POLICY video_annotations_insert ON video_annotations
+  FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+    )
+  );
+
+CREATE POLICY video_annotations_delete ON video_annotations
+  FOR DELETE
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+    )
+  );
+
+-- 追加・削除を再生中の画面に即時反映する（useVideoAnnotations の Realtime 購読）
+ALTER PUBLICATION supabase_realtime ADD TABLE video_annotations;
@@ -0,0 +1,389 @@
+-- =============================================================
+-- zz_week_starts_on.sql
+-- 週の開始曜日（gamification_setting_versions.week_starts_on）
+-- ストレート達成・グループ設定の週の区切りをクライアントごとに設定する（0=日曜, 1=月曜）。
+-- バージョン管理設定に持たせ、変更前の日付は変更前の週区切りのまま集計する。
+-- 既存バージョンは従来どおり月曜始まり。
+-- （on_profile_insert / compute_gamification_stats を置き換えるため zz_profile_timezone.sql の後に適用する）
+--
+-- 1. gamification_setting_versions.week_starts_on カラム追加
+-- 2. gamification_week_start ヘルパー
+-- 3. save_gamification_version に p_week_starts_on を追加
+-- 4. on_profile_insert() で preconfig の week_starts_on を適用
+-- 5. compute_gamification_stats を日付ごとの週区切りで集計
+-- =============================================================
+
+-- Step 1: カラム追加
+ALTER TABLE gamification_setting_versions
+    ADD COLUMN IF NOT EXISTS week_starts_on smallint NOT NULL DEFAULT 1
+    CHECK (week_starts_on IN (0, 1));
+
+-- Step 2: 日付が属する週の開始日（週の開始曜日はその日付に有効な設定で決める）
+CREATE OR REPLACE FUNCTION gamification_week_start(
+    p_user_id uuid,
+    p_date date
+) RETURNS date
+LANGUAGE sql STABLE
+AS $$
+    SELECT p_date - ((extract(dow FROM p_date)::int
+        - coalesce((gamification_settings_for_date(p_user_id, p_date)).week_starts_on, 1) + 7) % 7)
+$$;
+
+-- Step 3: save_gamification_version に週の開始曜日を追加
+DROP FUNCTION IF EXISTS save_gamification_version(uuid, text, integer, boolean, boolean, boolean, boolean, integer);
+
+CREATE OR REPLACE FUNCTION save_gamification_version(
+    p_user_id uuid,
+    p_condition_type text DEFAULT 'straight_count',
+    p_straight_count integer DEFAULT 1,
+    p_allow_shield boolean DEFAULT false,
+    p_allow_revival boolean DEFAULT false,
+    p_allow_late boolean DEFAULT true,
+    p_use_target_days boolean DEFAULT true,
+    p_custom_required_days integer DEFAULT 7,
+    p_week_starts_on integer DEFAULT 1
+) RETURNS void LANGUAGE plpgsql SECURITY DEFINER AS $$
+BEGIN
+    -- allow_late=true なら allow_revival を強制 true に正規化
+    IF p_allow_late THEN
+        p_allow_revival := true;
+    END IF;
+
+    -- 現在の active バージョンを close
+    UPDATE gamification_setting_versions
+    SET effective_to = GREATEST(current_date, effective_from)
+    WHERE user_id = p_user_id AND effective_to IS NULL;
+
+    -- 新バージョンを insert
+    INSERT INTO gamification_setting_versions (
+        user_id, condition_type, straight_count,
+        allow_shield, allow_revival, allow_late,
+        use_target_days, custom_required_days, week_starts_on,
+        effective_from, effective_to
+    ) VALUES (
+        p_user_id, p_condition_type, p_straight_count,
+        p_allow_shield, p_allow_revival, p_allow_late,
+        p_use_target_days, p_custom_required_days, p_week_starts_on,
+        current_date, NULL
+    );
+END;
+$$;
+
+-- Step 4: 初回ログイン時の preconfig 適用に week_starts_on を追加
+CREATE OR REPLACE FUNCTION on_profile_insert()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_email text;
+    v_preconfig jsonb;
+    v_rule jsonb;
+    v_item jsonb;
+    v_profile_settings jsonb;
+    v_gs jsonb;
+    v_vs jsonb;
+BEGIN
+    -- Step 1: auth.users からメールアドレスを取得
+    SELECT email INTO v_email
+    FROM auth.users
+    WHERE id = NEW.id;
+
+    IF v_email IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    -- Step 2: authorized_users.user_id をリンク（NULL の場合のみ）
+    UPDATE authorized_users
+    SET user_id = NEW.id
+    WHERE email = v_email
+      AND user_id IS NULL;
+
+    -- Step 3: preconfig 適用（エラー耐性あり）
+    SELECT preconfig INTO v_preconfig
+    FROM authorized_users
+    WHERE email = v_email;
+
+    IF v_preconfig IS NOT NULL THEN
+        BEGIN
+            -- profile_settings を profiles テーブルに適用
+            v_profile_settings := v_preconfig -> 'profile_settings';
+            IF v_profile_settings IS NOT NULL THEN
+                UPDATE profiles SET
+                    past_submission_days = COALESCE((v_profile_settings ->> 'past_submission_days')::integer, past_submission_days),
+                    future_submission_days = COALESCE((v_profile_settings ->> 'future_submission_days')::integer, future_submission_days),
+                    deadline_mode = COALESCE(v_profile_settings ->> 'deadline_mode', deadline_mode),
+                    show_duplicate_to_user = COALESCE((v_profile_settings ->> 'show_duplicate_to_user')::boolean, show_duplicate_to_user),
+                    video_retention_days = COALESCE((v_profile_settings ->> 'video_retention_days')::integer, video_retention_days),
+                    timezone = COALESCE(v_profile_settings ->> 'timezone', timezone),
+                    gamification_settings = CASE
+                        WHEN v_profile_settings -> 'gamification_settings' IS NOT NULL
+                             AND v_profile_settings ->> 'gamification_settings' != 'null'
+                        THEN v_profile_settings -> 'gamification_settings'
+                        ELSE gamification_settings
+                    END
+                WHERE id = NEW.id;
+            END IF;
+
+            -- gamification_setting_versions に初期行を INSERT
+            v_gs := v_profile_settings -> 'gamification_settings';
+            v_vs := v_gs -> 'versioned_settings';
+
+            INSERT INTO gamification_setting_versions (
+                user_id, condition_type, straight_count,
+                allow_shield, allow_revival, allow_late,
+                use_target_days, custom_required_days, week_starts_on,
+                effective_from, effective_to
+            ) VALUES (
+                NEW.id,
+                COALESCE(v_vs ->> 'condition_type', 'straight_count'),
+                COALESCE((v_vs ->> 'straight_count')::integer, 1),
+                COALESCE((v_vs ->> 'allow_shield')::boolean, false),
+                COALESCE((v_vs ->> 'allow_revival')::boolean, false),
+                COALESCE((v_vs ->> 'allow_late')::boolean, true),
+                COALESCE((v_vs ->> 'use_target_days')::boolean, true),
+                COALESCE((v_vs ->> 'custom_required_days')::integer, 7),
+                COALESCE((v_vs ->> 'week_starts_on')::smallint, 1),
+                '2020-01-01'::date,
+                NULL
+            );
+
+            -- rules 配列を submission_rules に INSERT
+            IF v_preconfig -> 'rules' IS NOT NULL AND jsonb_array_length(v_preconfig -> 'rules') > 0 THEN
+                FOR v_rule IN SELECT * FROM jsonb_array_elements(v_preconfig -> 'rules')
+                LOOP
+                    INSERT INTO submission_rules (
+                        user_id, rule_type, scope, day_of_week, specific_date,
+                        value, effective_from, group_id, group_required_count, effective_to
+                    ) VALUES (
+                        NEW.id,
+                        v_rule ->> 'rule_type',
+                        v_rule ->> 'scope',
+                        (v_rule ->> 'day_of_week')::smallint,
+                        (v_rule ->> 'specific_date')::date,
+                        v_rule ->> 'value',
+                        COALESCE((v_rule ->> 'effective_from')::timestamptz, now()),
+                        (v_rule ->> 'group_id')::uuid,
+                        (v_rule ->> 'group_required_count')::integer,
+                        (v_rule ->> 'effective_to')::timestamptz
+                    );
+                END LOOP;
+            END IF;
+
+            -- items 配列を submission_items に INSERT
+            IF v_preconfig -> 'items' IS NOT NULL AND jsonb_array_length(v_preconfig -> 'items') > 0 THEN
+                FOR v_item IN SELECT * FROM jsonb_array_elements(v_preconfig -> 'items')
+                LOOP
+                    INSERT INTO submission_items (
+                        user_id, name, effective_from, effective_to
+                    ) VALUES (
+                        NEW.id,
+                        v_item ->> 'name',
+                        COALESCE((v_item ->> 'effective_from')::timestamptz, now()),
+                        (v_item ->> 'effective_to')::timestamptz
+                    );
+                END LOOP;
+            END IF;
+
+            -- 成功時のみ preconfig を NULL にクリア
+            UPDATE authorized_users SET preconfig = NULL WHERE email = v_email;
+
+        EXCEPTION WHEN OTHERS THEN
+            RAISE WARNING 'preconfig apply failed for %: %', v_email, SQLERRM;
+            -- preconfig は残す（管理者が確認・再設定可能）
+        END;
+    ELSE
+        -- preconfig なしの場合もデフォルト初期バージョンを作成
+        INSERT INTO gamification_setting_versions (
+            user_id, effective_from, effective_to
+        ) VALUES (
+            NEW.id, '2020-01-01'::date, NULL
+        ) ON CONFLICT DO NOTHING;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+-- Step 5: 週の区切りを日付ごとに解決して集計
+CREATE OR REPLACE FUNCTION compute_gamification_stats(
+    p_user_id uuid,
+    p_as_of timestamptz DEFAULT NULL
+)
+RETURNS TABLE (
+    total_reps integer,
+    perfect_week_count integer,
+    revival_success_count integer,
+    shield_stock integer
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+    v_tz CONSTANT text := gamification_user_timezone(p_user_id);
+    v_today date := (coalesce(p_as_of, now()) AT TIME ZONE v_tz)::date;
+    v_settings jsonb;
+    v_cutoff date;
+    v_shield_enabled boolean;
+    v_total_reps integer;
+    v_revival integer;
+    v_perfect integer := 0;
+    v_used_shields integer;
+    v_earned integer := 0;
+    v_active gamification_setting_versions%ROWTYPE;
+    v_oldest date;
+    v_week_start date;
+    v_week_days date[];
+    v_day date;
+    v_day_settings gamification_setting_versions%ROWTYPE;
+    v_group_settings gamification_setting_versions%ROWTYPE;
+    v_week_settings gamification_setting_versions%ROWTYPE;
+    v_group record;
+    v_dow int;
+    v_group_dow int;
+    v_group_date date;
+    v_group_achieved int;
+    v_achieved int;
+    v_target int;
+    v_is_group_day boolean;
+    v_processed text[];
+BEGIN
+    -- 本人または管理者のみ（auth.uid() が NULL = 他の RPC / service role からの呼び出し）
+    IF auth.uid() IS NOT NULL AND auth.uid() <> p_user_id AND NOT EXISTS (
+        SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+    ) THEN
+        RAISE EXCEPTION 'Permission denied';
+    END IF;
+
+    SELECT gamification_settings INTO v_settings FROM profiles WHERE id = p_user_id;
+    v_cutoff := nullif(v_settings->>'effective_from', '')::date;
+    v_shield_enabled := coalesce((v_settings->'shield'->>'enabled')::boolean, true);
+
+    -- 累積回数・リバイバル回数（shield 除外、適用開始日以降、指定時点までに承認済み）
+    SELECT
+        coalesce(sum(s.reps), 0)::int,
+        count(*) FILTER (WHERE s.is_revival)::int
+    INTO v_total_reps, v_revival
+    FROM submissions s
+    WHERE s.user_id = p_user_id
+      AND s.type <> 'shield'
+      AND s.status = 'success'
+      AND (v_cutoff IS NULL OR s.target_date >= v_cutoff)
+      AND (p_as_of IS NULL OR coalesce(s.reviewed_at, s.created_at) <= p_as_of);
+
+    -- ストレート達成回数（週単位、終了済みの週のみ）
+    -- 週の区切りは各日に有効な week_starts_on で決める（変更前の週は変更前の区切りのまま）
+    SELECT min(s.target_date) INTO v_oldest
+    FROM submissions s
+    WHERE s.user_id = p_user_id
+      AND s.target_date IS NOT NULL
+      AND (v_cutoff IS NULL OR s.target_date >= v_cutoff)
+      AND (p_as_of IS NULL OR s.created_at <= p_as_of);
+
+    IF v_oldest IS NOT NULL THEN
+        FOR v_week_start, v_week_days IN
+            SELECT w.week_start, array_agg(w.d ORDER BY w.d)
+            FROM (
+                SELECT d::date AS d, gamification_week_start(p_user_id, d::date) AS week_start
+                FROM generate_series(v_oldest, v_today, interval '1 day') d
+            ) w
+            GROUP BY w.week_start
+            ORDER BY w.week_start
+        LOOP
+            CONTINUE WHEN v_week_start + 6 >= v_today;
+
+            v_achieved := 0;
+            v_processed := ARRAY[]::text[];
+
+            FOR v_day IN SELECT unnest(v_week_days) LOOP
+                CONTINUE WHEN gamification_is_rest_day(p_user_id, v_day, v_tz);
+
+                v_day_settings := gamification_settings_for_date(p_user_id, v_day);
+                v_dow := extract(dow FROM v_day)::int;
+                v_is_group_day := false;
+
+                FOR v_group IN
+                    SELECT * FROM gamification_group_configs(p_user_id, v_day, v_tz) g
+                    WHERE v_dow = ANY(g.days_of_week)
+                LOOP
+                    v_is_group_day := true;
+                    EXIT WHEN v_group.group_id::text = ANY(v_processed);
+                    v_processed := array_append(v_processed, v_group.group_id::text);
+
+                    -- グループに属する全曜日について、この週の対応日付を判定
+                    v_group_achieved := 0;
+                    FOR v_group_dow IN SELECT unnest(v_group.days_of_week) LOOP
+                        v_group_date := v_week_start + ((v_group_dow - extract(dow FROM v_week_start)::int + 7) % 7);
+                        -- 週の開始曜日の変更をまたぐ週では、別の週に属する日は数えない
+                        CONTINUE WHEN gamification_week_start(p_user_id, v_group_date) <> v_week_start;
+                        CONTINUE WHEN v_group_date < v_group.effective_from;
+                        CONTINUE WHEN v_group.effective_to IS NOT NULL AND v_group_date >= v_group.effective_to;
+
+                        v_group_settings := gamification_settings_for_date(p_user_id, v_group_date);
+                        IF gamification_is_effective_day(p_user_id, v_group_date, v_cutoff,
+                            v_group_settings.allow_revival, v_group_settings.allow_shield, v_group_settings.allow_late,
+                            p_as_of) THEN
+                            v_group_achieved := v_group_achieved + 1;
+                        END IF;
+                    END LOOP;
+
+                    v_achieved := v_achieved + least(v_group_achieved, v_group.required_count);
+                    EXIT;
+                END LOOP;
+
+                CONTINUE WHEN v_is_group_day;
+
+                IF gamification_is_effective_day(p_user_id, v_day, v_cutoff,
+                    v_day_settings.allow_revival, v_day_settings.allow_shield, v_day_settings.allow_late,
+                    p_as_of) THEN
+                    v_achieved := v_achieved + 1;
+                END IF;
+            END LOOP;
+
+            -- 目標日数は週開始日の設定で決定
+            v_week_settings := gamification_settings_for_date(p_user_id, v_week_start);
+            IF v_week_settings.use_target_days THEN
+                v_target := gamification_target_days(p_user_id, v_week_start, v_tz);
+            ELSE
+                v_target := v_week_settings.custom_required_days;
+            END IF;
+
+            IF v_achieved >= v_target THEN
+                v_perfect := v_perfect + 1;
+            END IF;
+        END LOOP;
+    END IF;
+
+    -- シールド残数 = ストレート達成からの獲得数 - 使用済みシールド数
+    -- 現在時点は有効中のバージョン、指定時点はその日に有効だったバージョンの獲得条件を使う
+    IF p_as_of IS NULL THEN
+        SELECT * INTO v_active FROM gamification_setting_versions v
+        WHERE v.user_id = p_user_id AND v.effective_to IS NULL;
+    ELSE
+        v_active := gamification_settings_for_date(p_user_id, v_today);
+    END IF;
+
+    IF coalesce(v_active.condition_type, 'straight_count') = 'straight_count' THEN
+        v_earned := v_perfect / greatest(coalesce(v_active.straight_count, 1), 1);
+    END IF;
+
+    SELECT count(*)::int INTO v_used_shields
+    FROM submissions s
+    WHERE s.user_id = p_user_id
+      AND s.type = 'shield'
+      AND s.status = 'success'
+      AND (v_cutoff IS NULL OR s.target_date >= v_cutoff)
+      AND (p_as_of IS NULL OR s.created_at <= p_as_of);
+
+    total_reps := v_total_reps;
+    perfect_week_count := v_perfect;
+    revival_success_count := v_revival;
+    shield_stock := CASE WHEN v_shield_enabled THEN greatest(0, v_earned - v_used_shields) ELSE 0 END;
+
+    RETURN NEXT;
+END;
+$$;
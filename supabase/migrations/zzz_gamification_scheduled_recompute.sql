@@ -0,0 +1,50 @@
+-- =============================================================
+-- zzz_gamification_scheduled_recompute.sql
+-- 集計値（shield_ledger・profiles）の定期的な再計算
+-- 画面の表示は書き込みのない compute_gamification_stats で読み、recompute_gamification_stats は
+-- 提出・承認・削除などの書き込み時にだけ呼ぶ。提出がないまま週が締まった場合（シールドの獲得など）の
+-- 台帳・profiles の更新はここで行う。
+-- 毎時実行し、クライアントのタイムゾーンで日付が変わった直後（0時台）のユーザーだけを再計算する。
+--
+-- 1. recompute_gamification_stats_at_day_start
+-- 2. pg_cron で毎時実行
+-- =============================================================
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+-- Step 1: 0時台のクライアントを再計算（1人の失敗で他のユーザーを止めない）
+CREATE OR REPLACE FUNCTION recompute_gamification_stats_at_day_start()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id uuid;
+    v_count integer := 0;
+BEGIN
+    FOR v_user_id IN
+        SELECT p.id FROM profiles p
+        WHERE p.role = 'client'
+          AND extract(hour FROM now() AT TIME ZONE gamification_user_timezone(p.id)) = 0
+    LOOP
+        BEGIN
+            PERFORM recompute_gamification_stats(v_user_id);
+            v_count := v_count + 1;
+        EXCEPTION WHEN OTHERS THEN
+            RAISE WARNING 'recompute_gamification_stats failed for %: %', v_user_id, SQLERRM;
+        END;
+    END LOOP;
+    RETURN v_count;
+END;
+$$;
+
+-- ブラウザからは呼ばせない（cron のみ）
+REVOKE EXECUTE ON FUNCTION recompute_gamification_stats_at_day_start() FROM PUBLIC, anon, authenticated;
+
+-- Step 2: 毎時実行（同名のジョブは置き換わる）
+SELECT cron.schedule(
+    'recompute-gamification-stats',
+    '5 * * * *',
+    'SELECT recompute_gamification_stats_at_day_start()'
+);
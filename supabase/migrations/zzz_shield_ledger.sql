@@ -0,0 +1,414 @@
+-- =============================================================
+-- zzz_shield_ledger.sql
+-- シールド残数の台帳（shield_ledger）
+-- シールドの獲得・使用をすべて記録し、残数は台帳の合計から算出する。
+-- （従来は「ストレート達成からの獲得数 - 使用済みシールド数」を毎回算出していたため、
+--   いつ獲得・使用したかを後から確認できなかった）
+--
+-- 台帳は recompute_gamification_stats の中で現在の集計結果と突き合わせて追記する（追記のみ、更新・削除しない）:
+--   - grant:   ストレート達成による獲得（獲得の元になった週と、その時点の有効な設定バージョンを記録）
+--   - revoke:  承認取り消し・設定変更などで獲得条件を満たさなくなった grant の取り消し
+--   - consume: シールド適用（type='shield' の投稿）による使用
+--   - refund:  シールド解除による consume の取り消し
+-- apply_shield / remove_shield は従来どおり submissions を更新して再計算するため、変更は不要。
+-- （compute_gamification_stats を置き換えるため zz_week_starts_on.sql の後に適用する）
+--
+-- 1. shield_ledger テーブル + RLS
+-- 2. gamification_perfect_weeks（ストレート達成した週の一覧）
+-- 3. reconcile_shield_ledger（集計結果との突き合わせ）
+-- 4. compute_gamification_stats の shield_stock を台帳から算出
+-- 5. recompute_gamification_stats で台帳を突き合わせてから集計
+-- 6. 既存データのバックフィル
+-- =============================================================
+
+-- Step 1: テーブル作成
+CREATE TABLE IF NOT EXISTS shield_ledger (
+    id              bigint generated by default as identity primary key,
+    user_id         uuid references profiles(id) on delete cascade not null,
+    entry_type      text check (entry_type in ('grant', 'revoke', 'consume', 'refund')) not null,
+    delta           integer check (delta in (1, -1)) not null,
+    -- grant / revoke: 獲得の元になったストレート達成の週（straight）または月（month）の開始日
+    period_type     text check (period_type in ('straight', 'month')),
+    period_start    date,
+    -- grant: 獲得時に有効だった設定バージョン
+    version_id      bigint references gamification_setting_versions(id) on delete set null,
+    -- consume / refund: シールドを適用・解除した日
+    target_date     date,
+    -- revoke / refund: 取り消した grant / consume
+    reverses_id     bigint references shield_ledger(id) on delete cascade,
+    created_at      timestamp with time zone default now() not null
+);
+
+CREATE INDEX IF NOT EXISTS idx_shield_ledger_user_created
+    ON shield_ledger (user_id, created_at);
+
+-- 1つの grant / consume を取り消せるのは1回のみ
+CREATE UNIQUE INDEX IF NOT EXISTS idx_shield_ledger_reverses
+    ON shield_ledger (reverses_id)
+    WHERE reverses_id IS NOT NULL;
+
+-- Step 1b: RLS（閲覧のみ。書き込みは SECURITY DEFINER の関数から行う）
+ALTER TABLE shield_ledger ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own shield ledger." ON shield_ledger
+    FOR SELECT USING (
+        auth.uid() = user_id
+        OR EXISTS (
+            SELECT 1 FROM profiles
+            WHERE profiles.id = auth.uid()
+            AND profiles.role = 'admin'
+        )
+    );
+
+-- Step 2: ストレート達成した週の開始日一覧（compute_gamification_stats から抽出）
+CREATE OR REPLACE FUNCTION gamification_perfect_weeks(
+    p_user_id uuid,
+    p_as_of timestamptz DEFAULT NULL
+)
+RETURNS TABLE (perfect_week_start date)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+    v_tz CONSTANT text := gamification_user_timezone(p_user_id);
+    v_today date := (coalesce(p_as_of, now()) AT TIME ZONE v_tz)::date;
+    v_settings jsonb;
+    v_cutoff date;
+    v_oldest date;
+    v_week_start date;
+    v_week_days date[];
+    v_day date;
+    v_day_settings gamification_setting_versions%ROWTYPE;
+    v_group_settings gamification_setting_versions%ROWTYPE;
+    v_week_settings gamification_setting_versions%ROWTYPE;
+    v_group record;
+    v_dow int;
+    v_group_dow int;
+    v_group_date date;
+    v_group_achieved int;
+    v_achieved int;
+    v_target int;
+    v_is_group_day boolean;
+    v_processed text[];
+BEGIN
+    SELECT gamification_settings INTO v_settings FROM profiles WHERE id = p_user_id;
+    v_cutoff := nullif(v_settings->>'effective_from', '')::date;
+
+    -- 週単位、終了済みの週のみ（週の区切りは各日に有効な week_starts_on）
+    SELECT min(s.target_date) INTO v_oldest
+    FROM submissions s
+    WHERE s.user_id = p_user_id
+      AND s.target_date IS NOT NULL
+      AND (v_cutoff IS NULL OR s.target_date >= v_cutoff)
+      AND (p_as_of IS NULL OR s.created_at <= p_as_of);
+
+    IF v_oldest IS NOT NULL THEN
+        FOR v_week_start, v_week_days IN
+            SELECT w.week_start, array_agg(w.d ORDER BY w.d)
+            FROM (
+                SELECT d::date AS d, gamification_week_start(p_user_id, d::date) AS week_start
+                FROM generate_series(v_oldest, v_today, interval '1 day') d
+            ) w
+            GROUP BY w.week_start
+            ORDER BY w.week_start
+        LOOP
+            CONTINUE WHEN v_week_start + 6 >= v_today;
+
+            v_achieved := 0;
+            v_processed := ARRAY[]::text[];
+
+            FOR v_day IN SELECT unnest(v_week_days) LOOP
+                CONTINUE WHEN gamification_is_rest_day(p_user_id, v_day, v_tz);
+
+                v_day_settings := gamification_settings_for_date(p_user_id, v_day);
+                v_dow := extract(dow FROM v_day)::int;
+                v_is_group_day := false;
+
+                FOR v_group IN
+                    SELECT * FROM gamification_group_configs(p_user_id, v_day, v_tz) g
+                    WHERE v_dow = ANY(g.days_of_week)
+                LOOP
+                    v_is_group_day := true;
+                    EXIT WHEN v_group.group_id::text = ANY(v_processed);
+                    v_processed := array_append(v_processed, v_group.group_id::text);
+
+                    -- グループに属する全曜日について、この週の対応日付を判定
+                    v_group_achieved := 0;
+                    FOR v_group_dow IN SELECT unnest(v_group.days_of_week) LOOP
+                        v_group_date := v_week_start + ((v_group_dow - extract(dow FROM v_week_start)::int + 7) % 7);
+                        -- 週の開始曜日の変更をまたぐ週では、別の週に属する日は数えない
+                        CONTINUE WHEN gamification_week_start(p_user_id, v_group_date) <> v_week_start;
+                        CONTINUE WHEN v_group_date < v_group.effective_from;
+                        CONTINUE WHEN v_group.effective_to IS NOT NULL AND v_group_date >= v_group.effective_to;
+
+                        v_group_settings := gamification_settings_for_date(p_user_id, v_group_date);
+                        IF gamification_is_effective_day(p_user_id, v_group_date, v_cutoff,
+                            v_group_settings.allow_revival, v_group_settings.allow_shield, v_group_settings.allow_late,
+                            p_as_of) THEN
+                            v_group_achieved := v_group_achieved + 1;
+                        END IF;
+                    END LOOP;
+
+                    v_achieved := v_achieved + least(v_group_achieved, v_group.required_count);
+                    EXIT;
+                END LOOP;
+
+                CONTINUE WHEN v_is_group_day;
+
+                IF gamification_is_effective_day(p_user_id, v_day, v_cutoff,
+                    v_day_settings.allow_revival, v_day_settings.allow_shield, v_day_settings.allow_late,
+                    p_as_of) THEN
+                    v_achieved := v_achieved + 1;
+                END IF;
+            END LOOP;
+
+            -- 目標日数は週開始日の設定で決定
+            v_week_settings := gamification_settings_for_date(p_user_id, v_week_start);
+            IF v_week_settings.use_target_days THEN
+                v_target := gamification_target_days(p_user_id, v_week_start, v_tz);
+            ELSE
+                v_target := v_week_settings.custom_required_days;
+            END IF;
+
+            IF v_achieved >= v_target THEN
+                perfect_week_start := v_week_start;
+                RETURN NEXT;
+            END IF;
+        END LOOP;
+    END IF;
+
+END;
+$$;
+
+-- Step 3: 台帳を現在の集計結果と突き合わせて追記する
+-- p_backfill = true の場合は獲得・使用の時刻を推定して記録する（Step 6 の初回投入用）
+CREATE OR REPLACE FUNCTION reconcile_shield_ledger(
+    p_user_id uuid,
+    p_backfill boolean DEFAULT false
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_tz CONSTANT text := gamification_user_timezone(p_user_id);
+    v_settings jsonb;
+    v_cutoff date;
+    v_active gamification_setting_versions%ROWTYPE;
+    v_straight_count integer;
+    v_expected date[] := ARRAY[]::date[];
+BEGIN
+    -- 本人または管理者のみ（auth.uid() が NULL = 他の RPC / service role からの呼び出し）
+    IF auth.uid() IS NOT NULL AND auth.uid() <> p_user_id AND NOT EXISTS (
+        SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+    ) THEN
+        RAISE EXCEPTION 'Permission denied';
+    END IF;
+
+    SELECT gamification_settings INTO v_settings FROM profiles WHERE id = p_user_id;
+    v_cutoff := nullif(v_settings->>'effective_from', '')::date;
+
+    SELECT * INTO v_active FROM gamification_setting_versions v
+    WHERE v.user_id = p_user_id AND v.effective_to IS NULL;
+
+    -- 獲得: ストレート達成 straight_count 回ごとに1つ（達成した週を獲得元として記録）
+    -- monthly_all は集計側で未対応のため獲得なし
+    v_straight_count := CASE
+        WHEN coalesce(v_active.condition_type, 'straight_count') = 'straight_count'
+        THEN greatest(coalesce(v_active.straight_count, 1), 1)
+    END;
+
+    IF v_straight_count IS NOT NULL THEN
+        SELECT coalesce(array_agg(t.perfect_week_start), ARRAY[]::date[]) INTO v_expected
+        FROM (
+            SELECT w.perfect_week_start, row_number() OVER (ORDER BY w.perfect_week_start) AS rn
+            FROM gamification_perfect_weeks(p_user_id) w
+        ) t
+        WHERE t.rn % v_straight_count = 0;
+    END IF;
+
+    -- 獲得条件を満たさなくなった grant を取り消す
+    INSERT INTO shield_ledger (user_id, entry_type, delta, period_type, period_start, reverses_id)
+    SELECT g.user_id, 'revoke', -1, g.period_type, g.period_start, g.id
+    FROM shield_ledger g
+    WHERE g.user_id = p_user_id
+      AND g.entry_type = 'grant'
+      AND NOT EXISTS (SELECT 1 FROM shield_ledger r WHERE r.reverses_id = g.id)
+      AND NOT (g.period_start = ANY(v_expected));
+
+    -- 新たに獲得条件を満たした週の grant を追加
+    INSERT INTO shield_ledger (user_id, entry_type, delta, period_type, period_start, version_id, created_at)
+    SELECT
+        p_user_id, 'grant', 1, 'straight', e.period_start, v_active.id,
+        CASE WHEN p_backfill
+            -- 週が終わった翌日の 0 時（ユーザーのタイムゾーン）
+            THEN ((e.period_start + 7)::timestamp AT TIME ZONE v_tz)
+            ELSE now()
+        END
+    FROM unnest(v_expected) AS e(period_start)
+    WHERE NOT EXISTS (
+        SELECT 1 FROM shield_ledger g
+        WHERE g.user_id = p_user_id
+          AND g.entry_type = 'grant'
+          AND g.period_start = e.period_start
+          AND NOT EXISTS (SELECT 1 FROM shield_ledger r WHERE r.reverses_id = g.id)
+    );
+
+    -- 解除されたシールドの consume を取り消す
+    INSERT INTO shield_ledger (user_id, entry_type, delta, target_date, reverses_id)
+    SELECT c.user_id, 'refund', 1, c.target_date, c.id
+    FROM shield_ledger c
+    WHERE c.user_id = p_user_id
+      AND c.entry_type = 'consume'
+      AND NOT EXISTS (SELECT 1 FROM shield_ledger r WHERE r.reverses_id = c.id)
+      AND NOT EXISTS (
+          SELECT 1 FROM submissions s
+          WHERE s.user_id = p_user_id
+            AND s.type = 'shield'
+            AND s.status = 'success'
+            AND s.target_date = c.target_date
+            AND (v_cutoff IS NULL OR s.target_date >= v_cutoff)
+      );
+
+    -- 適用されたシールドの consume を追加
+    INSERT INTO shield_ledger (user_id, entry_type, delta, target_date, created_at)
+    SELECT p_user_id, 'consume', -1, s.target_date,
+        CASE WHEN p_backfill THEN s.created_at ELSE now() END
+    FROM submissions s
+    WHERE s.user_id = p_user_id
+      AND s.type = 'shield'
+      AND s.status = 'success'
+      AND (v_cutoff IS NULL OR s.target_date >= v_cutoff)
+      AND NOT EXISTS (
+          SELECT 1 FROM shield_ledger c
+          WHERE c.user_id = p_user_id
+            AND c.entry_type = 'consume'
+            AND c.target_date = s.target_date
+            AND NOT EXISTS (SELECT 1 FROM shield_ledger r WHERE r.reverses_id = c.id)
+      );
+END;
+$$;
+
+-- Step 4: 集計（ストレート達成回数は gamification_perfect_weeks、シールド残数は台帳の合計）
+CREATE OR REPLACE FUNCTION compute_gamification_stats(
+    p_user_id uuid,
+    p_as_of timestamptz DEFAULT NULL
+)
+RETURNS TABLE (
+    total_reps integer,
+    perfect_week_count integer,
+    revival_success_count integer,
+    shield_stock integer
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+    v_settings jsonb;
+    v_cutoff date;
+    v_shield_enabled boolean;
+    v_total_reps integer;
+    v_revival integer;
+    v_perfect integer;
+    v_ledger_stock integer;
+BEGIN
+    -- 本人または管理者のみ（auth.uid() が NULL = 他の RPC / service role からの呼び出し）
+    IF auth.uid() IS NOT NULL AND auth.uid() <> p_user_id AND NOT EXISTS (
+        SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+    ) THEN
+        RAISE EXCEPTION 'Permission denied';
+    END IF;
+
+    SELECT gamification_settings INTO v_settings FROM profiles WHERE id = p_user_id;
+    v_cutoff := nullif(v_settings->>'effective_from', '')::date;
+    v_shield_enabled := coalesce((v_settings->'shield'->>'enabled')::boolean, true);
+
+    -- 累積回数・リバイバル回数（shield 除外、適用開始日以降、指定時点までに承認済み）
+    SELECT
+        coalesce(sum(s.reps), 0)::int,
+        count(*) FILTER (WHERE s.is_revival)::int
+    INTO v_total_reps, v_revival
+    FROM submissions s
+    WHERE s.user_id = p_user_id
+      AND s.type <> 'shield'
+      AND s.status = 'success'
+      AND (v_cutoff IS NULL OR s.target_date >= v_cutoff)
+      AND (p_as_of IS NULL OR coalesce(s.reviewed_at, s.created_at) <= p_as_of);
+
+    -- ストレート達成回数
+    SELECT count(*)::int INTO v_perfect
+    FROM gamification_perfect_weeks(p_user_id, p_as_of);
+
+    -- シールド残数 = 指定時点までの台帳の合計
+    SELECT coalesce(sum(l.delta), 0)::int INTO v_ledger_stock
+    FROM shield_ledger l
+    WHERE l.user_id = p_user_id
+      AND (p_as_of IS NULL OR l.created_at <= p_as_of);
+
+    total_reps := v_total_reps;
+    perfect_week_count := v_perfect;
+    revival_success_count := v_revival;
+    shield_stock := CASE WHEN v_shield_enabled THEN greatest(0, v_ledger_stock) ELSE 0 END;
+
+    RETURN NEXT;
+END;
+$$;
+
+-- Step 5: 再計算 RPC（台帳を突き合わせてから集計し、値が変わった場合のみ profiles を更新）
+CREATE OR REPLACE FUNCTION recompute_gamification_stats(p_user_id uuid)
+RETURNS TABLE (
+    total_reps integer,
+    perfect_week_count integer,
+    revival_success_count integer,
+    shield_stock integer
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+BEGIN
+    -- 同一ユーザーの再計算を直列化
+    PERFORM pg_advisory_xact_lock(hashtext('gamification:' || p_user_id::text));
+
+    PERFORM reconcile_shield_ledger(p_user_id);
+
+    SELECT c.total_reps, c.perfect_week_count, c.revival_success_count, c.shield_stock
+    INTO total_reps, perfect_week_count, revival_success_count, shield_stock
+    FROM compute_gamification_stats(p_user_id) c;
+
+    UPDATE profiles p
+    SET total_reps = recompute_gamification_stats.total_reps,
+        perfect_week_count = recompute_gamification_stats.perfect_week_count,
+        revival_success_count = recompute_gamification_stats.revival_success_count,
+        shield_stock = recompute_gamification_stats.shield_stock
+    WHERE p.id = p_user_id
+      AND (p.total_reps, p.perfect_week_count, p.revival_success_count, p.shield_stock)
+          IS DISTINCT FROM (
+              recompute_gamification_stats.total_reps,
+              recompute_gamification_stats.perfect_week_count,
+              recompute_gamification_stats.revival_success_count,
+              recompute_gamification_stats.shield_stock
+          );
+
+    RETURN NEXT;
+END;
+$$;
+
+-- Step 6: 既存データのバックフィル（冪等: 2回目以降は差分のみ追記される）
+DO $$
+DECLARE
+    v_user record;
+BEGIN
+    FOR v_user IN SELECT id FROM profiles LOOP
+        PERFORM reconcile_shield_ledger(v_user.id, true);
+        PERFORM recompute_gamification_stats(v_user.id);
+    END LOOP;
+END;
+$$;
@@ -0,0 +1,339 @@
+-- =============================================================
+-- zzz_shield_max_stock.sql
+-- シールドの所持上限（gamification_setting_versions.shield_max_stock）
+-- 従来は所持上限（3）が固定だったうえ、サーバー側の集計では上限を判定していなかった。
+-- 獲得間隔（straight_count）と同じくバージョン管理設定に持たせ、台帳の突き合わせで獲得時に判定する。
+--   - 獲得間隔・上限はストレート達成した週に有効な設定で判定する
+--   - 獲得済み（grant）・見送り済み（forfeit）の週は数え直さない（設定を変更しても獲得済みのシールドは変わらない）
+--   - 上限に達している間の獲得は forfeit（delta=0）として記録し、後から残数が減っても遡って付与しない
+-- apply_shield は recompute_gamification_stats（台帳の突き合わせ）後の残数で判定するため、変更は不要。
+-- （reconcile_shield_ledger を置き換えるため zzz_shield_ledger.sql の後に適用する）
+--
+-- 1. gamification_setting_versions.shield_max_stock カラム追加
+-- 2. shield_ledger に forfeit を追加
+-- 3. save_gamification_version に p_shield_max_stock を追加
+-- 4. on_profile_insert() で preconfig の shield_max_stock を適用
+-- 5. reconcile_shield_ledger を週ごとの設定で判定
+-- =============================================================
+
+-- Step 1: カラム追加（既存バージョンは従来どおり上限3）
+ALTER TABLE gamification_setting_versions
+    ADD COLUMN IF NOT EXISTS shield_max_stock integer NOT NULL DEFAULT 3
+    CHECK (shield_max_stock BETWEEN 1 AND 99);
+
+-- Step 2: 上限による獲得見送り（forfeit）を台帳に記録できるようにする
+ALTER TABLE shield_ledger DROP CONSTRAINT IF EXISTS shield_ledger_entry_type_check;
+ALTER TABLE shield_ledger ADD CONSTRAINT shield_ledger_entry_type_check
+    CHECK (entry_type IN ('grant', 'revoke', 'consume', 'refund', 'forfeit'));
+
+ALTER TABLE shield_ledger DROP CONSTRAINT IF EXISTS shield_ledger_delta_check;
+ALTER TABLE shield_ledger ADD CONSTRAINT shield_ledger_delta_check
+    CHECK (delta IN (1, -1) OR (entry_type = 'forfeit' AND delta = 0));
+
+-- Step 3: save_gamification_version に所持上限を追加
+DROP FUNCTION IF EXISTS save_gamification_version(uuid, text, integer, boolean, boolean, boolean, boolean, integer, integer);
+
+CREATE OR REPLACE FUNCTION save_gamification_version(
+    p_user_id uuid,
+    p_condition_type text DEFAULT 'straight_count',
+    p_straight_count integer DEFAULT 1,
+    p_allow_shield boolean DEFAULT false,
+    p_allow_revival boolean DEFAULT false,
+    p_allow_late boolean DEFAULT true,
+    p_use_target_days boolean DEFAULT true,
+    p_custom_required_days integer DEFAULT 7,
+    p_week_starts_on integer DEFAULT 1,
+    p_shield_max_stock integer DEFAULT 3
+) RETURNS void LANGUAGE plpgsql SECURITY DEFINER AS $$
+BEGIN
+    -- allow_late=true なら allow_revival を強制 true に正規化
+    IF p_allow_late THEN
+        p_allow_revival := true;
+    END IF;
+
+    -- 現在の active バージョンを close
+    UPDATE gamification_setting_versions
+    SET effective_to = GREATEST(current_date, effective_from)
+    WHERE user_id = p_user_id AND effective_to IS NULL;
+
+    -- 新バージョンを insert
+    INSERT INTO gamification_setting_versions (
+        user_id, condition_type, straight_count,
+        allow_shield, allow_revival, allow_late,
+        use_target_days, custom_required_days, week_starts_on,
+        shield_max_stock,
+        effective_from, effective_to
+    ) VALUES (
+        p_user_id, p_condition_type, p_straight_count,
+        p_allow_shield, p_allow_revival, p_allow_late,
+        p_use_target_days, p_custom_required_days, p_week_starts_on,
+        p_shield_max_stock,
+        current_date, NULL
+    );
+END;
+$$;
+
+-- Step 4: 初回ログイン時の preconfig 適用に shield_max_stock を追加
+CREATE OR REPLACE FUNCTION on_profile_insert()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_email text;
+    v_preconfig jsonb;
+    v_rule jsonb;
+    v_item jsonb;
+    v_profile_settings jsonb;
+    v_gs jsonb;
+    v_vs jsonb;
+BEGIN
+    -- Step 1: auth.users からメールアドレスを取得
+    SELECT email INTO v_email
+    FROM auth.users
+    WHERE id = NEW.id;
+
+    IF v_email IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    -- Step 2: authorized_users.user_id をリンク（NULL の場合のみ）
+    UPDATE authorized_users
+    SET user_id = NEW.id
+    WHERE email = v_email
+      AND user_id IS NULL;
+
+    -- Step 3: preconfig 適用（エラー耐性あり）
+    SELECT preconfig INTO v_preconfig
+    FROM authorized_users
+    WHERE email = v_email;
+
+    IF v_preconfig IS NOT NULL THEN
+        BEGIN
+            -- profile_settings を profiles テーブルに適用
+            v_profile_settings := v_preconfig -> 'profile_settings';
+            IF v_profile_settings IS NOT NULL THEN
+                UPDATE profiles SET
+                    past_submission_days = COALESCE((v_profile_settings ->> 'past_submission_days')::integer, past_submission_days),
+                    future_submission_days = COALESCE((v_profile_settings ->> 'future_submission_days')::integer, future_submission_days),
+                    deadline_mode = COALESCE(v_profile_settings ->> 'deadline_mode', deadline_mode),
+                    show_duplicate_to_user = COALESCE((v_profile_settings ->> 'show_duplicate_to_user')::boolean, show_duplicate_to_user),
+                    video_retention_days = COALESCE((v_profile_settings ->> 'video_retention_days')::integer, video_retention_days),
+                    timezone = COALESCE(v_profile_settings ->> 'timezone', timezone),
+                    gamification_settings = CASE
+                        WHEN v_profile_settings -> 'gamification_settings' IS NOT NULL
+                             AND v_profile_settings ->> 'gamification_settings' != 'null'
+                        THEN v_profile_settings -> 'gamification_settings'
+                        ELSE gamification_settings
+                    END
+                WHERE id = NEW.id;
+            END IF;
+
+            -- gamification_setting_versions に初期行を INSERT
+            v_gs := v_profile_settings -> 'gamification_settings';
+            v_vs := v_gs -> 'versioned_settings';
+
+            INSERT INTO gamification_setting_versions (
+                user_id, condition_type, straight_count,
+                allow_shield, allow_revival, allow_late,
+                use_target_days, custom_required_days, week_starts_on,
+                shield_max_stock,
+                effective_from, effective_to
+            ) VALUES (
+                NEW.id,
+                COALESCE(v_vs ->> 'condition_type', 'straight_count'),
+                COALESCE((v_vs ->> 'straight_count')::integer, 1),
+                COALESCE((v_vs ->> 'allow_shield')::boolean, false),
+                COALESCE((v_vs ->> 'allow_revival')::boolean, false),
+                COALESCE((v_vs ->> 'allow_late')::boolean, true),
+                COALESCE((v_vs ->> 'use_target_days')::boolean, true),
+                COALESCE((v_vs ->> 'custom_required_days')::integer, 7),
+                COALESCE((v_vs ->> 'week_starts_on')::smallint, 1),
+                COALESCE((v_vs ->> 'shield_max_stock')::integer, 3),
+                '2020-01-01'::date,
+                NULL
+            );
+
+            -- rules 配列を submission_rules に INSERT
+            IF v_preconfig -> 'rules' IS NOT NULL AND jsonb_array_length(v_preconfig -> 'rules') > 0 THEN
+                FOR v_rule IN SELECT * FROM jsonb_array_elements(v_preconfig -> 'rules')
+                LOOP
+                    INSERT INTO submission_rules (
+                        user_id, rule_type, scope, day_of_week, specific_date,
+                        value, effective_from, group_id, group_required_count, effective_to
+                    ) VALUES (
+                        NEW.id,
+                        v_rule ->> 'rule_type',
+                        v_rule ->> 'scope',
+                        (v_rule ->> 'day_of_week')::smallint,
+                        (v_rule ->> 'specific_date')::date,
+                        v_rule ->> 'value',
+                        COALESCE((v_rule ->> 'effective_from')::timestamptz, now()),
+                        (v_rule ->> 'group_id')::uuid,
+                        (v_rule ->> 'group_required_count')::integer,
+                        (v_rule ->> 'effective_to')::timestamptz
+                    );
+                END LOOP;
+            END IF;
+
+            -- items 配列を submission_items に INSERT
+            IF v_preconfig -> 'items' IS NOT NULL AND jsonb_array_length(v_preconfig -> 'items') > 0 THEN
+                FOR v_item IN SELECT * FROM jsonb_array_elements(v_preconfig -> 'items')
+                LOOP
+                    INSERT INTO submission_items (
+                        user_id, name, effective_from, effective_to
+                    ) VALUES (
+                        NEW.id,
+                        v_item ->> 'name',
+                        COALESCE((v_item ->> 'effective_from')::timestamptz, now()),
+                        (v_item ->> 'effective_to')::timestamptz
+                    );
+                END LOOP;
+            END IF;
+
+            -- 成功時のみ preconfig を NULL にクリア
+            UPDATE authorized_users SET preconfig = NULL WHERE email = v_email;
+
+        EXCEPTION WHEN OTHERS THEN
+            RAISE WARNING 'preconfig apply failed for %: %', v_email, SQLERRM;
+            -- preconfig は残す（管理者が確認・再設定可能）
+        END;
+    ELSE
+        -- preconfig なしの場合もデフォルト初期バージョンを作成
+        INSERT INTO gamification_setting_versions (
+            user_id, effective_from, effective_to
+        ) VALUES (
+            NEW.id, '2020-01-01'::date, NULL
+        ) ON CONFLICT DO NOTHING;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+-- Step 5: 台帳を現在の集計結果と突き合わせて追記する
+-- 獲得は週ごとの設定（straight_count / shield_max_stock）で判定し、判定済みの週は数え直さない
+CREATE OR REPLACE FUNCTION reconcile_shield_ledger(
+    p_user_id uuid,
+    p_backfill boolean DEFAULT false
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_tz CONSTANT text := gamification_user_timezone(p_user_id);
+    v_settings jsonb;
+    v_cutoff date;
+    v_perfect date[];
+    v_week date;
+    v_week_settings gamification_setting_versions%ROWTYPE;
+    v_count integer := 0;
+    v_balance integer;
+BEGIN
+    -- 本人または管理者のみ（auth.uid() が NULL = 他の RPC / service role からの呼び出し）
+    IF auth.uid() IS NOT NULL AND auth.uid() <> p_user_id AND NOT EXISTS (
+        SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+    ) THEN
+        RAISE EXCEPTION 'Permission denied';
+    END IF;
+
+    SELECT gamification_settings INTO v_settings FROM profiles WHERE id = p_user_id;
+    v_cutoff := nullif(v_settings->>'effective_from', '')::date;
+
+    SELECT coalesce(array_agg(w.perfect_week_start ORDER BY w.perfect_week_start), ARRAY[]::date[]) INTO v_perfect
+    FROM gamification_perfect_weeks(p_user_id) w;
+
+    -- ストレート達成でなくなった週の grant を取り消す（承認取り消しなど）
+    INSERT INTO shield_ledger (user_id, entry_type, delta, period_type, period_start, reverses_id)
+    SELECT g.user_id, 'revoke', -1, g.period_type, g.period_start, g.id
+    FROM shield_ledger g
+    WHERE g.user_id = p_user_id
+      AND g.entry_type = 'grant'
+      AND NOT EXISTS (SELECT 1 FROM shield_ledger r WHERE r.reverses_id = g.id)
+      AND NOT (g.period_start = ANY(v_perfect));
+
+    -- 解除されたシールドの consume を取り消す
+    INSERT INTO shield_ledger (user_id, entry_type, delta, target_date, reverses_id)
+    SELECT c.user_id, 'refund', 1, c.target_date, c.id
+    FROM shield_ledger c
+    WHERE c.user_id = p_user_id
+      AND c.entry_type = 'consume'
+      AND NOT EXISTS (SELECT 1 FROM shield_ledger r WHERE r.reverses_id = c.id)
+      AND NOT EXISTS (
+          SELECT 1 FROM submissions s
+          WHERE s.user_id = p_user_id
+            AND s.type = 'shield'
+            AND s.status = 'success'
+            AND s.target_date = c.target_date
+            AND (v_cutoff IS NULL OR s.target_date >= v_cutoff)
+      );
+
+    -- 適用されたシールドの consume を追加
+    INSERT INTO shield_ledger (user_id, entry_type, delta, target_date, created_at)
+    SELECT p_user_id, 'consume', -1, s.target_date,
+        CASE WHEN p_backfill THEN s.created_at ELSE now() END
+    FROM submissions s
+    WHERE s.user_id = p_user_id
+      AND s.type = 'shield'
+      AND s.status = 'success'
+      AND (v_cutoff IS NULL OR s.target_date >= v_cutoff)
+      AND NOT EXISTS (
+          SELECT 1 FROM shield_ledger c
+          WHERE c.user_id = p_user_id
+            AND c.entry_type = 'consume'
+            AND c.target_date = s.target_date
+            AND NOT EXISTS (SELECT 1 FROM shield_ledger r WHERE r.reverses_id = c.id)
+      );
+
+    -- 上限判定は使用・取り消しを反映した現在の残数で行う
+    SELECT coalesce(sum(l.delta), 0)::int INTO v_balance
+    FROM shield_ledger l
+    WHERE l.user_id = p_user_id;
+
+    -- 獲得: ストレート達成した週を古い順に数え、straight_count 回ごとに1つ（上限到達時は見送り）
+    -- （streakCalculator.ts の calculateShieldReward と同じ判定）
+    FOREACH v_week IN ARRAY v_perfect LOOP
+        -- 判定済みの週（有効な grant / forfeit あり）は数え直さず、そこから数え始める
+        IF EXISTS (
+            SELECT 1 FROM shield_ledger g
+            WHERE g.user_id = p_user_id
+              AND g.period_start = v_week
+              AND (
+                  g.entry_type = 'forfeit'
+                  OR (g.entry_type = 'grant'
+                      AND NOT EXISTS (SELECT 1 FROM shield_ledger r WHERE r.reverses_id = g.id))
+              )
+        ) THEN
+            v_count := 0;
+            CONTINUE;
+        END IF;
+
+        v_week_settings := gamification_settings_for_date(p_user_id, v_week);
+        -- monthly_all は集計側で未対応のため獲得なし
+        CONTINUE WHEN coalesce(v_week_settings.condition_type, 'straight_count') <> 'straight_count';
+
+        v_count := v_count + 1;
+        CONTINUE WHEN v_count < greatest(coalesce(v_week_settings.straight_count, 1), 1);
+        v_count := 0;
+
+        IF v_balance < coalesce(v_week_settings.shield_max_stock, 3) THEN
+            INSERT INTO shield_ledger (user_id, entry_type, delta, period_type, period_start, version_id, created_at)
+            VALUES (
+                p_user_id, 'grant', 1, 'straight', v_week, v_week_settings.id,
+                CASE WHEN p_backfill
+                    -- 週が終わった翌日の 0 時（ユーザーのタイムゾーン）
+                    THEN ((v_week + 7)::timestamp AT TIME ZONE v_tz)
+                    ELSE now()
+                END
+            );
+            v_balance := v_balance + 1;
+        ELSE
+            INSERT INTO shield_ledger (user_id, entry_type, delta, period_type, period_start, version_id)
+            VALUES (p_user_id, 'forfeit', 0, 'straight', v_week, v_week_settings.id);
+        END IF;
+    END LOOP;
+END;
+$$;
@@ -0,0 +1,270 @@
+-- =============================================================
+-- zzz_video_duplicate_policy.sql
+-- 同じ動画（video_hash 一致）の別日への提出の検出
+-- video_hash は保存していたが、同じ動画を別の日付・項目に提出しても何もチェックしていなかった。
+-- アップロード前に過去の提出とハッシュを突き合わせ、クライアントごとの設定で警告またはブロックする。
+--   - none: チェックしない / warn: 警告のみ（提出は可能） / block: 提出できない
+--   - 同じ日付・項目の差し替え（replace_submissions）は重複とみなさない
+--   - block はクライアントのチェックを通らない経路（古いアプリ等）も INSERT トリガーで止める
+-- （on_profile_insert を置き換えるため zzz_video_compression.sql の後に適用する）
+--
+-- 1. profiles.duplicate_video_policy カラム追加
+-- 2. submissions(user_id, video_hash) インデックス
+-- 3. check_duplicate_video RPC
+-- 4. block 設定の INSERT トリガー
+-- 5. on_profile_insert() で preconfig の duplicate_video_policy を適用
+-- =============================================================
+
+-- Step 1: カラム追加（既存ユーザーは警告のみ）
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS duplicate_video_policy text NOT NULL DEFAULT 'warn';
+
+ALTER TABLE profiles DROP CONSTRAINT IF EXISTS profiles_duplicate_video_policy_check;
+ALTER TABLE profiles ADD CONSTRAINT profiles_duplicate_video_policy_check
+    CHECK (duplicate_video_policy IN ('none', 'warn', 'block'));
+
+-- Step 2: ハッシュ検索用インデックス
+CREATE INDEX IF NOT EXISTS idx_submissions_user_video_hash
+    ON submissions (user_id, video_hash)
+    WHERE video_hash IS NOT NULL;
+
+-- Step 3: 同じ動画の過去の提出を探す（最も古い提出を返す。見つからなければ duplicate_* は NULL）
+-- policy は常に返す（クライアントは none ならチェック結果を表示しない）
+CREATE OR REPLACE FUNCTION check_duplicate_video(
+    p_user_id uuid,
+    p_video_hash text,
+    p_target_date date,
+    p_submission_item_id bigint DEFAULT NULL
+)
+RETURNS TABLE(
+    policy text,
+    duplicate_submission_id bigint,
+    duplicate_target_date date,
+    duplicate_file_name text
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_policy text;
+BEGIN
+    -- 本人または管理者のみ
+    IF auth.uid() IS NOT NULL AND auth.uid() <> p_user_id AND NOT EXISTS (
+        SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+    ) THEN
+        RAISE EXCEPTION 'Permission denied';
+    END IF;
+
+    SELECT p.duplicate_video_policy INTO v_policy FROM profiles p WHERE p.id = p_user_id;
+    v_policy := COALESCE(v_policy, 'warn');
+
+    IF v_policy = 'none' OR p_video_hash IS NULL THEN
+        RETURN QUERY SELECT v_policy, NULL::bigint, NULL::date, NULL::text;
+        RETURN;
+    END IF;
+
+    RETURN QUERY
+    SELECT v_policy, s.id, s.target_date, s.file_name
+    FROM (SELECT 1) AS one
+    LEFT JOIN LATERAL (
+        SELECT sub.id, sub.target_date, sub.file_name
+        FROM submissions sub
+        WHERE sub.user_id = p_user_id
+          AND sub.video_hash = p_video_hash
+          AND NOT (
+              sub.target_date = p_target_date
+              AND sub.submission_item_id IS NOT DISTINCT FROM p_submission_item_id
+          )
+        ORDER BY sub.created_at
+        LIMIT 1
+    ) s ON true;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION check_duplicate_video(uuid, text, date, bigint) TO authenticated;
+
+-- Step 4: block 設定のクライアントは同じ動画を別の日付・項目に INSERT できない
+-- replace_submissions は同じ日付・項目の既存行を削除してから INSERT するため、差し替えは止めない
+CREATE OR REPLACE FUNCTION reject_duplicate_video()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_duplicate_date date;
+BEGIN
+    IF NEW.video_hash IS NULL OR NOT EXISTS (
+        SELECT 1 FROM profiles WHERE id = NEW.user_id AND duplicate_video_policy = 'block'
+    ) THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT s.target_date INTO v_duplicate_date
+    FROM submissions s
+    WHERE s.user_id = NEW.user_id
+      AND s.video_hash = NEW.video_hash
+      AND NOT (
+          s.target_date = NEW.target_date
+          AND s.submission_item_id IS NOT DISTINCT FROM NEW.submission_item_id
+      )
+    ORDER BY s.created_at
+    LIMIT 1;
+
+    IF FOUND THEN
+        RAISE EXCEPTION 'DUPLICATE_VIDEO'
+            USING DETAIL = format('This video was already submitted for %s', v_duplicate_date);
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_reject_duplicate_video ON submissions;
+CREATE TRIGGER trg_reject_duplicate_video
+    BEFORE INSERT ON submissions
+    FOR EACH ROW EXECUTE FUNCTION reject_duplicate_video();
+
+-- Step 5: 初回ログイン時の preconfig 適用に duplicate_video_policy を追加
+CREATE OR REPLACE FUNCTION on_profile_insert()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_email text;
+    v_preconfig jsonb;
+    v_rule jsonb;
+    v_item jsonb;
+    v_profile_settings jsonb;
+    v_gs jsonb;
+    v_vs jsonb;
+BEGIN
+    -- Step 1: auth.users からメールアドレスを取得
+    SELECT email INTO v_email
+    FROM auth.users
+    WHERE id = NEW.id;
+
+    IF v_email IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    -- Step 2: authorized_users.user_id をリンク（NULL の場合のみ）
+    UPDATE authorized_users
+    SET user_id = NEW.id
+    WHERE email = v_email
+      AND user_id IS NULL;
+
+    -- Step 3: preconfig 適用（エラー耐性あり）
+    SELECT preconfig INTO v_preconfig
+    FROM authorized_users
+    WHERE email = v_email;
+
+    IF v_preconfig IS NOT NULL THEN
+        BEGIN
+            -- profile_settings を profiles テーブルに適用
+            v_profile_settings := v_preconfig -> 'profile_settings';
+            IF v_profile_settings IS NOT NULL THEN
+                UPDATE profiles SET
+                    past_submission_days = COALESCE((v_profile_settings ->> 'past_submission_days')::integer, past_submission_days),
+                    future_submission_days = COALESCE((v_profile_settings ->> 'future_submission_days')::integer, future_submission_days),
+                    deadline_mode = COALESCE(v_profile_settings ->> 'deadline_mode', deadline_mode),
+                    show_duplicate_to_user = COALESCE((v_profile_settings ->> 'show_duplicate_to_user')::boolean, show_duplicate_to_user),
+                    video_retention_days = COALESCE((v_profile_settings ->> 'video_retention_days')::integer, video_retention_days),
+                    timezone = COALESCE(v_profile_settings ->> 'timezone', timezone),
+                    video_compression_enabled = COALESCE((v_profile_settings ->> 'video_compression_enabled')::boolean, video_compression_enabled),
+                    video_compression_max_height = COALESCE((v_profile_settings ->> 'video_compression_max_height')::integer, video_compression_max_height),
+                    video_compression_bitrate_kbps = COALESCE((v_profile_settings ->> 'video_compression_bitrate_kbps')::integer, video_compression_bitrate_kbps),
+                    duplicate_video_policy = COALESCE(v_profile_settings ->> 'duplicate_video_policy', duplicate_video_policy),
+                    gamification_settings = CASE
+                        WHEN v_profile_settings -> 'gamification_settings' IS NOT NULL
+                             AND v_profile_settings ->> 'gamification_settings' != 'null'
+                        THEN v_profile_settings -> 'gamification_settings'
+                        ELSE gamification_settings
+                    END
+                WHERE id = NEW.id;
+            END IF;
+
+            -- gamification_setting_versions に初期行を INSERT
+            v_gs := v_profile_settings -> 'gamification_settings';
+            v_vs := v_gs -> 'versioned_settings';
+
+            INSERT INTO gamification_setting_versions (
+                user_id, condition_type, straight_count,
+                allow_shield, allow_revival, allow_late,
+                use_target_days, custom_required_days, week_starts_on,
+                shield_max_stock,
+                effective_from, effective_to
+            ) VALUES (
+                NEW.id,
+                COALESCE(v_vs ->> 'condition_type', 'straight_count'),
+                COALESCE((v_vs ->> 'straight_count')::integer, 1),
+                COALESCE((v_vs ->> 'allow_shield')::boolean, false),
+                COALESCE((v_vs ->> 'allow_revival')::boolean, false),
+                COALESCE((v_vs ->> 'allow_late')::boolean, true),
+                COALESCE((v_vs ->> 'use_target_days')::boolean, true),
+                COALESCE((v_vs ->> 'custom_required_days')::integer, 7),
+                COALESCE((v_vs ->> 'week_starts_on')::smallint, 1),
+                COALESCE((v_vs ->> 'shield_max_stock')::integer, 3),
+                '2020-01-01'::date,
+                NULL
+            );
+
+            -- rules 配列を submission_rules に INSERT
+            IF v_preconfig -> 'rules' IS NOT NULL AND jsonb_array_length(v_preconfig -> 'rules') > 0 THEN
+                FOR v_rule IN SELECT * FROM jsonb_array_elements(v_preconfig -> 'rules')
+                LOOP
+                    INSERT INTO submission_rules (
+                        user_id, rule_type, scope, day_of_week, specific_date,
+                        value, effective_from, group_id, group_required_count, effective_to
+                    ) VALUES (
+                        NEW.id,
+                        v_rule ->> 'rule_type',
+                        v_rule ->> 'scope',
+                        (v_rule ->> 'day_of_week')::smallint,
+                        (v_rule ->> 'specific_date')::date,
+                        v_rule ->> 'value',
+                        COALESCE((v_rule ->> 'effective_from')::timestamptz, now()),
+                        (v_rule ->> 'group_id')::uuid,
+                        (v_rule ->> 'group_required_count')::integer,
+                        (v_rule ->> 'effective_to')::timestamptz
+                    );
+                END LOOP;
+            END IF;
+
+            -- items 配列を submission_items に INSERT
+            IF v_preconfig -> 'items' IS NOT NULL AND jsonb_array_length(v_preconfig -> 'items') > 0 THEN
+                FOR v_item IN SELECT * FROM jsonb_array_elements(v_preconfig -> 'items')
+                LOOP
+                    INSERT INTO submission_items (
+                        user_id, name, effective_from, effective_to
+                    ) VALUES (
+                        NEW.id,
+                        v_item ->> 'name',
+                        COALESCE((v_item ->> 'effective_from')::timestamptz, now()),
+                        (v_item ->> 'effective_to')::timestamptz
+                    );
+                END LOOP;
+            END IF;
+
+            -- 成功時のみ preconfig を NULL にクリア
+            UPDATE authorized_users SET preconfig = NULL WHERE email = v_email;
+
+        EXCEPTION WHEN OTHERS THEN
+            RAISE WARNING 'preconfig apply failed for %: %', v_email, SQLERRM;
+            -- preconfig は残す（管理者が確認・再設定可能）
+        END;
+    ELSE
+        -- preconfig なしの場合もデフォルト初期バージョンを作成
+        INSERT INTO gamification_setting_versions (
+            user_id, effective_from, effective_to
+        ) VALUES (
+            NEW.id, '2020-01-01'::date, NULL
+        ) ON CONFLICT DO NOTHING;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
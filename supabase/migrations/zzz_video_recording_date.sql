@@ -0,0 +1,264 @@
+-- =============================================================
+-- zzz_video_recording_date.sql
+-- 撮影日と提出日の照合
+-- 提出日と異なる日に撮影した動画（過去の動画の使い回し等）をアップロード前に検出する。
+-- 撮影日時はクライアントが動画の作成日時（MP4/MOV の mvhd）から読み取り、読めなければファイルの更新日時を使う。
+-- クライアントごとの設定で警告またはブロックする。
+--   - none: チェックしない / warn: 警告のみ（提出は可能） / block: 提出できない
+--   - 撮影日時・不一致の判定結果は提出に保存し、トレーナーの確認画面で「X撮影」と表示する
+-- （on_profile_insert を置き換えるため zzz_video_duplicate_policy.sql の後に適用する）
+--
+-- 1. profiles.recording_date_policy カラム追加
+-- 2. submissions.video_created_at / recording_date_mismatch カラム追加
+-- 3. replace_submissions に撮影日時のパラメータを追加
+-- 4. block 設定の INSERT トリガー
+-- 5. on_profile_insert() で preconfig の recording_date_policy を適用
+-- =============================================================
+
+-- Step 1: カラム追加（既存ユーザーは警告のみ）
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS recording_date_policy text NOT NULL DEFAULT 'warn';
+
+ALTER TABLE profiles DROP CONSTRAINT IF EXISTS profiles_recording_date_policy_check;
+ALTER TABLE profiles ADD CONSTRAINT profiles_recording_date_policy_check
+    CHECK (recording_date_policy IN ('none', 'warn', 'block'));
+
+-- Step 2: 撮影日時（動画の作成日時。ファイルの更新日時は file_last_modified）と提出日との不一致
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS video_created_at timestamptz;
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS recording_date_mismatch boolean NOT NULL DEFAULT false;
+
+-- Step 3: replace_submissions（旧シグネチャを削除して再作成）
+DROP FUNCTION IF EXISTS public.replace_submissions(uuid, date, bigint, text, bigint, text, integer, text, text, boolean, timestamptz);
+
+CREATE OR REPLACE FUNCTION public.replace_submissions(
+  p_user_id uuid,
+  p_target_date date,
+  p_submission_item_id bigint,
+  p_bunny_video_id text,
+  p_video_size bigint,
+  p_video_hash text,
+  p_duration integer,
+  p_thumbnail_url text,
+  p_file_name text,
+  p_is_late boolean DEFAULT false,
+  p_file_last_modified timestamptz DEFAULT null,
+  p_video_created_at timestamptz DEFAULT null,
+  p_recording_date_mismatch boolean DEFAULT false
+)
+RETURNS TABLE(old_bunny_video_ids text[], new_id bigint)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_old_ids text[];
+  v_new_id bigint;
+BEGIN
+  -- 並行性制御: 同一キーに対する同時呼び出しを直列化する
+  PERFORM pg_advisory_xact_lock(
+    hashtext(p_user_id::text || p_target_date::text || COALESCE(p_submission_item_id::text, 'null'))
+  );
+
+  -- 同一条件の全既存行から bunny_video_id を収集（null を除外）
+  SELECT array_agg(s.bunny_video_id) FILTER (WHERE s.bunny_video_id IS NOT NULL)
+  INTO v_old_ids
+  FROM submissions s
+  WHERE s.user_id = p_user_id
+    AND s.target_date = p_target_date
+    AND s.submission_item_id IS NOT DISTINCT FROM p_submission_item_id;
+
+  -- 全既存行を削除
+  DELETE FROM submissions
+  WHERE user_id = p_user_id
+    AND target_date = p_target_date
+    AND submission_item_id IS NOT DISTINCT FROM p_submission_item_id;
+
+  -- 新行を挿入（BEFORE INSERT トリガーでストレージ制限チェックが発火）
+  INSERT INTO submissions (
+    user_id, type, target_date, submission_item_id,
+    bunny_video_id, video_size, video_hash, duration,
+    thumbnail_url, file_name, is_late, status, file_last_modified,
+    video_created_at, recording_date_mismatch
+  ) VALUES (
+    p_user_id, 'video', p_target_date, p_submission_item_id,
+    p_bunny_video_id, p_video_size, p_video_hash, p_duration,
+    p_thumbnail_url, p_file_name, p_is_late, null, p_file_last_modified,
+    p_video_created_at, p_recording_date_mismatch
+  )
+  RETURNING id INTO v_new_id;
+
+  RETURN QUERY SELECT COALESCE(v_old_ids, ARRAY[]::text[]), v_new_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.replace_submissions(
+  uuid, date, bigint, text, bigint, text, integer, text, text, boolean, timestamptz, timestamptz, boolean
+) TO authenticated;
+
+-- Step 4: block 設定のクライアントは撮影日が提出日と異なる動画を INSERT できない
+-- 判定はクライアントのタイムゾーンで行うため、クライアントが保存した recording_date_mismatch を使う
+CREATE OR REPLACE FUNCTION reject_recording_date_mismatch()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.recording_date_mismatch AND EXISTS (
+        SELECT 1 FROM profiles WHERE id = NEW.user_id AND recording_date_policy = 'block'
+    ) THEN
+        RAISE EXCEPTION 'RECORDING_DATE_MISMATCH'
+            USING DETAIL = format('This video was not recorded on %s', NEW.target_date);
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_reject_recording_date_mismatch ON submissions;
+CREATE TRIGGER trg_reject_recording_date_mismatch
+    BEFORE INSERT ON submissions
+    FOR EACH ROW EXECUTE FUNCTION reject_recording_date_mismatch();
+
+-- Step 5: 初回ログイン時の preconfig 適用に recording_date_policy を追加
+CREATE OR REPLACE FUNCTION on_profile_insert()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_email text;
+    v_preconfig jsonb;
+    v_rule jsonb;
+    v_item jsonb;
+    v_profile_settings jsonb;
+    v_gs jsonb;
+    v_vs jsonb;
+BEGIN
+    -- Step 1: auth.users からメールアドレスを取得
+    SELECT email INTO v_email
+    FROM auth.users
+    WHERE id = NEW.id;
+
+    IF v_email IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    -- Step 2: authorized_users.user_id をリンク（NULL の場合のみ）
+    UPDATE authorized_users
+    SET user_id = NEW.id
+    WHERE email = v_email
+      AND user_id IS NULL;
+
+    -- Step 3: preconfig 適用（エラー耐性あり）
+    SELECT preconfig INTO v_preconfig
+    FROM authorized_users
+    WHERE email = v_email;
+
+    IF v_preconfig IS NOT NULL THEN
+        BEGIN
+            -- profile_settings を profiles テーブルに適用
+            v_profile_settings := v_preconfig -> 'profile_settings';
+            IF v_profile_settings IS NOT NULL THEN
+                UPDATE profiles SET
+                    past_submission_days = COALESCE((v_profile_settings ->> 'past_submission_days')::integer, past_submission_days),
+                    future_submission_days = COALESCE((v_profile_settings ->> 'future_submission_days')::integer, future_submission_days),
+                    deadline_mode = COALESCE(v_profile_settings ->> 'deadline_mode', deadline_mode),
+                    show_duplicate_to_user = COALESCE((v_profile_settings ->> 'show_duplicate_to_user')::boolean, show_duplicate_to_user),
+                    video_retention_days = COALESCE((v_profile_settings ->> 'video_retention_days')::integer, video_retention_days),
+                    timezone = COALESCE(v_profile_settings ->> 'timezone', timezone),
+                    video_compression_enabled = COALESCE((v_profile_settings ->> 'video_compression_enabled')::boolean, video_compression_enabled),
+                    video_compression_max_height = COALESCE((v_profile_settings ->> 'video_compression_max_height')::integer, video_compression_max_height),
+                    video_compression_bitrate_kbps = COALESCE((v_profile_settings ->> 'video_compression_bitrate_kbps')::integer, video_compression_bitrate_kbps),
+                    duplicate_video_policy = COALESCE(v_profile_settings ->> 'duplicate_video_policy', duplicate_video_policy),
+                    recording_date_policy = COALESCE(v_profile_settings ->> 'recording_date_policy', recording_date_policy),
+                    gamification_settings = CASE
+                        WHEN v_profile_settings -> 'gamification_settings' IS NOT NULL
+                             AND v_profile_settings ->> 'gamification_settings' != 'null'
+                        THEN v_profile_settings -> 'gamification_settings'
+                        ELSE gamification_settings
+                    END
+                WHERE id = NEW.id;
+            END IF;
+
+            -- gamification_setting_versions に初期行を INSERT
+            v_gs := v_profile_settings -> 'gamification_settings';
+            v_vs := v_gs -> 'versioned_settings';
+
+            INSERT INTO gamification_setting_versions (
+                user_id, condition_type, straight_count,
+                allow_shield, allow_revival, allow_late,
+                use_target_days, custom_required_days, week_starts_on,
+                shield_max_stock,
+                effective_from, effective_to
+            ) VALUES (
+                NEW.id,
+                COALESCE(v_vs ->> 'condition_type', 'straight_count'),
+                COALESCE((v_vs ->> 'straight_count')::integer, 1),
+                COALESCE((v_vs ->> 'allow_shield')::boolean, false),
+                COALESCE((v_vs ->> 'allow_revival')::boolean, false),
+                COALESCE((v_vs ->> 'allow_late')::boolean, true),
+                COALESCE((v_vs ->> 'use_target_days')::boolean, true),
+                COALESCE((v_vs ->> 'custom_required_days')::integer, 7),
+                COALESCE((v_vs ->> 'week_starts_on')::smallint, 1),
+                COALESCE((v_vs ->> 'shield_max_stock')::integer, 3),
+                '2020-01-01'::date,
+                NULL
+            );
+
+            -- rules 配列を submission_rules に INSERT
+            IF v_preconfig -> 'rules' IS NOT NULL AND jsonb_array_length(v_preconfig -> 'rules') > 0 THEN
+                FOR v_rule IN SELECT * FROM jsonb_array_elements(v_preconfig -> 'rules')
+                LOOP
+                    INSERT INTO submission_rules (
+                        user_id, rule_type, scope, day_of_week, specific_date,
+                        value, effective_from, group_id, group_required_count, effective_to
+                    ) VALUES (
+                        NEW.id,
+                        v_rule ->> 'rule_type',
+                        v_rule ->> 'scope',
+                        (v_rule ->> 'day_of_week')::smallint,
+                        (v_rule ->> 'specific_date')::date,
+                        v_rule ->> 'value',
+                        COALESCE((v_rule ->> 'effective_from')::timestamptz, now()),
+                        (v_rule ->> 'group_id')::uuid,
+                        (v_rule ->> 'group_required_count')::integer,
+                        (v_rule ->> 'effective_to')::timestamptz
+                    );
+                END LOOP;
+            END IF;
+
+            -- items 配列を submission_items に INSERT
+            IF v_preconfig -> 'items' IS NOT NULL AND jsonb_array_length(v_preconfig -> 'items') > 0 THEN
+                FOR v_item IN SELECT * FROM jsonb_array_elements(v_preconfig -> 'items')
+                LOOP
+                    INSERT INTO submission_items (
+                        user_id, name, effective_from, effective_to
+                    ) VALUES (
+                        NEW.id,
+                        v_item ->> 'name',
+                        COALESCE((v_item ->> 'effective_from')::timestamptz, now()),
+                        (v_item ->> 'effective_to')::timestamptz
+                    );
+                END LOOP;
+            END IF;
+
+            -- 成功時のみ preconfig を NULL にクリア
+            UPDATE authorized_users SET preconfig = NULL WHERE email = v_email;
+
+        EXCEPTION WHEN OTHERS THEN
+            RAISE WARNING 'preconfig apply failed for %: %', v_email, SQLERRM;
+            -- preconfig は残す（管理者が確認・再設定可能）
+        END;
+    ELSE
+        -- preconfig なしの場合もデフォルト初期バージョンを作成
+        INSERT INTO gamification_setting_versions (
+            user_id, effective_from, effective_to
+        ) VALUES (
+            NEW.id, '2020-01-01'::date, NULL
+        ) ON CONFLICT DO NOTHING;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
@@ -0,0 +1,63 @@
+-- =============================================================
+-- zzz_video_recording_date_server_check.sql
+-- 撮影日の不一致をサーバーで判定する
+-- zzz_video_recording_date.sql のトリガーはクライアントが送る recording_date_mismatch を信用していたため、
+-- 古いクライアントや submissions への直接の INSERT（既定値 false）では block 設定が効かなかった。
+-- 保存する撮影日時（video_created_at、なければ file_last_modified）から判定し直し、
+-- recording_date_mismatch も判定結果で上書きする（トレーナーの「X撮影」表示も同じ値を使う）。
+-- 判定は src/utils/recordingDate.ts（getRecordedAt / isRecordingDateMismatch）と同じ。
+--
+-- 1. recording_date_mismatch_for 関数
+-- 2. reject_recording_date_mismatch() の置き換え
+-- =============================================================
+
+-- Step 1: 撮影日（クライアントのタイムゾーン）が提出日と異なるか
+-- 作成日時が未設定の機材の値（2000 年より前）と、端末の時計のずれを超える未来の値は採用しない
+CREATE OR REPLACE FUNCTION recording_date_mismatch_for(
+    p_user_id uuid,
+    p_target_date date,
+    p_video_created_at timestamptz,
+    p_file_last_modified timestamptz
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    SELECT coalesce((
+        SELECT (t.recorded_at AT TIME ZONE gamification_user_timezone(p_user_id))::date <> p_target_date
+        FROM (VALUES (1, p_video_created_at), (2, p_file_last_modified)) AS t(priority, recorded_at)
+        WHERE t.recorded_at IS NOT NULL
+          AND t.recorded_at >= '2000-01-01T00:00:00Z'::timestamptz
+          AND t.recorded_at <= now() + interval '1 day'
+        ORDER BY t.priority
+        LIMIT 1
+    ), false)
+$$;
+
+-- Step 2: block 設定のクライアントは撮影日が提出日と異なる動画を INSERT できない
+CREATE OR REPLACE FUNCTION reject_recording_date_mismatch()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.target_date IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    NEW.recording_date_mismatch := recording_date_mismatch_for(
+        NEW.user_id, NEW.target_date, NEW.video_created_at, NEW.file_last_modified
+    );
+
+    IF NEW.recording_date_mismatch AND EXISTS (
+        SELECT 1 FROM profiles WHERE id = NEW.user_id AND recording_date_policy = 'block'
+    ) THEN
+        RAISE EXCEPTION 'RECORDING_DATE_MISMATCH'
+            USING DETAIL = format('This video was not recorded on %s', NEW.target_date);
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
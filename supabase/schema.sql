@@ -21,6 +21,12 @@ create table profiles (
   revival_success_count integer default 0,
   gamification_settings jsonb,
   video_retention_days integer default 30,
+  timezone text not null default 'Asia/Tokyo', -- 期限・当日判定のタイムゾーン（IANA 名）
+  video_compression_enabled boolean not null default false, -- アップロード前に動画を圧縮するか
+  video_compression_max_height integer not null default 720 check (video_compression_max_height between 240 and 2160),
+  video_compression_bitrate_kbps integer not null default 2500 check (video_compression_bitrate_kbps between 250 and 20000),
+  duplicate_video_policy text not null default 'warn' check (duplicate_video_policy in ('none', 'warn', 'block')), -- 同じ動画の別日への提出
+  recording_date_policy text not null default 'warn' check (recording_date_policy in ('none', 'warn', 'block')), -- 撮影日と提出日の不一致
 
   constraint username_length check (char_length(display_name) >= 3)
 );
@@ -128,9 +134,25 @@ create table submissions (
   video_size bigint,
   video_hash text,
   file_last_modified timestamp with time zone,
+  video_created_at timestamp with time zone, -- 動画の作成日時（MP4/MOV の mvhd）
+  recording_date_mismatch boolean not null default false, -- 撮影日が提出日と異なる
   created_at timestamp with time zone default timezone('utc'::text, now()) not null
 );
 
+create index idx_submissions_user_video_hash
+  on submissions (user_id, video_hash)
+  where video_hash is not null;
+
+-- 同じ動画（video_hash 一致）の別日への提出の検出
+-- 詳細は supabase/migrations/zzz_video_duplicate_policy.sql を参照
+-- create or replace function check_duplicate_video(p_user_id uuid, p_video_hash text, p_target_date date, p_submission_item_id bigint default null) returns table (...) (SECURITY DEFINER)
+-- CREATE TRIGGER trg_reject_duplicate_video BEFORE INSERT ON submissions FOR EACH ROW EXECUTE FUNCTION reject_duplicate_video();  -- duplicate_video_policy = 'block' のみ
+
+-- 撮影日と提出日の照合
+-- 詳細は supabase/migrations/zzz_video_recording_date.sql・zzz_video_recording_date_server_check.sql を参照
+-- create or replace function recording_date_mismatch_for(p_user_id uuid, p_target_date date, p_video_created_at timestamptz, p_file_last_modified timestamptz) returns boolean
+-- CREATE TRIGGER trg_reject_recording_date_mismatch BEFORE INSERT ON submissions FOR EACH ROW EXECUTE FUNCTION reject_recording_date_mismatch();  -- recording_date_mismatch をサーバーで判定し、recording_date_policy = 'block' なら拒否
+
 alter table submissions enable row level security;
 
 create policy "Submissions are viewable by everyone." on submissions
@@ -195,16 +217,21 @@ create policy "Users can view their own submission rules." on submission_rules
   for select using (auth.uid() = user_id);
 
 
--- 7. admin_comments
+-- 7. admin_comments（投稿ごとのトレーナーとクライアントのメッセージのスレッド）
+-- 投稿者（submissions.user_id）と同じ user_id のメッセージ = クライアント、それ以外 = トレーナー
+-- read_at は相手側が読んだ時刻（メッセージごと）
 create table admin_comments (
   id uuid default gen_random_uuid() primary key,
-  submission_id bigint not null unique references submissions(id) on delete cascade,
+  submission_id bigint not null references submissions(id) on delete cascade,
   user_id uuid references profiles(id) on delete cascade not null,
   content text,
   read_at timestamp with time zone,
   created_at timestamp with time zone default timezone('utc'::text, now()) not null
 );
 
+create index admin_comments_submission_id_created_at_idx
+  on admin_comments (submission_id, created_at);
+
 alter table admin_comments enable row level security;
 
 create policy "Comment visible to author or submission owner." on admin_comments
@@ -226,15 +253,24 @@ create policy "Admins can manage admin comments." on admin_comments
     )
   );
 
-create policy "Users can update comments on their own submissions." on admin_comments
-  for update using (
-    exists (
+create policy "Clients can post comments on their own submissions." on admin_comments
+  for insert with check (
+    auth.uid() = user_id
+    and exists (
       select 1 from submissions
       where submissions.id = submission_id
       and submissions.user_id = auth.uid()
     )
   );
 
+create policy "Users can delete their own comments." on admin_comments
+  for delete using (auth.uid() = user_id);
+
+-- 既読の更新は RPC のみ（トレーナーのメッセージを書き換えられないように）
+-- 詳細は supabase/migrations/submission_comment_threads.sql を参照
+-- create or replace function mark_submission_comments_read(p_submission_id bigint) returns integer (SECURITY DEFINER)
+-- create or replace function get_unread_comment_counts() returns table (user_id uuid, unread_count integer) (SECURITY DEFINER)
+
 
 -- 8. gamification_setting_versions
 create table gamification_setting_versions (
@@ -248,6 +284,8 @@ create table gamification_setting_versions (
   allow_late boolean not null default true,
   use_target_days boolean not null default true,
   custom_required_days integer not null default 7,
+  week_starts_on smallint not null default 1 check (week_starts_on in (0, 1)), -- 週の開始曜日（0=日曜, 1=月曜）
+  shield_max_stock integer not null default 3 check (shield_max_stock between 1 and 99), -- シールドの所持上限
   effective_from date not null default current_date,
   effective_to date default null,
   created_at timestamp with time zone default now() not null,
@@ -290,7 +328,9 @@ create or replace function save_gamification_version(
   p_allow_revival boolean default false,
   p_allow_late boolean default true,
   p_use_target_days boolean default true,
-  p_custom_required_days integer default 7
+  p_custom_required_days integer default 7,
+  p_week_starts_on integer default 1,
+  p_shield_max_stock integer default 3
 ) returns void language plpgsql security definer as $$
 begin
   if p_allow_late then p_allow_revival := true; end if;
@@ -300,12 +340,12 @@ begin
   insert into gamification_setting_versions (
     user_id, condition_type, straight_count,
     allow_shield, allow_revival, allow_late,
-    use_target_days, custom_required_days,
+    use_target_days, custom_required_days, week_starts_on, shield_max_stock,
     effective_from, effective_to
   ) values (
     p_user_id, p_condition_type, p_straight_count,
     p_allow_shield, p_allow_revival, p_allow_late,
-    p_use_target_days, p_custom_required_days,
+    p_use_target_days, p_custom_required_days, p_week_starts_on, p_shield_max_stock,
     current_date, null
   );
 end;
@@ -332,3 +372,230 @@ begin
   where id = p_version_id;
 end;
 $$;
+
+-- RPC: recompute_gamification_stats（profiles の集計値をサーバー側で再計算）
+-- apply_shield / remove_shield も再計算ベースで stock を扱う
+-- 詳細は supabase/migrations/recompute_gamification_stats.sql を参照
+-- create or replace function recompute_gamification_stats(p_user_id uuid) returns table (...) (SECURITY DEFINER)
+
+-- RPC: compute_gamification_stats（指定日時点の集計値。profiles は更新しない）
+-- recompute_gamification_stats はこれを現在時点で呼び出して profiles に反映する
+-- 詳細は supabase/migrations/recompute_gamification_stats_as_of.sql を参照
+-- create or replace function compute_gamification_stats(p_user_id uuid, p_as_of timestamptz default null) returns table (...) (SECURITY DEFINER)
+-- 画面の表示は compute_gamification_stats で読む。提出がないまま週が締まった場合の再計算は pg_cron で毎時実行する
+-- （クライアントのタイムゾーンで0時台のユーザーのみ。supabase/migrations/zzz_gamification_scheduled_recompute.sql）
+-- 週の区切りは日付ごとに有効な week_starts_on で決める（gamification_week_start、supabase/migrations/zz_week_starts_on.sql）
+-- シールド残数は shield_ledger の合計（recompute 時に reconcile_shield_ledger で台帳を突き合わせる。zzz_shield_ledger.sql）
+-- 獲得間隔（straight_count）・所持上限（shield_max_stock）はストレート達成した週の設定で判定する（zzz_shield_max_stock.sql）
+
+
+-- 9. streak_title_awards
+create table streak_title_awards (
+  id bigint generated by default as identity primary key,
+  user_id uuid references profiles(id) on delete cascade not null,
+  days integer not null check (days > 0),
+  awarded_at timestamp with time zone default now() not null,
+  unique (user_id, days)
+);
+
+create index idx_streak_title_awards_user_id
+  on streak_title_awards (user_id);
+
+alter table streak_title_awards enable row level security;
+
+create policy "Users can view own streak title awards." on streak_title_awards
+  for select using (
+    auth.uid() = user_id
+    or exists (
+      select 1 from profiles
+      where profiles.id = auth.uid()
+      and profiles.role = 'admin'
+    )
+  );
+
+create policy "Users can insert own streak title awards." on streak_title_awards
+  for insert with check (auth.uid() = user_id);
+
+create policy "Admins can manage streak title awards." on streak_title_awards
+  for all using (
+    exists (
+      select 1 from profiles
+      where profiles.id = auth.uid()
+      and profiles.role = 'admin'
+    )
+  );
+
+
+-- 10. shield_ledger（シールドの獲得・使用の台帳。残数は delta の合計）
+-- recompute_gamification_stats が reconcile_shield_ledger で追記する（追記のみ）
+-- 詳細は supabase/migrations/zzz_shield_ledger.sql を参照
+create table shield_ledger (
+  id bigint generated by default as identity primary key,
+  user_id uuid references profiles(id) on delete cascade not null,
+  entry_type text check (entry_type in ('grant', 'revoke', 'consume', 'refund', 'forfeit')) not null,
+  delta integer not null, -- forfeit（所持上限による獲得見送り）のみ 0
+  period_type text check (period_type in ('straight', 'month')), -- grant / revoke: 獲得の元になった週・月
+  period_start date,
+  version_id bigint references gamification_setting_versions(id) on delete set null, -- grant / forfeit: 獲得元の週に有効だった設定
+  target_date date, -- consume / refund: シールドを適用・解除した日
+  reverses_id bigint references shield_ledger(id) on delete cascade, -- revoke / refund: 取り消した grant / consume
+  created_at timestamp with time zone default now() not null,
+  constraint shield_ledger_delta_check check (delta in (1, -1) or (entry_type = 'forfeit' and delta = 0))
+);
+
+create index idx_shield_ledger_user_created
+  on shield_ledger (user_id, created_at);
+
+create unique index idx_shield_ledger_reverses
+  on shield_ledger (reverses_id)
+  where reverses_id is not null;
+
+alter table shield_ledger enable row level security;
+
+create policy "Users can view own shield ledger." on shield_ledger
+  for select using (
+    auth.uid() = user_id
+    or exists (
+      select 1 from profiles
+      where profiles.id = auth.uid()
+      and profiles.role = 'admin'
+    )
+  );
+
+
+-- 11. gamification_goals（カスタム目標の定義。進捗はフロントエンドで計算）
+-- 詳細は supabase/migrations/gamification_goals.sql を参照
+create table gamification_goals (
+  id bigint generated by default as identity primary key,
+  user_id uuid references profiles(id) on delete cascade not null,
+  title text not null check (char_length(title) between 1 and 50),
+  goal_type text check (goal_type in ('monthly_reps', 'monthly_days', 'late_free_weeks')) not null,
+  target integer not null check (target > 0),
+  reward text,
+  effective_from date not null default current_date,
+  effective_to date default null,
+  created_at timestamp with time zone default now() not null,
+  constraint chk_gamification_goals_effective_range
+    check (effective_to is null or effective_to >= effective_from)
+);
+
+create index idx_gamification_goals_user_id
+  on gamification_goals (user_id);
+
+alter table gamification_goals enable row level security;
+
+create policy "Users can view own gamification goals." on gamification_goals
+  for select using (
+    auth.uid() = user_id
+    or exists (
+      select 1 from profiles
+      where profiles.id = auth.uid()
+      and profiles.role = 'admin'
+    )
+  );
+
+create policy "Admins can manage gamification goals." on gamification_goals
+  for all using (
+    exists (
+      select 1 from profiles
+      where profiles.id = auth.uid()
+      and profiles.role = 'admin'
+    )
+  );
+
+
+-- 12. gamification_goal_completions（カスタム目標の達成履歴）
+create table gamification_goal_completions (
+  id bigint generated by default as identity primary key,
+  goal_id bigint references gamification_goals(id) on delete cascade not null,
+  user_id uuid references profiles(id) on delete cascade not null,
+  period_key text not null, -- 月間目標: 'yyyy-MM'、連続週目標: 達成した週の開始日
+  completed_at timestamp with time zone default now() not null,
+  unique (goal_id, period_key)
+);
+
+create index idx_gamification_goal_completions_user_id
+  on gamification_goal_completions (user_id);
+
+alter table gamification_goal_completions enable row level security;
+
+create policy "Users can view own goal completions." on gamification_goal_completions
+  for select using (
+    auth.uid() = user_id
+    or exists (
+      select 1 from profiles
+      where profiles.id = auth.uid()
+      and profiles.role = 'admin'
+    )
+  );
+
+create policy "Users can insert own goal completions." on gamification_goal_completions
+  for insert with check (
+    auth.uid() = user_id
+    and exists (
+      select 1 from gamification_goals
+      where gamification_goals.id = goal_id
+      and gamification_goals.user_id = auth.uid()
+    )
+  );
+
+create policy "Admins can manage goal completions." on gamification_goal_completions
+  for all using (
+    exists (
+      select 1 from profiles
+      where profiles.id = auth.uid()
+      and profiles.role = 'admin'
+    )
+  );
+
+
+-- 13. video_annotations（動画の再生位置に紐づくトレーナーのメモ）
+-- time_seconds: 動画の先頭からの秒数
+create table video_annotations (
+  id uuid default gen_random_uuid() primary key,
+  submission_id bigint references submissions(id) on delete cascade not null,
+  user_id uuid references auth.users(id) on delete cascade not null,
+  time_seconds double precision not null check (time_seconds >= 0),
+  content text not null check (char_length(content) between 1 and 500),
+  created_at timestamp with time zone default now() not null
+);
+
+create index idx_video_annotations_submission_id
+  on video_annotations (submission_id, time_seconds);
+
+alter table video_annotations enable row level security;
+
+create policy video_annotations_select on video_annotations
+  for select using (
+    exists (
+      select 1 from submissions
+      where submissions.id = video_annotations.submission_id
+      and submissions.user_id = auth.uid()
+    )
+    or exists (
+      select 1 from profiles
+      where profiles.id = auth.uid()
+      and profiles.role = 'admin'
+    )
+  );
+
+create policy video_annotations_insert on video_annotations
+  for insert with check (
+    auth.uid() = user_id
+    and exists (
+      select 1 from profiles
+      where profiles.id = auth.uid()
+      and profiles.role = 'admin'
+    )
+  );
+
+create policy video_annotations_delete on video_annotations
+  for delete using (
+    exists (
+      select 1 from profiles
+      where profiles.id = auth.uid()
+      and profiles.role = 'admin'
+    )
+  );
+
+-- Realtime 配信の登録は supabase/migrations/video_annotations.sql を参照
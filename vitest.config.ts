@@ -0,0 +1,17 @@
+import path from "path"
+import { defineConfig } from "vitest/config"
+
+// 日付計算はローカルタイムゾーンに依存するため、アプリの想定（日本時間）に固定する
+process.env.TZ = "Asia/Tokyo"
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": path.resolve(__dirname, "./src"),
+    },
+  },
+  test: {
+    environment: "node",
+    include: ["src/**/*.test.ts"],
+  },
+})